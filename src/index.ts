@@ -12,17 +12,117 @@
 export { Mint } from './mint';
 export { KeyChain } from './wallet/KeyChain';
 export { Keyset } from './wallet/Keyset';
+export {
+  resolveLnurlPay,
+  requestLnurlInvoice,
+  type LnurlPayRequest,
+  type LnurlPayInvoice,
+} from './wallet/LightningAddress';
+export {
+  transferBetweenMints,
+  resumeMintTransfer,
+  type MintTransferStage,
+  type MintTransferState,
+  type MintTransferOptions,
+  type MintTransferResult,
+} from './wallet/MintTransfer';
+export {
+  meltMultiPath,
+  type MultiPathMeltOptions,
+  type MultiPathMeltPart,
+  type MultiPathMeltResult,
+} from './wallet/MultiPathMelt';
+export {
+  createPayingFetch,
+  NUT24_HEADER,
+  type PayingFetchPolicy,
+  type PayingFetchPayment,
+} from './wallet/PayingFetch';
+export {
+  createPaywall,
+  toNodeHandler,
+  type PaywallHandler,
+  type PaywallOptions,
+  type PaywallPayment,
+  type NodeRequestLike,
+  type NodeResponseLike,
+} from './wallet/Paywall';
+export {
+  MemoryOperationJournal,
+  FileOperationJournal,
+  createMemoryOperationJournal,
+  createFileOperationJournal,
+  serializeMintPreview,
+  deserializeMintPreview,
+  serializeMeltPreview,
+  deserializeMeltPreview,
+  type OperationJournal,
+  type JournalOperationKind,
+  type JournalEntry,
+  type JournalEntryBase,
+  type SerializedMintPreview,
+  type SerializedMeltPreview,
+  type SerializedOperationJournal,
+} from './wallet/OperationJournal';
 export { P2PKBuilder } from './wallet/P2PKBuilder';
+export {
+  MemoryProofStore,
+  FileProofStore,
+  createMemoryProofStore,
+  createFileProofStore,
+  type ProofStore,
+  type ProofStoreState,
+  type ProofStoreFilter,
+  type StoredProof,
+  type SerializedProofStore,
+} from './wallet/ProofStore';
+export {
+  ProofReconciler,
+  type ProofReconcilerOptions,
+  type ProofReconcilerEvents,
+  type ProofSweepResult,
+} from './wallet/ProofReconciler';
 export { type SelectProofs, selectProofsRGLI, selectProofsRotating } from './wallet/SelectProofs';
+export {
+  SpendingPolicy,
+  type SpendingAuthorization,
+  type SpendingLimits,
+  type SpendingPolicyOptions,
+  type SpendingPolicyRule,
+  type SpendingPreview,
+} from './wallet/SpendingPolicy';
 export {
   serializeSwapPreview,
   deserializeSwapPreview,
   type SerializedProof,
   type SerializedSwapPreview,
 } from './wallet/SwapPreview';
+export {
+  MemoryTransactionHistory,
+  FileTransactionHistory,
+  createMemoryTransactionHistory,
+  createFileTransactionHistory,
+  serializeHistoryEntry,
+  deserializeHistoryEntry,
+  historyToCsv,
+  historyToJson,
+  exportHistory,
+  type TransactionHistory,
+  type HistoryEntryType,
+  type HistoryEntry,
+  type HistoryQuery,
+  type HistoryPage,
+  type SerializedHistoryEntry,
+  type SerializedTransactionHistory,
+} from './wallet/TransactionHistory';
 export { Wallet } from './wallet/Wallet';
 export { WalletCounters } from './wallet/WalletCounters';
 export { WalletEvents } from './wallet/WalletEvents';
+export {
+  WalletManager,
+  type WalletManagerOptions,
+  type PaymentRequestMintSelection,
+} from './wallet/WalletManager';
 export {
   type MintMethod,
   type MintQuoteFor,
@@ -50,8 +150,18 @@ export {
 
 // Wallet/Mint types used in the public API surface
 export type { CounterRange, CounterSource, OperationCounters } from './wallet/CounterSource';
-export { createEphemeralCounterSource } from './wallet/CounterSource';
-export type { SubscribeOpts, CancellerLike, SubscriptionCanceller } from './wallet/WalletEvents';
+export type { KeyValueStore } from './wallet/CounterSource';
+export {
+  createEphemeralCounterSource,
+  createFileCounterSource,
+  createKeyValueCounterSource,
+} from './wallet/CounterSource';
+export type {
+  SubscribeOpts,
+  CancellerLike,
+  SubscriptionCanceller,
+  WalletEventsOptions,
+} from './wallet/WalletEvents';
 export type * from './wallet/types/config';
 export type * from './wallet/types/payloads';
 export type * from './wallet/types/responses';
@@ -81,6 +191,46 @@ export * from './crypto';
 // Core Utils
 export * from './utils/core';
 export { JSONInt, type JSONIntApi } from './utils/JSONInt';
+export {
+  decodeBolt11,
+  isBolt11Preimage,
+  type Bolt11Fallback,
+  type Bolt11RouteHop,
+  type DecodedBolt11,
+} from './utils/bolt11';
+export {
+  decodeBolt12,
+  bolt12AmountMsat,
+  type Bolt12BlindedPath,
+  type Bolt12Invoice,
+  type Bolt12InvoiceRequest,
+  type Bolt12Offer,
+  type DecodedBolt12,
+} from './utils/bolt12';
+export {
+  assertBitcoinAddress,
+  decodeBitcoinAddress,
+  parseBip21,
+  type Bip21Uri,
+  type BitcoinAddressPolicy,
+  type BitcoinNetwork,
+  type BitcoinScriptType,
+  type DecodedBitcoinAddress,
+} from './utils/bitcoin';
+export { lnurlPayUrl } from './utils/lnurl';
+export {
+  parsePaymentPayload,
+  type PaymentOperation,
+  type PaymentPayload,
+  type PaymentTarget,
+} from './utils/paymentPayload';
+export type { FileSystemLike, FileLockOptions, LockingFileSystemLike } from './utils/fileStore';
+export {
+  AnimatedQREncoder,
+  AnimatedQRDecoder,
+  type AnimatedQRPayload,
+  type AnimatedQREncoderOptions,
+} from './utils/animatedQr';
 
 // Payment request facade (tests rely on these at top level)
 export {
@@ -104,12 +254,15 @@ export type {
 export { type LogLevel, ConsoleLogger, type Logger } from './logger';
 export {
   CTSError,
+  InvalidPreimageError,
   isMintOperationError,
   MeltChangeError,
   MintOperationError,
   NetworkError,
   HttpResponseError,
+  ProofStateConflictError,
   RateLimitError,
+  SpendingPolicyError,
   StaleKeysetError,
   UnknownKeysetError,
 } from './model/Errors';
@@ -126,13 +279,30 @@ export { OutputData } from './model/OutputData';
 export type { OutputDataLike, OutputDataFactory, SerializedOutputData } from './model/OutputData';
 export type { OutputDataCreator } from './model/OutputDataCreator';
 export { MintInfo } from './model/MintInfo';
-export { WSConnection, injectWebSocketImpl, setGlobalRequestOptions } from './transport';
+export {
+  CircuitOpenError,
+  MintHealthTracker,
+  WSConnection,
+  injectWebSocketImpl,
+  setGlobalRequestOptions,
+} from './transport';
 export type {
+  ApiError,
+  CircuitState,
+  MintHealth,
+  MintHealthOptions,
   RequestFn,
   RequestFetch,
   RequestArgs,
+  RequestContext,
+  RequestMiddleware,
   RequestOptions,
   ResponseMeta,
+  WSConnectionOptions,
+  WSConnectionState,
+  WSConnectionStateEvent,
+  WSHeartbeatOptions,
+  WSReconnectOptions,
 } from './transport';
 export {
   SigAll,
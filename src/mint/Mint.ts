@@ -46,8 +46,10 @@ import request, {
   setRequestLogger,
   type RequestFn,
   type RequestFetch,
+  type RequestMiddleware,
   type RequestOptions,
   type ResponseMeta,
+  type WSConnectionOptions,
 } from '../transport';
 import {
   isObj,
@@ -79,6 +81,8 @@ class Mint {
   private _logger: Logger;
   private _mintInfo?: MintInfo;
   private _authProvider?: AuthProvider;
+  private _middleware: RequestMiddleware[];
+  private _webSocketOptions?: WSConnectionOptions;
   private _lastResponseMetadata: ResponseMeta | undefined = undefined;
   private readonly _captureResponseMetadata = (meta: ResponseMeta): void => {
     this._lastResponseMetadata = meta;
@@ -92,6 +96,9 @@ class Mint {
    *   Ignored when `customRequest` is supplied.
    * @param authTokenGetter Optional. Function to obtain a NUT-22 BlindedAuthToken (e.g. from a
    *   database or localstorage)
+   * @param middleware Optional {@link RequestMiddleware} for every request to this mint. Runs after
+   *   global middleware. A `customRequest` receives it in its options.
+   * @param webSocket Optional reconnect and heartbeat behaviour of the NUT-17 WebSocket.
    */
   constructor(
     mintUrl: string,
@@ -100,6 +107,8 @@ class Mint {
       requestFetch?: RequestFetch;
       authProvider?: AuthProvider;
       logger?: Logger;
+      middleware?: RequestMiddleware[];
+      webSocket?: WSConnectionOptions;
     },
   ) {
     this._mintUrl = normalizeMintUrl(mintUrl);
@@ -113,6 +122,8 @@ class Mint {
       this._request = request;
     }
     this._authProvider = options?.authProvider;
+    this._middleware = [...(options?.middleware ?? [])];
+    this._webSocketOptions = options?.webSocket;
     this._logger = options?.logger ?? NULL_LOGGER;
     setRequestLogger(this._logger);
   }
@@ -121,6 +132,15 @@ class Mint {
     return this._mintUrl;
   }
 
+  /**
+   * The request function this mint sends with: its `customRequest`, or the default pipeline over
+   * its `requestFetch`. Use it to reach other services over the same transport, eg: a proxy or
+   * Tor.
+   */
+  get requestFn(): RequestFn {
+    return this._request;
+  }
+
   /**
    * Metadata from the most recent HTTP response, including rate-limit headers.
    *
@@ -135,6 +155,18 @@ class Mint {
     return this._lastResponseMetadata;
   }
 
+  /**
+   * Adds middleware to every later request to this mint, after any already registered.
+   *
+   * @returns A function that removes it again.
+   */
+  use(middleware: RequestMiddleware): () => void {
+    this._middleware = [...this._middleware, middleware];
+    return () => {
+      this._middleware = this._middleware.filter((m) => m !== middleware);
+    };
+  }
+
   /**
    * Create an OIDC client using this mint’s NUT-21 metadata.
    *
@@ -170,6 +202,7 @@ class Mint {
     const response = await requestInstance<GetInfoResponse>({
       endpoint: joinUrls(this._mintUrl, '/v1/info'),
       onResponseMeta: this._captureResponseMetadata,
+      middleware: this._middleware,
     });
     return MintInfo.normalizeInfo(response);
   }
@@ -990,6 +1023,7 @@ class Mint {
         ? joinUrls(targetUrl, '/v1/keys', keysetId)
         : joinUrls(targetUrl, '/v1/keys'),
       onResponseMeta: this._captureResponseMetadata,
+      middleware: this._middleware,
     });
 
     if (!isObj(data) || !Array.isArray(data.keysets)) {
@@ -1014,6 +1048,7 @@ class Mint {
     const data = await requestInstance<GetKeysetsResponse>({
       endpoint: joinUrls(this._mintUrl, '/v1/keysets'),
       onResponseMeta: this._captureResponseMetadata,
+      middleware: this._middleware,
     });
     if (!isObj(data) || !Array.isArray(data.keysets)) {
       this._logger.error('Invalid response from mint...', { data, op: 'getKeySets' });
@@ -1043,6 +1078,7 @@ class Mint {
       requestBody: restorePayload,
       idempotent: true,
       onResponseMeta: this._captureResponseMetadata,
+      middleware: this._middleware,
     });
 
     if (!isObj(data) || !Array.isArray(data?.outputs) || !Array.isArray(data?.signatures)) {
@@ -1074,18 +1110,21 @@ class Mint {
       const wsUrl = mintUrl.toString();
 
       if (!this.ws) {
-        this.ws = new WSConnection(wsUrl, this._logger);
+        this.ws = new WSConnection(wsUrl, this._logger, this._webSocketOptions);
       }
 
       await this.ws.ensureConnection();
     } catch (e) {
       this._logger.error('Failed to connect to WebSocket...', { e });
-      try {
-        this.ws?.close();
-      } catch {
-        // silence
+      // A reconnecting socket keeps trying, and keeps its subscriptions
+      if (this.ws?.state !== 'reconnecting') {
+        try {
+          this.ws?.close();
+        } catch {
+          // silence
+        }
+        this.ws = undefined;
       }
-      this.ws = undefined;
       throw new CTSError('Failed to connect to WebSocket...', { cause: e });
     }
   }
@@ -1181,6 +1220,7 @@ class Mint {
       ...(bat || cat ? { redirect: 'error' as const } : {}),
       ...(nut19?.supported && nut19.params ? nut19.params : {}),
       onResponseMeta: this._captureResponseMetadata,
+      middleware: this._middleware,
     });
   }
 
@@ -1,5 +1,8 @@
+import type { SpendingPolicyRule, SpendingPreview } from '../wallet/SpendingPolicy';
+
 import type { OutputDataLike } from './OutputData';
 import type { MeltQuoteBaseResponse } from './types/NUT05';
+import type { Proof } from './types/proof';
 
 /**
  * Base error for errors raised by cashu-ts itself.
@@ -112,6 +115,29 @@ export class MeltChangeError extends CTSError {
   }
 }
 
+/**
+ * Thrown when a mint reports a bolt11 melt paid with a preimage that does not hash to the invoice's
+ * payment hash.
+ *
+ * @remarks
+ * The inputs are spent, so the mint claims the payment went out but cannot prove it. `change` holds
+ * the change proofs, already stored if the wallet has a proof store. Keep the quote as evidence.
+ */
+export class InvalidPreimageError extends CTSError {
+  /**
+   * The melt quote, merged from the preview and the mint's response.
+   */
+  readonly quote: MeltQuoteBaseResponse;
+  readonly change: Proof[];
+  constructor(quote: MeltQuoteBaseResponse, change: Proof[]) {
+    super('Mint reported the melt paid, but the preimage does not match the invoice payment hash');
+    this.quote = quote;
+    this.change = change;
+    this.name = 'InvalidPreimageError';
+    Object.setPrototypeOf(this, InvalidPreimageError.prototype);
+  }
+}
+
 /**
  * Thrown when the mint rejects a keyset the wallet's snapshot considers current.
  *
@@ -138,6 +164,49 @@ export class StaleKeysetError extends CTSError {
   }
 }
 
+/**
+ * Thrown when a proof store transition finds proofs in an unexpected state.
+ *
+ * @remarks
+ * Usually means another operation reserved or spent the proofs first. Nothing was changed: reload
+ * spendable proofs from the store and prepare the operation again.
+ */
+export class ProofStateConflictError extends CTSError {
+  /**
+   * Secrets of the proofs whose stored state did not allow the transition.
+   */
+  readonly secrets: string[];
+  /**
+   * The state the transition was moving to.
+   */
+  readonly to: string;
+  constructor(secrets: string[], to: string) {
+    super(`Cannot mark ${secrets.length} proof(s) ${to}: stored state does not allow it`);
+    this.secrets = secrets;
+    this.to = to;
+    this.name = 'ProofStateConflictError';
+    Object.setPrototypeOf(this, ProofStateConflictError.prototype);
+  }
+}
+
+/**
+ * Thrown when a `SpendingPolicy` refuses an operation. Nothing was sent to the mint.
+ */
+export class SpendingPolicyError extends CTSError {
+  /**
+   * The refused operation.
+   */
+  readonly preview: SpendingPreview;
+  readonly rule: SpendingPolicyRule;
+  constructor(message: string, preview: SpendingPreview, rule: SpendingPolicyRule) {
+    super(message);
+    this.preview = preview;
+    this.rule = rule;
+    this.name = 'SpendingPolicyError';
+    Object.setPrototypeOf(this, SpendingPolicyError.prototype);
+  }
+}
+
 /**
  * This error is thrown when the server responds with 429 Too Many Requests. `retryAfterMs` is the
  * parsed `Retry-After` header in milliseconds, or `undefined` when the header is absent or
@@ -182,3 +251,41 @@ export function isMintOperationError(e: unknown): e is MintOperationError {
     (e instanceof Error && e.name === 'MintOperationError' && 'code' in e)
   );
 }
+
+// NUT-00 "Proofs are already spent"
+const PROOFS_ALREADY_SPENT_CODE = 11001;
+
+// NUT-00 codes that refuse a swap or melt without spending its inputs. Others, eg: 20005 (quote
+// pending) or a code the wallet does not know, leave the outcome unknown.
+const INPUTS_REFUSED_CODES = new Set([
+  10002, // Blinded message of output already signed
+  10003, // Proof could not be verified
+  11002, // Transaction is not balanced
+  11005, // Unit not supported
+  11006, // Amount outside of limits
+  11007, // Duplicate inputs
+  11008, // Duplicate outputs
+  11009, // Inputs or outputs of multiple units
+  11010, // Inputs and outputs not of the same unit
+  11011, // Amountless invoice not supported
+  11012, // Amount does not match the invoice
+  12001, // Keyset unknown
+  12002, // Keyset inactive
+  20004, // Lightning payment failed
+  20006, // Invoice already paid
+  20007, // Quote expired
+]);
+
+/**
+ * Where the inputs of a failed swap or melt stand, from the mint's error: `spent` (11001),
+ * `unspent` when the code shows the mint refused the request, or undefined when the outcome is
+ * unknown.
+ *
+ * @internal
+ */
+export function failedInputsState(e: unknown): 'spent' | 'unspent' | undefined {
+  const cause = e instanceof StaleKeysetError ? e.cause : e;
+  if (!isMintOperationError(cause)) return undefined;
+  if (cause.code === PROOFS_ALREADY_SPENT_CODE) return 'spent';
+  return INPUTS_REFUSED_CODES.has(cause.code) ? 'unspent' : undefined;
+}
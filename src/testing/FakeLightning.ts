@@ -0,0 +1,444 @@
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bech32 } from '@scure/base';
+
+import { Amount } from '../model/Amount';
+import { CTSError } from '../model/Errors';
+import { Bytes } from '../utils';
+
+/**
+ * Result of an outgoing payment: settled, refused, or in flight until {@link FakeLightning.settle}.
+ */
+export type PaymentOutcome = 'paid' | 'failed' | 'pending';
+
+/**
+ * Kind of payment request issued by {@link FakeLightning}.
+ */
+export type PaymentRequestKind = 'bolt11' | 'bolt12' | 'onchain';
+
+/**
+ * Options for {@link FakeLightning}.
+ */
+export type FakeLightningOptions = {
+  /**
+   * Seed for the node key, payment hashes and addresses. Default: 32 zero bytes.
+   */
+  seed?: Uint8Array;
+  /**
+   * Outcome of outgoing payments without a {@link FakeLightning.setOutcome} override. Default
+   * 'paid'.
+   */
+  outgoing?: PaymentOutcome;
+  /**
+   * Pay every BOLT11 invoice with an amount as soon as it is created. Default false.
+   */
+  autoPay?: boolean;
+  /**
+   * Bech32 network prefix: 'bc', 'tb' or 'bcrt'. Default 'bc'.
+   */
+  network?: string;
+  /**
+   * Seconds until a new invoice expires. Default 3600.
+   */
+  invoiceExpiry?: number;
+  /**
+   * Clock in milliseconds. Default `Date.now`.
+   */
+  now?: () => number;
+  /**
+   * Network shared with other nodes: paying one of their requests reveals its preimage, as on the
+   * real network. Default: a network of its own.
+   */
+  paymentNetwork?: FakeLightningNetwork;
+};
+
+/**
+ * Options for a payment request created with {@link FakeLightning}.
+ */
+export type PaymentRequestOptions = {
+  description?: string;
+  /**
+   * Hex SHA-256 to commit to in place of the description, as LNURL-pay invoices do. BOLT11 only.
+   */
+  descriptionHash?: string;
+  /**
+   * Called with the amount (sat) each time the request is paid.
+   */
+  onPaid?: (amount: bigint) => void;
+};
+
+/**
+ * A payment request known to {@link FakeLightning}.
+ */
+export type FakePaymentRequest = {
+  kind: PaymentRequestKind;
+  /**
+   * Amount in sat, or null when the payer chooses.
+   */
+  amount: bigint | null;
+  /**
+   * Total received so far, in sat.
+   */
+  received: bigint;
+  /**
+   * Unix seconds after which the request can no longer be paid, or null.
+   */
+  expiry: number | null;
+  preimage: string;
+};
+
+type IncomingEntry = {
+  kind: PaymentRequestKind;
+  amount: bigint | null;
+  received: bigint;
+  expiry: number | null;
+  preimage: string;
+  onPaid?: (amount: bigint) => void;
+};
+
+type PendingEntry = {
+  amount: bigint;
+  onSettle: (outcome: 'paid' | 'failed', preimage: string) => void;
+};
+
+// Bech32 alphabet; a tagged field's type is the index of its letter.
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+/**
+ * The {@link FakeLightning} nodes that can see each other's payment requests.
+ *
+ * @example
+ *
+ *     const network = new FakeLightningNetwork();
+ *     const payee = new FakeLightning({ paymentNetwork: network });
+ *     const mint = new TestMint(url, {
+ *       lightning: new FakeLightning({ paymentNetwork: network }),
+ *     });
+ */
+export class FakeLightningNetwork {
+  /**
+   * Nodes on the network, in the order they joined.
+   */
+  readonly nodes: FakeLightning[] = [];
+}
+
+/**
+ * An in-memory payment network for {@link TestMint}.
+ *
+ * @remarks
+ * Issues BOLT11 invoices, BOLT12 offers and on-chain addresses that decode like real ones: invoices
+ * are signed by a node key derived from the seed. Incoming payments are made with `pay()`; outgoing
+ * payments (melts) follow `outgoing`, per request overrides from `setOutcome()`, and stay in flight
+ * until `settle()` when the outcome is 'pending'. An outgoing payment to a request issued here
+ * credits it, so two mints on one network can pay each other.
+ * @example
+ *
+ *     const lightning = new FakeLightning();
+ *     const invoice = lightning.createInvoice(100);
+ *     lightning.setOutcome(invoice, 'failed');
+ */
+export class FakeLightning {
+  /**
+   * Outcome of outgoing payments without an override.
+   */
+  outgoing: PaymentOutcome;
+  /**
+   * Pay BOLT11 invoices with an amount as soon as they are created.
+   */
+  autoPay: boolean;
+  readonly network: string;
+  /**
+   * Network this node is on. Pass it to other nodes so they can pay each other.
+   */
+  readonly paymentNetwork: FakeLightningNetwork;
+  private readonly seed: Uint8Array;
+  private readonly nodeKey: Uint8Array;
+  private readonly invoiceExpiry: number;
+  private readonly now: () => number;
+  private readonly incoming = new Map<string, IncomingEntry>();
+  private readonly pending = new Map<string, PendingEntry>();
+  private readonly outcomes = new Map<string, PaymentOutcome>();
+  private counter = 0;
+
+  constructor(options: FakeLightningOptions = {}) {
+    this.seed = options.seed ?? new Uint8Array(32);
+    this.nodeKey = this.derive('node');
+    this.outgoing = options.outgoing ?? 'paid';
+    this.autoPay = options.autoPay ?? false;
+    this.network = options.network ?? 'bc';
+    this.invoiceExpiry = options.invoiceExpiry ?? 3600;
+    this.now = options.now ?? Date.now;
+    this.paymentNetwork = options.paymentNetwork ?? new FakeLightningNetwork();
+    this.paymentNetwork.nodes.push(this);
+  }
+
+  /**
+   * Compressed public key of the node signing invoices, as hex.
+   */
+  get nodeId(): string {
+    return Bytes.toHex(secp256k1.getPublicKey(this.nodeKey, true));
+  }
+
+  /**
+   * Creates a signed BOLT11 invoice.
+   *
+   * @param amount Amount in sat, or null for an amountless invoice.
+   */
+  createInvoice(amount: number | bigint | null, options: PaymentRequestOptions = {}): string {
+    const sat = amount === null ? null : Amount.from(amount).toBigInt();
+    const preimage = this.derive('preimage');
+    const timestamp = this.seconds();
+    const hrp = `ln${this.network}${sat === null ? '' : `${sat * 10n}n`}`;
+    const data = [
+      ...intToWords(timestamp, 7),
+      ...taggedField('p', bech32.toWords(sha256(preimage))),
+      ...taggedField('s', bech32.toWords(this.derive('secret'))),
+      ...(options.descriptionHash
+        ? taggedField('h', bech32.toWords(Bytes.fromHex(options.descriptionHash)))
+        : taggedField('d', bech32.toWords(Bytes.fromString(options.description ?? '')))),
+      ...taggedField('x', intToWords(this.invoiceExpiry)),
+      ...taggedField('c', intToWords(18)),
+    ];
+    const digest = sha256(Bytes.concat(Bytes.fromString(hrp), wordsToBytes(data)));
+    // noble's recovered format is recovery || r || s; BOLT11 wants r || s || recovery
+    const sig = secp256k1.sign(digest, this.nodeKey, { prehash: false, format: 'recovered' });
+    const signature = Bytes.concat(sig.slice(1), sig.slice(0, 1));
+    const invoice = bech32.encode(hrp, [...data, ...bech32.toWords(signature)], false);
+    this.register(invoice, 'bolt11', sat, timestamp + this.invoiceExpiry, preimage, options);
+    if (this.autoPay && sat !== null) this.pay(invoice);
+    return invoice;
+  }
+
+  /**
+   * Creates a reusable BOLT12 offer.
+   *
+   * @param amount Amount in sat per payment, or null when the payer chooses.
+   */
+  createOffer(amount: number | bigint | null, options: PaymentRequestOptions = {}): string {
+    const sat = amount === null ? null : Amount.from(amount).toBigInt();
+    const tlv = [
+      tlvRecord(4, this.derive('metadata').slice(0, 16)),
+      ...(sat === null ? [] : [tlvRecord(8, bigIntToBytes(sat * 1000n))]),
+      tlvRecord(10, Bytes.fromString(options.description ?? '')),
+      tlvRecord(22, secp256k1.getPublicKey(this.nodeKey, true)),
+    ];
+    // BOLT12 strings are bech32 without a checksum
+    const words = bech32.toWords(Bytes.concat(...tlv));
+    const offer = 'lno1' + words.map((w) => CHARSET[w]).join('');
+    this.register(offer, 'bolt12', sat, null, Bytes.toHex(this.derive('preimage')), options);
+    return offer;
+  }
+
+  /**
+   * Creates a reusable P2WPKH address.
+   */
+  createAddress(options: PaymentRequestOptions = {}): string {
+    const program = this.derive('address').slice(0, 20);
+    const address = bech32.encode(this.network, [0, ...bech32.toWords(program)]);
+    this.register(address, 'onchain', null, null, Bytes.toHex(this.derive('preimage')), options);
+    return address;
+  }
+
+  /**
+   * Looks up a request issued here.
+   *
+   * @returns The request's state, or undefined for foreign requests.
+   */
+  lookup(request: string): FakePaymentRequest | undefined {
+    const entry = this.incoming.get(request);
+    if (!entry) return undefined;
+    return {
+      kind: entry.kind,
+      amount: entry.amount,
+      received: entry.received,
+      expiry: entry.expiry,
+      preimage: entry.preimage,
+    };
+  }
+
+  /**
+   * Pays a request issued here from outside the network.
+   *
+   * @param request Invoice, offer or address.
+   * @param amount Amount in sat. Required when the request has none; must match when it has one.
+   * @throws If the request is unknown, expired, already paid (BOLT11) or the amount is wrong.
+   */
+  pay(request: string, amount?: number | bigint): void {
+    const entry = this.incoming.get(request);
+    if (!entry) {
+      throw new CTSError('FakeLightning: unknown payment request');
+    }
+    const sat = amount === undefined ? entry.amount : Amount.from(amount).toBigInt();
+    if (sat === null || sat <= 0n) {
+      throw new CTSError('FakeLightning: amount required');
+    }
+    if (entry.amount !== null && sat !== entry.amount) {
+      throw new CTSError(`FakeLightning: request is for ${entry.amount}, not ${sat}`);
+    }
+    if (entry.kind === 'bolt11' && entry.received > 0n) {
+      throw new CTSError('FakeLightning: invoice already paid');
+    }
+    if (entry.expiry !== null && entry.expiry < this.seconds()) {
+      throw new CTSError('FakeLightning: invoice expired');
+    }
+    entry.received += sat;
+    entry.onPaid?.(sat);
+  }
+
+  /**
+   * Sets the outcome of outgoing payments to one request, overriding `outgoing`.
+   */
+  setOutcome(request: string, outcome: PaymentOutcome): void {
+    this.outcomes.set(request, outcome);
+  }
+
+  /**
+   * Requests with an outgoing payment in flight.
+   */
+  pendingPayments(): string[] {
+    return [...this.pending.keys()];
+  }
+
+  /**
+   * Completes an outgoing payment left 'pending'.
+   *
+   * @throws If no payment to the request is in flight, or a successful payment cannot be credited.
+   */
+  settle(request: string, outcome: 'paid' | 'failed'): void {
+    const entry = this.pending.get(request);
+    if (!entry) {
+      throw new CTSError('FakeLightning: no pending payment to this request');
+    }
+    this.pending.delete(request);
+    if (outcome === 'paid') {
+      this.credit(request, entry.amount);
+    }
+    entry.onSettle(outcome, this.preimageOf(request));
+  }
+
+  /**
+   * Makes an outgoing payment on behalf of a mint.
+   *
+   * @param request Invoice, offer or address to pay.
+   * @param amount Amount in sat.
+   * @param onSettle Called when a 'pending' payment is settled.
+   * @returns The outcome and, when paid, the preimage.
+   */
+  send(
+    request: string,
+    amount: number | bigint,
+    onSettle: PendingEntry['onSettle'],
+  ): { outcome: PaymentOutcome; preimage: string } {
+    const sat = Amount.from(amount).toBigInt();
+    let outcome = this.outcomes.get(request) ?? this.outgoing;
+    if (outcome === 'pending') {
+      this.pending.set(request, { amount: sat, onSettle });
+    } else if (outcome === 'paid') {
+      try {
+        this.credit(request, sat);
+      } catch {
+        outcome = 'failed';
+      }
+    }
+    return { outcome, preimage: this.preimageOf(request) };
+  }
+
+  private credit(request: string, amount: bigint): void {
+    // Foreign requests are paid into the void
+    const entry = this.incoming.get(request);
+    if (entry) this.pay(request, entry.amount ?? amount);
+  }
+
+  private preimageOf(request: string): string {
+    // Requests of any node on the network, ours included
+    const entry = this.paymentNetwork.nodes
+      .map((node) => node.incoming.get(request))
+      .find((e) => e !== undefined);
+    return (
+      entry?.preimage ?? Bytes.toHex(sha256(Bytes.concat(this.seed, Bytes.fromString(request))))
+    );
+  }
+
+  private register(
+    request: string,
+    kind: PaymentRequestKind,
+    amount: bigint | null,
+    expiry: number | null,
+    preimage: Uint8Array | string,
+    options: PaymentRequestOptions,
+  ): void {
+    this.incoming.set(request, {
+      kind,
+      amount,
+      received: 0n,
+      expiry,
+      preimage: typeof preimage === 'string' ? preimage : Bytes.toHex(preimage),
+      onPaid: options.onPaid,
+    });
+  }
+
+  /**
+   * Deterministic 32 bytes per label and call.
+   */
+  private derive(label: string): Uint8Array {
+    const n = label === 'node' ? 0 : ++this.counter;
+    return sha256(Bytes.concat(this.seed, Bytes.fromString(`${label}/${n}`)));
+  }
+
+  private seconds(): number {
+    return Math.floor(this.now() / 1000);
+  }
+}
+
+function taggedField(tag: string, words: number[]): number[] {
+  return [CHARSET.indexOf(tag), words.length >> 5, words.length & 31, ...words];
+}
+
+/**
+ * Big-endian 5 bit words, left padded to `length` when given.
+ */
+function intToWords(value: number, length?: number): number[] {
+  const words: number[] = [];
+  let n = value;
+  do {
+    words.unshift(n % 32);
+    n = Math.floor(n / 32);
+  } while (n > 0);
+  while (length !== undefined && words.length < length) words.unshift(0);
+  return words;
+}
+
+/**
+ * 5 bit words to bytes, zero padding the last byte (BOLT11 signing preimage).
+ */
+function wordsToBytes(words: number[]): Uint8Array {
+  const out: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  for (const w of words) {
+    acc = (acc << 5) | w;
+    bits += 5;
+    while (bits >= 8) {
+      bits -= 8;
+      out.push((acc >> bits) & 0xff);
+    }
+    acc &= (1 << bits) - 1;
+  }
+  if (bits > 0) out.push((acc << (8 - bits)) & 0xff);
+  return Uint8Array.from(out);
+}
+
+function bigIntToBytes(value: bigint): Uint8Array {
+  let hex = value.toString(16);
+  if (hex.length % 2) hex = '0' + hex;
+  return Bytes.fromHex(hex);
+}
+
+/**
+ * BOLT12 TLV record: BigSize type, BigSize length, value. Types here are all below 253.
+ */
+function tlvRecord(type: number, value: Uint8Array): Uint8Array {
+  const n = value.length;
+  const length = n < 0xfd ? [n] : [0xfd, n >> 8, n & 0xff];
+  return Bytes.concat(Uint8Array.from([type, ...length]), value);
+}
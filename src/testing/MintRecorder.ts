@@ -0,0 +1,475 @@
+import { CTSError } from '../model/Errors';
+import request, { type RequestFetch, type RequestFn, type RequestOptions } from '../transport';
+import { getWebSocketImpl } from '../transport/ws';
+import { readTextFile, writeTextFileAtomic, type FileSystemLike } from '../utils/fileStore';
+import { JSONInt } from '../utils/JSONInt';
+
+import {
+  ReadyState,
+  toWebSocketImpl,
+  type WebSocketLike,
+  type WebSocketListener,
+} from './WebSocketLike';
+
+/**
+ * One HTTP request and the mint's response, as kept in a {@link MintFixture}.
+ *
+ * @remarks
+ * Bodies are kept as the exact text sent and received, so amounts and signatures replay
+ * byte-for-byte. Request headers are not recorded: they may carry auth tokens.
+ */
+export type RecordedExchange = {
+  method: string;
+  /**
+   * Scheme, host and port, eg: `https://mint.example.com`.
+   */
+  origin: string;
+  /**
+   * Path and query, eg: `/v1/mint/quote/bolt11/abc`.
+   */
+  path: string;
+  requestBody?: string;
+  status: number;
+  headers: Record<string, string>;
+  responseBody: string;
+};
+
+/**
+ * One WebSocket message, as kept in a {@link MintFixture}. `send` is from the wallet, `receive` from
+ * the mint.
+ */
+export type RecordedFrame = {
+  direction: 'send' | 'receive';
+  data: string;
+};
+
+/**
+ * One WebSocket connection and its messages in order.
+ */
+export type RecordedSocket = {
+  url: string;
+  frames: RecordedFrame[];
+};
+
+/**
+ * A recorded mint conversation. Plain JSON, meant to be committed next to the tests replaying it.
+ */
+export type MintFixture = {
+  version: 1;
+  exchanges: RecordedExchange[];
+  sockets: RecordedSocket[];
+};
+
+/**
+ * A request as the replaying {@link MintRecorder} sees it.
+ */
+export type ReplayRequest = {
+  method: string;
+  origin: string;
+  path: string;
+  body?: string;
+};
+
+/**
+ * Options of {@link MintRecorder.record}.
+ */
+export type MintRecordOptions = {
+  /**
+   * Transport to the real mint. Default `globalThis.fetch`.
+   */
+  fetch?: RequestFetch;
+  /**
+   * WebSocket implementation to the real mint. Default: the one `injectWebSocketImpl` set, or the
+   * global `WebSocket`.
+   */
+  webSocket?: typeof WebSocket;
+};
+
+/**
+ * Options of {@link MintRecorder.replay}.
+ */
+export type MintReplayOptions = {
+  /**
+   * Whether a request answers a recorded exchange. Default: same method, origin, path and body.
+   */
+  match?: (request: ReplayRequest, recorded: RecordedExchange) => boolean;
+};
+
+/**
+ * Thrown by a replaying {@link MintRecorder} for a request or WebSocket message the fixture does not
+ * have, and by {@link MintRecorder.assertDone}.
+ */
+export class ReplayMismatchError extends CTSError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayMismatchError';
+    Object.setPrototypeOf(this, ReplayMismatchError.prototype);
+  }
+}
+
+type RpcMessage = {
+  id?: number;
+  method?: string;
+  params?: { subId?: string; [key: string]: unknown };
+  [key: string]: unknown;
+};
+
+const defaultMatch = (request: ReplayRequest, recorded: RecordedExchange) =>
+  request.method === recorded.method &&
+  request.origin === recorded.origin &&
+  request.path === recorded.path &&
+  (request.body ?? '') === (recorded.requestBody ?? '');
+
+function describeRequest(r: ReplayRequest): string {
+  return `${r.method} ${r.origin}${r.path}`;
+}
+
+async function readRequest(req: Request): Promise<ReplayRequest> {
+  const url = new URL(req.url);
+  const body = req.method === 'GET' || req.method === 'HEAD' ? '' : await req.clone().text();
+  return {
+    method: req.method,
+    origin: url.origin,
+    path: url.pathname + url.search,
+    ...(body && { body }),
+  };
+}
+
+function parseRpc(data: string): RpcMessage | undefined {
+  try {
+    const parsed = JSONInt.parse(data);
+    return typeof parsed === 'object' && parsed !== null ? (parsed as RpcMessage) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Records real mint conversations to a fixture file and replays them offline.
+ *
+ * @remarks
+ * A recorder has a fetch-compatible `fetch`, a `request` function and a `webSocket` implementation.
+ * Plug them in like a {@link TestMint}: per wallet with `requestFetch`, or for every mint with
+ * `setGlobalRequestOptions({ fetch: recorder.fetch })` and
+ * `injectWebSocketImpl(recorder.webSocket)`.
+ *
+ * Recording passes everything through to the real mint and keeps each request/response pair and
+ * every WebSocket message. Replaying answers from the fixture, each recorded exchange once, in
+ * recorded order among equal requests. A request the fixture cannot answer throws
+ * {@link ReplayMismatchError}, which the wallet surfaces as a `NetworkError` with it as `cause`. A
+ * replayed socket checks every message the wallet sends against the recording and then delivers the
+ * mint's recorded messages up to the next one the wallet sent, mapping NUT-17 subscription ids to
+ * the live ones.
+ *
+ * Replay only matches when the wallet sends the same bodies, so record with a fixed `bip39seed` and
+ * counters, or pass a looser `match`.
+ * @example
+ *
+ *     // once, against a real mint
+ *     const recorder = MintRecorder.record();
+ *     const wallet = new Wallet(mintUrl, { requestFetch: recorder.fetch, bip39seed });
+ *     // ... run the flow ...
+ *     await recorder.save('./fixtures/mint-flow.json', fs);
+ *
+ *     // in CI
+ *     const replay = await MintRecorder.load('./fixtures/mint-flow.json', fs);
+ *     const wallet = new Wallet(mintUrl, { requestFetch: replay.fetch, bip39seed });
+ *     // ... run the same flow ...
+ *     replay.assertDone();
+ */
+export class MintRecorder {
+  readonly mode: 'record' | 'replay';
+  /**
+   * Fetch-compatible transport. Pass as `requestFetch`, or as `fetch` to `setGlobalRequestOptions`.
+   */
+  readonly fetch: RequestFetch;
+  /**
+   * The default request pipeline over `fetch`. Pass as `customRequest`.
+   */
+  readonly request: RequestFn;
+  /**
+   * WebSocket implementation. Pass to `injectWebSocketImpl`.
+   */
+  readonly webSocket: typeof WebSocket;
+  private readonly exchanges: RecordedExchange[];
+  private readonly sockets: RecordedSocket[];
+  private readonly used = new Set<RecordedExchange | RecordedSocket>();
+  private readonly unexpected: string[] = [];
+
+  private constructor(
+    mode: 'record' | 'replay',
+    fixture: MintFixture,
+    options: MintRecordOptions & MintReplayOptions,
+  ) {
+    this.mode = mode;
+    this.exchanges = fixture.exchanges;
+    this.sockets = fixture.sockets;
+    if (mode === 'record') {
+      const inner = options.fetch ?? ((input, init) => globalThis.fetch(input, init));
+      this.fetch = (input, init) => this.recordFetch(inner, new Request(input, init));
+      this.webSocket = this.recordingSocket(options.webSocket);
+    } else {
+      const match = options.match ?? defaultMatch;
+      this.fetch = (input, init) => this.replayFetch(match, new Request(input, init));
+      this.webSocket = this.replayingSocket();
+    }
+    this.request = <T>(args: RequestOptions) => request<T>({ ...args, fetch: this.fetch });
+  }
+
+  /**
+   * Starts recording a conversation with real mints.
+   */
+  static record(options: MintRecordOptions = {}): MintRecorder {
+    return new MintRecorder('record', { version: 1, exchanges: [], sockets: [] }, options);
+  }
+
+  /**
+   * Replays a recorded conversation.
+   */
+  static replay(fixture: MintFixture, options: MintReplayOptions = {}): MintRecorder {
+    if (fixture?.version !== 1) {
+      throw new CTSError('Mint fixture has an unsupported version');
+    }
+    return new MintRecorder(
+      'replay',
+      { version: 1, exchanges: [...fixture.exchanges], sockets: [...fixture.sockets] },
+      options,
+    );
+  }
+
+  /**
+   * Replays a fixture file written by {@link MintRecorder.save}.
+   *
+   * @param path - Fixture file.
+   * @param fs - Filesystem to use, eg: Node's `fs/promises`.
+   */
+  static async load(
+    path: string,
+    fs: FileSystemLike,
+    options: MintReplayOptions = {},
+  ): Promise<MintRecorder> {
+    const raw = await readTextFile(fs, path);
+    if (raw === undefined) throw new CTSError(`Mint fixture not found: ${path}`);
+    return MintRecorder.replay(JSON.parse(raw) as MintFixture, options);
+  }
+
+  /**
+   * What was recorded so far, or the fixture being replayed.
+   */
+  get fixture(): MintFixture {
+    return { version: 1, exchanges: [...this.exchanges], sockets: [...this.sockets] };
+  }
+
+  /**
+   * Writes {@link MintRecorder.fixture} to a file.
+   *
+   * @param path - Fixture file. Replaced if it exists.
+   * @param fs - Filesystem to use, eg: Node's `fs/promises`.
+   */
+  async save(path: string, fs: FileSystemLike): Promise<void> {
+    await writeTextFileAtomic(fs, path, JSON.stringify(this.fixture, null, 2) + '\n');
+  }
+
+  /**
+   * Throws {@link ReplayMismatchError} if the replay saw unexpected requests or messages, or left
+   * recorded ones unused. Call at the end of a test. Does nothing while recording.
+   */
+  assertDone(): void {
+    if (this.mode === 'record') return;
+    const problems = [...this.unexpected];
+    for (const e of this.exchanges) {
+      if (!this.used.has(e)) problems.push(`Unused recording: ${describeRequest(e)}`);
+    }
+    for (const s of this.sockets) {
+      if (!this.used.has(s)) problems.push(`Unused recording: WebSocket ${s.url}`);
+    }
+    if (problems.length > 0) throw new ReplayMismatchError(problems.join('\n'));
+  }
+
+  private async recordFetch(inner: RequestFetch, req: Request): Promise<Response> {
+    const { method, origin, path, body } = await readRequest(req);
+    const res = await inner(req);
+    const headers: Record<string, string> = {};
+    res.headers.forEach((value, key) => (headers[key] = value));
+    this.exchanges.push({
+      method,
+      origin,
+      path,
+      ...(body && { requestBody: body }),
+      status: res.status,
+      headers,
+      responseBody: await res.clone().text(),
+    });
+    return res;
+  }
+
+  private async replayFetch(
+    match: (request: ReplayRequest, recorded: RecordedExchange) => boolean,
+    req: Request,
+  ): Promise<Response> {
+    const incoming = await readRequest(req);
+    const exchange = this.exchanges.find((e) => !this.used.has(e) && match(incoming, e));
+    if (!exchange) {
+      const message = `Unexpected request: ${describeRequest(incoming)}`;
+      this.unexpected.push(message);
+      throw new ReplayMismatchError(message);
+    }
+    this.used.add(exchange);
+    return new Response(exchange.responseBody, {
+      status: exchange.status,
+      headers: exchange.headers,
+    });
+  }
+
+  private recordingSocket(impl?: typeof WebSocket): typeof WebSocket {
+    return toWebSocketImpl((url) => new RecordingWebSocket(url, this.sockets, impl));
+  }
+
+  private replayingSocket(): typeof WebSocket {
+    class ReplayWebSocket implements WebSocketLike {
+      readonly url: string;
+      readyState: number = ReadyState.CONNECTING;
+      onopen: WebSocketListener = null;
+      onmessage: WebSocketListener = null;
+      onerror: WebSocketListener = null;
+      onclose: WebSocketListener = null;
+      private readonly recording?: RecordedSocket;
+      private next = 0;
+      // Recorded subscription and request ids to the live ones
+      private readonly subIds = new Map<string, string>();
+      private readonly rpcIds = new Map<number, number>();
+
+      // The recorder marks the recording used and collects unexpected messages
+      constructor(
+        url: string,
+        private readonly recorder: MintRecorder,
+      ) {
+        this.url = url;
+        this.recording = recorder.sockets.find((s) => !recorder.used.has(s) && s.url === this.url);
+        if (this.recording) recorder.used.add(this.recording);
+        else recorder.unexpected.push(`Unexpected WebSocket: ${this.url}`);
+        setTimeout(() => {
+          if (this.readyState !== ReadyState.CONNECTING) return;
+          if (!this.recording) {
+            this.onerror?.({ type: 'error' });
+            this.finish(1006, 'no recording');
+            return;
+          }
+          this.readyState = ReadyState.OPEN;
+          this.onopen?.({ type: 'open' });
+          this.deliver();
+        });
+      }
+
+      send(data: string): void {
+        if (this.readyState !== ReadyState.OPEN || !this.recording) {
+          throw new Error('WebSocket is not open');
+        }
+        const expected = this.recording.frames[this.next];
+        if (expected?.direction !== 'send' || !this.matches(data, expected.data)) {
+          const message = `Unexpected WebSocket message to ${this.url}: ${data}`;
+          this.recorder.unexpected.push(message);
+          throw new ReplayMismatchError(message);
+        }
+        this.next++;
+        this.deliver();
+      }
+
+      close(code = 1000, reason = ''): void {
+        this.finish(code, reason);
+      }
+
+      // Compares without the ids the client generates, and learns how they map
+      private matches(data: string, recorded: string): boolean {
+        const live = parseRpc(data);
+        const rec = parseRpc(recorded);
+        if (!live || !rec) return data === recorded;
+        const liveSub = live.params?.subId;
+        const recSub = rec.params?.subId;
+        const strip = (m: RpcMessage) =>
+          JSONInt.stringify({ ...m, id: 0, params: { ...m.params, subId: 0 } });
+        if (strip(live) !== strip(rec)) return false;
+        if (recSub !== undefined && liveSub !== undefined) {
+          const known = this.subIds.get(recSub);
+          if (known === undefined && rec.method === 'subscribe') this.subIds.set(recSub, liveSub);
+          else if ((known ?? recSub) !== liveSub) return false;
+        }
+        if (typeof rec.id === 'number' && typeof live.id === 'number') {
+          this.rpcIds.set(rec.id, live.id);
+        }
+        return true;
+      }
+
+      // Sends the mint's recorded messages up to the next one the wallet sent
+      private deliver(): void {
+        const frames = this.recording?.frames ?? [];
+        while (frames[this.next]?.direction === 'receive') {
+          const data = this.rewrite(frames[this.next].data);
+          this.next++;
+          setTimeout(() => {
+            if (this.readyState === ReadyState.OPEN) this.onmessage?.({ data });
+          });
+        }
+      }
+
+      private rewrite(data: string): string {
+        const message = parseRpc(data);
+        if (!message) return data;
+        if (typeof message.id === 'number' && this.rpcIds.has(message.id)) {
+          message.id = this.rpcIds.get(message.id);
+        }
+        const subId = message.params?.subId;
+        if (subId !== undefined && this.subIds.has(subId)) {
+          message.params = { ...message.params, subId: this.subIds.get(subId) };
+        }
+        return JSONInt.stringify(message) ?? data;
+      }
+
+      private finish(code: number, reason: string): void {
+        if (this.readyState === ReadyState.CLOSED) return;
+        this.readyState = ReadyState.CLOSED;
+        setTimeout(() => this.onclose?.({ type: 'close', code, reason, wasClean: code === 1000 }));
+      }
+    }
+    return toWebSocketImpl((url) => new ReplayWebSocket(url, this));
+  }
+}
+
+/**
+ * Passes everything through to a real socket, keeping its frames in `sockets`.
+ */
+class RecordingWebSocket implements WebSocketLike {
+  readonly url: string;
+  onopen: WebSocketListener = null;
+  onmessage: WebSocketListener = null;
+  onerror: WebSocketListener = null;
+  onclose: WebSocketListener = null;
+  private readonly inner: WebSocket;
+  private readonly frames: RecordedFrame[] = [];
+
+  constructor(url: string, sockets: RecordedSocket[], impl?: typeof WebSocket) {
+    this.url = url;
+    sockets.push({ url: this.url, frames: this.frames });
+    this.inner = new (impl ?? getWebSocketImpl())(this.url);
+    this.inner.onopen = (e) => this.onopen?.(e);
+    this.inner.onerror = (e) => this.onerror?.(e);
+    this.inner.onclose = (e) => this.onclose?.(e);
+    this.inner.onmessage = (e: MessageEvent) => {
+      this.frames.push({ direction: 'receive', data: String(e.data) });
+      this.onmessage?.(e);
+    };
+  }
+
+  get readyState(): number {
+    return this.inner.readyState;
+  }
+
+  send(data: string): void {
+    this.inner.send(data);
+    this.frames.push({ direction: 'send', data });
+  }
+
+  close(code?: number, reason?: string): void {
+    this.inner.close(code, reason);
+  }
+}
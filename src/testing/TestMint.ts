@@ -0,0 +1,1063 @@
+import { sha256 } from '@noble/hashes/sha2.js';
+
+import {
+  type IntRange,
+  type RawMintKeys,
+  assertSigAllInputs,
+  buildP2PKSigAllMessageV0,
+  createBlindSignature,
+  createDLEQProof,
+  createNewMintKeys,
+  getPubKeyFromPrivKey,
+  hashToCurve,
+  isHTLCSpendAuthorised,
+  isP2PKSigAll,
+  pointFromHex,
+  serializeMintKeys,
+  verifyMintQuoteSignature,
+  verifyUnblindedSignature,
+} from '../crypto';
+import { NULL_LOGGER } from '../logger';
+import { Amount, type AmountLike } from '../model/Amount';
+import { CTSError, HttpResponseError, MintOperationError } from '../model/Errors';
+import {
+  CheckStateEnum,
+  MeltQuoteState,
+  MintQuoteState,
+  type Proof,
+  type SerializedBlindedMessage,
+} from '../model/types';
+import request, { type RequestFetch, type RequestFn, type RequestOptions } from '../transport';
+import { Bytes, JSONInt, bolt11AmountMsat, normalizeMintUrl } from '../utils';
+
+import { FakeLightning } from './FakeLightning';
+
+/**
+ * Options for {@link TestMint}.
+ */
+export type TestMintOptions = {
+  /**
+   * Payment network for quotes and melts. Share one between mints so they can pay each other.
+   * Default: a new {@link FakeLightning}.
+   */
+  lightning?: FakeLightning;
+  /**
+   * Seed for keysets, quote ids and the info pubkey. Default: derived from the mint URL.
+   */
+  seed?: Uint8Array;
+  /**
+   * Units with a keyset. Amounts in every unit are priced 1:1 against sats. Default ['sat'].
+   */
+  units?: string[];
+  /**
+   * Input fee of new keysets, in parts per thousand. Default 0.
+   */
+  inputFeePpk?: number;
+  /**
+   * Number of power of two denominations per keyset. Default 32.
+   */
+  pow2height?: number;
+  /**
+   * Fee reserve of a melt quote. Default: 1% of the amount, at least 2. Lightning charges no fee,
+   * so the whole reserve comes back as change.
+   */
+  feeReserve?: (amount: bigint, method: string) => number | bigint;
+  /**
+   * Seconds until a melt quote expires. Mint quotes expire with their invoice. Default 3600.
+   */
+  quoteExpiry?: number;
+  name?: string;
+  /**
+   * Clock in milliseconds. Default `Date.now`.
+   */
+  now?: () => number;
+};
+
+/**
+ * Client end of a NUT-17 connection to a {@link TestMint}.
+ */
+export type TestMintSocketClient = {
+  /**
+   * Receives a JSON-RPC message from the mint.
+   */
+  deliver(message: string): void;
+  /**
+   * Called when the mint drops the connection.
+   */
+  drop(): void;
+};
+
+/**
+ * Mint end of a NUT-17 connection, returned by {@link TestMint.connectSocket}.
+ */
+export type TestMintSocket = {
+  send(message: string): void;
+  close(): void;
+};
+
+type KeysetRecord = {
+  id: string;
+  unit: string;
+  active: boolean;
+  input_fee_ppk: number;
+  keys: Record<string, string>;
+  privKeys: RawMintKeys;
+};
+
+type WireProof = {
+  id: string;
+  amount: bigint;
+  secret: string;
+  C: string;
+  witness?: unknown;
+};
+
+type WireOutput = { id: string; amount: bigint; B_: string };
+
+type WireSignature = {
+  id: string;
+  amount: bigint;
+  C_: string;
+  dleq: { s: string; e: string };
+};
+
+type MintQuoteRecord = {
+  quote: string;
+  method: string;
+  unit: string;
+  request: string;
+  amount: bigint | null;
+  paid: bigint;
+  issued: bigint;
+  expiry: number | null;
+  pubkey?: string;
+  updatedAt: number;
+};
+
+type MeltQuoteRecord = {
+  quote: string;
+  method: string;
+  unit: string;
+  request: string;
+  amount: bigint;
+  feeReserve: bigint;
+  state: MeltQuoteState;
+  expiry: number;
+  preimage: string | null;
+  change?: WireSignature[];
+  selectedFeeIndex: number | null;
+  outpoint: string | null;
+  inputs?: { Ys: string[]; witnesses: Array<string | null>; total: bigint; fee: bigint };
+  blanks: WireOutput[];
+};
+
+type Session = {
+  client: TestMintSocketClient;
+  subs: Map<string, { kind: string; filters: string[] }>;
+};
+
+const METHODS = ['bolt11', 'bolt12', 'onchain'];
+
+/**
+ * An in-process Cashu mint for offline tests.
+ *
+ * @remarks
+ * Serves the `/v1/*` endpoints `Mint` uses: info, keys, keysets, swap, mint and melt quotes for
+ * bolt11 (with NUT-15 partial amounts), bolt12 and onchain, checkstate, restore and NUT-17
+ * subscriptions. Keys come from `createNewMintKeys` with a fixed seed, outputs are signed with DLEQ
+ * proofs, and inputs are checked for spent state, signatures and P2PK/HTLC conditions. Payments go
+ * through a {@link FakeLightning}, so every outcome is under the test's control.
+ *
+ * Plug it in with the `requestFetch` option (or `customRequest` via `request`), and
+ * `injectWebSocketImpl(createTestWebSocket(mint))` for subscriptions.
+ * @example
+ *
+ *     const mint = new TestMint('http://mint.test');
+ *     const wallet = new Wallet(mint.url, { requestFetch: mint.fetch });
+ *     await wallet.loadMint();
+ *     const quote = await wallet.createMintQuoteBolt11(100);
+ *     mint.lightning.pay(quote.request);
+ *     const proofs = await wallet.mintProofsBolt11(100, quote);
+ */
+export class TestMint {
+  readonly url: string;
+  readonly lightning: FakeLightning;
+  /**
+   * Fetch-compatible transport answering for this mint. Pass as `requestFetch`.
+   */
+  readonly fetch: RequestFetch;
+  /**
+   * The default request pipeline over `fetch`. Pass as `customRequest`.
+   */
+  readonly request: RequestFn;
+  private readonly options: TestMintOptions;
+  private readonly seed: Uint8Array;
+  private readonly now: () => number;
+  private readonly keysets: KeysetRecord[] = [];
+  private readonly spent = new Map<string, string | null>();
+  private readonly pending = new Set<string>();
+  private readonly signed = new Map<string, WireSignature>();
+  private readonly mintQuotes = new Map<string, MintQuoteRecord>();
+  private readonly meltQuotes = new Map<string, MeltQuoteRecord>();
+  private readonly sessions = new Set<Session>();
+  private quoteCounter = 0;
+
+  constructor(url: string, options: TestMintOptions = {}) {
+    this.url = normalizeMintUrl(url);
+    this.options = options;
+    this.lightning = options.lightning ?? new FakeLightning();
+    this.seed = options.seed ?? sha256(Bytes.fromString(this.url));
+    this.now = options.now ?? Date.now;
+    for (const unit of options.units ?? ['sat']) {
+      this.rotateKeyset(unit);
+    }
+    this.fetch = (input, init) => this.handle(new Request(input, init));
+    this.request = <T>(args: RequestOptions) => request<T>({ ...args, fetch: this.fetch });
+  }
+
+  /**
+   * The NUT-17 endpoint, as `Mint.connectWebSocket` derives it.
+   */
+  get webSocketUrl(): string {
+    const url = new URL(this.url);
+    url.pathname = url.pathname.replace(/\/?$/, '/v1/ws');
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    return url.toString();
+  }
+
+  /**
+   * Ids of the active keysets.
+   */
+  get activeKeysetIds(): string[] {
+    return this.keysets.filter((k) => k.active).map((k) => k.id);
+  }
+
+  /**
+   * Deactivates the unit's keyset and creates the next one.
+   *
+   * @param unit Keyset unit.
+   * @param inputFeePpk Input fee of the new keyset. Default: the `inputFeePpk` option.
+   * @returns The new keyset id.
+   */
+  rotateKeyset(unit = 'sat', inputFeePpk = this.options.inputFeePpk ?? 0): string {
+    const index = this.keysets.filter((k) => k.unit === unit).length;
+    const seed = sha256(Bytes.concat(this.seed, Bytes.fromString(`keyset/${unit}/${index}`)));
+    const pair = createNewMintKeys((this.options.pow2height ?? 32) as IntRange<0, 65>, seed, {
+      unit,
+      input_fee_ppk: inputFeePpk,
+    });
+    for (const keyset of this.keysets) {
+      if (keyset.unit === unit) keyset.active = false;
+    }
+    this.keysets.push({
+      id: pair.keysetId,
+      unit,
+      active: true,
+      input_fee_ppk: inputFeePpk,
+      keys: serializeMintKeys(pair.pubKeys),
+      privKeys: pair.privKeys,
+    });
+    return pair.keysetId;
+  }
+
+  /**
+   * Opens a NUT-17 connection. Used by {@link createTestWebSocket}.
+   */
+  connectSocket(client: TestMintSocketClient): TestMintSocket {
+    const session: Session = { client, subs: new Map() };
+    this.sessions.add(session);
+    return {
+      send: (message) => this.handleRpc(session, message),
+      close: () => {
+        this.sessions.delete(session);
+      },
+    };
+  }
+
+  /**
+   * Drops every open NUT-17 connection, as a restarting mint would.
+   */
+  dropSockets(): void {
+    const sessions = [...this.sessions];
+    this.sessions.clear();
+    sessions.forEach((s) => s.client.drop());
+  }
+
+  // -----------------------------------------------------------------
+  // Section: HTTP
+  // -----------------------------------------------------------------
+
+  private async handle(req: Request): Promise<Response> {
+    const base = new URL(this.url).pathname.replace(/\/$/, '');
+    const path = new URL(req.url).pathname.slice(base.length);
+    try {
+      let body: Record<string, unknown> = {};
+      if (req.method === 'POST') {
+        const parsed = parseJson(await req.text());
+        if (!isRecord(parsed)) throw invalid('request body');
+        body = parsed;
+      }
+      return jsonResponse(200, this.route(req.method, path, body));
+    } catch (e) {
+      if (e instanceof MintOperationError) {
+        return jsonResponse(400, { code: e.code, detail: e.message });
+      }
+      if (e instanceof HttpResponseError) {
+        return jsonResponse(e.status, { detail: e.message });
+      }
+      return jsonResponse(500, { detail: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  private route(method: string, path: string, body: Record<string, unknown>): unknown {
+    let m: RegExpExecArray | null;
+    if (method === 'GET') {
+      if (path === '/v1/info') return this.info();
+      if (path === '/v1/keys') {
+        return { keysets: this.keysets.filter((k) => k.active).map(keysBody) };
+      }
+      if ((m = /^\/v1\/keys\/([^/]+)$/.exec(path))) {
+        return { keysets: [keysBody(this.keyset(decodeURIComponent(m[1])))] };
+      }
+      if (path === '/v1/keysets') {
+        return {
+          keysets: this.keysets.map((k) => ({
+            id: k.id,
+            unit: k.unit,
+            active: k.active,
+            input_fee_ppk: k.input_fee_ppk,
+          })),
+        };
+      }
+      if ((m = /^\/v1\/mint\/quote\/([^/]+)\/([^/]+)$/.exec(path))) {
+        return this.mintQuoteBody(this.mintQuote(m[1], decodeURIComponent(m[2])));
+      }
+      if ((m = /^\/v1\/melt\/quote\/([^/]+)\/([^/]+)$/.exec(path))) {
+        return this.meltQuoteBody(this.meltQuote(m[1], decodeURIComponent(m[2])));
+      }
+    } else if (method === 'POST') {
+      if (path === '/v1/swap') return this.swap(body);
+      if (path === '/v1/checkstate') return this.checkState(body);
+      if (path === '/v1/restore') return this.restore(body);
+      if ((m = /^\/v1\/mint\/quote\/([^/]+)$/.exec(path))) {
+        return this.createMintQuote(requireMethod(m[1]), body);
+      }
+      if ((m = /^\/v1\/mint\/([^/]+)$/.exec(path))) {
+        return this.mint(requireMethod(m[1]), body);
+      }
+      if ((m = /^\/v1\/melt\/quote\/([^/]+)$/.exec(path))) {
+        return this.createMeltQuote(requireMethod(m[1]), body);
+      }
+      if ((m = /^\/v1\/melt\/([^/]+)$/.exec(path))) {
+        return this.melt(requireMethod(m[1]), body);
+      }
+    }
+    throw new HttpResponseError('Not found', 404);
+  }
+
+  private info() {
+    const units = [...new Set(this.keysets.map((k) => k.unit))];
+    const methods = METHODS.flatMap((method) =>
+      units.map((unit) => ({
+        method,
+        unit,
+        min_amount: null,
+        max_amount: null,
+        ...(method === 'bolt11' && { options: { description: true } }),
+      })),
+    );
+    const pubkey = getPubKeyFromPrivKey(sha256(Bytes.concat(this.seed, Bytes.fromString('info'))));
+    return {
+      name: this.options.name ?? 'Test mint',
+      pubkey: Bytes.toHex(pubkey),
+      version: 'TestMint/1.0.0',
+      description: 'In-process mint for cashu-ts tests',
+      contact: [],
+      nuts: {
+        '4': { methods, disabled: false },
+        '5': { methods, disabled: false },
+        '7': { supported: true },
+        '8': { supported: true },
+        '9': { supported: true },
+        '10': { supported: true },
+        '11': { supported: true },
+        '12': { supported: true },
+        '14': { supported: true },
+        '15': { methods: units.map((unit) => ({ method: 'bolt11', unit })) },
+        '17': {
+          supported: units.map((unit) => ({
+            method: 'bolt11',
+            unit,
+            commands: ['bolt11_mint_quote', 'bolt11_melt_quote', 'proof_state'],
+          })),
+        },
+        '20': { supported: true },
+      },
+    };
+  }
+
+  // -----------------------------------------------------------------
+  // Section: Swap, checkstate, restore
+  // -----------------------------------------------------------------
+
+  private swap(body: Record<string, unknown>) {
+    const inputs = parseProofs(body.inputs);
+    const outputs = parseOutputs(body.outputs);
+    const { unit, total, fee, Ys, witnesses } = this.verifyInputs(inputs, outputs);
+    if (total - fee !== sum(outputs)) {
+      throw new MintOperationError(11002, 'Transaction is not balanced (inputs != outputs)');
+    }
+    this.checkOutputs(outputs, unit);
+    this.markSpent(Ys, witnesses);
+    return { signatures: this.sign(outputs) };
+  }
+
+  private checkState(body: Record<string, unknown>) {
+    if (!Array.isArray(body.Ys) || !body.Ys.every((y) => typeof y === 'string')) {
+      throw invalid('Ys');
+    }
+    return { states: body.Ys.map((Y) => this.proofState(Y)) };
+  }
+
+  private restore(body: Record<string, unknown>) {
+    const known = parseOutputs(body.outputs).filter((o) => this.signed.has(o.B_));
+    return {
+      outputs: known,
+      signatures: known.map((o) => this.signed.get(o.B_)),
+    };
+  }
+
+  private proofState(Y: string) {
+    const state = this.spent.has(Y)
+      ? CheckStateEnum.SPENT
+      : this.pending.has(Y)
+        ? CheckStateEnum.PENDING
+        : CheckStateEnum.UNSPENT;
+    return { Y, state, witness: this.spent.get(Y) ?? null };
+  }
+
+  // -----------------------------------------------------------------
+  // Section: Mint quotes
+  // -----------------------------------------------------------------
+
+  private createMintQuote(method: string, body: Record<string, unknown>) {
+    const unit = this.requireUnit(body.unit);
+    const pubkey = optionalString(body.pubkey, 'pubkey');
+    const description = optionalString(body.description, 'description');
+    const amount = body.amount == null ? null : toBigInt(body.amount);
+    if (method !== 'bolt11' && !pubkey) {
+      throw new MintOperationError(20009, 'Pubkey required for mint quote');
+    }
+    if (method === 'onchain' ? amount !== null : method === 'bolt11' && amount === null) {
+      throw invalid('amount');
+    }
+    if (amount !== null && amount <= 0n) {
+      throw new MintOperationError(11006, 'Amount outside of limit range');
+    }
+    const quote: MintQuoteRecord = {
+      quote: this.nextQuoteId(),
+      method,
+      unit,
+      request: '',
+      amount,
+      paid: 0n,
+      issued: 0n,
+      expiry: null,
+      pubkey,
+      updatedAt: this.seconds(),
+    };
+    const onPaid = (paid: bigint) => {
+      quote.paid += paid;
+      quote.updatedAt = this.seconds();
+      this.notify(`${method}_mint_quote`, quote.quote, this.mintQuoteBody(quote));
+    };
+    this.mintQuotes.set(quote.quote, quote);
+    if (method === 'bolt11') {
+      quote.request = this.lightning.createInvoice(amount, { description, onPaid });
+      quote.expiry = this.lightning.lookup(quote.request)?.expiry ?? null;
+    } else if (method === 'bolt12') {
+      quote.request = this.lightning.createOffer(amount, { description, onPaid });
+    } else {
+      quote.request = this.lightning.createAddress({ onPaid });
+    }
+    return this.mintQuoteBody(quote);
+  }
+
+  private mint(method: string, body: Record<string, unknown>) {
+    const quote = this.mintQuote(method, body.quote);
+    const outputs = parseOutputs(body.outputs);
+    if (quote.pubkey) {
+      const valid =
+        typeof body.signature === 'string' &&
+        verifyMintQuoteSignature(
+          quote.pubkey,
+          quote.quote,
+          toBlindedMessages(outputs),
+          body.signature,
+        );
+      if (!valid) {
+        throw new MintOperationError(20008, 'Signature for mint request invalid');
+      }
+    }
+    if (quote.paid === 0n) {
+      throw new MintOperationError(20001, 'Quote request is not paid');
+    }
+    if (quote.paid === quote.issued) {
+      throw new MintOperationError(20002, 'Quote has already been issued');
+    }
+    const amount = sum(outputs);
+    if (amount > quote.paid - quote.issued) {
+      throw new MintOperationError(11002, 'Outputs exceed the amount paid');
+    }
+    this.checkOutputs(outputs, quote.unit);
+    const signatures = this.sign(outputs);
+    quote.issued += amount;
+    quote.updatedAt = this.seconds();
+    this.notify(`${method}_mint_quote`, quote.quote, this.mintQuoteBody(quote));
+    return { signatures };
+  }
+
+  private mintQuote(method: string, id: unknown): MintQuoteRecord {
+    const quote = typeof id === 'string' ? this.mintQuotes.get(id) : undefined;
+    if (!quote || quote.method !== method) {
+      throw new HttpResponseError('Quote not found', 404);
+    }
+    return quote;
+  }
+
+  private mintQuoteBody(quote: MintQuoteRecord) {
+    const paid = quote.paid;
+    const issued = quote.issued;
+    return {
+      quote: quote.quote,
+      method: quote.method,
+      request: quote.request,
+      unit: quote.unit,
+      amount_paid: paid,
+      amount_issued: issued,
+      updated_at: quote.updatedAt,
+      expiry: quote.expiry,
+      ...(quote.pubkey && { pubkey: quote.pubkey }),
+      ...(quote.method !== 'onchain' && { amount: quote.amount }),
+      ...(quote.method === 'bolt11' && {
+        state:
+          paid === 0n
+            ? MintQuoteState.UNPAID
+            : paid > issued
+              ? MintQuoteState.PAID
+              : MintQuoteState.ISSUED,
+      }),
+    };
+  }
+
+  // -----------------------------------------------------------------
+  // Section: Melt quotes
+  // -----------------------------------------------------------------
+
+  private createMeltQuote(method: string, body: Record<string, unknown>) {
+    const unit = this.requireUnit(body.unit);
+    if (typeof body.request !== 'string') throw invalid('request');
+    const request = body.request;
+    const options = isRecord(body.options) ? body.options : {};
+    const amountless = isRecord(options.amountless)
+      ? toBigInt(options.amountless.amount_msat)
+      : undefined;
+    const mpp = isRecord(options.mpp) ? toBigInt(options.mpp.amount) : undefined;
+    let amount: bigint;
+    if (method === 'onchain') {
+      amount = toBigInt(body.amount);
+    } else {
+      let msat: bigint | null;
+      if (method === 'bolt11') {
+        try {
+          msat = bolt11AmountMsat(request);
+        } catch {
+          throw invalid('request');
+        }
+      } else {
+        const offer = this.lightning.lookup(request);
+        msat = offer?.amount ? offer.amount * 1000n : null;
+      }
+      if (msat === null) {
+        if (amountless === undefined) {
+          throw new MintOperationError(11011, 'Amountless invoice is not supported');
+        }
+        msat = amountless;
+      } else if (amountless !== undefined && amountless !== msat) {
+        throw new MintOperationError(11012, 'Amount in request does not equal invoice');
+      }
+      // NUT-15: pay only a part of the invoice
+      if (mpp !== undefined && method === 'bolt11') {
+        if (mpp > msat) throw new MintOperationError(11012, 'Partial amount exceeds invoice');
+        msat = mpp;
+      }
+      amount = (msat + 999n) / 1000n;
+    }
+    if (amount <= 0n) {
+      throw new MintOperationError(11006, 'Amount outside of limit range');
+    }
+    const feeReserve = this.options.feeReserve
+      ? BigInt(this.options.feeReserve(amount, method))
+      : bigMax(2n, (amount + 99n) / 100n);
+    const quote: MeltQuoteRecord = {
+      quote: this.nextQuoteId(),
+      method,
+      unit,
+      request,
+      amount,
+      feeReserve,
+      state: MeltQuoteState.UNPAID,
+      expiry: this.seconds() + (this.options.quoteExpiry ?? 3600),
+      preimage: null,
+      selectedFeeIndex: null,
+      outpoint: null,
+      blanks: [],
+    };
+    this.meltQuotes.set(quote.quote, quote);
+    return this.meltQuoteBody(quote);
+  }
+
+  private melt(method: string, body: Record<string, unknown>) {
+    const quote = this.meltQuote(method, body.quote);
+    if (quote.state === MeltQuoteState.PENDING) {
+      throw new MintOperationError(20005, 'Quote is pending');
+    }
+    if (quote.state === MeltQuoteState.PAID) {
+      throw new MintOperationError(20006, 'Invoice already paid');
+    }
+    if (quote.expiry < this.seconds()) {
+      throw new MintOperationError(20007, 'Quote is expired');
+    }
+    if (method === 'onchain' && body.fee_index !== 0) {
+      throw invalid('fee_index');
+    }
+    const inputs = parseProofs(body.inputs);
+    const blanks = body.outputs == null ? [] : parseOutputs(body.outputs);
+    const verified = this.verifyInputs(inputs, blanks, quote.quote);
+    if (verified.unit !== quote.unit) {
+      throw new MintOperationError(11010, 'Inputs and outputs not of same unit');
+    }
+    if (verified.total - verified.fee < quote.amount + quote.feeReserve) {
+      throw new MintOperationError(11002, 'Inputs do not cover the amount and fee reserve');
+    }
+    this.checkOutputs(blanks, quote.unit, true);
+
+    quote.inputs = verified;
+    quote.blanks = blanks;
+    quote.state = MeltQuoteState.PENDING;
+    quote.selectedFeeIndex = method === 'onchain' ? 0 : null;
+    for (const Y of verified.Ys) {
+      this.pending.add(Y);
+      this.notify('proof_state', Y, this.proofState(Y));
+    }
+    this.notify(`${method}_melt_quote`, quote.quote, this.meltQuoteBody(quote));
+
+    const { outcome, preimage } = this.lightning.send(quote.request, quote.amount, (o, p) =>
+      this.settleMelt(quote, o, p),
+    );
+    if (outcome === 'failed') {
+      this.settleMelt(quote, 'failed', preimage);
+      throw new MintOperationError(20004, 'Lightning payment failed');
+    }
+    if (outcome === 'paid') {
+      this.settleMelt(quote, 'paid', preimage);
+    }
+    return this.meltQuoteBody(quote);
+  }
+
+  private settleMelt(quote: MeltQuoteRecord, outcome: 'paid' | 'failed', preimage: string): void {
+    const inputs = quote.inputs;
+    if (!inputs || quote.state !== MeltQuoteState.PENDING) {
+      throw new CTSError('TestMint: melt is not pending');
+    }
+    inputs.Ys.forEach((Y) => this.pending.delete(Y));
+    if (outcome === 'paid') {
+      this.markSpent(inputs.Ys, inputs.witnesses);
+      quote.state = MeltQuoteState.PAID;
+      if (quote.method === 'onchain') {
+        quote.outpoint = `${Bytes.toHex(sha256(Bytes.fromString(quote.quote)))}:0`;
+      } else {
+        quote.preimage = preimage;
+      }
+      quote.change = this.signChange(quote, inputs.total - inputs.fee - quote.amount);
+    } else {
+      quote.state = MeltQuoteState.UNPAID;
+      quote.inputs = undefined;
+      quote.blanks = [];
+      quote.selectedFeeIndex = null;
+      inputs.Ys.forEach((Y) => this.notify('proof_state', Y, this.proofState(Y)));
+    }
+    this.notify(`${quote.method}_melt_quote`, quote.quote, this.meltQuoteBody(quote));
+  }
+
+  /**
+   * NUT-08: signs as many blanks as the change needs, largest denominations first.
+   */
+  private signChange(quote: MeltQuoteRecord, change: bigint): WireSignature[] {
+    const amounts: bigint[] = [];
+    for (let bit = 63n; bit >= 0n && amounts.length < quote.blanks.length; bit--) {
+      if ((change >> bit) & 1n) amounts.push(1n << bit);
+    }
+    const outputs = amounts.map((amount, i) => ({ ...quote.blanks[i], amount }));
+    return this.sign(outputs);
+  }
+
+  private meltQuote(method: string, id: unknown): MeltQuoteRecord {
+    const quote = typeof id === 'string' ? this.meltQuotes.get(id) : undefined;
+    if (!quote || quote.method !== method) {
+      throw new HttpResponseError('Quote not found', 404);
+    }
+    return quote;
+  }
+
+  private meltQuoteBody(quote: MeltQuoteRecord) {
+    const onchain = quote.method === 'onchain';
+    return {
+      quote: quote.quote,
+      method: quote.method,
+      request: quote.request,
+      amount: quote.amount,
+      unit: quote.unit,
+      state: quote.state,
+      expiry: quote.expiry,
+      ...(quote.change && { change: quote.change }),
+      ...(onchain
+        ? {
+            fee_options: [{ fee_index: 0, fee_reserve: quote.feeReserve, estimated_blocks: 1 }],
+            selected_fee_index: quote.selectedFeeIndex,
+            outpoint: quote.outpoint,
+          }
+        : { fee_reserve: quote.feeReserve, payment_preimage: quote.preimage }),
+    };
+  }
+
+  // -----------------------------------------------------------------
+  // Section: Proofs and signatures
+  // -----------------------------------------------------------------
+
+  /**
+   * Checks inputs are known, unspent, correctly signed and unlocked, and totals them.
+   */
+  private verifyInputs(inputs: WireProof[], outputs: WireOutput[], quoteId?: string) {
+    if (inputs.length === 0) {
+      throw new MintOperationError(11002, 'No inputs provided');
+    }
+    if (new Set(inputs.map((p) => p.secret)).size !== inputs.length) {
+      throw new MintOperationError(11007, 'Duplicate inputs provided');
+    }
+    const unit = this.keyset(inputs[0].id).unit;
+    let total = 0n;
+    let feePpk = 0;
+    const Ys: string[] = [];
+    for (const p of inputs) {
+      const keyset = this.keyset(p.id);
+      if (keyset.unit !== unit) {
+        throw new MintOperationError(11009, 'Inputs/Outputs of multiple units');
+      }
+      const Y = hashToCurve(Bytes.fromString(p.secret)).toHex(true);
+      if (this.spent.has(Y)) throw new MintOperationError(11001, 'Token already spent');
+      if (this.pending.has(Y)) throw new MintOperationError(20005, 'Token is pending');
+      const privKey = keyset.privKeys[p.amount.toString()];
+      let valid = false;
+      try {
+        valid =
+          !!privKey &&
+          verifyUnblindedSignature(
+            { C: pointFromHex(p.C), secret: Bytes.fromString(p.secret), id: p.id },
+            privKey,
+          );
+      } catch {
+        // malformed C
+      }
+      if (!valid) throw new MintOperationError(10003, 'Token could not be verified');
+      total += p.amount;
+      feePpk += keyset.input_fee_ppk;
+      Ys.push(Y);
+    }
+    this.verifyConditions(inputs, outputs, quoteId);
+    const witnesses = inputs.map((p) =>
+      p.witness == null
+        ? null
+        : typeof p.witness === 'string'
+          ? p.witness
+          : JSON.stringify(p.witness),
+    );
+    return { unit, total, fee: BigInt(Math.ceil(feePpk / 1000)), Ys, witnesses };
+  }
+
+  /**
+   * NUT-11/14: P2PK and HTLC inputs must be unlocked. SIG_ALL is signed once, on the first input.
+   */
+  private verifyConditions(inputs: WireProof[], outputs: WireOutput[], quoteId?: string): void {
+    const proofs: Proof[] = inputs.map((p) => ({
+      id: p.id,
+      amount: Amount.from(p.amount),
+      secret: p.secret,
+      C: p.C,
+      ...(p.witness != null && { witness: p.witness }),
+    }));
+    const locked = (p: Proof) => /^\["(P2PK|HTLC)"/.test(p.secret);
+    let ok: boolean;
+    try {
+      if (isP2PKSigAll(proofs)) {
+        assertSigAllInputs(proofs);
+        const blinded = toBlindedMessages(outputs).map((blindedMessage) => ({ blindedMessage }));
+        const message = buildP2PKSigAllMessageV0(proofs, blinded, quoteId);
+        ok = isHTLCSpendAuthorised(proofs[0], NULL_LOGGER, message);
+      } else {
+        ok = proofs.filter(locked).every((p) => isHTLCSpendAuthorised(p, NULL_LOGGER));
+      }
+    } catch {
+      ok = false;
+    }
+    if (!ok) throw new MintOperationError(10003, 'Spending conditions not met');
+  }
+
+  private markSpent(Ys: string[], witnesses: Array<string | null>): void {
+    Ys.forEach((Y, i) => {
+      this.spent.set(Y, witnesses[i]);
+      this.notify('proof_state', Y, this.proofState(Y));
+    });
+  }
+
+  /**
+   * Checks outputs can be signed: active keyset of the unit, known amount, not signed before.
+   * NUT-08 blanks carry no amount yet.
+   */
+  private checkOutputs(outputs: WireOutput[], unit: string, blank = false): void {
+    if (new Set(outputs.map((o) => o.B_)).size !== outputs.length) {
+      throw new MintOperationError(11008, 'Duplicate outputs provided');
+    }
+    for (const o of outputs) {
+      const keyset = this.keyset(o.id);
+      if (!keyset.active) {
+        throw new MintOperationError(12002, 'Keyset is inactive, cannot sign messages');
+      }
+      if (keyset.unit !== unit) {
+        throw new MintOperationError(11010, 'Inputs and outputs not of same unit');
+      }
+      if (!blank && !keyset.privKeys[o.amount.toString()]) {
+        throw new MintOperationError(11006, 'Amount outside of limit range');
+      }
+      if (this.signed.has(o.B_)) {
+        throw new MintOperationError(10002, 'Blinded message of output already signed');
+      }
+    }
+  }
+
+  private sign(outputs: WireOutput[]): WireSignature[] {
+    return outputs.map((o) => {
+      const privKey = this.keyset(o.id).privKeys[o.amount.toString()];
+      let B_;
+      try {
+        B_ = pointFromHex(o.B_);
+      } catch {
+        throw invalid('B_');
+      }
+      const { C_ } = createBlindSignature(B_, privKey, o.id);
+      const { s, e } = createDLEQProof(B_, privKey);
+      const signature = {
+        id: o.id,
+        amount: o.amount,
+        C_: C_.toHex(true),
+        dleq: { s: Bytes.toHex(s), e: Bytes.toHex(e) },
+      };
+      this.signed.set(o.B_, signature);
+      return signature;
+    });
+  }
+
+  private keyset(id: string): KeysetRecord {
+    const keyset = this.keysets.find((k) => k.id === id);
+    if (!keyset) throw new MintOperationError(12001, 'Keyset is not known');
+    return keyset;
+  }
+
+  private requireUnit(unit: unknown): string {
+    if (typeof unit !== 'string' || !this.keysets.some((k) => k.unit === unit)) {
+      throw new MintOperationError(11005, 'Unit in request is not supported');
+    }
+    return unit;
+  }
+
+  private nextQuoteId(): string {
+    const n = Bytes.fromString(`quote/${++this.quoteCounter}`);
+    return Bytes.toHex(sha256(Bytes.concat(this.seed, n))).slice(0, 32);
+  }
+
+  private seconds(): number {
+    return Math.floor(this.now() / 1000);
+  }
+
+  // -----------------------------------------------------------------
+  // Section: NUT-17
+  // -----------------------------------------------------------------
+
+  private handleRpc(session: Session, message: string): void {
+    const reply = (body: Record<string, unknown>) =>
+      session.client.deliver(JSON.stringify({ jsonrpc: '2.0', ...body }));
+    let msg: unknown;
+    try {
+      msg = JSON.parse(message);
+    } catch {
+      return reply({ error: { code: -32700, message: 'Parse error' }, id: null });
+    }
+    if (!isRecord(msg)) {
+      return reply({ error: { code: -32600, message: 'Invalid Request' }, id: null });
+    }
+    const id = msg.id as string | number | null;
+    const params = isRecord(msg.params) ? msg.params : {};
+    const subId = params.subId;
+    if (typeof subId !== 'string') {
+      return reply({ error: { code: -32602, message: 'Invalid params' }, id });
+    }
+    if (msg.method === 'unsubscribe') {
+      session.subs.delete(subId);
+      return reply({ result: { status: 'OK', subId }, id });
+    }
+    if (msg.method !== 'subscribe') {
+      return reply({ error: { code: -32601, message: 'Method not found' }, id });
+    }
+    const { kind, filters } = params;
+    if (
+      typeof kind !== 'string' ||
+      !/^(proof_state|(bolt11|bolt12|onchain)_(mint|melt)_quote)$/.test(kind) ||
+      !Array.isArray(filters) ||
+      !filters.every((f) => typeof f === 'string')
+    ) {
+      return reply({ error: { code: -32602, message: 'Invalid params' }, id });
+    }
+    session.subs.set(subId, { kind, filters: filters });
+    reply({ result: { status: 'OK', subId }, id });
+    // Like real mints, start with the current state
+    for (const filter of filters) {
+      const payload = this.currentState(kind, filter);
+      if (payload) {
+        session.client.deliver(notification(subId, payload));
+      }
+    }
+  }
+
+  private currentState(kind: string, filter: string): unknown {
+    if (kind === 'proof_state') return this.proofState(filter);
+    const [method, type] = kind.split('_');
+    if (type === 'mint') {
+      const quote = this.mintQuotes.get(filter);
+      return quote?.method === method ? this.mintQuoteBody(quote) : undefined;
+    }
+    const quote = this.meltQuotes.get(filter);
+    return quote?.method === method ? this.meltQuoteBody(quote) : undefined;
+  }
+
+  private notify(kind: string, filter: string, payload: unknown): void {
+    for (const session of this.sessions) {
+      for (const [subId, sub] of session.subs) {
+        if (sub.kind === kind && sub.filters.includes(filter)) {
+          session.client.deliver(notification(subId, payload));
+        }
+      }
+    }
+  }
+}
+
+function notification(subId: string, payload: unknown): string {
+  return JSONInt.stringify({
+    jsonrpc: '2.0',
+    method: 'subscribe',
+    params: { subId, payload },
+  }) as string;
+}
+
+function keysBody(keyset: KeysetRecord) {
+  return {
+    id: keyset.id,
+    unit: keyset.unit,
+    active: keyset.active,
+    input_fee_ppk: keyset.input_fee_ppk,
+    keys: keyset.keys,
+  };
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSONInt.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Malformed request, answered 422 like a schema validating mint.
+ */
+function invalid(field: string): HttpResponseError {
+  return new HttpResponseError(`Invalid ${field}`, 422);
+}
+
+function requireMethod(method: string): string {
+  if (!METHODS.includes(method)) {
+    throw new HttpResponseError(`Payment method ${method} not supported`, 404);
+  }
+  return method;
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSONInt.parse(text);
+  } catch {
+    throw invalid('JSON');
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown, field: string): string | undefined {
+  if (value == null) return undefined;
+  if (typeof value !== 'string') throw invalid(field);
+  return value;
+}
+
+function toBigInt(value: unknown): bigint {
+  try {
+    return Amount.from(value as AmountLike).toBigInt();
+  } catch {
+    throw invalid('amount');
+  }
+}
+
+function parseProofs(value: unknown): WireProof[] {
+  if (!Array.isArray(value)) throw invalid('inputs');
+  return value.map((p: unknown) => {
+    if (
+      !isRecord(p) ||
+      typeof p.id !== 'string' ||
+      typeof p.secret !== 'string' ||
+      typeof p.C !== 'string'
+    ) {
+      throw invalid('inputs');
+    }
+    return { id: p.id, amount: toBigInt(p.amount), secret: p.secret, C: p.C, witness: p.witness };
+  });
+}
+
+function parseOutputs(value: unknown): WireOutput[] {
+  if (!Array.isArray(value)) throw invalid('outputs');
+  return value.map((o: unknown) => {
+    if (!isRecord(o) || typeof o.id !== 'string' || typeof o.B_ !== 'string') {
+      throw invalid('outputs');
+    }
+    return { id: o.id, amount: toBigInt(o.amount), B_: o.B_ };
+  });
+}
+
+function toBlindedMessages(outputs: WireOutput[]): SerializedBlindedMessage[] {
+  return outputs.map((o) => ({ id: o.id, amount: Amount.from(o.amount), B_: o.B_ }));
+}
+
+function sum(outputs: WireOutput[]): bigint {
+  return outputs.reduce((s, o) => s + o.amount, 0n);
+}
+
+function bigMax(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
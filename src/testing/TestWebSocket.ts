@@ -0,0 +1,74 @@
+import { type TestMint, type TestMintSocket } from './TestMint';
+import {
+  ReadyState,
+  toWebSocketImpl,
+  type WebSocketLike,
+  type WebSocketListener,
+} from './WebSocketLike';
+
+/**
+ * Builds a WebSocket implementation that connects to the given test mints.
+ *
+ * @remarks
+ * Pass the result to `injectWebSocketImpl`. Sockets open, deliver and close asynchronously like a
+ * browser WebSocket. URLs of other mints fail with an error event followed by a close.
+ * @example
+ *
+ *     injectWebSocketImpl(createTestWebSocket(mintA, mintB));
+ *
+ * @param mints Mints that accept connections.
+ */
+export function createTestWebSocket(...mints: TestMint[]): typeof WebSocket {
+  return toWebSocketImpl((url) => new TestWebSocket(url, mints));
+}
+
+class TestWebSocket implements WebSocketLike {
+  readonly url: string;
+  readyState: number = ReadyState.CONNECTING;
+  onopen: WebSocketListener = null;
+  onmessage: WebSocketListener = null;
+  onerror: WebSocketListener = null;
+  onclose: WebSocketListener = null;
+  private socket?: TestMintSocket;
+
+  constructor(url: string, mints: TestMint[]) {
+    this.url = url;
+    const mint = mints.find((m) => m.webSocketUrl === url);
+    setTimeout(() => {
+      if (this.readyState !== ReadyState.CONNECTING) return;
+      if (!mint) {
+        this.onerror?.({ type: 'error' });
+        this.finish(1006, 'connection refused', false);
+        return;
+      }
+      this.socket = mint.connectSocket({
+        deliver: (data) =>
+          setTimeout(() => {
+            if (this.readyState === ReadyState.OPEN) this.onmessage?.({ data });
+          }),
+        drop: () => this.finish(1006, '', false),
+      });
+      this.readyState = ReadyState.OPEN;
+      this.onopen?.({ type: 'open' });
+    });
+  }
+
+  send(data: string): void {
+    if (this.readyState !== ReadyState.OPEN || !this.socket) {
+      throw new Error('WebSocket is not open');
+    }
+    this.socket.send(data);
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === ReadyState.CLOSED) return;
+    this.socket?.close();
+    this.finish(code, reason, true);
+  }
+
+  private finish(code: number, reason: string, wasClean: boolean): void {
+    if (this.readyState === ReadyState.CLOSED) return;
+    this.readyState = ReadyState.CLOSED;
+    setTimeout(() => this.onclose?.({ type: 'close', code, reason, wasClean }));
+  }
+}
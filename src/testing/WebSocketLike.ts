@@ -0,0 +1,42 @@
+/**
+ * Socket ready states, as on the `WebSocket` constructor.
+ */
+export const ReadyState = { CONNECTING: 0, OPEN: 1, CLOSING: 2, CLOSED: 3 } as const;
+
+/**
+ * Event handler slot of a {@link WebSocketLike}.
+ */
+export type WebSocketListener = ((event: unknown) => void) | null;
+
+/**
+ * The part of a `WebSocket` that `WSConnection` uses.
+ */
+export interface WebSocketLike {
+  readonly url: string;
+  readonly readyState: number;
+  onopen: WebSocketListener;
+  onmessage: WebSocketListener;
+  onerror: WebSocketListener;
+  onclose: WebSocketListener;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * Builds a WebSocket implementation for `injectWebSocketImpl` whose sockets come from `open`.
+ */
+export function toWebSocketImpl(open: (url: string) => WebSocketLike): typeof WebSocket {
+  class WebSocketShim {
+    static readonly CONNECTING = ReadyState.CONNECTING;
+    static readonly OPEN = ReadyState.OPEN;
+    static readonly CLOSING = ReadyState.CLOSING;
+    static readonly CLOSED = ReadyState.CLOSED;
+
+    constructor(url: string | URL) {
+      // `new` hands back the socket `open` made
+      return open(url.toString());
+    }
+  }
+  // eslint-disable-next-line no-restricted-syntax -- only the WebSocketLike subset is implemented
+  return WebSocketShim as unknown as typeof WebSocket;
+}
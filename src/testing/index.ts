@@ -0,0 +1,27 @@
+export {
+  FakeLightning,
+  FakeLightningNetwork,
+  type FakeLightningOptions,
+  type FakePaymentRequest,
+  type PaymentOutcome,
+  type PaymentRequestKind,
+  type PaymentRequestOptions,
+} from './FakeLightning';
+export {
+  TestMint,
+  type TestMintOptions,
+  type TestMintSocket,
+  type TestMintSocketClient,
+} from './TestMint';
+export { createTestWebSocket } from './TestWebSocket';
+export {
+  MintRecorder,
+  ReplayMismatchError,
+  type MintFixture,
+  type MintRecordOptions,
+  type MintReplayOptions,
+  type RecordedExchange,
+  type RecordedFrame,
+  type RecordedSocket,
+  type ReplayRequest,
+} from './MintRecorder';
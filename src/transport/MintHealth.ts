@@ -0,0 +1,330 @@
+import { type Logger, safeCallback } from '../logger';
+import { CTSError, HttpResponseError, NetworkError, RateLimitError } from '../model/Errors';
+import { normalizeMintUrl } from '../utils/core';
+
+import {
+  CallerAbortError,
+  type RequestContext,
+  type RequestMiddleware,
+  type ResponseMeta,
+} from './request';
+
+/**
+ * Circuit of a {@link MintHealthTracker}.
+ *
+ * - `closed` - requests go through.
+ * - `open` - requests fail fast with {@link CircuitOpenError} until `retryAt`.
+ * - `half-open` - a few probe requests go through; the first result closes or reopens the circuit.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Health of one mint, as seen by a {@link MintHealthTracker}.
+ */
+export type MintHealth = {
+  mintUrl: string;
+  state: CircuitState;
+  /**
+   * 0 (unusable) to 1 (healthy). 0 while the circuit is open, otherwise `1 - errorRate`, scaled
+   * down when `latencyMs` is above the tracker's `slowMs`.
+   */
+  score: number;
+  /**
+   * Moving average of response times in milliseconds. Absent until the mint has answered.
+   */
+  latencyMs?: number;
+  /**
+   * Moving average of failures, 0 to 1.
+   */
+  errorRate: number;
+  consecutiveFailures: number;
+  /**
+   * While open, when the next probe is allowed (Unix time in milliseconds).
+   */
+  retryAt?: number;
+  /**
+   * The most recent failure.
+   */
+  lastError?: unknown;
+};
+
+/**
+ * Options of a {@link MintHealthTracker}.
+ */
+export type MintHealthOptions = {
+  /**
+   * Consecutive failures that open the circuit. Default 5.
+   */
+  failureThreshold?: number;
+  /**
+   * How long an open circuit fails fast before probing, in milliseconds. A longer `Retry-After`
+   * from a `429` wins. Default 30 000.
+   */
+  cooldownMs?: number;
+  /**
+   * Probe requests allowed at once while half-open. Default 1.
+   */
+  halfOpenProbes?: number;
+  /**
+   * Response time above which the score drops, in milliseconds. Default 2 000.
+   */
+  slowMs?: number;
+  /**
+   * Weight of the newest sample in the moving averages, 0 to 1. Default 0.2.
+   */
+  smoothing?: number;
+  /**
+   * Called when a mint's circuit changes state.
+   */
+  onStateChange?: (health: MintHealth) => void;
+  logger?: Logger;
+  /**
+   * Clock in milliseconds. Default `Date.now`.
+   */
+  now?: () => number;
+};
+
+/**
+ * Thrown instead of sending a request to a mint whose circuit is open.
+ */
+export class CircuitOpenError extends CTSError {
+  readonly mintUrl: string;
+  /**
+   * When the next probe is allowed (Unix time in milliseconds).
+   */
+  readonly retryAt: number;
+
+  constructor(mintUrl: string, retryAt: number) {
+    super(`Circuit open for ${mintUrl}, retry after ${new Date(retryAt).toISOString()}`);
+    this.mintUrl = mintUrl;
+    this.retryAt = retryAt;
+    this.name = 'CircuitOpenError';
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
+type Circuit = Omit<MintHealth, 'score'> & {
+  // In-flight probes and when they started
+  probes: Map<RequestContext, number>;
+};
+
+type Outcome = 'success' | 'failure' | 'neutral';
+
+function mintKey(endpoint: string): string {
+  const i = endpoint.indexOf('/v1/');
+  try {
+    return normalizeMintUrl(i >= 0 ? endpoint.slice(0, i) : new URL(endpoint).origin);
+  } catch {
+    return endpoint;
+  }
+}
+
+/**
+ * Failures that say the mint is unreachable or struggling. A protocol error or other 4xx means it
+ * answered, and a caller abort says nothing about the mint.
+ */
+function classify(error: unknown): Outcome {
+  if (error instanceof CallerAbortError) return 'neutral';
+  if (error instanceof NetworkError || error instanceof RateLimitError) return 'failure';
+  if (error instanceof HttpResponseError) return error.status >= 500 ? 'failure' : 'success';
+  return 'neutral';
+}
+
+/**
+ * Per-mint health tracker and circuit breaker, as {@link RequestMiddleware}.
+ *
+ * @remarks
+ * Register it globally with `setGlobalRequestOptions({ middleware: [tracker] })` to watch every
+ * mint, or per mint with `mint.use(tracker)`. It learns from every response: latency from
+ * `ResponseMeta`, failures from `NetworkError`s (including timeouts), `RateLimitError`s and 5xx
+ * responses.
+ *
+ * After `failureThreshold` failures in a row the mint's circuit opens and requests to it throw
+ * {@link CircuitOpenError} at once, instead of waiting out timeouts and NUT-19 retries. After
+ * `cooldownMs` the circuit half-opens and lets `halfOpenProbes` requests through: a success closes
+ * it, a failure opens it again.
+ * @example
+ *
+ *     const health = new MintHealthTracker({ onStateChange: (h) => badge(h.mintUrl, h.state) });
+ *     setGlobalRequestOptions({ middleware: [health] });
+ *     const best = mintUrls.sort((a, b) => health.health(b).score - health.health(a).score)[0];
+ */
+export class MintHealthTracker implements RequestMiddleware {
+  private circuits = new Map<string, Circuit>();
+  private started = new WeakMap<RequestContext, number>();
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly halfOpenProbes: number;
+  private readonly slowMs: number;
+  private readonly smoothing: number;
+  private readonly now: () => number;
+
+  constructor(private readonly options: MintHealthOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.cooldownMs = options.cooldownMs ?? 30_000;
+    this.halfOpenProbes = options.halfOpenProbes ?? 1;
+    this.slowMs = options.slowMs ?? 2_000;
+    this.smoothing = options.smoothing ?? 0.2;
+    this.now = options.now ?? Date.now;
+    if (!Number.isInteger(this.failureThreshold) || this.failureThreshold < 1) {
+      throw new CTSError('failureThreshold must be a positive integer');
+    }
+    if (!Number.isInteger(this.halfOpenProbes) || this.halfOpenProbes < 1) {
+      throw new CTSError('halfOpenProbes must be a positive integer');
+    }
+    if (!(this.smoothing > 0 && this.smoothing <= 1)) {
+      throw new CTSError('smoothing must be above 0 and at most 1');
+    }
+  }
+
+  /**
+   * Current health of a mint. Mints not seen yet are healthy.
+   */
+  health(mintUrl: string): MintHealth {
+    const key = normalizeMintUrl(mintUrl);
+    return this.snapshot(this.circuits.get(key) ?? this.fresh(key));
+  }
+
+  /**
+   * Health of every mint seen so far.
+   */
+  all(): MintHealth[] {
+    return [...this.circuits.values()].map((c) => this.snapshot(c));
+  }
+
+  /**
+   * Forget what is known about one mint, or all mints, closing their circuits.
+   */
+  reset(mintUrl?: string): void {
+    if (mintUrl === undefined) {
+      this.circuits.clear();
+    } else {
+      this.circuits.delete(normalizeMintUrl(mintUrl));
+    }
+  }
+
+  onRequest(request: RequestContext): void {
+    const circuit = this.circuit(mintKey(request.endpoint));
+    const now = this.now();
+    if (circuit.state === 'open') {
+      if (now < circuit.retryAt!) {
+        throw new CircuitOpenError(circuit.mintUrl, circuit.retryAt!);
+      }
+      this.transition(circuit, 'half-open');
+    }
+    if (circuit.state === 'half-open') {
+      // A probe that never reported back (eg: a later middleware threw) must not block forever
+      for (const [probe, at] of circuit.probes) {
+        if (now - at >= this.cooldownMs) circuit.probes.delete(probe);
+      }
+      if (circuit.probes.size >= this.halfOpenProbes) {
+        throw new CircuitOpenError(circuit.mintUrl, now + this.cooldownMs);
+      }
+      circuit.probes.set(request, now);
+    }
+    this.started.set(request, now);
+  }
+
+  onResponse({ request, meta }: { request: RequestContext; meta: ResponseMeta }): void {
+    this.record(request, 'success', meta);
+  }
+
+  onError({
+    request,
+    error,
+    meta,
+  }: {
+    request: RequestContext;
+    error: unknown;
+    meta?: ResponseMeta;
+  }): void {
+    this.record(request, classify(error), meta, error);
+  }
+
+  private record(
+    request: RequestContext,
+    outcome: Outcome,
+    meta?: ResponseMeta,
+    error?: unknown,
+  ): void {
+    const circuit = this.circuit(mintKey(request.endpoint));
+    const now = this.now();
+    const started = this.started.get(request);
+    this.started.delete(request);
+    circuit.probes.delete(request);
+    if (meta && started !== undefined) {
+      circuit.latencyMs = this.average(circuit.latencyMs, now - started);
+    }
+    if (outcome === 'neutral') return;
+
+    circuit.errorRate = this.average(circuit.errorRate, outcome === 'failure' ? 1 : 0);
+    if (outcome === 'success') {
+      circuit.consecutiveFailures = 0;
+      if (circuit.state !== 'closed') {
+        circuit.retryAt = undefined;
+        this.transition(circuit, 'closed');
+      }
+      return;
+    }
+    circuit.consecutiveFailures++;
+    circuit.lastError = error;
+    if (
+      circuit.state === 'half-open' ||
+      (circuit.state === 'closed' && circuit.consecutiveFailures >= this.failureThreshold)
+    ) {
+      const retryAfterMs = error instanceof RateLimitError ? (error.retryAfterMs ?? 0) : 0;
+      circuit.retryAt = now + Math.max(this.cooldownMs, retryAfterMs);
+      this.transition(circuit, 'open');
+    }
+  }
+
+  private transition(circuit: Circuit, state: CircuitState): void {
+    circuit.state = state;
+    circuit.probes.clear();
+    safeCallback(this.options.onStateChange, this.snapshot(circuit), this.options.logger, {
+      op: 'MintHealthTracker.onStateChange',
+      mintUrl: circuit.mintUrl,
+    });
+  }
+
+  private average(current: number | undefined, sample: number): number {
+    return current === undefined ? sample : current + this.smoothing * (sample - current);
+  }
+
+  private circuit(key: string): Circuit {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = this.fresh(key);
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  private fresh(mintUrl: string): Circuit {
+    return {
+      mintUrl,
+      state: 'closed',
+      errorRate: 0,
+      consecutiveFailures: 0,
+      probes: new Map(),
+    };
+  }
+
+  private snapshot(circuit: Circuit): MintHealth {
+    let score = 0;
+    if (circuit.state !== 'open') {
+      const latency = circuit.latencyMs ?? 0;
+      score = (1 - circuit.errorRate) * (latency > this.slowMs ? this.slowMs / latency : 1);
+    }
+    return {
+      mintUrl: circuit.mintUrl,
+      state: circuit.state,
+      score,
+      latencyMs: circuit.latencyMs,
+      errorRate: circuit.errorRate,
+      consecutiveFailures: circuit.consecutiveFailures,
+      retryAt: circuit.retryAt,
+      lastError: circuit.lastError,
+    };
+  }
+}
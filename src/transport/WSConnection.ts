@@ -1,4 +1,4 @@
-import { type Logger, NULL_LOGGER } from '../logger';
+import { type Logger, NULL_LOGGER, safeCallback } from '../logger';
 import { CTSError } from '../model/Errors';
 import { type JsonRpcMessage, type JsonRpcReqParams, type RpcSubId } from '../model/types';
 import { generateUuidV7 } from '../utils/uuid.js';
@@ -52,6 +52,101 @@ interface RpcListener {
 type OnOpenSuccess = () => void;
 type OnOpenError = (err: Error) => void;
 
+// A subscription as needed to send it again on a new socket
+interface ActiveSubscription {
+  params: Omit<JsonRpcReqParams, 'subId'>;
+  callback: (payload: unknown) => void;
+  errorCallback: (e: Error) => void;
+  acked: boolean;
+}
+
+/**
+ * Backoff of {@link WSConnectionOptions.reconnect}. The delay doubles from `initialDelayMs` up to
+ * `maxDelayMs`.
+ */
+export type WSReconnectOptions = {
+  /**
+   * Default 500.
+   */
+  initialDelayMs?: number;
+  /**
+   * Default 30 000.
+   */
+  maxDelayMs?: number;
+  /**
+   * Attempts in a row before giving up and failing all subscriptions. Default: no limit.
+   */
+  maxAttempts?: number;
+  /**
+   * Timeout of each attempt. Default 10 000.
+   */
+  connectTimeoutMs?: number;
+};
+
+/**
+ * Half-open socket detection of {@link WSConnectionOptions.heartbeat}.
+ */
+export type WSHeartbeatOptions = {
+  /**
+   * Send a probe after this long without a message from the mint. Default 30 000.
+   */
+  intervalMs?: number;
+  /**
+   * Drop the socket if the probe gets no answer within this long. Default 10 000.
+   */
+  timeoutMs?: number;
+};
+
+/**
+ * Options of a {@link WSConnection}. Both features are off by default.
+ */
+export type WSConnectionOptions = {
+  /**
+   * Reconnect with backoff when the socket drops, and subscribe again to every active subscription
+   * with its original filters.
+   */
+  reconnect?: boolean | WSReconnectOptions;
+  /**
+   * Probe a quiet socket and drop it if the mint does not answer. NUT-17 has no ping, so the probe
+   * is an `unsubscribe` for a subscription that does not exist; any answer proves the socket
+   * alive.
+   */
+  heartbeat?: boolean | WSHeartbeatOptions;
+};
+
+/**
+ * State of a {@link WSConnection}.
+ *
+ * - `idle` - never connected.
+ * - `connecting` - opening a socket.
+ * - `open` - connected.
+ * - `reconnecting` - the socket dropped; waiting `delayMs` before `attempt`.
+ * - `closed` - closed by `close()`, by the mint without reconnect, or reconnect gave up.
+ */
+export type WSConnectionState = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+/**
+ * A change of {@link WSConnectionState}.
+ */
+export type WSConnectionStateEvent = {
+  state: WSConnectionState;
+  /**
+   * Reconnect attempt, counting from 1.
+   */
+  attempt?: number;
+  /**
+   * Delay before the reconnect attempt.
+   */
+  delayMs?: number;
+  /**
+   * What dropped the socket or failed the last attempt.
+   */
+  error?: Error;
+};
+
+// Not a real subscription: heartbeat probes unsubscribe from it to get an answer
+const HEARTBEAT_SUB_ID = 'cashu-ts-heartbeat';
+
 export class WSConnection {
   public readonly url: URL;
   private readonly _WS: typeof WebSocket;
@@ -64,12 +159,64 @@ export class WSConnection {
   private rpcId = 0;
   private _logger: Logger;
   private onCloseCallbacks: Array<(e: CloseEvent) => void> = [];
+  private subscriptions = new Map<string, ActiveSubscription>();
+  private stateListeners = new Set<(e: WSConnectionStateEvent) => void>();
+  private _state: WSConnectionState = 'idle';
+  private readonly reconnectOptions?: Required<WSReconnectOptions>;
+  private readonly heartbeatOptions?: Required<WSHeartbeatOptions>;
+  private reconnectAttempt = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+  private lastMessageAt = 0;
+  // Set when the socket dropped with subscriptions to send again on the next open
+  private needsReplay = false;
+  private closedByUser = false;
 
-  constructor(url: string, logger?: Logger) {
+  /**
+   * @param url NUT-17 WebSocket endpoint of the mint.
+   * @param logger Optional logger.
+   * @param options Optional reconnect and heartbeat behaviour.
+   */
+  constructor(url: string, logger?: Logger, options?: WSConnectionOptions) {
     this._WS = getWebSocketImpl();
     this.url = new URL(url);
     this.messageQueue = new MessageQueue();
     this._logger = logger ?? NULL_LOGGER;
+    if (options?.reconnect) {
+      const r = options.reconnect === true ? {} : options.reconnect;
+      this.reconnectOptions = {
+        initialDelayMs: r.initialDelayMs ?? 500,
+        maxDelayMs: r.maxDelayMs ?? 30_000,
+        maxAttempts: r.maxAttempts ?? Infinity,
+        connectTimeoutMs: r.connectTimeoutMs ?? 10_000,
+      };
+    }
+    if (options?.heartbeat) {
+      const h = options.heartbeat === true ? {} : options.heartbeat;
+      this.heartbeatOptions = {
+        intervalMs: h.intervalMs ?? 30_000,
+        timeoutMs: h.timeoutMs ?? 10_000,
+      };
+    }
+  }
+
+  /**
+   * Current connection state.
+   */
+  get state(): WSConnectionState {
+    return this._state;
+  }
+
+  /**
+   * Calls `listener` on every change of {@link WSConnection.state}.
+   *
+   * @returns A function that removes the listener.
+   */
+  onStateChange(listener: (e: WSConnectionStateEvent) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
   }
 
   setLogger(logger: Logger) {
@@ -78,6 +225,15 @@ export class WSConnection {
 
   connect(timeoutMs = 10_000): Promise<void> {
     if (this.connectionPromise) return this.connectionPromise;
+    this.closedByUser = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    this.setState(
+      'connecting',
+      this.reconnectAttempt > 0 ? { attempt: this.reconnectAttempt } : undefined,
+    );
 
     this.connectionPromise = new Promise((resolve: OnOpenSuccess, reject: OnOpenError) => {
       let opened = false;
@@ -108,6 +264,7 @@ export class WSConnection {
         }
         this.ws = undefined;
         this.stopMessageHandling();
+        this.stopHeartbeat();
       };
 
       const fail = (e: unknown) => {
@@ -116,6 +273,11 @@ export class WSConnection {
         const err = e instanceof Error ? e : new CTSError(String(e), { cause: e });
         this.failPendingRpc(err);
         settle(() => reject(err));
+        if (this.needsReplay && this.willReconnect()) {
+          this.scheduleReconnect(err);
+        } else {
+          this.setState('closed', { error: err });
+        }
       };
 
       let socket: WebSocket;
@@ -138,6 +300,13 @@ export class WSConnection {
       socket.onopen = () => {
         if (!isCurrent()) return;
         opened = true;
+        this.reconnectAttempt = 0;
+        this.startHeartbeat(socket);
+        this.setState('open');
+        if (this.needsReplay) {
+          this.needsReplay = false;
+          this.replaySubscriptions();
+        }
         settle(resolve);
       };
 
@@ -153,6 +322,7 @@ export class WSConnection {
 
       socket.onmessage = (e: MessageEvent) => {
         if (!isCurrent()) return;
+        this.lastMessageAt = Date.now();
         this.messageQueue.enqueue(e.data as string);
         if (!this.handlingInterval) {
           this.handlingInterval = setInterval(this.handleNextMessage.bind(this), 0);
@@ -171,26 +341,198 @@ export class WSConnection {
           return;
         }
 
-        this.stopMessageHandling();
+        this.handleClose(e);
+      };
+    });
+
+    return this.connectionPromise;
+  }
 
-        // If the socket closed unexpectedly, fail any in flight RPC acks.
-        // Otherwise just clear them to avoid leaks, but don't spam errors.
-        const reason = e?.reason ? `, ${e.reason}` : '';
-        const code = e?.code ?? 0;
-        const wasClean = typeof e.wasClean === 'boolean' ? e.wasClean : true;
+  /**
+   * Teardown after an open socket closed, or was dropped by the heartbeat.
+   */
+  private handleClose(e: CloseEvent) {
+    this.stopMessageHandling();
+    this.stopHeartbeat();
+
+    const reason = e?.reason ? `, ${e.reason}` : '';
+    const code = e?.code ?? 0;
+    const wasClean = typeof e.wasClean === 'boolean' ? e.wasClean : true;
+    const error = new CTSError(`WebSocket closed (code ${code}${reason})`);
+
+    // If the socket closed unexpectedly, fail any in flight RPC acks.
+    // Otherwise just clear them to avoid leaks, but don't spam errors.
+    // Subscriptions survive a reconnect, so their acks are not failed either.
+    const abnormal = !wasClean || (code !== 1000 && code !== 1001);
+    const reconnect = this.willReconnect();
+    if (reconnect) {
+      this.rpcListeners = {};
+      this.needsReplay = true;
+    } else if (abnormal) {
+      this.failPendingRpc(error);
+    } else {
+      this.rpcListeners = {};
+    }
 
-        const abnormal = !wasClean || (code !== 1000 && code !== 1001);
-        if (abnormal) {
-          this.failPendingRpc(new CTSError(`WebSocket closed (code ${code}${reason})`));
-        } else {
-          this.rpcListeners = {};
-        }
+    this.onCloseCallbacks.forEach((cb) => cb(e));
 
-        this.onCloseCallbacks.forEach((cb) => cb(e));
-      };
+    if (reconnect) {
+      this.scheduleReconnect(error);
+    } else {
+      this.setState('closed');
+    }
+  }
+
+  private willReconnect(): boolean {
+    return this.reconnectOptions !== undefined && !this.closedByUser;
+  }
+
+  private scheduleReconnect(error: Error) {
+    const options = this.reconnectOptions!;
+    if (this.reconnectTimer) return;
+    if (this.reconnectAttempt >= options.maxAttempts) {
+      this.giveUp(error);
+      return;
+    }
+    this.needsReplay = true;
+    this.reconnectAttempt++;
+    const delayMs = Math.min(
+      options.maxDelayMs,
+      options.initialDelayMs * 2 ** (this.reconnectAttempt - 1),
+    );
+    this._logger.info('WebSocket dropped, reconnecting', {
+      url: this.url.toString(),
+      attempt: this.reconnectAttempt,
+      delayMs,
     });
+    this.setState('reconnecting', { attempt: this.reconnectAttempt, delayMs, error });
+    this.reconnectTimer = setTimeout(() => this.reconnect(), delayMs);
+  }
 
-    return this.connectionPromise;
+  private reconnect() {
+    this.reconnectTimer = undefined;
+    // A failed attempt schedules the next one from connect()
+    this.connect(this.reconnectOptions!.connectTimeoutMs).catch(() => undefined);
+  }
+
+  private giveUp(error: Error) {
+    const attempts = this.reconnectAttempt;
+    this.reconnectAttempt = 0;
+    this.needsReplay = false;
+    const subscriptions = [...this.subscriptions.values()];
+    this.subscriptions.clear();
+    const err = new CTSError(`WebSocket reconnect failed after ${attempts} attempts`, {
+      cause: error,
+    });
+    this._logger.error('WebSocket reconnect gave up', { url: this.url.toString(), attempts });
+    for (const sub of subscriptions) {
+      try {
+        sub.errorCallback(err);
+      } catch {
+        // ignore user error callbacks throwing
+      }
+    }
+    this.setState('closed', { error: err });
+  }
+
+  private replaySubscriptions() {
+    for (const [subId, sub] of this.subscriptions) {
+      try {
+        this.subscribe(subId, sub);
+      } catch (e) {
+        // The socket is gone again and its close schedules the next attempt
+        this._logger.warn('Failed to resubscribe', { subId, e });
+        return;
+      }
+    }
+    if (this.subscriptions.size > 0) {
+      this._logger.info('Resubscribed after reconnect', { count: this.subscriptions.size });
+    }
+  }
+
+  private setState(state: WSConnectionState, details?: Omit<WSConnectionStateEvent, 'state'>) {
+    if (state === this._state && !details) return;
+    this._state = state;
+    const event = { state, ...details };
+    for (const listener of this.stateListeners) {
+      safeCallback(listener, event, this._logger, { op: 'WSConnection.onStateChange' });
+    }
+  }
+
+  private startHeartbeat(socket: WebSocket) {
+    const options = this.heartbeatOptions;
+    if (!options) return;
+    this.stopHeartbeat();
+    this.lastMessageAt = Date.now();
+    let probeSentAt: number | undefined;
+    this.heartbeatTimer = setInterval(
+      () => {
+        if (this.ws !== socket) {
+          this.stopHeartbeat();
+          return;
+        }
+        const now = Date.now();
+        if (probeSentAt !== undefined && this.lastMessageAt >= probeSentAt) {
+          probeSentAt = undefined;
+        }
+        if (probeSentAt !== undefined) {
+          if (now - probeSentAt >= options.timeoutMs) {
+            this._logger.warn('WebSocket heartbeat timed out', { url: this.url.toString() });
+            this.dropSocket(socket, 'heartbeat timeout');
+          }
+          return;
+        }
+        if (now - this.lastMessageAt >= options.intervalMs) {
+          probeSentAt = now;
+          this.sendHeartbeat();
+        }
+      },
+      Math.min(options.intervalMs, options.timeoutMs),
+    );
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+  }
+
+  private sendHeartbeat() {
+    const id = this.rpcId;
+    this.rpcId++;
+    // Either answer will do; lastMessageAt records it
+    const ignore = () => undefined;
+    this.addRpcListener(ignore, ignore, id);
+    try {
+      this.sendRpcMessage('unsubscribe', { subId: HEARTBEAT_SUB_ID }, id);
+    } catch {
+      this.removeRpcListener(id);
+    }
+  }
+
+  /**
+   * Gives up on a socket that stopped answering. Its close handshake could take minutes, so it is
+   * torn down at once.
+   */
+  private dropSocket(socket: WebSocket, reason: string) {
+    socket.onopen = null;
+    socket.onerror = null;
+    socket.onmessage = null;
+    socket.onclose = null;
+    try {
+      socket.close();
+    } catch {
+      // silence
+    }
+    this.ws = undefined;
+    this.connectionPromise = undefined;
+    const event: Pick<CloseEvent, 'code' | 'reason' | 'wasClean'> = {
+      code: 4000,
+      reason,
+      wasClean: false,
+    };
+    this.handleClose(event as CloseEvent);
   }
 
   sendRequest(method: 'subscribe', params: JsonRpcReqParams): void;
@@ -266,7 +608,13 @@ export class WSConnection {
       this.stopMessageHandling();
 
       const err = e instanceof Error ? e : new CTSError(String(e), { cause: e });
-      this.failPendingRpc(err);
+      if (this.willReconnect()) {
+        // The socket's close event reconnects and subscribes again
+        this.rpcListeners = {};
+        this.needsReplay = true;
+      } else {
+        this.failPendingRpc(err);
+      }
       throw err;
     }
   }
@@ -363,23 +711,38 @@ export class WSConnection {
     }
 
     const subId = generateUuidV7();
+    const sub: ActiveSubscription = {
+      params,
+      callback: callback as (payload: unknown) => void,
+      errorCallback,
+      acked: false,
+    };
+    this.subscribe(subId, sub);
+    this.subscriptions.set(subId, sub);
+    return subId;
+  }
+
+  private subscribe(subId: string, sub: ActiveSubscription) {
     const rpcId = this.rpcId; // this is the id sendRequest will use next
     this.addRpcListener(
       () => {
-        this.addSubListener(subId, callback);
+        if (sub.acked) return;
+        sub.acked = true;
+        this.addSubListener(subId, sub.callback);
+      },
+      (e) => {
+        this.subscriptions.delete(subId);
+        sub.errorCallback(e);
       },
-      errorCallback,
       rpcId,
     );
 
     try {
-      this.sendRequest('subscribe', { ...params, subId });
+      this.sendRequest('subscribe', { ...sub.params, subId });
     } catch (e) {
       this.removeRpcListener(rpcId);
       throw e;
     }
-
-    return subId;
   }
 
   /**
@@ -395,6 +758,9 @@ export class WSConnection {
     errorCallback?: (e: Error) => void,
   ) {
     this.removeListener(subId, callback);
+    if (!this.subListeners[subId]) {
+      this.subscriptions.delete(subId);
+    }
 
     if (this.ws?.readyState !== this._WS.OPEN) {
       this._logger.info('Socket not open, removed listener locally {subId}', { subId });
@@ -424,7 +790,20 @@ export class WSConnection {
     return Object.keys(this.subListeners);
   }
 
+  /**
+   * Closes the socket. It is not reconnected, and subscriptions are not sent again on a later
+   * `connect()`.
+   */
   close() {
+    this.closedByUser = true;
+    this.needsReplay = false;
+    this.reconnectAttempt = 0;
+    this.subscriptions.clear();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    this.stopHeartbeat();
     if (this.ws) {
       try {
         this.ws.close();
@@ -435,6 +814,7 @@ export class WSConnection {
     }
     this.connectionPromise = undefined;
     this.stopMessageHandling();
+    this.setState('closed');
   }
 
   onClose(callback: (e: CloseEvent) => void) {
@@ -1,9 +1,28 @@
 export { default } from './request';
 export { setGlobalRequestOptions, setRequestLogger } from './request';
-export type { RequestFn, RequestFetch, RequestArgs, RequestOptions, ResponseMeta } from './request';
+export type {
+  ApiError,
+  RequestFn,
+  RequestFetch,
+  RequestArgs,
+  RequestContext,
+  RequestMiddleware,
+  RequestOptions,
+  ResponseMeta,
+} from './request';
+
+export { CircuitOpenError, MintHealthTracker } from './MintHealth';
+export type { CircuitState, MintHealth, MintHealthOptions } from './MintHealth';
 
 export { BATCH_POOL_SIZE, runPool } from './pool';
 
 export { injectWebSocketImpl } from './ws';
 
 export { WSConnection } from './WSConnection';
+export type {
+  WSConnectionOptions,
+  WSConnectionState,
+  WSConnectionStateEvent,
+  WSHeartbeatOptions,
+  WSReconnectOptions,
+} from './WSConnection';
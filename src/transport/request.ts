@@ -260,6 +260,68 @@ export type ResponseMeta = {
   headers: Headers;
 };
 
+/**
+ * One HTTP attempt, as seen by {@link RequestMiddleware}.
+ */
+export type RequestContext = {
+  endpoint: string;
+  /**
+   * Upper-case HTTP method.
+   */
+  method: string;
+  /**
+   * Outgoing headers. `onRequest` may change them, eg: to add tracing or signature headers.
+   */
+  headers: Record<string, string>;
+  /**
+   * Serialized JSON body, if any.
+   */
+  body?: string;
+  /**
+   * 1 for the first attempt. NUT-19 and idempotent retries count up.
+   */
+  attempt: number;
+};
+
+/**
+ * Hooks run around every HTTP attempt of the default request implementation.
+ *
+ * @remarks
+ * Register globally with `setGlobalRequestOptions({ middleware })`, per mint with the `Mint`
+ * `middleware` option or `mint.use()`, or per call via {@link RequestOptions}. Global middleware
+ * runs first, then per mint, then per call. `onRequest` hooks run in that order, `onResponse` and
+ * `onError` in reverse, so the first registered wraps the rest.
+ *
+ * A throw from `onRequest` fails the request with that error. `onResponse` and `onError` only
+ * observe: their failures are logged, and the response is returned or the original error rethrown.
+ * A custom `RequestFn` (`customRequest`) bypasses middleware unless it calls the default
+ * implementation with the options it was given.
+ */
+export type RequestMiddleware = {
+  /**
+   * Before the attempt is sent.
+   */
+  onRequest?: (request: RequestContext) => void | Promise<void>;
+  /**
+   * After a successful response was parsed.
+   */
+  onResponse?: (event: {
+    request: RequestContext;
+    meta: ResponseMeta;
+    data: unknown;
+  }) => void | Promise<void>;
+  /**
+   * After the attempt failed. `meta` is present if the mint answered, `apiError` if it answered
+   * with an error status.
+   */
+  onError?: (event: {
+    request: RequestContext;
+    error: unknown;
+    meta?: ResponseMeta;
+    apiError?: ApiError;
+  }) => void | Promise<void>;
+};
+
 export type RequestOptions = RequestArgs &
   Omit<RequestInit, 'body' | 'headers'> &
   Partial<Nut19Policy> & {
@@ -293,6 +355,10 @@ export type RequestOptions = RequestArgs &
      * while preserving cashu-ts JSON parsing, timeout handling, errors, and NUT-19 retry logic.
      */
     fetch?: RequestFetch;
+    /**
+     * Middleware for this call. Runs after any global middleware.
+     */
+    middleware?: RequestMiddleware[];
   };
 
 /**
@@ -363,6 +429,7 @@ const PER_CALL_OPTIONS = {
   idempotent: true,
   onResponseMeta: true,
   fetch: true,
+  middleware: true,
 } satisfies Record<PerCallOption, true>;
 
 let globalRequestOptions: Partial<RequestOptions> = {};
@@ -375,7 +442,8 @@ let requestLogger = NULL_LOGGER;
  * `RequestInit` fields (`cache`, `credentials`, `mode` etc) override the per-call value: they are
  * process-wide transport policy. Library options (`requestTimeout`, `fetch`, `maxResponseBytes`,
  * `idempotent`, NUT-19 policy) are defaults a per-call value overrides. `headers` merge, per-call
- * wins per key; `redirect` is always `error` on requests carrying auth headers.
+ * wins per key; `middleware` runs global first, then per-call; `redirect` is always `error` on
+ * requests carrying auth headers.
  * @param options See possible options here:
  *   https://developer.mozilla.org/en-US/docs/Web/API/fetch#options.
  */
@@ -398,7 +466,7 @@ const BASE_DELAY = 100; // 100 ms
 const DEFAULT_MAX_RESPONSE_BYTES = 8_388_608; // 8 MiB; >10x any realistic mint response
 const AUTH_HEADERS = ['blind-auth', 'clear-auth']; // NUT-21/22 tokens, lowercased for comparison
 
-class CallerAbortError extends NetworkError {
+export class CallerAbortError extends NetworkError {
   constructor(message: string) {
     super(message);
     this.name = 'CallerAbortError';
@@ -498,10 +566,10 @@ async function requestWithRetry(options: RequestOptions): Promise<unknown> {
   if (!isCachable) {
     const idempotent = options.idempotent ?? requestMethod === 'GET';
     if (!idempotent) {
-      return await _request(options);
+      return await _request(options, 1);
     }
     try {
-      return await _request(options);
+      return await _request(options, 1);
     } catch (e) {
       // One immediate retry on a connection-level failure (a dropped keep-alive socket is the
       // common case); HTTP errors mean the server answered and are never retried here.
@@ -513,7 +581,7 @@ async function requestWithRetry(options: RequestOptions): Promise<unknown> {
         throw e;
       }
       requestLogger.info('Network error on an idempotent request, retrying once', { e });
-      return await _request(options);
+      return await _request(options, 2);
     }
   }
 
@@ -522,7 +590,7 @@ async function requestWithRetry(options: RequestOptions): Promise<unknown> {
 
   const retry = async (): Promise<unknown> => {
     try {
-      return await _request(options);
+      return await _request(options, retries + 1);
     } catch (e) {
       if (isRetryableError(e)) {
         const totalElapsedTime = Date.now() - startTime;
@@ -567,7 +635,7 @@ async function requestWithRetry(options: RequestOptions): Promise<unknown> {
  * consumers MUST disable HTTP caching at the native layer or provide a `customRequest`
  * implementation (via the Mint constructor) that uses a cache-disabled HTTP client.
  */
-async function _request(options: RequestOptions): Promise<unknown> {
+async function _request(options: RequestOptions, attempt: number): Promise<unknown> {
   const {
     endpoint,
     requestBody,
@@ -576,6 +644,7 @@ async function _request(options: RequestOptions): Promise<unknown> {
     onResponseMeta,
     maxResponseBytes,
     fetch: fetchImpl,
+    middleware = [],
     // consumed by requestWithRetry, excluded from raw fetch options
     cached_endpoints,
     ttl,
@@ -601,13 +670,24 @@ async function _request(options: RequestOptions): Promise<unknown> {
   const requestFetch = fetchImpl ?? fetch;
   const body = requestBody ? JSONInt.stringify(requestBody) : undefined;
   const headers = buildRequestHeaders(body, requestHeaders);
-  const carriesAuth = Object.keys(headers).some((name) =>
-    AUTH_HEADERS.includes(name.toLowerCase()),
-  );
   const callerSignal = options.signal ?? undefined;
   if (callerSignal?.aborted) {
     throw new CallerAbortError('Request aborted by caller');
   }
+  const context: RequestContext = {
+    endpoint,
+    method: options.method?.toUpperCase() ?? 'GET',
+    headers,
+    body,
+    attempt,
+  };
+  for (const m of middleware) {
+    await m.onRequest?.(context);
+  }
+  // After onRequest, so auth headers added by middleware are protected too
+  const carriesAuth = Object.keys(headers).some((name) =>
+    AUTH_HEADERS.includes(name.toLowerCase()),
+  );
 
   // Construct an AbortController based on timeout, user signal, or both!
   const timeoutController = requestTimeout !== undefined ? new AbortController() : undefined;
@@ -635,6 +715,9 @@ async function _request(options: RequestOptions): Promise<unknown> {
 
   // Signals stay armed until the body is fully consumed: both the timeout and a caller abort
   // must be able to stop a body that streams slowly or never ends, not just the initial fetch.
+  let meta: ResponseMeta | undefined;
+  let apiError: ApiError | undefined;
+  let data: unknown;
   try {
     let response: Response;
     try {
@@ -671,15 +754,15 @@ async function _request(options: RequestOptions): Promise<unknown> {
     const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
 
     // Build and fire ResponseMeta callback before any throw or return
-    if (onResponseMeta && response.headers) {
-      const meta: ResponseMeta = {
-        endpoint,
-        status: response.status,
-        retryAfterMs,
-        rateLimit: response.headers.get('RateLimit') ?? undefined,
-        rateLimitPolicy: response.headers.get('RateLimit-Policy') ?? undefined,
-        headers: response.headers,
-      };
+    meta = {
+      endpoint,
+      status: response.status,
+      retryAfterMs,
+      rateLimit: response.headers.get('RateLimit') ?? undefined,
+      rateLimitPolicy: response.headers.get('RateLimit-Policy') ?? undefined,
+      headers: response.headers,
+    };
+    if (onResponseMeta) {
       safeCallback(onResponseMeta, meta, requestLogger, {
         op: 'request.onResponseMeta',
         status: response.status,
@@ -700,6 +783,7 @@ async function _request(options: RequestOptions): Promise<unknown> {
         errorDataCause = err;
         errorData = { error: 'bad response' };
       }
+      apiError = errorData;
 
       if (response.status === 429) {
         throw new RateLimitError('429 Too Many Requests', retryAfterMs);
@@ -744,15 +828,36 @@ async function _request(options: RequestOptions): Promise<unknown> {
       if (!responseText) {
         throw new CTSError('Empty response body');
       }
-      return JSONInt.parse(responseText);
+      data = JSONInt.parse(responseText);
     } catch (err) {
       requestLogger.error('Failed to parse HTTP response', { err });
       throw new HttpResponseError('bad response', response.status, { cause: err });
     }
+  } catch (error) {
+    for (const m of [...middleware].reverse()) {
+      if (!m.onError) continue;
+      try {
+        await m.onError({ request: context, error, meta, apiError });
+      } catch (e) {
+        requestLogger.warn('Request middleware onError failed', { endpoint, e });
+      }
+    }
+    throw error;
   } finally {
     clearTimeout(timeoutId);
     cleanupAbortListeners?.();
   }
+
+  // The mint has acted on the request by now: a failing hook must not lose its response
+  for (const m of [...middleware].reverse()) {
+    if (!m.onResponse) continue;
+    try {
+      await m.onResponse({ request: context, meta, data });
+    } catch (e) {
+      requestLogger.warn('Request middleware onResponse failed', { endpoint, e });
+    }
+  }
+  return data;
 }
 
 /**
@@ -792,6 +897,7 @@ export default async function request<T>(options: RequestOptions): Promise<T> {
   }
   // Neither side owns the header bag: a global adds app-wide headers, per-call carries auth.
   merged.headers = { ...globalRequestOptions.headers, ...options.headers };
+  merged.middleware = [...(globalRequestOptions.middleware ?? []), ...(options.middleware ?? [])];
 
   // Both set: wrap in safeCallback so a throw in one doesn't prevent the other from firing.
   if (perRequest && globalMeta && perRequest !== globalMeta) {
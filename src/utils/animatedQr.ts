@@ -0,0 +1,547 @@
+import { sha256 } from '@noble/hashes/sha2.js';
+
+import { CTSError } from '../model/Errors';
+import { PaymentRequest } from '../model/PaymentRequest';
+import type { Token } from '../model/types/token';
+
+import { decodeCBOR, encodeCBOR } from './cbor';
+import { getDecodedToken, getDecodedTokenBinary, getEncodedToken } from './core';
+import { MAX_PAYLOAD_LENGTH } from './limits';
+
+/**
+ * What an {@link AnimatedQREncoder} can carry: a token (encoded as `cashuB…`), a payment request
+ * (encoded as `creqA…`), any string, or raw bytes such as `getEncodedTokenBinary` output.
+ */
+export type AnimatedQRPayload = Token | PaymentRequest | string | Uint8Array;
+
+/**
+ * Options for {@link AnimatedQREncoder}.
+ */
+export type AnimatedQREncoderOptions = {
+  /**
+   * Largest fragment per frame, in bytes. Smaller frames give less dense QR codes. Default 100.
+   */
+  maxFragmentLength?: number;
+  /**
+   * Smallest fragment per frame, in bytes. Default 10.
+   */
+  minFragmentLength?: number;
+  /**
+   * Drop DLEQ proofs when encoding a Token. Default false.
+   */
+  removeDleq?: boolean;
+};
+
+const UR_TYPE = 'bytes';
+
+/**
+ * NUT-16: splits a payload into an endless sequence of animated QR frames.
+ *
+ * @remarks
+ * Frames are Uniform Resources (`ur:bytes/…`, BC-UR) with fountain-coded fragments, readable by any
+ * NUT-16 wallet. The first `seqLength` frames carry one fragment each; later frames XOR a
+ * pseudo-random mix of fragments, so a scanner that missed frames catches up without waiting for a
+ * full loop. A payload that fits one fragment gives a single static frame.
+ *
+ * Show each frame as its own QR code, a few per second, until the receiver is done. Frames are
+ * lowercase; uppercase them to fit QR alphanumeric mode.
+ * @example
+ *
+ *     const encoder = new AnimatedQREncoder(token);
+ *     setInterval(() => showQr(encoder.nextFrame().toUpperCase()), 200);
+ */
+export class AnimatedQREncoder {
+  /**
+   * Number of fragments the payload was split into.
+   */
+  readonly seqLength: number;
+  private readonly message: Uint8Array;
+  private readonly fragments: Uint8Array[];
+  private readonly checksum: number;
+  private seqNum = 0;
+
+  constructor(payload: AnimatedQRPayload, options: AnimatedQREncoderOptions = {}) {
+    const { maxFragmentLength = 100, minFragmentLength = 10 } = options;
+    if (!Number.isInteger(minFragmentLength) || minFragmentLength < 1) {
+      throw new CTSError('minFragmentLength must be a positive integer');
+    }
+    if (!Number.isInteger(maxFragmentLength) || maxFragmentLength < minFragmentLength) {
+      throw new CTSError('maxFragmentLength must be an integer of at least minFragmentLength');
+    }
+    this.message = encodeCBOR(payloadBytes(payload, options.removeDleq));
+    this.checksum = crc32(this.message);
+    const length = fragmentLength(this.message.length, minFragmentLength, maxFragmentLength);
+    this.fragments = [];
+    for (let i = 0; i < this.message.length; i += length) {
+      const fragment = new Uint8Array(length);
+      fragment.set(this.message.subarray(i, i + length));
+      this.fragments.push(fragment);
+    }
+    this.seqLength = this.fragments.length;
+  }
+
+  /**
+   * Whether the payload fits one frame, which then repeats.
+   */
+  get isSinglePart(): boolean {
+    return this.seqLength === 1;
+  }
+
+  /**
+   * Returns the next frame. Never runs out.
+   */
+  nextFrame(): string {
+    if (this.isSinglePart) {
+      return `ur:${UR_TYPE}/${bytewordsEncode(this.message)}`;
+    }
+    this.seqNum = (this.seqNum % 0xffffffff) + 1;
+    const indexes = chooseFragments(this.seqNum, this.seqLength, this.checksum);
+    const data = new Uint8Array(this.fragments[0].length);
+    for (const i of indexes) xorInto(data, this.fragments[i]);
+    const part = encodeCBOR([
+      this.seqNum,
+      this.seqLength,
+      this.message.length,
+      this.checksum,
+      data,
+    ]);
+    return `ur:${UR_TYPE}/${this.seqNum}-${this.seqLength}/${bytewordsEncode(part)}`;
+  }
+
+  /**
+   * Returns the next `count` frames, by default one per fragment.
+   */
+  frames(count = this.seqLength): string[] {
+    return Array.from({ length: count }, () => this.nextFrame());
+  }
+}
+
+/**
+ * NUT-16: reassembles a payload from animated QR frames.
+ *
+ * @remarks
+ * Accepts frames in any order, with repeats, and recovers missed fragments from the mixed frames
+ * that follow. Frames of another message are rejected, so restart with a new decoder when the
+ * sender starts over.
+ * @example
+ *
+ *     const decoder = new AnimatedQRDecoder();
+ *     scanner.onScan(async (text) => {
+ *       decoder.receive(text);
+ *       showProgress(decoder.progress);
+ *       if (decoder.isComplete) {
+ *         scanner.stop();
+ *         await wallet.receive(decoder.getText());
+ *       }
+ *     });
+ */
+export class AnimatedQRDecoder {
+  private header?: {
+    seqLength: number;
+    messageLength: number;
+    checksum: number;
+    fragmentLength: number;
+  };
+  private readonly known = new Map<number, Uint8Array>();
+  private mixed: Array<{ indexes: Set<number>; data: Uint8Array }> = [];
+  private result?: Uint8Array;
+
+  /**
+   * Fraction of fragments recovered, from 0 to 1.
+   */
+  get progress(): number {
+    if (this.result) return 1;
+    return this.header ? this.known.size / this.header.seqLength : 0;
+  }
+
+  /**
+   * Whether the payload is complete.
+   */
+  get isComplete(): boolean {
+    return this.result !== undefined;
+  }
+
+  /**
+   * Number of fragments in the message, once the first frame was read.
+   */
+  get seqLength(): number | undefined {
+    return this.header?.seqLength;
+  }
+
+  /**
+   * Reads one scanned frame.
+   *
+   * @param frame Frame text, any case.
+   * @returns True if the frame added fragments, false if it added nothing new.
+   * @throws If the frame is malformed or belongs to another message.
+   */
+  receive(frame: string): boolean {
+    if (this.result) return false;
+    const parts = frame.trim().toLowerCase().split('/');
+    if (parts[0] !== `ur:${UR_TYPE}` || parts.length < 2 || parts.length > 3) {
+      throw new CTSError('Not a NUT-16 frame (expected ur:bytes/…)');
+    }
+    if (parts.length === 2) {
+      this.result = decodeMessage(bytewordsDecode(parts[1]));
+      return true;
+    }
+    if (!/^\d+-\d+$/.test(parts[1])) {
+      throw new CTSError('Invalid frame sequence');
+    }
+    const [seqNum, seqLength, messageLength, checksum, data] = decodePart(
+      bytewordsDecode(parts[2]),
+    );
+    if (`${seqNum}-${seqLength}` !== parts[1]) {
+      throw new CTSError('Frame sequence does not match its content');
+    }
+    if (!this.header) {
+      if (Math.ceil(messageLength / data.length) !== seqLength) {
+        throw new CTSError('Invalid frame: fragments do not cover the message');
+      }
+      this.header = { seqLength, messageLength, checksum, fragmentLength: data.length };
+    } else if (
+      this.header.seqLength !== seqLength ||
+      this.header.messageLength !== messageLength ||
+      this.header.checksum !== checksum ||
+      this.header.fragmentLength !== data.length
+    ) {
+      throw new CTSError('Frame belongs to a different message');
+    }
+    const before = this.known.size;
+    const indexes = new Set(chooseFragments(seqNum, seqLength, checksum));
+    this.add(indexes, data.slice());
+    if (this.known.size === seqLength) this.finish();
+    return this.known.size > before;
+  }
+
+  /**
+   * The decoded payload bytes.
+   *
+   * @throws If the payload is not complete.
+   */
+  getBytes(): Uint8Array {
+    if (!this.result) throw new CTSError('Animated QR payload is not complete');
+    return this.result;
+  }
+
+  /**
+   * The decoded payload as text, e.g. a `cashuB…` token or `creqA…` payment request.
+   *
+   * @throws If the payload is not complete or not UTF-8.
+   */
+  getText(): string {
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(this.getBytes());
+    } catch (e) {
+      if (e instanceof CTSError) throw e;
+      throw new CTSError('Animated QR payload is not text', { cause: e });
+    }
+  }
+
+  /**
+   * The decoded token. Accepts encoded (`cashuB…`) and binary (`crawB…`) tokens.
+   *
+   * @param keysetIds Full keyset ids to resolve short ids, as for `getDecodedToken`.
+   * @throws If the payload is not complete or not a token.
+   */
+  getToken(keysetIds: readonly string[]): Token {
+    const bytes = this.getBytes();
+    if (new TextDecoder().decode(bytes.subarray(0, 5)) === 'crawB') {
+      return getDecodedTokenBinary(bytes);
+    }
+    return getDecodedToken(this.getText(), keysetIds);
+  }
+
+  /**
+   * The decoded payment request.
+   *
+   * @throws If the payload is not complete or not a payment request.
+   */
+  getPaymentRequest(): PaymentRequest {
+    return PaymentRequest.fromEncodedRequest(this.getText());
+  }
+
+  /**
+   * Peels known fragments off the new part, then uses any newly known fragment to peel the stored
+   * mixed parts, until nothing changes.
+   */
+  private add(indexes: Set<number>, data: Uint8Array): void {
+    const queue = [{ indexes, data }];
+    while (queue.length) {
+      const part = queue.shift()!;
+      for (const i of [...part.indexes]) {
+        const fragment = this.known.get(i);
+        if (fragment && part.indexes.size > 1) {
+          xorInto(part.data, fragment);
+          part.indexes.delete(i);
+        }
+      }
+      if (part.indexes.size !== 1) {
+        this.mixed.push(part);
+        continue;
+      }
+      const [index] = part.indexes;
+      if (this.known.has(index)) continue;
+      this.known.set(index, part.data);
+      const waiting = this.mixed.filter((m) => m.indexes.has(index));
+      this.mixed = this.mixed.filter((m) => !m.indexes.has(index));
+      queue.push(...waiting);
+    }
+  }
+
+  private finish(): void {
+    const { seqLength, messageLength, checksum, fragmentLength } = this.header!;
+    const message = new Uint8Array(seqLength * fragmentLength);
+    for (const [i, fragment] of this.known) message.set(fragment, i * fragmentLength);
+    const trimmed = message.subarray(0, messageLength);
+    if (crc32(trimmed) !== checksum) {
+      throw new CTSError('Animated QR message checksum mismatch');
+    }
+    this.result = decodeMessage(trimmed);
+  }
+}
+
+function payloadBytes(payload: AnimatedQRPayload, removeDleq?: boolean): Uint8Array {
+  if (payload instanceof Uint8Array) return payload;
+  if (payload instanceof PaymentRequest) {
+    return new TextEncoder().encode(payload.toEncodedRequest());
+  }
+  if (typeof payload === 'string') return new TextEncoder().encode(payload);
+  return new TextEncoder().encode(getEncodedToken(payload, { removeDleq }));
+}
+
+/**
+ * Unwraps the CBOR byte string a `ur:bytes` message carries.
+ */
+function decodeMessage(message: Uint8Array): Uint8Array {
+  let value: unknown;
+  try {
+    value = decodeCBOR(message);
+  } catch (e) {
+    throw new CTSError('Invalid animated QR message', { cause: e });
+  }
+  if (!(value instanceof Uint8Array)) {
+    throw new CTSError('Invalid animated QR message: expected a byte string');
+  }
+  return value.slice();
+}
+
+function decodePart(bytes: Uint8Array): [number, number, number, number, Uint8Array] {
+  let value: unknown;
+  try {
+    value = decodeCBOR(bytes);
+  } catch (e) {
+    throw new CTSError('Invalid animated QR frame', { cause: e });
+  }
+  if (
+    !Array.isArray(value) ||
+    value.length !== 5 ||
+    !value.slice(0, 4).every((n) => typeof n === 'number' && Number.isSafeInteger(n)) ||
+    !(value[4] instanceof Uint8Array)
+  ) {
+    throw new CTSError('Invalid animated QR frame');
+  }
+  const [seqNum, seqLength, messageLength, checksum, data] = value as [
+    number,
+    number,
+    number,
+    number,
+    Uint8Array,
+  ];
+  if (
+    seqNum < 1 ||
+    seqLength < 1 ||
+    data.length === 0 ||
+    messageLength < 1 ||
+    messageLength > MAX_PAYLOAD_LENGTH ||
+    checksum > 0xffffffff
+  ) {
+    throw new CTSError('Invalid animated QR frame');
+  }
+  return [seqNum, seqLength, messageLength, checksum, data];
+}
+
+/**
+ * Smallest fragment count whose fragments fit `max`, as BC-UR picks it.
+ */
+function fragmentLength(messageLength: number, min: number, max: number): number {
+  const maxCount = Math.max(1, Math.floor(messageLength / min));
+  let length = messageLength;
+  for (let count = 1; count <= maxCount; count++) {
+    length = Math.ceil(messageLength / count);
+    if (length <= max) break;
+  }
+  return length;
+}
+
+function xorInto(target: Uint8Array, source: Uint8Array): void {
+  for (let i = 0; i < target.length; i++) target[i] ^= source[i];
+}
+
+// -----------------------------------------------------------------
+// Section: BC-UR fountain code
+// -----------------------------------------------------------------
+
+/**
+ * Fragment indexes mixed into frame `seqNum`. The first `seqLength` frames are the plain fragments
+ * in order; later ones pick a degree from a 1/n distribution and that many shuffled indexes, from a
+ * PRNG seeded by the frame number and message checksum.
+ */
+function chooseFragments(seqNum: number, seqLength: number, checksum: number): number[] {
+  if (seqNum <= seqLength) return [seqNum - 1];
+  const seed = new Uint8Array(8);
+  const view = new DataView(seed.buffer);
+  view.setUint32(0, seqNum);
+  view.setUint32(4, checksum);
+  const rng = new Xoshiro256(sha256(seed));
+  const weights = Array.from({ length: seqLength }, (_, i) => 1 / (i + 1));
+  const degree = sampleIndex(weights, rng) + 1;
+  const remaining = Array.from({ length: seqLength }, (_, i) => i);
+  const chosen: number[] = [];
+  while (chosen.length < degree) {
+    chosen.push(remaining.splice(rng.nextInt(0, remaining.length - 1), 1)[0]);
+  }
+  return chosen;
+}
+
+/**
+ * Draws from a weighted distribution with Vose's alias method, consuming two doubles as BC-UR does.
+ */
+function sampleIndex(weights: number[], rng: Xoshiro256): number {
+  const n = weights.length;
+  const total = weights.reduce((s, w) => s + w, 0);
+  const p = weights.map((w) => (w * n) / total);
+  const probs = new Array<number>(n).fill(0);
+  const aliases = new Array<number>(n).fill(0);
+  const small: number[] = [];
+  const large: number[] = [];
+  for (let i = n - 1; i >= 0; i--) (p[i] < 1 ? small : large).push(i);
+  while (small.length && large.length) {
+    const a = small.pop()!;
+    const g = large.pop()!;
+    probs[a] = p[a];
+    aliases[a] = g;
+    p[g] += p[a] - 1;
+    (p[g] < 1 ? small : large).push(g);
+  }
+  for (const i of large) probs[i] = 1;
+  for (const i of small) probs[i] = 1;
+  const r1 = rng.nextDouble();
+  const r2 = rng.nextDouble();
+  const i = Math.floor(n * r1);
+  return r2 < probs[i] ? i : aliases[i];
+}
+
+const U64 = (1n << 64n) - 1n;
+
+/**
+ * Xoshiro256**, seeded from 32 bytes read as four big-endian words.
+ */
+class Xoshiro256 {
+  private readonly s: bigint[] = [];
+
+  constructor(seed: Uint8Array) {
+    const view = new DataView(seed.buffer, seed.byteOffset, 32);
+    for (let i = 0; i < 4; i++) this.s.push(view.getBigUint64(i * 8));
+  }
+
+  next(): bigint {
+    const s = this.s;
+    const result = (rotl((s[1] * 5n) & U64, 7n) * 9n) & U64;
+    const t = (s[1] << 17n) & U64;
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 45n);
+    return result;
+  }
+
+  nextDouble(): number {
+    return Number(this.next()) / 2 ** 64;
+  }
+
+  nextInt(low: number, high: number): number {
+    return Math.floor(this.nextDouble() * (high - low + 1)) + low;
+  }
+}
+
+function rotl(x: bigint, k: bigint): bigint {
+  return ((x << k) | (x >> (64n - k))) & U64;
+}
+
+// -----------------------------------------------------------------
+// Section: Bytewords and CRC32
+// -----------------------------------------------------------------
+
+const BYTEWORDS =
+  'ableacidalsoapexaquaarchatomauntawayaxisbackbaldbarnbeltbetabiasbluebodybragbrewbulbbuzzcalm' +
+  'cashcatschefcityclawcodecolacookcostcruxcurlcuspcyandarkdatadaysdelidicedietdoordowndrawdrop' +
+  'drumdulldutyeacheasyechoedgeepicevenexamexiteyesfactfairfernfigsfilmfishfizzflapflewfluxfoxy' +
+  'freefrogfuelfundgalagamegeargemsgiftgirlglowgoodgraygrimgurugushgyrohalfhanghardhawkheathelp' +
+  'highhillholyhopehornhutsicedideaidleinchinkyintoirisironitemjadejazzjoinjoltjowljudojugsjump' +
+  'junkjurykeepkenokeptkeyskickkilnkingkitekiwiknoblamblavalazyleaflegsliarlimplionlistlogoloud' +
+  'loveluaulucklungmainmanymathmazememomenumeowmildmintmissmonknailnavyneednewsnextnoonnotenumb' +
+  'obeyoboeomitonyxopenovalowlspaidpartpeckplaypluspoempoolposepuffpumapurrquadquizraceramprealr' +
+  'edorichroadrockroofrubyruinrunsrustsafesagascarsetssilkskewslotsoapsolosongstubsurfswantacota' +
+  'sktaxitenttiedtimetinytoiltombtoystriptunatwinuglyundouniturgeuservastveryvetovialvibeviewvis' +
+  'avoidvowswallwandwarmwaspwavewaxywebswhatwhenwhizwolfworkyankyawnyellyogayurtzapszerozestzinc' +
+  'zonezoom';
+
+let minimalWords: string[] | undefined;
+let minimalIndex: Map<string, number> | undefined;
+
+/**
+ * Minimal bytewords: the first and last letter of each byte's word.
+ */
+function minimal(): { words: string[]; index: Map<string, number> } {
+  if (!minimalWords || !minimalIndex) {
+    minimalWords = Array.from({ length: 256 }, (_, i) => BYTEWORDS[i * 4] + BYTEWORDS[i * 4 + 3]);
+    minimalIndex = new Map(minimalWords.map((w, i) => [w, i]));
+  }
+  return { words: minimalWords, index: minimalIndex };
+}
+
+function bytewordsEncode(data: Uint8Array): string {
+  const { words } = minimal();
+  const checksum = new Uint8Array(4);
+  new DataView(checksum.buffer).setUint32(0, crc32(data));
+  let out = '';
+  for (const byte of data) out += words[byte];
+  for (const byte of checksum) out += words[byte];
+  return out;
+}
+
+function bytewordsDecode(text: string): Uint8Array {
+  const { index } = minimal();
+  if (text.length % 2 !== 0 || text.length < 10 || text.length > 2 * MAX_PAYLOAD_LENGTH) {
+    throw new CTSError('Invalid bytewords length');
+  }
+  const bytes = new Uint8Array(text.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = index.get(text.slice(i * 2, i * 2 + 2));
+    if (byte === undefined) throw new CTSError('Invalid bytewords');
+    bytes[i] = byte;
+  }
+  const data = bytes.subarray(0, bytes.length - 4);
+  const checksum = new DataView(bytes.buffer, bytes.length - 4).getUint32(0);
+  if (crc32(data) !== checksum) throw new CTSError('Invalid bytewords checksum');
+  return data;
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let c = i;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[i] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -77,4 +77,30 @@ function isBech32m(str: string, expectedHrp?: string, limitLength = LIMIT_LENGTH
   }
 }
 
-export { encodeBech32m, decodeBech32m, decodeBech32mToBytes, isBech32m };
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+/**
+ * Decodes a bech32-style string that carries no checksum, as BOLT12 uses.
+ *
+ * @remarks
+ * The string must be all lower or all upper case. The data's padding bits must be zero.
+ * @param encoded - The encoded string.
+ * @returns An object containing the human-readable part (hrp) and the decoded data.
+ * @throws If the string is mixed case, lacks a separator or has characters outside the alphabet.
+ */
+function decodeBech32NoChecksum(encoded: string): { hrp: string; data: Uint8Array } {
+  const lower = encoded.toLowerCase();
+  if (encoded !== lower && encoded !== encoded.toUpperCase()) {
+    throw new CTSError('Invalid bech32 string: mixed case');
+  }
+  assertBech32mFormat(lower);
+  const separatorIndex = lower.lastIndexOf('1');
+  const words = Array.from(lower.slice(separatorIndex + 1), (c) => {
+    const word = CHARSET.indexOf(c);
+    if (word === -1) throw new CTSError(`Invalid bech32 character: ${c}`);
+    return word;
+  });
+  return { hrp: lower.slice(0, separatorIndex), data: bech32m.fromWords(words) };
+}
+
+export { encodeBech32m, decodeBech32m, decodeBech32mToBytes, decodeBech32NoChecksum, isBech32m };
@@ -0,0 +1,225 @@
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bech32, bech32m, createBase58check } from '@scure/base';
+
+import { CTSError } from '../model/Errors';
+
+import { Bytes } from './Bytes';
+
+/**
+ * Bitcoin network an address is for. `testnet` covers testnet3, testnet4 and signet, which share
+ * address formats.
+ */
+export type BitcoinNetwork = 'mainnet' | 'testnet' | 'regtest';
+
+/**
+ * Output script an address pays to. `witness_unknown` is a segwit version with no defined meaning
+ * yet; outputs to it can be spent by anyone.
+ */
+export type BitcoinScriptType = 'p2pkh' | 'p2sh' | 'p2wpkh' | 'p2wsh' | 'p2tr' | 'witness_unknown';
+
+/**
+ * A decoded Bitcoin address.
+ */
+export type DecodedBitcoinAddress = {
+  /**
+   * The address, lower-cased if it is bech32.
+   */
+  address: string;
+  /**
+   * Base58 addresses cannot tell testnet and regtest apart and report `testnet` for both.
+   */
+  network: BitcoinNetwork;
+  type: BitcoinScriptType;
+  /**
+   * Segwit version, for bech32 and bech32m addresses.
+   */
+  witnessVersion?: number;
+  /**
+   * Hex witness program, or the key or script hash of a base58 address.
+   */
+  program: string;
+};
+
+/**
+ * What an address must be to be paid. By default any network and the standard script types are
+ * allowed, but not `witness_unknown`.
+ */
+export type BitcoinAddressPolicy = {
+  network?: BitcoinNetwork;
+  scriptTypes?: BitcoinScriptType[];
+};
+
+/**
+ * A parsed BIP-21 `bitcoin:` URI.
+ */
+export type Bip21Uri = {
+  /**
+   * Absent for a URI that only carries a Lightning request.
+   */
+  address?: string;
+  amountSat?: bigint;
+  label?: string;
+  message?: string;
+  /**
+   * BOLT11 invoice from the `lightning` parameter.
+   */
+  lightning?: string;
+  /**
+   * BOLT12 offer from the `lno` parameter.
+   */
+  offer?: string;
+  /**
+   * Every parameter by lower-cased key, including the ones above.
+   */
+  params: Record<string, string>;
+};
+
+const base58check = createBase58check(sha256);
+
+const BASE58_VERSIONS: Record<number, [BitcoinNetwork, BitcoinScriptType]> = {
+  0x00: ['mainnet', 'p2pkh'],
+  0x05: ['mainnet', 'p2sh'],
+  0x6f: ['testnet', 'p2pkh'],
+  0xc4: ['testnet', 'p2sh'],
+};
+
+const SEGWIT_PREFIXES: Record<string, BitcoinNetwork> = {
+  bc: 'mainnet',
+  tb: 'testnet',
+  bcrt: 'regtest',
+};
+
+const STANDARD_TYPES: BitcoinScriptType[] = ['p2pkh', 'p2sh', 'p2wpkh', 'p2wsh', 'p2tr'];
+
+function invalid(address: string, reason: string): never {
+  throw new CTSError(`Invalid Bitcoin address ${address}: ${reason}`);
+}
+
+function decodeSegwit(address: string): DecodedBitcoinAddress | null {
+  const lower = address.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  const network = SEGWIT_PREFIXES[lower.slice(0, separator)];
+  if (!network) return null;
+  if (address !== lower && address !== address.toUpperCase()) invalid(address, 'mixed case');
+
+  // Version 0 uses the bech32 checksum, later versions bech32m (BIP-350)
+  const encoded = lower as `${string}1${string}`;
+  const decoded = bech32.decodeUnsafe(encoded) ?? bech32m.decodeUnsafe(encoded);
+  if (!decoded || decoded.words.length === 0) invalid(address, 'bad checksum');
+  const [witnessVersion, ...words] = decoded.words;
+  const expected = witnessVersion === 0 ? bech32 : bech32m;
+  if (!expected.decodeUnsafe(encoded)) invalid(address, 'wrong checksum for witness version');
+  if (witnessVersion > 16) invalid(address, 'witness version above 16');
+  const program = bech32.fromWordsUnsafe(words);
+  if (!program || program.length < 2 || program.length > 40) {
+    invalid(address, 'bad witness program');
+  }
+  let type: BitcoinScriptType = 'witness_unknown';
+  if (witnessVersion === 0) {
+    if (program.length !== 20 && program.length !== 32) invalid(address, 'bad witness program');
+    type = program.length === 20 ? 'p2wpkh' : 'p2wsh';
+  } else if (witnessVersion === 1 && program.length === 32) {
+    type = 'p2tr';
+  }
+  return { address: lower, network, type, witnessVersion, program: Bytes.toHex(program) };
+}
+
+/**
+ * Decodes a base58check (P2PKH, P2SH), bech32 (segwit v0) or bech32m (taproot and later) address.
+ *
+ * @param address The address. Surrounding whitespace is ignored.
+ * @throws If the address is malformed, has a bad checksum or an unknown version.
+ */
+export function decodeBitcoinAddress(address: string): DecodedBitcoinAddress {
+  if (typeof address !== 'string') throw new CTSError('Bitcoin address must be a string');
+  const trimmed = address.trim();
+  const segwit = decodeSegwit(trimmed);
+  if (segwit) return segwit;
+
+  let payload: Uint8Array;
+  try {
+    payload = base58check.decode(trimmed);
+  } catch {
+    invalid(trimmed, 'not base58check or bech32');
+  }
+  const known = BASE58_VERSIONS[payload[0]];
+  if (!known || payload.length !== 21) invalid(trimmed, 'unknown version');
+  const [network, type] = known;
+  return { address: trimmed, network, type, program: Bytes.toHex(payload.subarray(1)) };
+}
+
+/**
+ * Decodes an address and checks it against a policy, eg: before a NUT-30 onchain melt.
+ *
+ * @param address The address to pay.
+ * @param policy Allowed network and script types.
+ * @returns The decoded address.
+ * @throws If the address is invalid, for another network or of a script type not allowed.
+ */
+export function assertBitcoinAddress(
+  address: string,
+  policy: BitcoinAddressPolicy = {},
+): DecodedBitcoinAddress {
+  const decoded = decodeBitcoinAddress(address);
+  const { network, scriptTypes = STANDARD_TYPES } = policy;
+  // Regtest base58 addresses decode as testnet
+  const base58Regtest = network === 'regtest' && decoded.witnessVersion === undefined;
+  if (network && decoded.network !== network && !(base58Regtest && decoded.network === 'testnet')) {
+    throw new CTSError(`Bitcoin address is for ${decoded.network}, expected ${network}`);
+  }
+  if (!scriptTypes.includes(decoded.type)) {
+    throw new CTSError(`Bitcoin address type ${decoded.type} is not allowed`);
+  }
+  return decoded;
+}
+
+function uriDecode(component: string): string {
+  try {
+    return decodeURIComponent(component);
+  } catch (e) {
+    throw new CTSError('Invalid BIP-21 URI: bad percent-encoding', { cause: e });
+  }
+}
+
+/**
+ * Parses a BIP-21 `bitcoin:` URI, eg: to pre-fill an onchain melt.
+ *
+ * @remarks
+ * The address is checked with {@link decodeBitcoinAddress}. The amount is converted from BTC to
+ * sats. Lightning requests in the `lightning` and `lno` parameters are returned but not decoded.
+ * @param uri The URI. The scheme is case-insensitive.
+ * @throws If the URI, its address or amount is malformed, or it has an unknown `req-` parameter.
+ */
+export function parseBip21(uri: string): Bip21Uri {
+  if (typeof uri !== 'string') throw new CTSError('BIP-21 URI must be a string');
+  const match = /^bitcoin:([^?]*)(?:\?(.*))?$/i.exec(uri.trim());
+  if (!match) throw new CTSError('Invalid BIP-21 URI: expected a bitcoin: URI');
+  const [, path, query = ''] = match;
+
+  const params: Record<string, string> = {};
+  for (const pair of query.split('&')) {
+    if (!pair) continue;
+    const eq = pair.indexOf('=');
+    const key = uriDecode(eq === -1 ? pair : pair.slice(0, eq)).toLowerCase();
+    params[key] = eq === -1 ? '' : uriDecode(pair.slice(eq + 1));
+  }
+  // BIP-21 requires rejecting a URI with a `req-` parameter the reader does not understand
+  const required = Object.keys(params).find((k) => k.startsWith('req-'));
+  if (required) throw new CTSError(`Unsupported required BIP-21 parameter: ${required}`);
+
+  const result: Bip21Uri = { params };
+  if (path) result.address = decodeBitcoinAddress(uriDecode(path)).address;
+  if (params.amount !== undefined) {
+    const amount = /^(\d+)(?:\.(\d{1,8}))?$/.exec(params.amount);
+    if (!amount) throw new CTSError(`Invalid BIP-21 amount: ${params.amount}`);
+    result.amountSat = BigInt(amount[1]) * 100_000_000n + BigInt((amount[2] ?? '').padEnd(8, '0'));
+  }
+  if (params.label !== undefined) result.label = params.label;
+  if (params.message !== undefined) result.message = params.message;
+  if (params.lightning) result.lightning = params.lightning;
+  if (params.lno) result.offer = params.lno;
+  if (!result.address && !result.lightning && !result.offer) {
+    throw new CTSError('Invalid BIP-21 URI: no address or Lightning request');
+  }
+  return result;
+}
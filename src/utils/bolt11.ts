@@ -0,0 +1,305 @@
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bech32 } from '@scure/base';
+
+import { CTSError } from '../model/Errors';
+
+import { Bytes } from './Bytes';
+import { bolt11AmountMsat } from './core';
+
+/**
+ * One hop of a BOLT11 private route hint (`r` field).
+ */
+export type Bolt11RouteHop = {
+  pubkey: string;
+  /**
+   * Short channel id as `block x tx x output`.
+   */
+  shortChannelId: string;
+  feeBaseMsat: number;
+  feeProportionalMillionths: number;
+  cltvExpiryDelta: number;
+};
+
+/**
+ * An on-chain fallback address (`f` field): a witness version (or 17 for P2PKH, 18 for P2SH) and
+ * the program or hash as hex.
+ */
+export type Bolt11Fallback = {
+  version: number;
+  program: string;
+};
+
+/**
+ * A BOLT11 invoice, decoded and with its signature checked.
+ *
+ * @remarks
+ * Hashes, keys and the signature are lower-case hex. Times are Unix seconds.
+ */
+export type DecodedBolt11 = {
+  paymentRequest: string;
+  /**
+   * BIP-173 network prefix, eg: `bc` (mainnet), `tb` (testnet), `tbs` (signet) or `bcrt` (regtest).
+   */
+  network: string;
+  /**
+   * Requested amount in millisatoshis, or `null` for an amountless invoice.
+   */
+  amountMsat: bigint | null;
+  timestamp: number;
+  /**
+   * Seconds after `timestamp` the invoice is payable. Default 3600.
+   */
+  expiry: number;
+  expiresAt: number;
+  paymentHash: string;
+  paymentSecret?: string;
+  description?: string;
+  descriptionHash?: string;
+  metadata?: string;
+  /**
+   * The node to pay: the `n` field if present, otherwise recovered from the signature.
+   */
+  payeeNodeKey: string;
+  /**
+   * Default 18.
+   */
+  minFinalCltvExpiry: number;
+  fallbacks: Bolt11Fallback[];
+  /**
+   * One array of hops per private route.
+   */
+  routeHints: Bolt11RouteHop[][];
+  /**
+   * Feature bits set in the `9` field, ascending.
+   */
+  featureBits: number[];
+  /**
+   * Known features by name, eg: `{ payment_secret: 'required', basic_mpp: 'supported' }`.
+   */
+  features: Record<string, 'required' | 'supported'>;
+  signature: string;
+  recoveryFlag: number;
+};
+
+/**
+ * BOLT9 features that may appear in invoices, by their even (required) bit.
+ */
+const FEATURES: Record<number, string> = {
+  8: 'var_onion_optin',
+  14: 'payment_secret',
+  16: 'basic_mpp',
+  48: 'option_payment_metadata',
+};
+
+// Bech32 alphabet; a tagged field's type is the index of its letter.
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const tag = (letter: string) => CHARSET.indexOf(letter);
+
+const SIGNATURE_WORDS = 104;
+const TIMESTAMP_WORDS = 7;
+
+function wordsToInt(words: number[]): number {
+  return words.reduce((n, w) => n * 32 + w, 0);
+}
+
+/**
+ * 5 bit words to bytes, zero padding the last byte (the signed data is not byte aligned).
+ */
+function wordsToPaddedBytes(words: number[]): Uint8Array {
+  const out: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  for (const w of words) {
+    acc = (acc << 5) | w;
+    bits += 5;
+    while (bits >= 8) {
+      bits -= 8;
+      out.push((acc >> bits) & 0xff);
+    }
+    acc &= (1 << bits) - 1;
+  }
+  if (bits > 0) out.push((acc << (8 - bits)) & 0xff);
+  return Uint8Array.from(out);
+}
+
+function wordsToBytes(words: number[]): Uint8Array {
+  const bytes = bech32.fromWordsUnsafe(words);
+  if (!bytes) throw new CTSError('Invalid BOLT11 field padding');
+  return bytes;
+}
+
+function readUint(bytes: Uint8Array, offset: number, length: number): number {
+  let n = 0;
+  for (let i = 0; i < length; i++) n = n * 256 + bytes[offset + i];
+  return n;
+}
+
+function routeHint(bytes: Uint8Array): Bolt11RouteHop[] {
+  const HOP = 51;
+  if (bytes.length % HOP !== 0) throw new CTSError('Invalid BOLT11 route hint');
+  const hops: Bolt11RouteHop[] = [];
+  for (let i = 0; i < bytes.length; i += HOP) {
+    hops.push({
+      pubkey: Bytes.toHex(bytes.slice(i, i + 33)),
+      shortChannelId: `${readUint(bytes, i + 33, 3)}x${readUint(bytes, i + 36, 3)}x${readUint(bytes, i + 39, 2)}`,
+      feeBaseMsat: readUint(bytes, i + 41, 4),
+      feeProportionalMillionths: readUint(bytes, i + 45, 4),
+      cltvExpiryDelta: readUint(bytes, i + 49, 2),
+    });
+  }
+  return hops;
+}
+
+function featureBits(words: number[]): number[] {
+  const bits: number[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const word = words[words.length - 1 - i];
+    for (let b = 0; b < 5; b++) {
+      if (word & (1 << b)) bits.push(i * 5 + b);
+    }
+  }
+  return bits;
+}
+
+/**
+ * Decodes a BOLT11 invoice and checks its checksum and signature.
+ *
+ * @remarks
+ * Reads every tagged field BOLT11 defines. Unknown fields are skipped, as are `p`, `h`, `s` and `n`
+ * fields of the wrong length, as the spec requires. The payee key is recovered from the signature,
+ * or checked against the `n` field when present. An expired invoice still decodes; compare
+ * `expiresAt` with the clock.
+ * @param invoice The invoice, with or without a `lightning:` prefix.
+ * @throws If the invoice is malformed, has a bad checksum or signature, or lacks a payment hash.
+ */
+export function decodeBolt11(invoice: string): DecodedBolt11 {
+  if (typeof invoice !== 'string') throw new CTSError('BOLT11 invoice must be a string');
+  const paymentRequest = invoice.trim().replace(/^lightning:/i, '');
+  let decoded: { prefix: string; words: number[] };
+  try {
+    decoded = bech32.decode(paymentRequest.toLowerCase() as `${string}1${string}`, false);
+  } catch (e) {
+    throw new CTSError('Invalid BOLT11 invoice', { cause: e });
+  }
+  const { prefix, words } = decoded;
+  const network = /^ln([a-z]+?)\d*[munp]?$/.exec(prefix)?.[1];
+  if (!network || words.length < TIMESTAMP_WORDS + SIGNATURE_WORDS) {
+    throw new CTSError('Invalid BOLT11 invoice');
+  }
+  const amountMsat = bolt11AmountMsat(paymentRequest);
+
+  const data = words.slice(0, -SIGNATURE_WORDS);
+  const sigBytes = wordsToBytes(words.slice(-SIGNATURE_WORDS));
+  const signature = sigBytes.slice(0, 64);
+  const recoveryFlag = sigBytes[64];
+  if (recoveryFlag > 3) throw new CTSError('Invalid BOLT11 signature');
+
+  const result: DecodedBolt11 = {
+    paymentRequest,
+    network,
+    amountMsat,
+    timestamp: wordsToInt(data.slice(0, TIMESTAMP_WORDS)),
+    expiry: 3600,
+    expiresAt: 0,
+    paymentHash: '',
+    payeeNodeKey: '',
+    minFinalCltvExpiry: 18,
+    fallbacks: [],
+    routeHints: [],
+    featureBits: [],
+    features: {},
+    signature: Bytes.toHex(signature),
+    recoveryFlag,
+  };
+  let payee: Uint8Array | undefined;
+
+  let i = TIMESTAMP_WORDS;
+  while (i < data.length) {
+    if (i + 3 > data.length) throw new CTSError('Invalid BOLT11 tagged field');
+    const type = data[i];
+    const length = data[i + 1] * 32 + data[i + 2];
+    const field = data.slice(i + 3, i + 3 + length);
+    if (field.length !== length) throw new CTSError('Invalid BOLT11 tagged field');
+    i += 3 + length;
+
+    switch (type) {
+      case tag('p'):
+        if (length === 52 && !result.paymentHash) {
+          result.paymentHash = Bytes.toHex(wordsToBytes(field));
+        }
+        break;
+      case tag('s'):
+        if (length === 52) result.paymentSecret = Bytes.toHex(wordsToBytes(field));
+        break;
+      case tag('d'):
+        result.description = Bytes.toString(wordsToBytes(field));
+        break;
+      case tag('h'):
+        if (length === 52) result.descriptionHash = Bytes.toHex(wordsToBytes(field));
+        break;
+      case tag('m'):
+        result.metadata = Bytes.toHex(wordsToBytes(field));
+        break;
+      case tag('n'):
+        if (length === 53) payee = wordsToBytes(field);
+        break;
+      case tag('x'):
+        result.expiry = wordsToInt(field);
+        break;
+      case tag('c'):
+        result.minFinalCltvExpiry = wordsToInt(field);
+        break;
+      case tag('f'):
+        if (length > 0) {
+          result.fallbacks.push({
+            version: field[0],
+            program: Bytes.toHex(wordsToBytes(field.slice(1))),
+          });
+        }
+        break;
+      case tag('r'):
+        result.routeHints.push(routeHint(wordsToBytes(field)));
+        break;
+      case tag('9'):
+        result.featureBits = featureBits(field);
+        break;
+      default:
+        break; // unknown fields are skipped
+    }
+  }
+  if (!result.paymentHash) throw new CTSError('BOLT11 invoice has no payment hash');
+  result.expiresAt = result.timestamp + result.expiry;
+  for (const bit of result.featureBits) {
+    const name = FEATURES[bit & ~1];
+    if (name) result.features[name] = bit % 2 === 0 ? 'required' : 'supported';
+  }
+
+  const digest = sha256(Bytes.concat(Bytes.fromString(prefix), wordsToPaddedBytes(data)));
+  if (payee) {
+    if (!secp256k1.verify(signature, digest, payee, { prehash: false })) {
+      throw new CTSError('Invalid BOLT11 signature');
+    }
+  } else {
+    try {
+      const recovered = Bytes.concat(Uint8Array.of(recoveryFlag), signature);
+      payee = secp256k1.recoverPublicKey(recovered, digest, { prehash: false });
+    } catch (e) {
+      throw new CTSError('Invalid BOLT11 signature', { cause: e });
+    }
+  }
+  result.payeeNodeKey = Bytes.toHex(payee);
+  return result;
+}
+
+/**
+ * Whether a preimage pays a BOLT11 invoice, ie: hashes to its payment hash.
+ *
+ * @param invoice The invoice, or its decoded form.
+ * @param preimage Hex preimage, eg: a melt quote's `payment_preimage`.
+ */
+export function isBolt11Preimage(invoice: string | DecodedBolt11, preimage: string): boolean {
+  const { paymentHash } = typeof invoice === 'string' ? decodeBolt11(invoice) : invoice;
+  if (!/^[0-9a-f]{64}$/i.test(preimage)) return false;
+  return Bytes.toHex(sha256(Bytes.fromHex(preimage))) === paymentHash;
+}
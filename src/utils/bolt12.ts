@@ -0,0 +1,367 @@
+import { CTSError } from '../model/Errors';
+
+import { decodeBech32NoChecksum } from './bech32m';
+import { Bytes } from './Bytes';
+import { decodeTLVStream, type TLVRecord } from './tlv';
+
+/**
+ * A blinded path to a BOLT12 node (`offer_paths`, `invoice_paths`).
+ */
+export type Bolt12BlindedPath = {
+  /**
+   * The introduction node: a node id, or a short channel id and direction as `block x tx x
+   * output/direction` for a compact path.
+   */
+  introductionNode: string;
+  firstPathKey: string;
+  hops: Array<{ blindedNodeId: string; encryptedRecipientData: string }>;
+};
+
+/**
+ * The `offer_*` fields. Offers carry only these; invoice requests and invoices repeat them.
+ */
+export type Bolt12Offer = {
+  /**
+   * Chain hashes the offer is valid for. Absent means Bitcoin mainnet.
+   */
+  chains?: string[];
+  metadata?: string;
+  /**
+   * ISO 4217 code when `amount` is in a fiat currency.
+   */
+  currency?: string;
+  /**
+   * Amount per item: millisatoshis, or minor units of `currency` when set. Absent means the payer
+   * chooses.
+   */
+  amount?: bigint;
+  description?: string;
+  features?: string;
+  /**
+   * Unix seconds after which the offer is no longer payable.
+   */
+  absoluteExpiry?: number;
+  paths?: Bolt12BlindedPath[];
+  issuer?: string;
+  /**
+   * Most items one payment may buy, `0n` for no limit. Absent means exactly one.
+   */
+  quantityMax?: bigint;
+  issuerId?: string;
+};
+
+/**
+ * The `invreq_*` fields of an invoice request, repeated in the invoice that answers it.
+ */
+export type Bolt12InvoiceRequest = {
+  metadata: string;
+  chain?: string;
+  amountMsat?: bigint;
+  features?: string;
+  quantity?: bigint;
+  payerId: string;
+  payerNote?: string;
+  paths?: Bolt12BlindedPath[];
+};
+
+/**
+ * The `invoice_*` fields of a BOLT12 invoice.
+ */
+export type Bolt12Invoice = {
+  createdAt: number;
+  /**
+   * Seconds after `createdAt` the invoice is payable. Default 7200.
+   */
+  relativeExpiry: number;
+  expiresAt: number;
+  paymentHash: string;
+  amountMsat: bigint;
+  features?: string;
+  nodeId: string;
+  paths: Bolt12BlindedPath[];
+};
+
+/**
+ * A BOLT12 offer (`lno`), invoice request (`lnr`) or invoice (`lni`).
+ *
+ * @remarks
+ * Hashes, keys, features and opaque bytes are lower-case hex. Times are Unix seconds.
+ */
+export type DecodedBolt12 = {
+  kind: 'offer' | 'invoice_request' | 'invoice';
+  /**
+   * The string lower-cased, with any `+` line breaks removed.
+   */
+  encoded: string;
+  offer: Bolt12Offer;
+  invoiceRequest?: Bolt12InvoiceRequest;
+  invoice?: Bolt12Invoice;
+  signature?: string;
+};
+
+type Kind = DecodedBolt12['kind'];
+
+const PREFIXES: Record<string, Kind> = {
+  lno: 'offer',
+  lnr: 'invoice_request',
+  lni: 'invoice',
+};
+
+/**
+ * TLV types each kind may carry, as inclusive ranges. Signature fields are 240 to 1000.
+ */
+const TYPE_RANGES: Record<Kind, Array<[bigint, bigint]>> = {
+  offer: [
+    [1n, 79n],
+    [1_000_000_000n, 1_999_999_999n],
+  ],
+  invoice_request: [
+    [0n, 159n],
+    [240n, 1000n],
+    [1_000_000_000n, 2_999_999_999n],
+  ],
+  invoice: [
+    [0n, 239n],
+    [240n, 1000n],
+    [1_000_000_000n, 3_999_999_999n],
+  ],
+};
+
+const TYPE_SIGNATURE = 240n;
+const DEFAULT_RELATIVE_EXPIRY = 7200;
+
+function fail(message: string): never {
+  throw new CTSError(`Invalid BOLT12: ${message}`);
+}
+
+function tu64(value: Uint8Array, field: string): bigint {
+  if (value.length > 8 || value[0] === 0) fail(`${field} is not a minimal integer`);
+  return value.reduce((n, b) => (n << 8n) | BigInt(b), 0n);
+}
+
+function utf8(value: Uint8Array, field: string): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(value);
+  } catch {
+    fail(`${field} is not UTF-8`);
+  }
+}
+
+function fixed(value: Uint8Array, length: number, field: string): string {
+  if (value.length !== length) fail(`${field} must be ${length} bytes`);
+  return Bytes.toHex(value);
+}
+
+function blindedPaths(value: Uint8Array, field: string): Bolt12BlindedPath[] {
+  const paths: Bolt12BlindedPath[] = [];
+  let offset = 0;
+  const take = (length: number) => {
+    if (offset + length > value.length) fail(`${field} is truncated`);
+    offset += length;
+    return value.subarray(offset - length, offset);
+  };
+  while (offset < value.length) {
+    let introductionNode: string;
+    if (value[offset] < 2) {
+      // sciddir_or_pubkey: a direction byte and short channel id
+      const [direction, ...scid] = take(9);
+      const n = (from: number, to: number) => scid.slice(from, to).reduce((a, b) => a * 256 + b);
+      introductionNode = `${n(0, 3)}x${n(3, 6)}x${n(6, 8)}/${direction}`;
+    } else {
+      introductionNode = Bytes.toHex(take(33));
+    }
+    const firstPathKey = Bytes.toHex(take(33));
+    const hopCount = take(1)[0];
+    if (hopCount === 0) fail(`${field} has a path with no hops`);
+    const hops: Bolt12BlindedPath['hops'] = [];
+    for (let i = 0; i < hopCount; i++) {
+      const blindedNodeId = Bytes.toHex(take(33));
+      const [hi, lo] = take(2);
+      hops.push({ blindedNodeId, encryptedRecipientData: Bytes.toHex(take(hi * 256 + lo)) });
+    }
+    paths.push({ introductionNode, firstPathKey, hops });
+  }
+  if (paths.length === 0) fail(`${field} is empty`);
+  return paths;
+}
+
+/**
+ * Decodes a BOLT12 offer, invoice request or invoice.
+ *
+ * @remarks
+ * Applies the reader checks that need no network: field types and lengths, allowed TLV ranges,
+ * unknown even fields, and the fields each kind requires. Signatures are returned but not checked,
+ * and an expired offer or invoice still decodes.
+ * @param encoded The string, with or without a `lightning:` prefix.
+ * @throws If the string is not a well-formed BOLT12 offer, invoice request or invoice.
+ */
+export function decodeBolt12(encoded: string): DecodedBolt12 {
+  if (typeof encoded !== 'string') throw new CTSError('BOLT12 string must be a string');
+  // Long strings may be split with `+` and whitespace
+  const joined = encoded
+    .trim()
+    .replace(/^lightning:/i, '')
+    .replace(/\+\s*/g, '');
+  let decoded: { hrp: string; data: Uint8Array };
+  try {
+    decoded = decodeBech32NoChecksum(joined);
+  } catch (e) {
+    throw new CTSError('Invalid BOLT12 string', { cause: e });
+  }
+  const kind = PREFIXES[decoded.hrp];
+  if (!kind) fail(`unknown prefix ${decoded.hrp}`);
+  let records: TLVRecord[];
+  try {
+    records = decodeTLVStream(decoded.data);
+  } catch (e) {
+    throw new CTSError('Invalid BOLT12 string', { cause: e });
+  }
+
+  const result: DecodedBolt12 = { kind, encoded: joined.toLowerCase(), offer: {} };
+  const { offer } = result;
+  const invreq: Partial<Bolt12InvoiceRequest> = {};
+  const invoice: Partial<Bolt12Invoice> = {};
+
+  for (const { type, value } of records) {
+    if (!TYPE_RANGES[kind].some(([lo, hi]) => type >= lo && type <= hi)) {
+      fail(`field ${type} is not allowed in an ${kind}`);
+    }
+    switch (type) {
+      case 2n:
+        if (value.length === 0 || value.length % 32 !== 0)
+          fail('offer_chains must be 32 byte hashes');
+        offer.chains = Array.from({ length: value.length / 32 }, (_, i) =>
+          Bytes.toHex(value.subarray(i * 32, i * 32 + 32)),
+        );
+        break;
+      case 4n:
+        offer.metadata = Bytes.toHex(value);
+        break;
+      case 6n:
+        offer.currency = utf8(value, 'offer_currency');
+        break;
+      case 8n:
+        offer.amount = tu64(value, 'offer_amount');
+        break;
+      case 10n:
+        offer.description = utf8(value, 'offer_description');
+        break;
+      case 12n:
+        offer.features = Bytes.toHex(value);
+        break;
+      case 14n:
+        offer.absoluteExpiry = Number(tu64(value, 'offer_absolute_expiry'));
+        break;
+      case 16n:
+        offer.paths = blindedPaths(value, 'offer_paths');
+        break;
+      case 18n:
+        offer.issuer = utf8(value, 'offer_issuer');
+        break;
+      case 20n:
+        offer.quantityMax = tu64(value, 'offer_quantity_max');
+        break;
+      case 22n:
+        offer.issuerId = fixed(value, 33, 'offer_issuer_id');
+        break;
+      case 0n:
+        invreq.metadata = Bytes.toHex(value);
+        break;
+      case 80n:
+        invreq.chain = fixed(value, 32, 'invreq_chain');
+        break;
+      case 82n:
+        invreq.amountMsat = tu64(value, 'invreq_amount');
+        break;
+      case 84n:
+        invreq.features = Bytes.toHex(value);
+        break;
+      case 86n:
+        invreq.quantity = tu64(value, 'invreq_quantity');
+        break;
+      case 88n:
+        invreq.payerId = fixed(value, 33, 'invreq_payer_id');
+        break;
+      case 89n:
+        invreq.payerNote = utf8(value, 'invreq_payer_note');
+        break;
+      case 90n:
+        invreq.paths = blindedPaths(value, 'invreq_paths');
+        break;
+      case 160n:
+        invoice.paths = blindedPaths(value, 'invoice_paths');
+        break;
+      case 164n:
+        invoice.createdAt = Number(tu64(value, 'invoice_created_at'));
+        break;
+      case 166n:
+        invoice.relativeExpiry = Number(tu64(value, 'invoice_relative_expiry'));
+        break;
+      case 168n:
+        invoice.paymentHash = fixed(value, 32, 'invoice_payment_hash');
+        break;
+      case 170n:
+        invoice.amountMsat = tu64(value, 'invoice_amount');
+        break;
+      case 174n:
+        invoice.features = Bytes.toHex(value);
+        break;
+      case 176n:
+        invoice.nodeId = fixed(value, 33, 'invoice_node_id');
+        break;
+      case TYPE_SIGNATURE:
+        result.signature = fixed(value, 64, 'signature');
+        break;
+      case 91n: // invreq_bip_353_name
+      case 162n: // invoice_blindedpay
+      case 172n: // invoice_fallbacks
+        break;
+      default:
+        // Odd fields are optional to understand, even ones are not
+        if (type % 2n === 0n) fail(`unknown even field ${type}`);
+    }
+  }
+
+  if (offer.currency !== undefined && offer.amount === undefined) {
+    fail('offer_currency without offer_amount');
+  }
+  if (offer.amount !== undefined && offer.description === undefined) {
+    fail('offer_amount without offer_description');
+  }
+  if (kind === 'offer' && !offer.issuerId && !offer.paths) {
+    fail('offer has neither offer_issuer_id nor offer_paths');
+  }
+  if (kind === 'offer') return result;
+
+  if (invreq.metadata === undefined) fail('missing invreq_metadata');
+  if (invreq.payerId === undefined) fail('missing invreq_payer_id');
+  if (!result.signature) fail('missing signature');
+  result.invoiceRequest = invreq as Bolt12InvoiceRequest;
+  if (kind === 'invoice_request') return result;
+
+  if (!invoice.paths) fail('missing invoice_paths');
+  if (invoice.createdAt === undefined) fail('missing invoice_created_at');
+  if (invoice.paymentHash === undefined) fail('missing invoice_payment_hash');
+  if (invoice.amountMsat === undefined) fail('missing invoice_amount');
+  if (invoice.nodeId === undefined) fail('missing invoice_node_id');
+  invoice.relativeExpiry ??= DEFAULT_RELATIVE_EXPIRY;
+  invoice.expiresAt = invoice.createdAt + invoice.relativeExpiry;
+  result.invoice = invoice as Bolt12Invoice;
+  return result;
+}
+
+/**
+ * The millisatoshi amount a BOLT12 string asks for, if it can be known without a currency rate.
+ *
+ * @param decoded A decoded offer, invoice request or invoice.
+ * @param quantity Items to buy from an offer with `quantityMax`. Default 1.
+ * @returns The invoice or invoice request amount, else the offer amount times `quantity`, else
+ *   `null` for an amountless offer or one priced in a fiat currency.
+ */
+export function bolt12AmountMsat(decoded: DecodedBolt12, quantity: bigint = 1n): bigint | null {
+  if (decoded.invoice) return decoded.invoice.amountMsat;
+  if (decoded.invoiceRequest?.amountMsat !== undefined) return decoded.invoiceRequest.amountMsat;
+  const { amount, currency } = decoded.offer;
+  if (amount === undefined || currency !== undefined) return null;
+  return amount * quantity;
+}
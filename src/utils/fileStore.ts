@@ -0,0 +1,198 @@
+import { bytesToHex, randomBytes } from '@noble/hashes/utils.js';
+
+import { CTSError } from '../model/Errors';
+
+/**
+ * Minimal async filesystem used by the file-backed stores.
+ *
+ * @remarks
+ * Structurally satisfied by Node's `fs/promises` module, so pass it straight in:
+ *
+ *     import * as fs from 'node:fs/promises';
+ *     const store = createFileProofStore('./proofs.json', fs);
+ *
+ * Other runtimes can adapt their own storage, as long as `rename` replaces the target atomically.
+ */
+export interface FileSystemLike {
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>;
+  rename(oldPath: string, newPath: string): Promise<void>;
+}
+
+function hasCode(e: unknown, code: string): boolean {
+  return e instanceof Error && (e as Error & { code?: unknown }).code === code;
+}
+
+/**
+ * Reads a text file, or returns `undefined` if it does not exist yet.
+ */
+export async function readTextFile(fs: FileSystemLike, path: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(path, 'utf8');
+  } catch (e) {
+    if (hasCode(e, 'ENOENT')) return undefined;
+    throw e;
+  }
+}
+
+/**
+ * Writes a text file via a temporary sibling and a rename, so readers never see a torn write.
+ */
+export async function writeTextFileAtomic(
+  fs: FileSystemLike,
+  path: string,
+  data: string,
+): Promise<void> {
+  const tmp = `${path}.tmp`;
+  await fs.writeFile(tmp, data, 'utf8');
+  await fs.rename(tmp, path);
+}
+
+/**
+ * State kept in memory and mirrored to one file.
+ *
+ * @remarks
+ * Loads on first use, serializes operations within the process, and rewrites the file atomically
+ * after each mutating operation. A failed write drops the cache so the next operation reloads what
+ * is actually on disk.
+ */
+export class FileBackedState<T> {
+  private cache?: T;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly fs: FileSystemLike,
+    private readonly path: string,
+    private readonly codec: { load: (raw: string | undefined) => T; dump: (state: T) => string },
+  ) {}
+
+  run<R>(fn: (state: T) => R | Promise<R>, write: boolean): Promise<R> {
+    const run = this.queue.then(async () => {
+      if (this.cache === undefined) {
+        this.cache = this.codec.load(await readTextFile(this.fs, this.path));
+      }
+      const result = await fn(this.cache);
+      if (write) {
+        try {
+          await writeTextFileAtomic(this.fs, this.path, this.codec.dump(this.cache));
+        } catch (e) {
+          this.cache = undefined;
+          throw e;
+        }
+      }
+      return result;
+    });
+    // Keep the queue alive after a failed operation
+    this.queue = run.then(
+      () => undefined,
+      () => undefined,
+    );
+    return run;
+  }
+}
+
+/**
+ * {@link FileSystemLike} plus what advisory lock files need: exclusive create and delete.
+ *
+ * @remarks
+ * Node's `fs/promises` satisfies this too.
+ */
+export type LockingFileSystemLike = FileSystemLike & {
+  writeFile(path: string, data: string, options: { encoding: 'utf8'; flag: 'wx' }): Promise<void>;
+  unlink(path: string): Promise<void>;
+};
+
+/**
+ * Timing of {@link withFileLock}.
+ */
+export type FileLockOptions = {
+  /**
+   * Give up after waiting this long for the lock. Default: 10 seconds.
+   */
+  timeoutMs?: number;
+  /**
+   * Treat a lock held this long as left behind by a crashed process, and take it over. Default: 30
+   * seconds.
+   */
+  staleMs?: number;
+};
+
+// Lock file contents: when the lock was taken, then a token unique to its holder
+function parseLock(raw: string): number {
+  return Number(raw.split(' ')[0]);
+}
+
+/**
+ * Runs `fn` while holding an advisory lock on `path`, shared with other processes.
+ *
+ * @remarks
+ * The lock is a `<path>.lock` file created exclusively, holding the time it was taken and a token
+ * unique to its holder. Processes that find it wait and retry. A lock older than `staleMs` is moved
+ * aside and deleted, so a crashed holder cannot block the file forever; keep `fn` well under that.
+ * If what was moved aside is not the stale lock that was read, another process has taken the lock
+ * meanwhile, and it is given back with an exclusive create. Should a third process have taken the
+ * lock in between, the one moved aside is dropped and its holder runs unlocked.
+ *
+ * The lock is best-effort. Release reads the lock and deletes it only if it is still ours, in two
+ * steps that are not atomic. Only processes that finish within `staleMs` are reliably serialized.
+ * @throws {@link CTSError} If the lock is not acquired within `timeoutMs`.
+ */
+export async function withFileLock<T>(
+  fs: LockingFileSystemLike,
+  path: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {},
+): Promise<T> {
+  const { timeoutMs = 10_000, staleMs = 30_000 } = options;
+  const lockPath = `${path}.lock`;
+  const deadline = Date.now() + timeoutMs;
+  let owned = '';
+  for (;;) {
+    const content = `${Date.now()} ${bytesToHex(randomBytes(16))}`;
+    try {
+      await fs.writeFile(lockPath, content, { encoding: 'utf8', flag: 'wx' });
+      owned = content;
+      break;
+    } catch (e) {
+      if (!hasCode(e, 'EEXIST')) throw e;
+    }
+    const held = await readTextFile(fs, lockPath);
+    if (held === undefined) continue; // released meanwhile
+    if (held && Date.now() - parseLock(held) > staleMs) {
+      // Move it aside first, so of several waiters only one deletes it
+      const aside = `${lockPath}.${bytesToHex(randomBytes(8))}`;
+      try {
+        await fs.rename(lockPath, aside);
+      } catch (e) {
+        if (!hasCode(e, 'ENOENT')) throw e;
+        continue;
+      }
+      const moved = await readTextFile(fs, aside);
+      if (moved !== undefined && moved !== held) {
+        // Another waiter replaced the stale lock with a fresh one first: give it back, unless a
+        // third process has taken the free lock since
+        try {
+          await fs.writeFile(lockPath, moved, { encoding: 'utf8', flag: 'wx' });
+        } catch (e) {
+          if (!hasCode(e, 'EEXIST')) throw e;
+        }
+      }
+      await fs.unlink(aside).catch((e: unknown) => {
+        if (!hasCode(e, 'ENOENT')) throw e;
+      });
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new CTSError(`Timed out waiting for lock on ${path}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5 + Math.random() * 20));
+  }
+  try {
+    return await fn();
+  } finally {
+    // Held past staleMs, the lock may have been taken over: leave the new holder's alone
+    if ((await readTextFile(fs, lockPath)) === owned) {
+      await fs.unlink(lockPath);
+    }
+  }
+}
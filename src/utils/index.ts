@@ -1,9 +1,15 @@
+export * from './animatedQr';
 export * from './base64';
 export * from './bech32m';
+export * from './bitcoin';
+export * from './bolt11';
+export * from './bolt12';
 export * from './Bytes';
 export * from './cbor';
 export * from './limits';
+export * from './lnurl';
 export * from './core';
 export * from './JSONInt';
 export * from './normalizeNumbers';
+export * from './paymentPayload';
 export * from './uuid';
@@ -0,0 +1,48 @@
+import { bech32 } from '@scure/base';
+
+import { CTSError } from '../model/Errors';
+
+import { Bytes } from './Bytes';
+
+/**
+ * The URL an LNURL-pay target points to.
+ *
+ * @remarks
+ * Accepts a Lightning address (LUD-16), a bech32 `lnurl1...` (LUD-01) or an `lnurlp://` URL
+ * (LUD-17), with or without a `lightning:` prefix. Onion services are reached over http, everything
+ * else over https; a bech32 LNURL for any other URL is refused (LUD-01).
+ * @param target The address or LNURL.
+ * @throws If the target is none of these.
+ */
+export function lnurlPayUrl(target: string): string {
+  if (typeof target !== 'string') throw new CTSError('LNURL must be a string');
+  const trimmed = target.trim().replace(/^lightning:/i, '');
+  const address = /^([a-z0-9\-_.+]+)@([a-z0-9\-.]+\.[a-z0-9-]+(?::\d+)?)$/i.exec(trimmed);
+  if (address) {
+    const [, name, domain] = address;
+    const scheme = /\.onion(:\d+)?$/i.test(domain) ? 'http' : 'https';
+    return `${scheme}://${domain.toLowerCase()}/.well-known/lnurlp/${name.toLowerCase()}`;
+  }
+  if (/^lnurl1/i.test(trimmed)) {
+    const decoded = bech32.decodeUnsafe(trimmed.toLowerCase(), false);
+    const bytes = decoded && bech32.fromWordsUnsafe(decoded.words);
+    if (!bytes) throw new CTSError('Invalid LNURL: bad bech32');
+    const url = Bytes.toString(bytes);
+    if (!isLnurlServiceUrl(url)) {
+      throw new CTSError('Invalid LNURL: must be https, or http to an onion service');
+    }
+    return url;
+  }
+  const scheme = /^lnurlp:\/\/(.+)$/i.exec(trimmed);
+  if (scheme) {
+    return (/^[^/]+\.onion(:\d+)?(\/|$)/i.test(scheme[1]) ? 'http://' : 'https://') + scheme[1];
+  }
+  throw new CTSError(`Not a Lightning address or LNURL: ${trimmed}`);
+}
+
+/**
+ * True for the URLs LUD-01 lets an LNURL service use: https, or http to an onion service.
+ */
+export function isLnurlServiceUrl(url: string): boolean {
+  return /^https:\/\//i.test(url) || /^http:\/\/[^/?#@]+\.onion(:\d+)?([/?#]|$)/i.test(url);
+}
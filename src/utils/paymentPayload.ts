@@ -0,0 +1,185 @@
+import { CTSError } from '../model/Errors';
+import { PaymentRequest } from '../model/PaymentRequest';
+import type { TokenMetadata } from '../model/types/token';
+
+import {
+  decodeBitcoinAddress,
+  parseBip21,
+  type Bip21Uri,
+  type DecodedBitcoinAddress,
+} from './bitcoin';
+import { decodeBolt11, type DecodedBolt11 } from './bolt11';
+import { decodeBolt12, type DecodedBolt12 } from './bolt12';
+import { findCashuPayload, getTokenMetadata } from './core';
+import { lnurlPayUrl } from './lnurl';
+
+/**
+ * The wallet operation that handles a {@link PaymentPayload}: `receive` a token, melt to a BOLT11
+ * invoice or LNURL (`meltBolt11`), a BOLT12 offer (`meltBolt12`) or an address (`meltOnchain`), or
+ * pay a cashu payment request (`sendToRequest`).
+ */
+export type PaymentOperation =
+  | 'receive'
+  | 'meltBolt11'
+  | 'meltBolt12'
+  | 'meltOnchain'
+  | 'sendToRequest';
+
+/**
+ * A single way to pay or be paid, as found by {@link parsePaymentPayload}. `payload` is the string
+ * to hand to the operation.
+ */
+export type PaymentTarget =
+  | { kind: 'token'; operation: 'receive'; payload: string; metadata: TokenMetadata }
+  | {
+      kind: 'paymentRequest';
+      operation: 'sendToRequest';
+      payload: string;
+      request: PaymentRequest;
+    }
+  | { kind: 'bolt11'; operation: 'meltBolt11'; payload: string; invoice: DecodedBolt11 }
+  | { kind: 'bolt12'; operation: 'meltBolt12'; payload: string; offer: DecodedBolt12 }
+  | {
+      kind: 'lnurl';
+      operation: 'meltBolt11';
+      payload: string;
+      /**
+       * Where the LNURL-pay request is fetched, see `resolveLnurlPay`.
+       */
+      url: string;
+    }
+  | {
+      kind: 'onchain';
+      operation: 'meltOnchain';
+      payload: string;
+      address: DecodedBitcoinAddress;
+      /**
+       * Amount from a BIP-21 URI.
+       */
+      amountSat?: bigint;
+    };
+
+/**
+ * What {@link parsePaymentPayload} recognised: a single target, or a BIP-21 / BIP-321 URI carrying
+ * several.
+ */
+export type PaymentPayload =
+  | PaymentTarget
+  | {
+      kind: 'bip21';
+      /**
+       * The operation of the first option.
+       */
+      operation: PaymentOperation;
+      payload: string;
+      uri: Bip21Uri;
+      /**
+       * The payable targets in the URI, cashu payment request first, then BOLT12, BOLT11 and
+       * onchain. Parameters that do not decode are left out.
+       */
+      options: PaymentTarget[];
+    };
+
+// Returns undefined instead of throwing: an unrecognised payload is not an error here
+function attempt<T>(fn: () => T): T | undefined {
+  try {
+    return fn();
+  } catch {
+    return undefined;
+  }
+}
+
+function lightningTarget(text: string): PaymentTarget | undefined {
+  const payload = text.replace(/^lightning:/i, '');
+  if (/^lno1/i.test(payload)) {
+    const offer = attempt(() => decodeBolt12(payload));
+    if (offer?.kind !== 'offer') return undefined;
+    return { kind: 'bolt12', operation: 'meltBolt12', payload: offer.encoded, offer };
+  }
+  if (/^lnurl/i.test(payload) || payload.includes('@')) {
+    const url = attempt(() => lnurlPayUrl(payload));
+    return url ? { kind: 'lnurl', operation: 'meltBolt11', payload, url } : undefined;
+  }
+  if (/^ln/i.test(payload)) {
+    const invoice = attempt(() => decodeBolt11(payload));
+    if (!invoice) return undefined;
+    // QR codes carry invoices upper-cased; bech32 case carries no data
+    const lower = invoice.paymentRequest.toLowerCase();
+    return { kind: 'bolt11', operation: 'meltBolt11', payload: lower, invoice };
+  }
+  return undefined;
+}
+
+function cashuTarget(text: string): PaymentTarget | undefined {
+  const found = attempt(() => findCashuPayload(text));
+  if (!found) return undefined;
+  if (found.kind === 'token') {
+    const metadata = getTokenMetadata(found.payload);
+    return { kind: 'token', operation: 'receive', payload: found.payload, metadata };
+  }
+  const request = PaymentRequest.fromEncodedRequest(found.payload);
+  return { kind: 'paymentRequest', operation: 'sendToRequest', payload: found.payload, request };
+}
+
+function bip21Payload(text: string): PaymentPayload | undefined {
+  const uri = attempt(() => parseBip21(text));
+  if (!uri) return undefined;
+  const options: PaymentTarget[] = [];
+  const { creq } = uri.params;
+  const request = creq ? cashuTarget(creq) : undefined;
+  if (request?.kind === 'paymentRequest') options.push(request);
+  for (const param of [uri.offer, uri.lightning]) {
+    const target = param ? lightningTarget(param) : undefined;
+    if (target) options.push(target);
+  }
+  if (uri.address) {
+    options.push({
+      kind: 'onchain',
+      operation: 'meltOnchain',
+      payload: uri.address,
+      address: decodeBitcoinAddress(uri.address),
+      ...(uri.amountSat !== undefined && { amountSat: uri.amountSat }),
+    });
+  }
+  if (options.length === 0) return undefined;
+  return { kind: 'bip21', operation: options[0].operation, payload: text, uri, options };
+}
+
+/**
+ * Classifies scanned or pasted text as something a wallet can pay or receive.
+ *
+ * @remarks
+ * Recognises BIP-21 / BIP-321 `bitcoin:` URIs (with `lightning`, `lno` and `creq` parameters),
+ * BOLT11 invoices, BOLT12 offers, Lightning addresses and LNURLs (with or without `lightning:`),
+ * onchain addresses, and anything {@link findCashuPayload} finds: tokens (also behind `cashu:`) and
+ * `creqA` / `creqB` payment requests. Invoices, offers, addresses and cashu payloads are decoded to
+ * check them, but not checked for expiry or network. LNURLs are not fetched. Text that is none of
+ * these as a whole, such as prose or a `bitcoin:` URI with an invalid address, is scanned for a
+ * cashu payload.
+ * @example
+ *
+ *     const parsed = parsePaymentPayload(scanned);
+ *     if (parsed?.kind === 'token') {
+ *       await wallet.receive(parsed.payload);
+ *     } else if (parsed?.kind === 'bolt11') {
+ *       await wallet.createMeltQuoteBolt11(parsed.payload, undefined, { verifyInvoice: true });
+ *     }
+ *
+ * @param text The scanned or pasted text. Surrounding whitespace is ignored.
+ * @returns The decoded payload, or `null` if the text carries nothing recognised.
+ */
+export function parsePaymentPayload(text: string): PaymentPayload | null {
+  if (typeof text !== 'string') {
+    throw new CTSError('text must be a string');
+  }
+  const trimmed = text.trim();
+  const uri = /^bitcoin:/i.test(trimmed) ? bip21Payload(trimmed) : undefined;
+  if (uri) return uri;
+  const lightning = lightningTarget(trimmed);
+  if (lightning) return lightning;
+  const address = attempt(() => decodeBitcoinAddress(trimmed));
+  if (address) {
+    return { kind: 'onchain', operation: 'meltOnchain', payload: address.address, address };
+  }
+  return cashuTarget(trimmed) ?? null;
+}
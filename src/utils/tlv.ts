@@ -840,3 +840,78 @@ function encodePubkeyRelaysTLV(pubkey: Uint8Array, relays: string[]): Uint8Array
 
   return result;
 }
+
+/**
+ * A record of a Lightning TLV stream (BOLT1), where type and length are BigSize.
+ */
+export type TLVRecord = {
+  type: bigint;
+  value: Uint8Array;
+};
+
+/**
+ * Reads a BigSize (BOLT1 variable length integer) at `offset`.
+ *
+ * @returns The value and the number of bytes it took.
+ * @throws If the data is too short or the value is not minimally encoded.
+ */
+function readBigSize(data: Uint8Array, offset: number): { value: bigint; size: number } {
+  if (offset >= data.length) {
+    throw new CTSError('BigSize data too short');
+  }
+  const first = data[offset];
+  const width = first === 0xfd ? 2 : first === 0xfe ? 4 : first === 0xff ? 8 : 0;
+  if (width === 0) {
+    return { value: BigInt(first), size: 1 };
+  }
+  if (offset + 1 + width > data.length) {
+    throw new CTSError('BigSize data too short');
+  }
+  let value = 0n;
+  for (let i = 0; i < width; i++) {
+    value = (value << 8n) | BigInt(data[offset + 1 + i]);
+  }
+  // Each width must only hold values that do not fit the one below it
+  const min = width === 2 ? 0xfdn : width === 4 ? 0x10000n : 0x100000000n;
+  if (value < min) {
+    throw new CTSError('BigSize not minimally encoded');
+  }
+  return { value, size: 1 + width };
+}
+
+/**
+ * Decodes a Lightning TLV stream (BOLT1), as used by BOLT12 offers and invoices.
+ *
+ * Wire format, per record:
+ *
+ * - Type: BigSize.
+ * - Length: BigSize.
+ * - Value: `length` bytes.
+ *
+ * @param data - The TLV stream.
+ * @returns The records, in stream order.
+ * @throws If a record is truncated or types are not strictly increasing.
+ */
+export function decodeTLVStream(data: Uint8Array): TLVRecord[] {
+  const records: TLVRecord[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    const type = readBigSize(data, offset);
+    offset += type.size;
+    const length = readBigSize(data, offset);
+    offset += length.size;
+    if (BigInt(data.length - offset) < length.value) {
+      throw new CTSError(`TLV record ${type.value} too short`);
+    }
+    const prev = records[records.length - 1];
+    if (prev && prev.type >= type.value) {
+      throw new CTSError(`TLV types out of order: ${type.value} after ${prev.type}`);
+    }
+    const end = offset + Number(length.value);
+    records.push({ type: type.value, value: data.subarray(offset, end) });
+    offset = end;
+  }
+
+  return records;
+}
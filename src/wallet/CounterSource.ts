@@ -1,4 +1,12 @@
 import { CTSError } from '../model/Errors';
+import {
+  readTextFile,
+  withFileLock,
+  writeTextFileAtomic,
+  type FileLockOptions,
+  type LockingFileSystemLike,
+} from '../utils/fileStore';
+
 /**
  * Usable counters in range is [start, start+count-1]
  *
@@ -155,3 +163,245 @@ export class EphemeralCounterSource implements CounterSource {
 export function createEphemeralCounterSource(initial?: Record<string, number>): CounterSource {
   return new EphemeralCounterSource(initial);
 }
+
+/**
+ * One atomic change of a keyset cursor: the new cursor and what the caller gets back.
+ */
+type CounterStep<R> = (cur: number) => { next: number; result: R };
+
+function reserveStep(n: number): CounterStep<CounterRange> {
+  if (n < 0) throw new CTSError('reserve called with negative count');
+  return (cur) => ({ next: cur + n, result: { start: cur, count: n } });
+}
+
+function reserveAtStep(keysetId: string, start: number, count: number): CounterStep<CounterRange> {
+  if (start < 0 || count < 0) {
+    throw new CTSError('reserveAt called with a negative start or count');
+  }
+  return (cur) => {
+    if (start < cur) {
+      throw new CTSError(
+        `Counter ${start} for keyset ${keysetId} was already issued (next is ${cur})`,
+      );
+    }
+    return { next: start + count, result: { start, count } };
+  };
+}
+
+function advanceStep(minNext: number): CounterStep<void> {
+  return (cur) => ({ next: Math.max(cur, minNext), result: undefined });
+}
+
+function setNextStep(next: number): CounterStep<void> {
+  if (next < 0) throw new CTSError('setNext: negative next not allowed');
+  return () => ({ next, result: undefined });
+}
+
+function parseCursor(keysetId: string, value: unknown): number {
+  if (value === undefined) return 0;
+  const n = typeof value === 'string' ? Number(value) : value;
+  if (typeof n !== 'number' || !Number.isSafeInteger(n) || n < 0) {
+    throw new CTSError(`Invalid stored counter for keyset ${keysetId}: ${JSON.stringify(value)}`);
+  }
+  return n;
+}
+
+/**
+ * File-backed implementation, safe to share between processes.
+ *
+ * @remarks
+ * Keeps `{ [keysetId]: next }` in one JSON file. Every change takes an advisory lock file
+ * (`<path>.lock`), re-reads the file, and rewrites it atomically (temporary file + rename) before
+ * releasing the lock, so processes sharing a seed and a file never reserve overlapping ranges.
+ */
+export class FileCounterSource implements CounterSource {
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly path: string,
+    private readonly fs: LockingFileSystemLike,
+    private readonly lockOptions?: FileLockOptions,
+  ) {}
+
+  private async load(): Promise<Record<string, number>> {
+    const raw = await readTextFile(this.fs, this.path);
+    const data: unknown = raw ? JSON.parse(raw) : {};
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      throw new CTSError(`Invalid counter file ${this.path}`);
+    }
+    return Object.fromEntries(
+      Object.entries(data).map(([id, next]) => [id, parseCursor(id, next)]),
+    );
+  }
+
+  private update<R>(keysetId: string, step: CounterStep<R>): Promise<R> {
+    // Serialize within the process, so only other processes ever wait on the lock file
+    const run = this.queue.then(() =>
+      withFileLock(
+        this.fs,
+        this.path,
+        async () => {
+          const state = await this.load();
+          const cur = state[keysetId] ?? 0;
+          const { next, result } = step(cur);
+          if (next !== cur) {
+            state[keysetId] = next;
+            await writeTextFileAtomic(this.fs, this.path, JSON.stringify(state));
+          }
+          return result;
+        },
+        this.lockOptions,
+      ),
+    );
+    this.queue = run.then(
+      () => undefined,
+      () => undefined,
+    );
+    return run;
+  }
+
+  async reserve(keysetId: string, n: number): Promise<CounterRange> {
+    return this.update(keysetId, reserveStep(n));
+  }
+
+  async reserveAt(keysetId: string, start: number, count: number): Promise<CounterRange> {
+    return this.update(keysetId, reserveAtStep(keysetId, start, count));
+  }
+
+  async advanceToAtLeast(keysetId: string, minNext: number): Promise<void> {
+    return this.update(keysetId, advanceStep(minNext));
+  }
+
+  async setNext(keysetId: string, next: number): Promise<void> {
+    return this.update(keysetId, setNextStep(next));
+  }
+
+  snapshot(): Promise<Record<string, number>> {
+    // Renames are atomic, so a read without the lock still sees a whole file
+    return this.load();
+  }
+}
+
+/**
+ * Minimal string key-value store for {@link KeyValueCounterSource}.
+ *
+ * @remarks
+ * Maps onto most databases: Redis (`GET`/`SET`/a `WATCH` transaction or Lua script), SQL (`UPDATE
+ * ... WHERE value = ?`), DynamoDB conditional writes, or IndexedDB transactions.
+ */
+export interface KeyValueStore {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string): Promise<void>;
+  /**
+   * Sets `key` to `value` only if it currently holds `expected` (`undefined`: does not exist).
+   *
+   * @returns Whether the value was set. MUST be atomic.
+   */
+  compareAndSwap(key: string, expected: string | undefined, value: string): Promise<boolean>;
+}
+
+const MAX_CAS_ATTEMPTS = 100;
+
+/**
+ * Implementation on any {@link KeyValueStore}, safe to share between processes.
+ *
+ * @remarks
+ * Keeps each keyset's cursor under `<prefix><keysetId>` and moves it with compare-and-swap,
+ * retrying when another writer got there first. The keyset ids are listed under `<prefix>keysets`
+ * for `snapshot()`.
+ */
+export class KeyValueCounterSource implements CounterSource {
+  constructor(
+    private readonly store: KeyValueStore,
+    private readonly prefix = 'cashu-counter:',
+  ) {}
+
+  private async update<R>(keysetId: string, step: CounterStep<R>): Promise<R> {
+    const key = this.prefix + keysetId;
+    for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+      const raw = await this.store.get(key);
+      const cur = parseCursor(keysetId, raw);
+      const { next, result } = step(cur);
+      if (next === cur) return result;
+      if (raw === undefined) await this.addToIndex(keysetId);
+      if (await this.store.compareAndSwap(key, raw, String(next))) return result;
+    }
+    throw new CTSError(`Counter for keyset ${keysetId} kept changing, gave up after retries`);
+  }
+
+  private async addToIndex(keysetId: string): Promise<void> {
+    const key = this.prefix + 'keysets';
+    for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+      const raw = await this.store.get(key);
+      const ids = raw ? (JSON.parse(raw) as string[]) : [];
+      if (ids.includes(keysetId)) return;
+      if (await this.store.compareAndSwap(key, raw, JSON.stringify([...ids, keysetId]))) return;
+    }
+    throw new CTSError('Counter keyset index kept changing, gave up after retries');
+  }
+
+  async reserve(keysetId: string, n: number): Promise<CounterRange> {
+    return this.update(keysetId, reserveStep(n));
+  }
+
+  async reserveAt(keysetId: string, start: number, count: number): Promise<CounterRange> {
+    return this.update(keysetId, reserveAtStep(keysetId, start, count));
+  }
+
+  async advanceToAtLeast(keysetId: string, minNext: number): Promise<void> {
+    return this.update(keysetId, advanceStep(minNext));
+  }
+
+  async setNext(keysetId: string, next: number): Promise<void> {
+    setNextStep(next);
+    await this.addToIndex(keysetId);
+    await this.store.set(this.prefix + keysetId, String(next));
+  }
+
+  async snapshot(): Promise<Record<string, number>> {
+    const raw = await this.store.get(this.prefix + 'keysets');
+    const ids = raw ? (JSON.parse(raw) as string[]) : [];
+    const entries = await Promise.all(
+      ids.map(
+        async (id): Promise<[string, number]> => [
+          id,
+          parseCursor(id, await this.store.get(this.prefix + id)),
+        ],
+      ),
+    );
+    return Object.fromEntries(entries);
+  }
+}
+
+/**
+ * Create a {@link CounterSource} persisted to a JSON file, safe for several processes to share.
+ *
+ * @example
+ *
+ *     import * as fs from 'node:fs/promises';
+ *     const wallet = new Wallet(mintUrl, {
+ *       bip39seed,
+ *       counterSource: createFileCounterSource('./counters.json', fs),
+ *     });
+ *
+ * @param path - File to keep the counters in. Created on first write.
+ * @param fs - Filesystem to use, eg: Node's `fs/promises`.
+ * @param lockOptions - Lock timeout and stale lock takeover.
+ */
+export function createFileCounterSource(
+  path: string,
+  fs: LockingFileSystemLike,
+  lockOptions?: FileLockOptions,
+): CounterSource {
+  return new FileCounterSource(path, fs, lockOptions);
+}
+
+/**
+ * Create a {@link CounterSource} on your own key-value store.
+ *
+ * @param store - Store with an atomic `compareAndSwap`.
+ * @param prefix - Prefix of the keys used. Default: `'cashu-counter:'`.
+ */
+export function createKeyValueCounterSource(store: KeyValueStore, prefix?: string): CounterSource {
+  return new KeyValueCounterSource(store, prefix);
+}
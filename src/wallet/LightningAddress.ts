@@ -0,0 +1,221 @@
+import { sha256 } from '@noble/hashes/sha2.js';
+
+import { Amount, type AmountLike } from '../model/Amount';
+import { CTSError } from '../model/Errors';
+import request, { type RequestFn } from '../transport';
+import { Bytes, decodeBolt11, isLnurlServiceUrl, lnurlPayUrl, type DecodedBolt11 } from '../utils';
+
+/**
+ * A validated LNURL-pay (LUD-06) request, as served at a Lightning address.
+ */
+export type LnurlPayRequest = {
+  /**
+   * URL the request was fetched from.
+   */
+  url: string;
+  /**
+   * URL to ask for an invoice.
+   */
+  callback: string;
+  /**
+   * Smallest payment accepted, in millisatoshis.
+   */
+  minSendable: Amount;
+  /**
+   * Largest payment accepted, in millisatoshis.
+   */
+  maxSendable: Amount;
+  /**
+   * Raw metadata JSON. Invoices commit to its SHA-256 as their description hash.
+   */
+  metadata: string;
+  /**
+   * The `text/plain` metadata entry.
+   */
+  description: string;
+  /**
+   * The `text/identifier` or `text/email` metadata entry (LUD-16), if any.
+   */
+  identifier?: string;
+  /**
+   * Longest comment the service accepts (LUD-12). 0 when comments are not accepted.
+   */
+  commentAllowed: number;
+};
+
+/**
+ * An invoice from an LNURL-pay callback, checked against its request.
+ */
+export type LnurlPayInvoice = {
+  invoice: string;
+  decoded: DecodedBolt11;
+  /**
+   * LUD-09 action to show once paid, as sent by the service.
+   */
+  successAction?: Record<string, unknown>;
+};
+
+type LnurlPayResponse = {
+  tag?: unknown;
+  callback?: unknown;
+  minSendable?: unknown;
+  maxSendable?: unknown;
+  metadata?: unknown;
+  commentAllowed?: unknown;
+};
+
+type LnurlInvoiceResponse = {
+  pr?: unknown;
+  successAction?: Record<string, unknown>;
+};
+
+// Services answer errors with a 200 and this body (LUD-06)
+type LnurlStatus = { status?: unknown; reason?: unknown };
+
+function assertOk(res: unknown, what: string): void {
+  if (typeof res !== 'object' || res === null) {
+    throw new CTSError(`Invalid LNURL ${what} response`);
+  }
+  const { status, reason } = res as LnurlStatus;
+  if (typeof status === 'string' && status.toUpperCase() === 'ERROR') {
+    throw new CTSError(`LNURL service error: ${typeof reason === 'string' ? reason : 'unknown'}`);
+  }
+}
+
+function parseMetadata(metadata: unknown): Pick<LnurlPayRequest, 'description' | 'identifier'> {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(metadata as string);
+  } catch (e) {
+    throw new CTSError('Invalid LNURL-pay metadata: not JSON', { cause: e });
+  }
+  if (
+    !Array.isArray(entries) ||
+    !entries.every(
+      (e): e is [string, string] =>
+        Array.isArray(e) && typeof e[0] === 'string' && typeof e[1] === 'string',
+    )
+  ) {
+    throw new CTSError('Invalid LNURL-pay metadata: expected [type, content] pairs');
+  }
+  const get = (type: string) => entries.find(([t]) => t === type)?.[1];
+  const description = get('text/plain');
+  if (description === undefined) {
+    throw new CTSError('Invalid LNURL-pay metadata: missing text/plain');
+  }
+  const identifier = get('text/identifier') ?? get('text/email');
+  return identifier === undefined ? { description } : { description, identifier };
+}
+
+function msat(value: unknown, field: string): Amount {
+  if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 1) {
+    throw new CTSError(`Invalid LNURL-pay ${field}`);
+  }
+  return Amount.from(value);
+}
+
+/**
+ * Fetches and validates the LNURL-pay request behind a Lightning address or LNURL.
+ *
+ * @example
+ *
+ *     const payRequest = await resolveLnurlPay('alice@example.com');
+ *     const { invoice } = await requestLnurlInvoice(payRequest, 21_000);
+ *
+ * @param target Lightning address, bech32 LNURL or `lnurlp://` URL, see {@link lnurlPayUrl}.
+ * @param options.request Request function to fetch with. Default: the library's request.
+ * @throws If the target is invalid, the service reports an error, or the response is not a
+ *   well-formed pay request.
+ */
+export async function resolveLnurlPay(
+  target: string,
+  options?: { request?: RequestFn },
+): Promise<LnurlPayRequest> {
+  const url = lnurlPayUrl(target);
+  const res = await (options?.request ?? request)<LnurlPayResponse>({
+    endpoint: url,
+    method: 'GET',
+  });
+  assertOk(res, 'pay request');
+  if (res.tag !== 'payRequest') throw new CTSError('LNURL is not a pay request');
+  if (typeof res.callback !== 'string' || !isLnurlServiceUrl(res.callback)) {
+    throw new CTSError('Invalid LNURL-pay callback: must be https, or http to an onion service');
+  }
+  const minSendable = msat(res.minSendable, 'minSendable');
+  const maxSendable = msat(res.maxSendable, 'maxSendable');
+  if (minSendable.greaterThan(maxSendable)) {
+    throw new CTSError('Invalid LNURL-pay request: minSendable exceeds maxSendable');
+  }
+  const commentAllowed =
+    typeof res.commentAllowed === 'number' && res.commentAllowed > 0 ? res.commentAllowed : 0;
+  return {
+    url,
+    callback: res.callback,
+    minSendable,
+    maxSendable,
+    metadata: res.metadata as string,
+    ...parseMetadata(res.metadata),
+    commentAllowed,
+  };
+}
+
+/**
+ * Asks an LNURL-pay service for an invoice and checks it.
+ *
+ * @remarks
+ * The invoice must decode (signature included), be unexpired, be for exactly `amountMsat`, and
+ * commit to the request's metadata through its description hash.
+ * @param payRequest From {@link resolveLnurlPay}.
+ * @param amountMsat Amount to pay in millisatoshis, between `minSendable` and `maxSendable`.
+ * @param options.comment Comment for the recipient, up to `commentAllowed` characters.
+ * @param options.request Request function to fetch with. Default: the library's request.
+ * @throws If the amount or comment is not accepted, the service reports an error, or the invoice
+ *   fails a check.
+ */
+export async function requestLnurlInvoice(
+  payRequest: LnurlPayRequest,
+  amountMsat: AmountLike,
+  options?: { comment?: string; request?: RequestFn },
+): Promise<LnurlPayInvoice> {
+  const amount = Amount.from(amountMsat);
+  if (!amount.inRange(payRequest.minSendable, payRequest.maxSendable)) {
+    throw new CTSError(
+      `Amount ${amount.toString()} msat is outside ${payRequest.minSendable.toString()}-${payRequest.maxSendable.toString()} msat`,
+    );
+  }
+  const comment = options?.comment;
+  if (comment && comment.length > payRequest.commentAllowed) {
+    throw new CTSError(
+      `Comment is longer than the ${payRequest.commentAllowed} characters allowed`,
+    );
+  }
+  const url = new URL(payRequest.callback);
+  url.searchParams.set('amount', amount.toString());
+  if (comment) url.searchParams.set('comment', comment);
+  const res = await (options?.request ?? request)<LnurlInvoiceResponse>({
+    endpoint: url.toString(),
+    method: 'GET',
+  });
+  assertOk(res, 'invoice');
+  if (typeof res.pr !== 'string') throw new CTSError('LNURL-pay response has no invoice');
+
+  let decoded: DecodedBolt11;
+  try {
+    decoded = decodeBolt11(res.pr);
+  } catch (e) {
+    throw new CTSError('LNURL-pay returned an invalid BOLT11 invoice', { cause: e });
+  }
+  if (decoded.amountMsat === null || !amount.equals(decoded.amountMsat)) {
+    throw new CTSError('LNURL-pay invoice amount does not match the requested amount');
+  }
+  const metadataHash = Bytes.toHex(sha256(Bytes.fromString(payRequest.metadata)));
+  if (decoded.descriptionHash !== metadataHash) {
+    throw new CTSError('LNURL-pay invoice description hash does not match the metadata');
+  }
+  if (decoded.expiresAt * 1000 <= Date.now()) {
+    throw new CTSError('LNURL-pay invoice has expired');
+  }
+  return res.successAction
+    ? { invoice: res.pr, decoded, successAction: res.successAction }
+    : { invoice: res.pr, decoded };
+}
@@ -0,0 +1,598 @@
+import { Amount, type AmountLike } from '../model/Amount';
+import { CTSError, isMintOperationError, ProofStateConflictError } from '../model/Errors';
+import {
+  MeltQuoteState,
+  MintQuoteState,
+  type MeltQuoteBolt11Response,
+  type Proof,
+  type ProofLike,
+} from '../model/types';
+import { normalizeProofAmounts } from '../utils';
+
+import {
+  deserializeMeltPreview,
+  deserializeMintPreview,
+  serializeMeltPreview,
+  serializeMintPreview,
+  type SerializedMeltPreview,
+  type SerializedMintPreview,
+} from './OperationJournal';
+import { type SerializedProof, serializeProof } from './SwapPreview';
+import { type Wallet } from './Wallet';
+
+/**
+ * Stages of a {@link MintTransferState}.
+ *
+ * - `quoted`: both quotes exist, nothing has been spent.
+ * - `melting`: the melt was prepared and may have reached the source mint.
+ * - `melt-pending`: the source mint reported the payment in flight.
+ * - `paid`: the destination quote is paid and ready to mint.
+ * - `minting`: the mint was prepared and may have reached the destination mint.
+ * - `minted`: done.
+ * - `failed`: the source mint refused the melt; `error` says why.
+ */
+export type MintTransferStage =
+  | 'quoted'
+  | 'melting'
+  | 'melt-pending'
+  | 'paid'
+  | 'minting'
+  | 'minted'
+  | 'failed';
+
+/**
+ * Progress of a transfer between two mints. JSON-safe: persist it from `onStateChange` and pass it
+ * to {@link resumeMintTransfer} after a crash.
+ */
+export type MintTransferState = {
+  stage: MintTransferStage;
+  sourceMintUrl: string;
+  destMintUrl: string;
+  unit: string;
+  /**
+   * Amount the caller asked for, the upper bound when re-quoting.
+   */
+  requested: string;
+  /**
+   * Amount the destination mints, after negotiating fees.
+   */
+  amount: string;
+  mintQuote: string;
+  meltQuote: string;
+  /**
+   * Fee reserve of the melt quote.
+   */
+  feeReserve: string;
+  /**
+   * Unix time in seconds when the first of the two quotes expires, or null if neither does.
+   */
+  expiry: number | null;
+  /**
+   * Number of quote pairs requested so far.
+   */
+  attempts: number;
+  /**
+   * The prepared melt, set from `melting` on.
+   */
+  melt?: SerializedMeltPreview;
+  /**
+   * The prepared mint, set from `minting` on.
+   */
+  mint?: SerializedMintPreview;
+  /**
+   * NUT-08 change returned by the source mint.
+   */
+  change: SerializedProof[];
+  /**
+   * Proofs minted at the destination.
+   */
+  proofs: SerializedProof[];
+  error?: string;
+};
+
+/**
+ * Options for {@link transferBetweenMints} and {@link resumeMintTransfer}.
+ */
+export type MintTransferOptions = {
+  /**
+   * Source proofs to pay from. Default: the source wallet's stored unspent proofs.
+   */
+  proofs?: ProofLike[];
+  /**
+   * Called after every stage change. Awaited, so a persisted state is never behind the mints.
+   */
+  onStateChange?: (state: MintTransferState) => void | Promise<void>;
+  /**
+   * How long to wait for a pending melt to pay the destination, via `dest.on.onceMintPaid`. The
+   * wait also ends when the source melt settles. A melt still pending after it returns the
+   * `melt-pending` state. Default: don't wait.
+   */
+  timeoutMs?: number;
+  /**
+   * Aborts the wait for a pending melt.
+   */
+  signal?: AbortSignal;
+  /**
+   * Quote pairs to request before giving up on finding an amount that fits. Default 3.
+   */
+  maxAttempts?: number;
+};
+
+/**
+ * Outcome of {@link transferBetweenMints}.
+ */
+export type MintTransferResult = {
+  state: MintTransferState;
+  /**
+   * Proofs minted at the destination; empty unless the stage is `minted`.
+   */
+  proofs: Proof[];
+  /**
+   * Change returned by the source mint.
+   */
+  change: Proof[];
+};
+
+/**
+ * Moves value from one mint to another over Lightning.
+ *
+ * @remarks
+ * Requests a mint quote at `dest` and pays its invoice by melting at `source`. If the source proofs
+ * cannot cover the amount plus the melt fee reserve and input fees, the amount shrinks to the
+ * largest that fits and both quotes are requested again. Expired quotes are replaced the same way
+ * while no funds have moved.
+ *
+ * A melt left pending by the source mint returns the `melt-pending` state, after waiting up to
+ * `timeoutMs` if set; resume it later with {@link resumeMintTransfer}. Change of a melt that settles
+ * after the destination was paid is collected by the source wallet's journal, if it has one.
+ * @example
+ *
+ *     const { state, proofs } = await transferBetweenMints(walletA, walletB, 1000, {
+ *       onStateChange: (s) => db.save('transfer', s),
+ *     });
+ *
+ * @param source Wallet to melt from.
+ * @param dest Wallet to mint into. Must use the same unit as `source`.
+ * @param amount Amount to arrive at `dest`, at most.
+ * @param options Optional controls.
+ * @returns The final state with the minted proofs and melt change.
+ * @throws If the balance cannot cover any amount after fees, or the source mint refuses the melt.
+ *   The state passed to `onStateChange` is then `failed`, unless nothing was spent yet.
+ */
+export async function transferBetweenMints(
+  source: Wallet,
+  dest: Wallet,
+  amount: AmountLike,
+  options: MintTransferOptions = {},
+): Promise<MintTransferResult> {
+  requireSameUnit(source, dest);
+  const requested = Amount.from(amount);
+  if (requested.isZero()) {
+    throw new CTSError('transferBetweenMints: amount must be positive');
+  }
+  const state = await negotiate(source, dest, requested, 0, options);
+  await emit(state, options);
+  return run(source, dest, state, options);
+}
+
+/**
+ * Continues a transfer from a state persisted by {@link transferBetweenMints}.
+ *
+ * @param source The same source wallet.
+ * @param dest The same destination wallet.
+ * @param state Last state seen by `onStateChange`.
+ * @param options Optional controls.
+ * @returns The final state with the minted proofs and melt change.
+ */
+export async function resumeMintTransfer(
+  source: Wallet,
+  dest: Wallet,
+  state: MintTransferState,
+  options: MintTransferOptions = {},
+): Promise<MintTransferResult> {
+  requireSameUnit(source, dest);
+  if (
+    state.sourceMintUrl !== source.mint.mintUrl ||
+    state.destMintUrl !== dest.mint.mintUrl ||
+    state.unit !== source.unit
+  ) {
+    throw new CTSError('resumeMintTransfer: state belongs to other wallets');
+  }
+  return run(source, dest, { ...state }, options);
+}
+
+async function run(
+  source: Wallet,
+  dest: Wallet,
+  initial: MintTransferState,
+  options: MintTransferOptions,
+): Promise<MintTransferResult> {
+  let state = initial;
+  for (;;) {
+    switch (state.stage) {
+      case 'quoted':
+        state = isExpired(state)
+          ? await requote(source, dest, state, options)
+          : await startMelt(source, state, options);
+        break;
+      case 'melting':
+        state = await melt(source, dest, state, options);
+        break;
+      case 'melt-pending': {
+        const next = await awaitPayment(source, dest, state, options);
+        if (!next) return result(state);
+        state = next;
+        break;
+      }
+      case 'paid':
+        state = await startMint(dest, state);
+        break;
+      case 'minting':
+        state = await mint(dest, state);
+        break;
+      case 'minted':
+      case 'failed':
+        return result(state);
+    }
+    await emit(state, options);
+  }
+}
+
+/**
+ * Requests quote pairs until the source proofs cover the melt, shrinking the amount each time.
+ */
+async function negotiate(
+  source: Wallet,
+  dest: Wallet,
+  requested: Amount,
+  attempts: number,
+  options: MintTransferOptions,
+): Promise<MintTransferState> {
+  const available = await sourceProofs(source, options);
+  const maxAttempts = options.maxAttempts ?? 3;
+  let amount = requested;
+  while (attempts < maxAttempts) {
+    if (amount.isZero()) break;
+    attempts++;
+    const mintQuote = await dest.createMintQuoteBolt11(amount);
+    const meltQuote = await source.createMeltQuoteBolt11(mintQuote.request);
+    const feeReserve = meltQuote.fee_reserve ?? Amount.zero();
+    if (selectInputs(source, available, meltQuote).length > 0) {
+      const expiries = [mintQuote.expiry, meltQuote.expiry].filter((e): e is number => !!e);
+      return {
+        stage: 'quoted',
+        sourceMintUrl: source.mint.mintUrl,
+        destMintUrl: dest.mint.mintUrl,
+        unit: source.unit,
+        requested: requested.toString(),
+        amount: amount.toString(),
+        mintQuote: mintQuote.quote,
+        meltQuote: meltQuote.quote,
+        feeReserve: feeReserve.toString(),
+        expiry: expiries.length > 0 ? Math.min(...expiries) : null,
+        attempts,
+        change: [],
+        proofs: [],
+      };
+    }
+    // Shrink to what the balance covers with this reserve; the reserve may shrink too
+    const fits = source.maxSpendableAfterFees(available, feeReserve);
+    amount = fits.lessThan(amount) ? fits : amount.subtract(1);
+  }
+  throw new CTSError(
+    `transferBetweenMints: balance does not cover any amount up to ${requested.toString()} after fees`,
+  );
+}
+
+async function requote(
+  source: Wallet,
+  dest: Wallet,
+  state: MintTransferState,
+  options: MintTransferOptions,
+): Promise<MintTransferState> {
+  return negotiate(source, dest, Amount.from(state.requested), state.attempts, options);
+}
+
+/**
+ * Reserves the inputs and records the melt before it is sent.
+ */
+async function startMelt(
+  source: Wallet,
+  state: MintTransferState,
+  options: MintTransferOptions,
+): Promise<MintTransferState> {
+  const available = await sourceProofs(source, options);
+  const quote = {
+    quote: state.meltQuote,
+    amount: Amount.from(state.amount),
+    fee_reserve: Amount.from(state.feeReserve),
+  };
+  const inputs = selectInputs(source, available, quote);
+  if (inputs.length === 0) {
+    throw new CTSError('transferBetweenMints: source proofs no longer cover the melt');
+  }
+  const preview = await source.prepareMelt('bolt11', quote, inputs);
+  return { ...state, stage: 'melting', melt: serializeMeltPreview(preview) };
+}
+
+/**
+ * Sends the melt. When the outcome is unclear, the quote state decides.
+ */
+async function melt(
+  source: Wallet,
+  dest: Wallet,
+  state: MintTransferState,
+  options: MintTransferOptions,
+): Promise<MintTransferState> {
+  const preview = deserializeMeltPreview(requireMelt(state));
+  let meltState: MeltQuoteState | undefined;
+  let change: Proof[] = [];
+  try {
+    const res = await source.completeMelt(preview);
+    meltState = (res.quote as Partial<MeltQuoteBolt11Response>).state;
+    change = res.change;
+  } catch (e) {
+    // Already melted on an earlier run, refused, or lost on the way. On a resume the inputs may
+    // have left unspent already, and the store refuses them before the mint sees them.
+    const quote = await source.checkMeltQuoteBolt11(state.meltQuote);
+    if (quote.state === MeltQuoteState.UNPAID) {
+      if (!isMintOperationError(e) && !(e instanceof ProofStateConflictError)) throw e;
+      return meltNotPaid(source, dest, state, options, e);
+    }
+    meltState = quote.state;
+    if (quote.state === MeltQuoteState.PAID) {
+      change = await collectChange(source, state, quote);
+    }
+  }
+  if (meltState === MeltQuoteState.PENDING) {
+    return { ...state, stage: 'melt-pending' };
+  }
+  if (meltState === MeltQuoteState.UNPAID) {
+    return meltNotPaid(source, dest, state, options);
+  }
+  return { ...state, stage: 'paid', change: change.map(serializeProof) };
+}
+
+/**
+ * Prepares the outputs and records the mint before it is sent.
+ */
+async function startMint(dest: Wallet, state: MintTransferState): Promise<MintTransferState> {
+  const preview = await dest.prepareMint('bolt11', state.amount, { quote: state.mintQuote });
+  return { ...state, stage: 'minting', mint: serializeMintPreview(preview) };
+}
+
+/**
+ * Sends the mint. If the quote was already issued on an earlier run, restores the outputs instead.
+ */
+async function mint(dest: Wallet, state: MintTransferState): Promise<MintTransferState> {
+  const preview = deserializeMintPreview(requireMint(state));
+  let proofs: Proof[];
+  try {
+    proofs = await dest.completeMint(preview);
+  } catch (e) {
+    const quote = await dest.checkMintQuoteBolt11(state.mintQuote);
+    if (quote.state !== MintQuoteState.ISSUED) throw e;
+    proofs = await restoreMinted(dest, state);
+    if (proofs.length === 0) throw e;
+  }
+  return { ...state, stage: 'minted', proofs: proofs.map(serializeProof) };
+}
+
+/**
+ * Checks whether a pending melt went through, waiting for the destination if asked to.
+ *
+ * @returns The next state, or undefined if the melt is still pending.
+ */
+async function awaitPayment(
+  source: Wallet,
+  dest: Wallet,
+  state: MintTransferState,
+  options: MintTransferOptions,
+): Promise<MintTransferState | undefined> {
+  const next = await checkPayment(source, dest, state, options);
+  if (next || !options.timeoutMs) return next;
+  // Stop waiting once the source melt settles, so a failed melt is not mistaken for a slow one
+  const wait = new AbortController();
+  const abort = () => wait.abort();
+  if (options.signal?.aborted) abort();
+  options.signal?.addEventListener('abort', abort);
+  try {
+    await source.on.meltQuoteUpdates(
+      [state.meltQuote],
+      (quote) => {
+        if (quote.state !== MeltQuoteState.PENDING) abort();
+      },
+      () => undefined, // losing the melt updates only loses the early exit
+      { signal: wait.signal },
+    );
+    await dest.on.onceMintPaid(state.mintQuote, {
+      signal: wait.signal,
+      timeoutMs: options.timeoutMs,
+    });
+  } catch (e) {
+    if (options.signal?.aborted) throw e;
+  } finally {
+    options.signal?.removeEventListener('abort', abort);
+    abort();
+  }
+  return checkPayment(source, dest, state, options);
+}
+
+/**
+ * Reads the source melt quote, then the destination mint quote.
+ *
+ * @returns The next state, or undefined if the melt is still pending.
+ */
+async function checkPayment(
+  source: Wallet,
+  dest: Wallet,
+  state: MintTransferState,
+  options: MintTransferOptions,
+): Promise<MintTransferState | undefined> {
+  const quote = await source.checkMeltQuoteBolt11(state.meltQuote);
+  if (quote.state === MeltQuoteState.PAID) {
+    const change = await collectChange(source, state, quote);
+    return { ...state, stage: 'paid', change: change.map(serializeProof) };
+  }
+  if (quote.state === MeltQuoteState.UNPAID) {
+    return meltNotPaid(source, dest, state, options);
+  }
+  const mintQuote = await dest.checkMintQuoteBolt11(state.mintQuote);
+  if (mintQuote.state !== MintQuoteState.UNPAID) {
+    return { ...state, stage: 'paid' };
+  }
+  return undefined;
+}
+
+/**
+ * The source mint did not pay: free the inputs, then re-quote if the quotes expired or fail.
+ */
+async function meltNotPaid(
+  source: Wallet,
+  dest: Wallet,
+  state: MintTransferState,
+  options: MintTransferOptions,
+  cause?: unknown,
+): Promise<MintTransferState> {
+  const inputs = requireMelt(state).inputs;
+  await releaseInputs(source, inputs);
+  const next: MintTransferState = { ...state, melt: undefined };
+  if (isExpired(state) && state.attempts < (options.maxAttempts ?? 3)) {
+    return requote(source, dest, next, options);
+  }
+  const message = cause instanceof Error ? cause.message : 'source mint did not pay the invoice';
+  const failed: MintTransferState = { ...next, stage: 'failed', error: message };
+  await emit(failed, options);
+  throw new CTSError(`transferBetweenMints: melt failed: ${message}`, { cause });
+}
+
+/**
+ * Builds NUT-08 change from a paid quote and settles the source store.
+ */
+async function collectChange(
+  source: Wallet,
+  state: MintTransferState,
+  quote: MeltQuoteBolt11Response,
+): Promise<Proof[]> {
+  const { inputs, outputData } = deserializeMeltPreview(requireMelt(state));
+  const sigs = quote.change ?? [];
+  for (const id of new Set(sigs.map((s) => s.id))) {
+    await source.keyChain.ensureKeysetKeys(id);
+  }
+  const change = source.createMeltChangeProofs(outputData, sigs);
+  const store = source.proofStore;
+  if (store) {
+    await store.put(
+      change.map((proof) => ({
+        proof,
+        state: 'unspent' as const,
+        mintUrl: source.mint.mintUrl,
+        unit: source.unit,
+      })),
+    );
+    await store.transition(
+      inputs.map((p) => p.secret),
+      'spent',
+    );
+  }
+  return change;
+}
+
+/**
+ * Recovers the signatures of an issued mint (NUT-09) and stores the proofs.
+ */
+async function restoreMinted(dest: Wallet, state: MintTransferState): Promise<Proof[]> {
+  const { outputData } = deserializeMintPreview(requireMint(state));
+  const { outputs, signatures } = await dest.mint.restore({
+    outputs: outputData.map((d) => d.blindedMessage),
+  });
+  for (const id of new Set(signatures.map((s) => s.id))) {
+    await dest.keyChain.ensureKeysetKeys(id);
+  }
+  const signed = new Map(outputs.map((o, i) => [o.B_, signatures[i]]));
+  const proofs = outputData.flatMap((d) => {
+    const sig = signed.get(d.blindedMessage.B_);
+    return sig ? [d.toProof(sig, dest.getKeyset(sig.id))] : [];
+  });
+  await dest.proofStore?.put(
+    proofs.map((proof) => ({
+      proof,
+      state: 'unspent' as const,
+      mintUrl: dest.mint.mintUrl,
+      unit: dest.unit,
+    })),
+  );
+  return proofs;
+}
+
+/**
+ * Returns melt inputs left reserved or pending to the spendable set.
+ */
+async function releaseInputs(source: Wallet, inputs: SerializedProof[]): Promise<void> {
+  const store = source.proofStore;
+  if (!store) return;
+  const held = await store.list({
+    secrets: inputs.map((p) => p.secret),
+    states: ['reserved', 'pending'],
+  });
+  await store.transition(
+    held.map((e) => e.proof.secret),
+    'unspent',
+  );
+}
+
+async function sourceProofs(source: Wallet, options: MintTransferOptions): Promise<ProofLike[]> {
+  if (options.proofs) return options.proofs;
+  if (!source.proofStore) {
+    throw new CTSError('transferBetweenMints: pass proofs or give the source wallet a proofStore');
+  }
+  return source.getStoredProofs();
+}
+
+function selectInputs(
+  source: Wallet,
+  available: ProofLike[],
+  quote: Pick<MeltQuoteBolt11Response, 'amount' | 'fee_reserve'>,
+): Proof[] {
+  const needed = quote.amount.add(quote.fee_reserve ?? 0);
+  const { send } = source.selectProofsToSend(available, needed, true);
+  return normalizeProofAmounts(send);
+}
+
+function requireMelt(state: MintTransferState): SerializedMeltPreview {
+  if (!state.melt) {
+    throw new CTSError(`Invalid MintTransferState: stage ${state.stage} without a melt`);
+  }
+  return state.melt;
+}
+
+function requireMint(state: MintTransferState): SerializedMintPreview {
+  if (!state.mint) {
+    throw new CTSError(`Invalid MintTransferState: stage ${state.stage} without a mint`);
+  }
+  return state.mint;
+}
+
+function requireSameUnit(source: Wallet, dest: Wallet): void {
+  if (source.unit !== dest.unit) {
+    throw new CTSError(
+      `transferBetweenMints: source unit '${source.unit}' differs from dest unit '${dest.unit}'`,
+    );
+  }
+}
+
+function isExpired(state: MintTransferState): boolean {
+  return state.expiry !== null && state.expiry <= Math.floor(Date.now() / 1000);
+}
+
+async function emit(state: MintTransferState, options: MintTransferOptions): Promise<void> {
+  await options.onStateChange?.(state);
+}
+
+function result(state: MintTransferState): MintTransferResult {
+  return {
+    state,
+    proofs: normalizeProofAmounts(state.proofs),
+    change: normalizeProofAmounts(state.change),
+  };
+}
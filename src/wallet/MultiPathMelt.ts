@@ -0,0 +1,320 @@
+import { Amount } from '../model/Amount';
+import { CTSError, InvalidPreimageError } from '../model/Errors';
+import {
+  MeltQuoteState,
+  type MeltQuoteBolt11Response,
+  type Proof,
+  type ProofLike,
+} from '../model/types';
+import { decodeBolt11, isBolt11Preimage, normalizeProofAmounts, sumProofs } from '../utils';
+import type { DecodedBolt11 } from '../utils';
+
+import { type Wallet } from './Wallet';
+
+/**
+ * Options for {@link meltMultiPath}.
+ */
+export type MultiPathMeltOptions = {
+  /**
+   * Proofs each wallet may pay from. Default: the wallet's stored unspent proofs.
+   */
+  proofs?: (wallet: Wallet) => ProofLike[] | Promise<ProofLike[]>;
+  /**
+   * Rounds of melts: parts that fail while all others are in flight are sent again through other
+   * mints in the next round. Default 2.
+   */
+  maxRounds?: number;
+  /**
+   * Quote rounds to find a split whose parts each cover their fee reserve. Default 3.
+   */
+  maxQuoteAttempts?: number;
+};
+
+/**
+ * One partial payment of a {@link meltMultiPath}.
+ */
+export type MultiPathMeltPart = {
+  wallet: Wallet;
+  /**
+   * This part's share of the invoice, in millisatoshis.
+   */
+  amountMsat: Amount;
+  /**
+   * The NUT-15 quote, as last reported by the mint.
+   */
+  quote: MeltQuoteBolt11Response;
+  /**
+   * `UNPAID` if the melt failed and the inputs are spendable again. `PENDING` also covers a melt
+   * whose outcome could not be learned.
+   */
+  state: MeltQuoteState;
+  inputs: Proof[];
+  change: Proof[];
+  /**
+   * Why the melt threw, if it did. Set on a `PAID` part whose change could not be built or whose
+   * preimage did not match.
+   */
+  error?: unknown;
+};
+
+/**
+ * Outcome of {@link meltMultiPath}.
+ *
+ * - `paid`: a part is paid with a preimage that matches the invoice, or every part is paid. Once the
+ *   payee releases the preimage, parts still in flight settle too.
+ * - `pending`: nothing failed for good, but some parts are in flight.
+ * - `partial`: some of the invoice could not be sent while other parts are in flight. Lightning will
+ *   most likely fail the whole payment, releasing the pending parts.
+ * - `failed`: no part is paid or in flight; nothing was spent.
+ */
+export type MultiPathMeltResult = {
+  state: 'paid' | 'pending' | 'partial' | 'failed';
+  /**
+   * Preimage of the invoice, from the first paid part whose preimage matches.
+   */
+  preimage?: string;
+  /**
+   * What the paid parts cost beyond their share of the invoice: Lightning and input fees.
+   */
+  fee: Amount;
+  /**
+   * Sum of the fee reserves of the parts paid or in flight, the most they can cost in fees.
+   */
+  feeReserve: Amount;
+  /**
+   * Every part tried, failed ones included, in the order they were sent.
+   */
+  parts: MultiPathMeltPart[];
+};
+
+type Funds = { wallet: Wallet; available: Proof[] };
+
+type PlannedPart = {
+  wallet: Wallet;
+  amountMsat: Amount;
+  quote: MeltQuoteBolt11Response;
+  inputs: Proof[];
+};
+
+/**
+ * Pays one BOLT11 invoice from several mints at once with NUT-15 multi-path payments.
+ *
+ * @remarks
+ * The invoice is split over the wallets whose mint advertises NUT-15 for bolt11 in their unit,
+ * using as few mints as the balances allow, largest balance first. A part that cannot cover its fee
+ * reserve is shrunk and the rest moved to the other mints. The parts are then melted concurrently.
+ *
+ * Parts that fail while all others are in flight are sent again through mints that have not failed,
+ * for up to `maxRounds`. Once any part is paid the payee has settled the invoice, so nothing is
+ * sent again. Pending parts are not waited for: check their quotes later, and collect their change
+ * with each wallet's journal (`recoverPendingOperations`).
+ * @example
+ *
+ *     const { state, preimage, fee } = await meltMultiPath(invoice, [walletA, walletB]);
+ *
+ * @param invoice BOLT11 invoice with an amount.
+ * @param wallets Loaded `sat` wallets to pay from.
+ * @param options Optional controls.
+ * @returns The combined outcome, fee and preimage, with every part tried.
+ * @throws Before anything is spent, if the invoice is invalid, expired or amountless, or the
+ *   wallets cannot cover it.
+ */
+export async function meltMultiPath(
+  invoice: string,
+  wallets: Wallet[],
+  options: MultiPathMeltOptions = {},
+): Promise<MultiPathMeltResult> {
+  const decoded = decodeInvoice(invoice);
+  const funds: Funds[] = [];
+  for (const wallet of wallets) {
+    if (wallet.unit !== 'sat') {
+      throw new CTSError(`meltMultiPath: wallet unit '${wallet.unit}' is not sat`);
+    }
+    if (!supportsMpp(wallet)) continue;
+    const available = normalizeProofAmounts(
+      options.proofs ? await options.proofs(wallet) : await storedProofs(wallet),
+    );
+    funds.push({ wallet, available });
+  }
+  if (funds.length === 0) {
+    throw new CTSError('meltMultiPath: no wallet has a mint supporting NUT-15 for bolt11');
+  }
+
+  const parts: MultiPathMeltPart[] = [];
+  let unsent = Amount.from(decoded.amountMsat!);
+  const failedMints = new Set<string>();
+  const maxRounds = options.maxRounds ?? 2;
+  for (let round = 0; round < maxRounds && !unsent.isZero(); round++) {
+    const usable = funds.filter((f) => !failedMints.has(f.wallet.mint.mintUrl));
+    let planned: PlannedPart[];
+    try {
+      planned = await plan(decoded, unsent, usable, options.maxQuoteAttempts ?? 3);
+    } catch (e) {
+      // Nothing of this round was spent: before the first round that is the caller's error
+      if (round === 0) throw e;
+      break;
+    }
+    const sent = await Promise.all(planned.map(meltPart));
+    for (const part of sent) {
+      parts.push(part);
+      if (part.state === MeltQuoteState.UNPAID) {
+        failedMints.add(part.wallet.mint.mintUrl);
+      } else {
+        unsent = unsent.subtract(part.amountMsat);
+        // Inputs of parts paid or in flight are gone
+        const used = new Set(part.inputs.map((p) => p.secret));
+        const source = funds.find((f) => f.wallet === part.wallet)!;
+        source.available = source.available.filter((p) => !used.has(p.secret));
+      }
+    }
+    // Retry only while every part sent is in flight: a paid part means the payee settled the
+    // invoice, and sending its share again would pay it twice
+    const live = parts.filter((p) => p.state !== MeltQuoteState.UNPAID);
+    if (live.length === 0 || live.some((p) => p.state !== MeltQuoteState.PENDING)) break;
+  }
+  return result(decoded, parts, unsent);
+}
+
+function decodeInvoice(invoice: string): DecodedBolt11 {
+  let decoded: DecodedBolt11;
+  try {
+    decoded = decodeBolt11(invoice);
+  } catch (e) {
+    throw new CTSError('meltMultiPath: invalid BOLT11 invoice', { cause: e });
+  }
+  if (decoded.amountMsat === null) {
+    throw new CTSError('meltMultiPath: invoice has no amount');
+  }
+  if (decoded.expiresAt * 1000 <= Date.now()) {
+    throw new CTSError('meltMultiPath: invoice has expired');
+  }
+  return decoded;
+}
+
+function supportsMpp(wallet: Wallet): boolean {
+  const { supported, params } = wallet.getMintInfo().isSupported(15);
+  return supported && !!params?.some((p) => p.method === 'bolt11' && p.unit === wallet.unit);
+}
+
+async function storedProofs(wallet: Wallet): Promise<Proof[]> {
+  if (!wallet.proofStore) {
+    throw new CTSError('meltMultiPath: pass proofs or give every wallet a proofStore');
+  }
+  return wallet.getStoredProofs();
+}
+
+/**
+ * Splits `amountMsat` over the funds and quotes each part, shrinking parts that cannot cover their
+ * fee reserve until every part fits.
+ */
+async function plan(
+  decoded: DecodedBolt11,
+  amountMsat: Amount,
+  funds: Funds[],
+  maxAttempts: number,
+): Promise<PlannedPart[]> {
+  // Millisats each wallet can spend, before the fee reserve is known
+  const capacity = new Map(
+    funds.map((f) => [f.wallet, f.wallet.maxSpendableAfterFees(f.available).multiplyBy(1000)]),
+  );
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const split = allocate(amountMsat, funds, capacity);
+    const quoted = await Promise.all(
+      split.map(async ({ funds: f, amountMsat: share }) => {
+        const quote = await f.wallet.createMultiPathMeltQuote(decoded.paymentRequest, share);
+        const needed = quote.amount.add(quote.fee_reserve ?? 0);
+        const { send } = f.wallet.selectProofsToSend(f.available, needed, true);
+        return { funds: f, amountMsat: share, quote, inputs: normalizeProofAmounts(send) };
+      }),
+    );
+    const short = quoted.filter((p) => p.inputs.length === 0);
+    if (short.length === 0) {
+      return quoted.map(({ funds: f, ...part }) => ({ wallet: f.wallet, ...part }));
+    }
+    // What the balance covers with this reserve; the reserve may shrink too
+    for (const { funds: f, amountMsat: share, quote } of short) {
+      const fits = f.wallet.maxSpendableAfterFees(f.available, quote.fee_reserve).multiplyBy(1000);
+      const smaller = share.greaterThan(1000) ? share.subtract(1000) : Amount.zero();
+      capacity.set(f.wallet, fits.lessThan(share) ? fits : smaller);
+    }
+  }
+  throw new CTSError(
+    `meltMultiPath: balances do not cover ${amountMsat.toString()} msat after fees`,
+  );
+}
+
+/**
+ * Fills the largest capacities first, so the payment uses as few mints as it can.
+ */
+function allocate(
+  amountMsat: Amount,
+  funds: Funds[],
+  capacity: Map<Wallet, Amount>,
+): Array<{ funds: Funds; amountMsat: Amount }> {
+  const byCapacity = [...funds].sort((a, b) =>
+    capacity.get(b.wallet)!.compareTo(capacity.get(a.wallet)!),
+  );
+  const split: Array<{ funds: Funds; amountMsat: Amount }> = [];
+  let remaining = amountMsat;
+  for (const f of byCapacity) {
+    if (remaining.isZero()) break;
+    const cap = capacity.get(f.wallet)!;
+    if (cap.isZero()) continue;
+    const share = Amount.min(cap, remaining);
+    split.push({ funds: f, amountMsat: share });
+    remaining = remaining.subtract(share);
+  }
+  if (!remaining.isZero()) {
+    throw new CTSError(
+      `meltMultiPath: balances do not cover ${amountMsat.toString()} msat after fees`,
+    );
+  }
+  return split;
+}
+
+/**
+ * Melts one part. When the melt throws, the quote state decides what happened.
+ */
+async function meltPart(part: PlannedPart): Promise<MultiPathMeltPart> {
+  const { wallet } = part;
+  try {
+    const preview = await wallet.prepareMelt('bolt11', part.quote, part.inputs);
+    const res = await wallet.completeMelt(preview);
+    return { ...part, quote: res.quote, state: res.quote.state, change: res.change };
+  } catch (error) {
+    const change = error instanceof InvalidPreimageError ? error.change : [];
+    try {
+      const quote = await wallet.checkMeltQuoteBolt11(part.quote.quote);
+      return { ...part, quote, state: quote.state, change, error };
+    } catch {
+      // The outcome is unknown, so the inputs may be spent
+      return { ...part, state: MeltQuoteState.PENDING, change, error };
+    }
+  }
+}
+
+function result(
+  decoded: DecodedBolt11,
+  parts: MultiPathMeltPart[],
+  unsent: Amount,
+): MultiPathMeltResult {
+  const live = parts.filter((p) => p.state !== MeltQuoteState.UNPAID);
+  const paid = live.filter((p) => p.state === MeltQuoteState.PAID);
+  let fee = Amount.zero();
+  for (const p of paid) {
+    const spent = sumProofs(p.inputs).subtract(sumProofs(p.change));
+    // A paid part with unbuilt change looks like it spent its whole reserve
+    fee = fee.add(spent.greaterThan(p.quote.amount) ? spent.subtract(p.quote.amount) : 0);
+  }
+  const feeReserve = Amount.sum(live.map((p) => p.quote.fee_reserve ?? Amount.zero()));
+  const preimage = paid
+    .map((p) => p.quote.payment_preimage)
+    .find((p): p is string => !!p && isBolt11Preimage(decoded, p));
+  let state: MultiPathMeltResult['state'];
+  if (preimage) state = 'paid';
+  else if (live.length === 0) state = 'failed';
+  else if (!unsent.isZero()) state = 'partial';
+  else if (paid.length === live.length) state = 'paid';
+  else state = 'pending';
+  return { state, ...(preimage && { preimage }), fee, feeReserve, parts };
+}
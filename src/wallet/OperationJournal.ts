@@ -0,0 +1,291 @@
+import { CTSError } from '../model/Errors';
+import { OutputData, type SerializedOutputData } from '../model/OutputData';
+import { type MeltQuoteBaseResponse, type MintQuoteBaseResponse } from '../model/types';
+import { normalizeProofAmounts } from '../utils';
+import { FileBackedState, type FileSystemLike } from '../utils/fileStore';
+
+import { type SerializedProof, type SerializedSwapPreview, serializeProof } from './SwapPreview';
+import { type CompleteMeltOptions, type MeltPreview, type MintPreview } from './types';
+
+/**
+ * Operation kinds recorded in an {@link OperationJournal}.
+ */
+export type JournalOperationKind = 'swap' | 'mint' | 'melt';
+
+/**
+ * JSON-safe representation of a {@link MintPreview}. Only the quote id is kept.
+ */
+export type SerializedMintPreview = {
+  method: string;
+  keysetId: string;
+  quote: string;
+  outputData: SerializedOutputData[];
+  signature?: string;
+  legacySignature?: string;
+};
+
+/**
+ * JSON-safe representation of a {@link MeltPreview}. Only the quote id is kept.
+ */
+export type SerializedMeltPreview = {
+  method: string;
+  keysetId: string;
+  quote: string;
+  inputs: SerializedProof[];
+  outputData: SerializedOutputData[];
+};
+
+/**
+ * Fields shared by every {@link JournalEntry}.
+ */
+export type JournalEntryBase = {
+  id: string;
+  /**
+   * Normalized mint URL of the wallet that wrote the entry.
+   */
+  mintUrl: string;
+  unit: string;
+  /**
+   * Unix time in milliseconds.
+   */
+  createdAt: number;
+};
+
+/**
+ * An operation that was about to reach the mint. JSON-safe.
+ *
+ * @remarks
+ * Swap and melt inputs are recorded after P2PK signing, so a replay sends the same request.
+ */
+export type JournalEntry =
+  | (JournalEntryBase & { kind: 'swap'; preview: SerializedSwapPreview })
+  | (JournalEntryBase & { kind: 'mint'; preview: SerializedMintPreview })
+  | (JournalEntryBase & {
+      kind: 'melt';
+      preview: SerializedMeltPreview;
+      options?: CompleteMeltOptions;
+    });
+
+/**
+ * Write-ahead log of operations in flight with the mint.
+ *
+ * @remarks
+ * Pass one to the `Wallet` constructor (`journal` option). The wallet records each swap, mint and
+ * melt before sending it, and removes the entry once the result is stored. Entries left behind by a
+ * crash are finished or rolled back by `wallet.recoverPendingOperations()`.
+ */
+export interface OperationJournal {
+  /**
+   * Durably record an entry. Must not resolve before the entry would survive a crash.
+   */
+  record(entry: JournalEntry): Promise<void>;
+  /**
+   * Remove a settled entry. Unknown ids are ignored.
+   */
+  complete(id: string): Promise<void>;
+  /**
+   * Entries not yet completed, oldest first.
+   */
+  list(): Promise<JournalEntry[]>;
+}
+
+/**
+ * JSON-safe snapshot of an {@link OperationJournal}.
+ */
+export type SerializedOperationJournal = {
+  version: 1;
+  entries: JournalEntry[];
+};
+
+/**
+ * In memory implementation. Survives nothing but useful for tests and short-lived processes.
+ */
+export class MemoryOperationJournal implements OperationJournal {
+  private entries = new Map<string, JournalEntry>();
+
+  constructor(initial?: JournalEntry[]) {
+    if (initial) {
+      for (const e of initial) this.entries.set(e.id, e);
+    }
+  }
+
+  /**
+   * Snapshot of all entries, eg: for writing to disk.
+   */
+  toJSON(): SerializedOperationJournal {
+    return { version: 1, entries: [...this.entries.values()] };
+  }
+
+  /**
+   * Rebuilds a journal from {@link MemoryOperationJournal.toJSON} output.
+   *
+   * @throws {@link CTSError} If the data is malformed.
+   */
+  static fromJSON(data: SerializedOperationJournal): MemoryOperationJournal {
+    if (data?.version !== 1 || !Array.isArray(data.entries)) {
+      throw new CTSError(
+        'Invalid SerializedOperationJournal: unsupported version or missing entries',
+      );
+    }
+    for (const e of data.entries) {
+      if (typeof e?.id !== 'string' || !['swap', 'mint', 'melt'].includes(e.kind)) {
+        throw new CTSError('Invalid SerializedOperationJournal: malformed entry');
+      }
+    }
+    return new MemoryOperationJournal(data.entries);
+  }
+
+  record(entry: JournalEntry): Promise<void> {
+    this.entries.set(entry.id, entry);
+    return Promise.resolve();
+  }
+
+  complete(id: string): Promise<void> {
+    this.entries.delete(id);
+    return Promise.resolve();
+  }
+
+  list(): Promise<JournalEntry[]> {
+    return Promise.resolve([...this.entries.values()]);
+  }
+}
+
+/**
+ * File-backed implementation, for Node and other runtimes with a filesystem.
+ *
+ * @remarks
+ * Keeps open entries in one JSON file, rewritten atomically (temporary file + rename) before
+ * `record()` and `complete()` resolve. Do not point two processes at the same file.
+ */
+export class FileOperationJournal implements OperationJournal {
+  private state: FileBackedState<MemoryOperationJournal>;
+
+  constructor(path: string, fs: FileSystemLike) {
+    this.state = new FileBackedState(fs, path, {
+      load: (raw) =>
+        raw
+          ? MemoryOperationJournal.fromJSON(JSON.parse(raw) as SerializedOperationJournal)
+          : new MemoryOperationJournal(),
+      dump: (journal) => JSON.stringify(journal.toJSON()),
+    });
+  }
+
+  record(entry: JournalEntry): Promise<void> {
+    return this.state.run((j) => j.record(entry), true);
+  }
+
+  complete(id: string): Promise<void> {
+    return this.state.run((j) => j.complete(id), true);
+  }
+
+  list(): Promise<JournalEntry[]> {
+    return this.state.run((j) => j.list(), false);
+  }
+}
+
+/**
+ * Converts a mint preview to its journal form.
+ */
+export function serializeMintPreview(
+  preview: MintPreview<Pick<MintQuoteBaseResponse, 'quote'>>,
+): SerializedMintPreview {
+  return {
+    method: preview.method,
+    keysetId: preview.keysetId,
+    quote: preview.payload.quote,
+    outputData: preview.outputData.map((o) => OutputData.serialize(o)),
+    ...(preview.payload.signature !== undefined && { signature: preview.payload.signature }),
+    ...(preview.legacySignature !== undefined && { legacySignature: preview.legacySignature }),
+  };
+}
+
+/**
+ * Rebuilds a mint preview from its journal form. The payload matches the original request.
+ *
+ * @throws {@link CTSError} If the data is malformed.
+ */
+export function deserializeMintPreview(
+  serialized: SerializedMintPreview,
+): MintPreview<Pick<MintQuoteBaseResponse, 'quote'>> {
+  try {
+    const outputData = serialized.outputData.map((s) => OutputData.deserialize(s));
+    return {
+      method: serialized.method,
+      keysetId: serialized.keysetId,
+      quote: { quote: serialized.quote },
+      outputData,
+      payload: {
+        outputs: outputData.map((d) => d.blindedMessage),
+        quote: serialized.quote,
+        ...(serialized.signature !== undefined && { signature: serialized.signature }),
+      },
+      ...(serialized.legacySignature !== undefined && {
+        legacySignature: serialized.legacySignature,
+      }),
+    };
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    throw new CTSError(`Invalid SerializedMintPreview: ${message}`, { cause: e });
+  }
+}
+
+/**
+ * Converts a melt preview to its journal form. Sign P2PK inputs first; the signed inputs are kept.
+ */
+export function serializeMeltPreview(
+  preview: MeltPreview<Pick<MeltQuoteBaseResponse, 'quote'>>,
+): SerializedMeltPreview {
+  return {
+    method: preview.method,
+    keysetId: preview.keysetId,
+    quote: preview.quote.quote,
+    inputs: preview.inputs.map(serializeProof),
+    outputData: preview.outputData.map((o) => OutputData.serialize(o)),
+  };
+}
+
+/**
+ * Rebuilds a melt preview from its journal form.
+ *
+ * @throws {@link CTSError} If the data is malformed.
+ */
+export function deserializeMeltPreview(
+  serialized: SerializedMeltPreview,
+): MeltPreview<Pick<MeltQuoteBaseResponse, 'quote'>> {
+  try {
+    return {
+      method: serialized.method,
+      keysetId: serialized.keysetId,
+      quote: { quote: serialized.quote },
+      inputs: normalizeProofAmounts(serialized.inputs),
+      outputData: serialized.outputData.map((s) => OutputData.deserialize(s)),
+    };
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    throw new CTSError(`Invalid SerializedMeltPreview: ${message}`, { cause: e });
+  }
+}
+
+/**
+ * Create an in-memory {@link OperationJournal}.
+ */
+export function createMemoryOperationJournal(): OperationJournal {
+  return new MemoryOperationJournal();
+}
+
+/**
+ * Create an {@link OperationJournal} persisted to a JSON file.
+ *
+ * @example
+ *
+ *     import * as fs from 'node:fs/promises';
+ *     const wallet = new Wallet(mintUrl, {
+ *       journal: createFileOperationJournal('./journal.json', fs),
+ *     });
+ *
+ * @param path - File to keep open entries in. Created on first write.
+ * @param fs - Filesystem to use, eg: Node's `fs/promises`.
+ */
+export function createFileOperationJournal(path: string, fs: FileSystemLike): OperationJournal {
+  return new FileOperationJournal(path, fs);
+}
@@ -0,0 +1,149 @@
+import { Amount, type AmountLike } from '../model/Amount';
+import { CTSError } from '../model/Errors';
+import { type PaymentRequest } from '../model/PaymentRequest';
+import type { Proof, ProofLike } from '../model/types/proof';
+import { type RequestFetch } from '../transport';
+import { decodePaymentRequest, getEncodedToken, normalizeMintUrl } from '../utils';
+
+import { type Wallet } from './Wallet';
+
+/**
+ * NUT-24 header carrying the payment request on a 402 and the token on the retry.
+ */
+export const NUT24_HEADER = 'X-Cashu';
+
+/**
+ * What {@link createPayingFetch} may pay.
+ */
+export type PayingFetchPolicy = {
+  /**
+   * Most a single request may cost, request fees included. Input fees come on top.
+   */
+  maxAmount: AmountLike;
+  /**
+   * Mints the wallet may pay from. Default: the wallet's own mint. Payment is refused when the
+   * wallet's mint is not listed here.
+   */
+  allowedMints?: string[];
+  /**
+   * Proofs to pay from. Default: the wallet's stored unspent proofs, which needs a `proofStore`.
+   */
+  proofs?: () => ProofLike[] | Promise<ProofLike[]>;
+  /**
+   * Fetch to send requests with. Default: the global `fetch`.
+   */
+  fetch?: RequestFetch;
+  /**
+   * Called after each payment, before the retry. Without a proof store, this is where the caller
+   * learns which proofs are gone and which came back as change.
+   */
+  onPayment?: (payment: PayingFetchPayment) => void | Promise<void>;
+};
+
+/**
+ * A payment made by {@link createPayingFetch}.
+ */
+export type PayingFetchPayment = {
+  url: string;
+  request: PaymentRequest;
+  /**
+   * Encoded token sent in the `X-Cashu` header.
+   */
+  token: string;
+  /**
+   * Proofs in the token.
+   */
+  send: Proof[];
+  /**
+   * Change from the input proofs.
+   */
+  keep: Proof[];
+};
+
+/**
+ * Wraps fetch to pay NUT-24 paywalls with ecash.
+ *
+ * @remarks
+ * A `402 Payment Required` response carrying an `X-Cashu` payment request (NUT-18) is checked
+ * against the policy, paid with `wallet.ops.sendToRequest`, and the request is sent again with the
+ * token in the `X-Cashu` header. The retried response is returned as is, even if the server rejects
+ * the token; `onPayment` has the token to reclaim in that case. Other responses, including a 402
+ * without the header, pass through untouched.
+ *
+ * Payments run one at a time, so concurrent requests never pick the same proofs.
+ * @example
+ *
+ *     const paidFetch = createPayingFetch(wallet, { maxAmount: 100 });
+ *     const res = await paidFetch('https://api.example.com/premium');
+ *
+ * @param wallet Loaded wallet to pay from.
+ * @param policy Spending limits and proof source.
+ * @returns A fetch-compatible function.
+ * @throws From the returned function, if a 402 asks for more than the policy allows, from a mint
+ *   that is not allowed, or the wallet cannot pay.
+ */
+export function createPayingFetch(wallet: Wallet, policy: PayingFetchPolicy): RequestFetch {
+  const maxAmount = Amount.from(policy.maxAmount);
+  const allowed = (policy.allowedMints ?? [wallet.mint.mintUrl]).map(normalizeMintUrl);
+  const baseFetch: RequestFetch = policy.fetch ?? ((input, init) => fetch(input, init));
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return async (input, init) => {
+    const request = new Request(input, init);
+    // Keep an unread copy: the body can only be sent once
+    const retry = request.clone();
+    const res = await baseFetch(request);
+    const header = res.headers.get(NUT24_HEADER);
+    if (res.status !== 402 || !header) return res;
+
+    const pr = decodePaymentRequest(header);
+    checkRequest(wallet, pr, allowed, maxAmount);
+    const run = queue.then(() => pay(wallet, pr, policy));
+    queue = run.catch(() => undefined);
+    const { token, send, keep } = await run;
+    await policy.onPayment?.({ url: request.url, request: pr, token, send, keep });
+    // Release the 402 before retrying
+    await res.body?.cancel();
+
+    const headers = new Headers(retry.headers);
+    headers.set(NUT24_HEADER, token);
+    return baseFetch(new Request(retry, { headers }));
+  };
+}
+
+function checkRequest(
+  wallet: Wallet,
+  pr: PaymentRequest,
+  allowed: string[],
+  maxAmount: Amount,
+): void {
+  if (!pr.amount) {
+    throw new CTSError('createPayingFetch: payment request has no amount');
+  }
+  const mintUrl = wallet.mint.mintUrl;
+  if (!allowed.includes(normalizeMintUrl(mintUrl))) {
+    throw new CTSError(`createPayingFetch: mint ${mintUrl} is not allowed by the policy`);
+  }
+  const meltMethods = wallet
+    .getMintInfo()
+    .supportedMethods('melt')
+    .filter((m) => m.unit === wallet.unit)
+    .map((m) => m.method);
+  const amount = pr.amountToSend(mintUrl, meltMethods);
+  if (amount.greaterThan(maxAmount)) {
+    throw new CTSError(
+      `createPayingFetch: request asks ${amount.toString()} ${pr.unit ?? wallet.unit}, policy allows ${maxAmount.toString()}`,
+    );
+  }
+}
+
+async function pay(
+  wallet: Wallet,
+  pr: PaymentRequest,
+  policy: PayingFetchPolicy,
+): Promise<{ token: string; send: Proof[]; keep: Proof[] }> {
+  const proofs = policy.proofs ? await policy.proofs() : await wallet.getStoredProofs();
+  const { send, keep } = await wallet.ops.sendToRequest(pr, proofs).run();
+  const token = getEncodedToken({ mint: wallet.mint.mintUrl, unit: wallet.unit, proofs: send });
+  return { token, send, keep };
+}
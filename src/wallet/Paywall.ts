@@ -0,0 +1,267 @@
+import { getTags, parseSecret, type P2PKOptions } from '../crypto';
+import { Amount, type AmountLike } from '../model/Amount';
+import { CTSError, MintOperationError } from '../model/Errors';
+import { PaymentRequestBuilder, type PaymentRequest } from '../model/PaymentRequest';
+import type { Proof } from '../model/types/proof';
+import { normalizeMintUrl, sumProofs, verifyProofsForReceive } from '../utils';
+
+import { NUT24_HEADER } from './PayingFetch';
+import { type Wallet } from './Wallet';
+
+/**
+ * Fetch-style request handler, as used by Deno, Bun, Cloudflare Workers and Hono.
+ */
+export type PaywallHandler = (req: Request) => Promise<Response>;
+
+/**
+ * Options for {@link createPaywall}.
+ */
+export type PaywallOptions = {
+  /**
+   * Price of a request, in the wallet's unit. Return `null` to serve the request for free.
+   */
+  price: AmountLike | ((req: Request) => AmountLike | null | Promise<AmountLike | null>);
+  /**
+   * Description shown to the payer.
+   */
+  description?: string;
+  /**
+   * Lock payments must carry (NUT-10). Unlocked or differently locked tokens are refused.
+   */
+  lock?: P2PKOptions;
+  /**
+   * Key(s) that unlock `lock` when redeeming.
+   */
+  privkey?: string | string[];
+  /**
+   * Refuse proofs without a DLEQ proof (NUT-12). Default: false.
+   */
+  requireDleq?: boolean;
+  /**
+   * Called once a payment is redeemed, before the request is served.
+   */
+  onPayment?: (payment: PaywallPayment) => void | Promise<void>;
+};
+
+/**
+ * A payment accepted by {@link createPaywall}.
+ */
+export type PaywallPayment = {
+  /**
+   * Amount the token carried, before the mint's input fee.
+   */
+  amount: Amount;
+  /**
+   * Fresh proofs from redeeming the token.
+   */
+  proofs: Proof[];
+};
+
+/**
+ * Puts a handler behind a NUT-24 paywall that accepts ecash.
+ *
+ * @remarks
+ * A request without an `X-Cashu` header gets a `402 Payment Required` with a NUT-18 payment request
+ * for the price, the wallet's mint and unit, and the lock if set. A request with a token has it
+ * checked offline (mint, unit, amount net of input fees, lock, DLEQ) and redeemed with
+ * `wallet.receive` before `handler` runs. Invalid or already spent tokens get `400 Bad Request`.
+ *
+ * Redeeming at the mint is what stops replays: a spent token fails to swap. Tokens being redeemed
+ * are also refused by this paywall, so concurrent copies of one token never both reach the handler.
+ * Network errors while redeeming are thrown, as the payment may still be good.
+ * @example
+ *
+ *     const paywall = createPaywall(wallet, { price: 10 }, (req) => new Response('premium'));
+ *     Deno.serve(paywall);
+ *
+ * @param wallet Loaded wallet that redeems the payments.
+ * @param options Price and payment checks.
+ * @param handler Serves the paid request.
+ * @returns A handler charging for `handler`.
+ */
+export function createPaywall(
+  wallet: Wallet,
+  options: PaywallOptions,
+  handler: (req: Request, payment: PaywallPayment | null) => Response | Promise<Response>,
+): PaywallHandler {
+  const redeeming = new Set<string>();
+
+  return async (req) => {
+    const price = typeof options.price === 'function' ? await options.price(req) : options.price;
+    if (price === null) return handler(req, null);
+    const amount = Amount.from(price);
+
+    const token = req.headers.get(NUT24_HEADER);
+    if (!token) {
+      const pr = buildRequest(wallet, amount, options);
+      return new Response(null, {
+        status: 402,
+        headers: { [NUT24_HEADER]: pr.toEncodedRequest() },
+      });
+    }
+
+    let proofs: Proof[];
+    try {
+      proofs = checkToken(wallet, token, amount, options);
+    } catch (e) {
+      // Anything wrong with the token itself is the payer's error
+      return badRequest(e instanceof Error ? e.message : 'Invalid token');
+    }
+
+    const secrets = proofs.map((p) => p.secret);
+    if (secrets.some((s) => redeeming.has(s))) {
+      return badRequest('Token is already being redeemed');
+    }
+    secrets.forEach((s) => redeeming.add(s));
+    let payment: PaywallPayment;
+    try {
+      const received = await wallet.receive(proofs, {
+        privkey: options.privkey,
+        requireDleq: options.requireDleq,
+      });
+      payment = { amount: sumProofs(proofs), proofs: received };
+    } catch (e) {
+      if (e instanceof MintOperationError) return badRequest(e.message);
+      throw e;
+    } finally {
+      secrets.forEach((s) => redeeming.delete(s));
+    }
+    await options.onPayment?.(payment);
+    return handler(req, payment);
+  };
+}
+
+function buildRequest(wallet: Wallet, amount: Amount, options: PaywallOptions): PaymentRequest {
+  const builder = new PaymentRequestBuilder()
+    .amount(amount, wallet.unit)
+    .addMint(wallet.mint.mintUrl);
+  if (options.description) builder.description(options.description);
+  if (options.lock) builder.lock(options.lock);
+  return builder.build();
+}
+
+/**
+ * Checks a token against the price without contacting the mint.
+ *
+ * @throws CTSError describing why the token does not pay for the request.
+ */
+function checkToken(wallet: Wallet, encoded: string, price: Amount, options: PaywallOptions) {
+  const token = wallet.decodeToken(encoded);
+  if (normalizeMintUrl(token.mint) !== wallet.mint.mintUrl) {
+    throw new CTSError(`Token is from ${token.mint}, only ${wallet.mint.mintUrl} is accepted`);
+  }
+  if (token.unit !== wallet.unit) {
+    throw new CTSError(`Token is in ${token.unit}, expected ${wallet.unit}`);
+  }
+  const proofs = token.proofs;
+  if (!proofs.length) {
+    throw new CTSError('Token contains no proofs');
+  }
+  // Input fees are the payer's to cover (NUT-18), so the price is due after the swap
+  const net = sumProofs(proofs).subtract(wallet.getFeesForProofs(proofs));
+  if (net.lessThan(price)) {
+    throw new CTSError(
+      `Token pays ${net.toString()} ${wallet.unit} after fees, price is ${price.toString()}`,
+    );
+  }
+  if (options.lock) {
+    const nut10 = buildRequest(wallet, price, options).nut10!;
+    for (const proof of proofs) {
+      let locked = false;
+      try {
+        const secret = parseSecret(proof.secret);
+        const tags = getTags(secret);
+        locked =
+          secret[0] === nut10.kind &&
+          secret[1].data === nut10.data &&
+          (nut10.tags ?? []).every((tag) => tags.some((t) => t.join('\0') === tag.join('\0')));
+      } catch {
+        // Plain secret
+      }
+      if (!locked) throw new CTSError('Token is not locked as requested');
+    }
+  }
+  verifyProofsForReceive(proofs, (id) => wallet.keyChain.getKeyset(id), {
+    requireDleq: options.requireDleq,
+  });
+  return proofs;
+}
+
+function badRequest(message: string): Response {
+  return new Response(message, { status: 400 });
+}
+
+/**
+ * The parts of Node's `http.IncomingMessage` that {@link toNodeHandler} reads.
+ */
+export type NodeRequestLike = AsyncIterable<Uint8Array | string> & {
+  method?: string;
+  url?: string;
+  headers: Record<string, string | string[] | undefined>;
+};
+
+/**
+ * The parts of Node's `http.ServerResponse` that {@link toNodeHandler} writes.
+ */
+export type NodeResponseLike = {
+  statusCode: number;
+  setHeader(name: string, value: string | string[]): unknown;
+  end(chunk?: Uint8Array): unknown;
+};
+
+/**
+ * Adapts a fetch-style handler, such as a {@link createPaywall} result, to Node's `http` server.
+ *
+ * @example
+ *
+ *     http.createServer(toNodeHandler(paywall)).listen(8080);
+ *
+ * @param handler Fetch-style handler.
+ * @param origin Scheme and host the request URLs are built on. Default: `http://` plus the `Host`
+ *   header.
+ * @returns A `(req, res)` listener. Errors thrown by `handler` answer `500`.
+ */
+export function toNodeHandler(
+  handler: PaywallHandler,
+  origin?: string,
+): (req: NodeRequestLike, res: NodeResponseLike) => Promise<void> {
+  return async (req, res) => {
+    let response: Response;
+    try {
+      response = await handler(await toRequest(req, origin));
+    } catch {
+      response = new Response(null, { status: 500 });
+    }
+    res.statusCode = response.status;
+    response.headers.forEach((value, name) => {
+      if (name !== 'set-cookie') res.setHeader(name, value);
+    });
+    const cookies = response.headers.getSetCookie();
+    if (cookies.length) res.setHeader('set-cookie', cookies);
+    res.end(new Uint8Array(await response.arrayBuffer()));
+  };
+}
+
+async function toRequest(req: NodeRequestLike, origin?: string): Promise<Request> {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined) continue;
+    for (const v of Array.isArray(value) ? value : [value]) headers.append(name, v);
+  }
+  const method = req.method ?? 'GET';
+  let body: Uint8Array<ArrayBuffer> | undefined;
+  if (method !== 'GET' && method !== 'HEAD') {
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of req) {
+      chunks.push(typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk);
+    }
+    body = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+    let offset = 0;
+    for (const c of chunks) {
+      body.set(c, offset);
+      offset += c.length;
+    }
+  }
+  const base = origin ?? `http://${headers.get('host') ?? 'localhost'}`;
+  return new Request(new URL(req.url ?? '/', base), { method, headers, body });
+}
@@ -0,0 +1,422 @@
+import { safeCallback } from '../logger';
+import { RateLimitError } from '../model/Errors';
+import { CheckStateEnum, type ProofState } from '../model/types';
+import type { Proof, ProofLike } from '../model/types/proof';
+import { normalizeProofAmounts } from '../utils';
+
+import { type ProofStoreState } from './ProofStore';
+import { type Wallet } from './Wallet';
+import { type SubscribeOpts, type SubscriptionCanceller } from './WalletEvents';
+
+/**
+ * Options for {@link ProofReconciler}.
+ */
+export type ProofReconcilerOptions = {
+  /**
+   * Milliseconds between background sweeps. Default 60000.
+   */
+  intervalMs?: number;
+  /**
+   * Also sweep as soon as the mint pushes a state change for a pending proof (NUT-17). Default
+   * false.
+   */
+  push?: boolean;
+  /**
+   * Times a state check is retried after a `429 Too Many Requests`. Default 3.
+   */
+  rateLimitRetries?: number;
+  /**
+   * Wait before retrying a rate limited check when the mint sends no `Retry-After`. Doubles on each
+   * retry. Default 1000.
+   */
+  rateLimitBackoffMs?: number;
+};
+
+/**
+ * Events emitted by {@link ProofReconciler}, by name.
+ */
+export type ProofReconcilerEvents = {
+  /**
+   * Sent proofs the mint now reports spent: the recipient claimed the token.
+   */
+  sentClaimed: { proofs: Proof[] };
+  /**
+   * Proofs the mint held as pending that have settled either way.
+   */
+  pendingResolved: { spent: Proof[]; unspent: Proof[] };
+  /**
+   * Reserved proofs still unspent at the mint on two sweeps in a row. The operation that reserved
+   * them was likely abandoned; `wallet.releaseProofs` makes them available again.
+   */
+  reservedUnspent: { proofs: Proof[] };
+  /**
+   * A background sweep failed. The next one runs on schedule.
+   */
+  error: { error: unknown };
+};
+
+/**
+ * What one {@link ProofReconciler.sweep} found.
+ */
+export type ProofSweepResult = {
+  sentClaimed: Proof[];
+  pendingResolved: { spent: Proof[]; unspent: Proof[] };
+  reservedUnspent: Proof[];
+};
+
+type Handler<E extends keyof ProofReconcilerEvents> = (payload: ProofReconcilerEvents[E]) => void;
+
+/**
+ * Keeps track of proofs the wallet no longer controls alone, by checking their state with the mint.
+ *
+ * @remarks
+ * Each sweep checks the wallet's `pending` and `reserved` proofs from its proof store, plus any
+ * proofs passed to {@link ProofReconciler.watch}, in batches of the mint's `max_array_length`
+ * (NUT-06). It classifies them with NUT-07:
+ *
+ * - A pending or watched proof the mint reports spent was claimed by the recipient (`sentClaimed`),
+ *   unless the mint was seen holding it as pending before (`pendingResolved`).
+ * - A proof the mint was seen holding as pending that is now unspent was refused, eg: a failed melt
+ *   (`pendingResolved`).
+ * - A pending proof the mint reports unspent, and has never held, is an unclaimed token. It is left
+ *   alone.
+ * - A reserved proof that stays unspent across two sweeps is reported once (`reservedUnspent`).
+ *
+ * Claimed and resolved proofs are moved to `spent` or `unspent` in the proof store. Pending
+ * sightings are remembered in memory only, so an interrupted melt that settles while the process is
+ * down is left to `wallet.recoverPendingOperations`.
+ *
+ * The store's `pending` state holds both sent tokens and the inputs of swaps and melts in flight.
+ * Inputs of operations still open in the wallet's journal are skipped, as their recovery settles
+ * them. Without a journal, inputs of an interrupted swap or melt look like a sent token.
+ * @example
+ *
+ *     const reconciler = new ProofReconciler(wallet, { push: true });
+ *     reconciler.on('sentClaimed', ({ proofs }) => console.log('token claimed', proofs));
+ *     reconciler.start({ signal: ac.signal });
+ */
+export class ProofReconciler {
+  private readonly wallet: Wallet;
+  private readonly intervalMs: number;
+  private readonly push: boolean;
+  private readonly rateLimitRetries: number;
+  private readonly rateLimitBackoffMs: number;
+  private readonly handlers: { [E in keyof ProofReconcilerEvents]: Set<Handler<E>> } = {
+    sentClaimed: new Set(),
+    pendingResolved: new Set(),
+    reservedUnspent: new Set(),
+    error: new Set(),
+  };
+  // Sent proofs given to watch(), by secret
+  private readonly watched = new Map<string, Proof>();
+  // Secrets the mint has reported as pending
+  private readonly inFlight = new Set<string>();
+  // Secrets of reserved proofs seen unspent on the last sweep, and those already reported
+  private readonly reservedSeen = new Set<string>();
+  private readonly reservedReported = new Set<string>();
+  private queue: Promise<unknown> = Promise.resolve();
+  private running?: AbortController;
+  private wake?: () => void;
+
+  constructor(wallet: Wallet, options: ProofReconcilerOptions = {}) {
+    this.wallet = wallet;
+    this.intervalMs = options.intervalMs ?? 60_000;
+    this.push = options.push ?? false;
+    this.rateLimitRetries = options.rateLimitRetries ?? 3;
+    this.rateLimitBackoffMs = options.rateLimitBackoffMs ?? 1000;
+  }
+
+  /**
+   * Registers a handler for an event.
+   *
+   * @returns A function that unsubscribes the handler.
+   */
+  on<E extends keyof ProofReconcilerEvents>(
+    event: E,
+    cb: (payload: ProofReconcilerEvents[E]) => void,
+    opts?: SubscribeOpts,
+  ): SubscriptionCanceller {
+    const set = this.handlers[event] as Set<Handler<E>>;
+    set.add(cb);
+    const cancel = () => void set.delete(cb);
+    if (!opts?.signal) return cancel;
+    opts.signal.addEventListener('abort', cancel, { once: true });
+    return () => {
+      opts.signal?.removeEventListener('abort', cancel);
+      cancel();
+    };
+  }
+
+  /**
+   * Tracks sent proofs until the mint reports them spent.
+   *
+   * @remarks
+   * Only needed for proofs missing from the wallet's proof store, eg: when the wallet has none.
+   * Sent proofs in the store are `pending` and tracked already.
+   */
+  watch(proofs: ProofLike[]): void {
+    for (const proof of normalizeProofAmounts(proofs)) this.watched.set(proof.secret, proof);
+  }
+
+  /**
+   * Stops tracking proofs given to {@link ProofReconciler.watch}.
+   */
+  unwatch(proofs: Array<Pick<ProofLike, 'secret'>>): void {
+    for (const { secret } of proofs) this.watched.delete(secret);
+  }
+
+  /**
+   * Whether background sweeping is running.
+   */
+  get started(): boolean {
+    return !!this.running;
+  }
+
+  /**
+   * Checks every tracked proof once. Sweeps run one at a time.
+   *
+   * @param opts.signal Cancels the sweep between batches and while waiting out a rate limit.
+   * @throws The signal's reason if aborted, or the last error of a state check.
+   */
+  sweep(opts?: SubscribeOpts): Promise<ProofSweepResult> {
+    const run = this.queue.then(() => this.runSweep(opts?.signal));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Sweeps in the background every `intervalMs`, and on NUT-17 pushes if `push` is set.
+   *
+   * @remarks
+   * Failed sweeps are reported as `error` events. Does nothing if already started.
+   * @param opts.signal Stops sweeping when aborted, same as {@link ProofReconciler.stop}.
+   */
+  start(opts?: SubscribeOpts): void {
+    if (this.running) return;
+    const controller = new AbortController();
+    this.running = controller;
+    const signal = opts?.signal;
+    if (signal?.aborted) controller.abort(signal.reason);
+    signal?.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+    void this.loop(controller.signal);
+  }
+
+  /**
+   * Stops background sweeping. A sweep in progress is cancelled.
+   */
+  stop(): void {
+    this.running?.abort();
+    this.running = undefined;
+  }
+
+  private async loop(signal: AbortSignal): Promise<void> {
+    let subscribed = '';
+    let unsubscribe: AbortController | undefined;
+    while (!signal.aborted) {
+      try {
+        await this.sweep({ signal });
+      } catch (e) {
+        if (signal.aborted) break;
+        this.emit('error', { error: e });
+      }
+      if (this.push) {
+        const pending = await this.pendingProofs().catch(() => []);
+        const key = pending
+          .map((p) => p.secret)
+          .sort()
+          .join();
+        if (key !== subscribed) {
+          subscribed = key;
+          unsubscribe?.abort();
+          unsubscribe = pending.length ? this.subscribe(pending) : undefined;
+        }
+      }
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(done, this.intervalMs);
+        function done() {
+          clearTimeout(timer);
+          signal.removeEventListener('abort', done);
+          resolve();
+        }
+        this.wake = done;
+        signal.addEventListener('abort', done, { once: true });
+      });
+      this.wake = undefined;
+    }
+    unsubscribe?.abort();
+    if (this.running?.signal === signal) this.running = undefined;
+  }
+
+  /**
+   * Wakes the loop on every NUT-17 update for `proofs`, until the returned controller aborts.
+   */
+  private subscribe(proofs: Proof[]): AbortController {
+    const controller = new AbortController();
+    const stream = this.wallet.on.proofStatesStream(proofs, { signal: controller.signal });
+    void (async () => {
+      for await (const update of stream) {
+        if (update.state !== CheckStateEnum.UNSPENT || this.inFlight.has(update.proof.secret)) {
+          this.wake?.();
+        }
+      }
+    })().catch((e: unknown) => {
+      // Polling carries on without push
+      this.wallet.logger.warn('ProofReconciler: proof state subscription failed', { e });
+    });
+    return controller;
+  }
+
+  private async runSweep(signal?: AbortSignal): Promise<ProofSweepResult> {
+    signal?.throwIfAborted();
+    const pending = await this.pendingProofs();
+    const reserved = await this.storedProofs('reserved');
+    const proofs = [...pending, ...reserved];
+    const states = await this.checkStates(proofs, signal);
+
+    const result: ProofSweepResult = {
+      sentClaimed: [],
+      pendingResolved: { spent: [], unspent: [] },
+      reservedUnspent: [],
+    };
+    pending.forEach((proof, i) => {
+      const state = states[i].state;
+      const secret = proof.secret;
+      if (state === CheckStateEnum.PENDING) {
+        this.inFlight.add(secret);
+        return;
+      }
+      if (state === CheckStateEnum.SPENT) {
+        if (this.inFlight.has(secret)) result.pendingResolved.spent.push(proof);
+        else result.sentClaimed.push(proof);
+      } else if (this.inFlight.has(secret)) {
+        result.pendingResolved.unspent.push(proof);
+      } else {
+        // Unclaimed token
+        return;
+      }
+      this.inFlight.delete(secret);
+      this.watched.delete(secret);
+    });
+
+    const reservedUnspent = new Set<string>();
+    reserved.forEach((proof, i) => {
+      if (states[pending.length + i].state !== CheckStateEnum.UNSPENT) return;
+      reservedUnspent.add(proof.secret);
+      if (this.reservedSeen.has(proof.secret) && !this.reservedReported.has(proof.secret)) {
+        result.reservedUnspent.push(proof);
+        this.reservedReported.add(proof.secret);
+      }
+    });
+    this.reservedSeen.clear();
+    reservedUnspent.forEach((s) => this.reservedSeen.add(s));
+    for (const secret of this.reservedReported) {
+      if (!reservedUnspent.has(secret)) this.reservedReported.delete(secret);
+    }
+
+    await this.settle([...result.sentClaimed, ...result.pendingResolved.spent], 'spent');
+    await this.settle(result.pendingResolved.unspent, 'unspent');
+
+    if (result.sentClaimed.length) this.emit('sentClaimed', { proofs: result.sentClaimed });
+    const { spent, unspent } = result.pendingResolved;
+    if (spent.length || unspent.length) this.emit('pendingResolved', { spent, unspent });
+    if (result.reservedUnspent.length) {
+      this.emit('reservedUnspent', { proofs: result.reservedUnspent });
+    }
+    return result;
+  }
+
+  /**
+   * NUT-07 states of `proofs`, one request per `max_array_length` batch, waiting out rate limits.
+   */
+  private async checkStates(proofs: Proof[], signal?: AbortSignal): Promise<ProofState[]> {
+    const batchSize = this.wallet.getMintInfo().maxArrayLength;
+    const states: ProofState[] = [];
+    for (let i = 0; i < proofs.length; i += batchSize) {
+      const batch = proofs.slice(i, i + batchSize);
+      for (let attempt = 0; ; attempt++) {
+        signal?.throwIfAborted();
+        try {
+          states.push(...(await this.wallet.checkProofsStates(batch)));
+          break;
+        } catch (e) {
+          if (!(e instanceof RateLimitError) || attempt >= this.rateLimitRetries) throw e;
+          const delay = e.retryAfterMs ?? this.rateLimitBackoffMs * 2 ** attempt;
+          this.wallet.logger.warn('ProofReconciler: rate limited, retrying', { delay });
+          await sleep(delay, signal);
+        }
+      }
+    }
+    return states;
+  }
+
+  /**
+   * The store's pending proofs and the watched ones, without duplicates.
+   */
+  private async pendingProofs(): Promise<Proof[]> {
+    const stored = await this.storedProofs('pending');
+    const secrets = new Set(stored.map((p) => p.secret));
+    return [...stored, ...[...this.watched.values()].filter((p) => !secrets.has(p.secret))];
+  }
+
+  private async storedProofs(state: ProofStoreState): Promise<Proof[]> {
+    if (!this.wallet.proofStore) return [];
+    const proofs = await this.wallet.getStoredProofs(state);
+    const owned = await this.journaledInputs();
+    return owned.size ? proofs.filter((p) => !owned.has(p.secret)) : proofs;
+  }
+
+  /**
+   * Secrets of the inputs of swaps and melts still open in the wallet's journal.
+   */
+  private async journaledInputs(): Promise<Set<string>> {
+    const entries = (await this.wallet.journal?.list()) ?? [];
+    return new Set(
+      entries.flatMap((e) => (e.kind === 'mint' ? [] : e.preview.inputs.map((p) => p.secret))),
+    );
+  }
+
+  private async settle(proofs: Proof[], to: ProofStoreState): Promise<void> {
+    const store = this.wallet.proofStore;
+    if (!store || !proofs.length) return;
+    try {
+      // Only move what is still pending: an operation may have settled it meanwhile
+      const entries = await store.list({
+        secrets: proofs.map((p) => p.secret),
+        states: ['pending'],
+      });
+      await store.transition(
+        entries.map((e) => e.proof.secret),
+        to,
+        ['pending'],
+      );
+    } catch (e) {
+      this.wallet.logger.error('ProofReconciler: could not update proof store', { e });
+    }
+  }
+
+  private emit<E extends keyof ProofReconcilerEvents>(
+    event: E,
+    payload: ProofReconcilerEvents[E],
+  ): void {
+    for (const h of this.handlers[event] as Set<Handler<E>>) {
+      safeCallback(h, payload, this.wallet.logger, { event });
+    }
+  }
+}
+
+/**
+ * Waits `ms`, or until `signal` aborts. The caller checks the signal afterwards.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
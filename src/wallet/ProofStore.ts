@@ -0,0 +1,259 @@
+import { CTSError, ProofStateConflictError } from '../model/Errors';
+import type { Proof } from '../model/types/proof';
+import { deserializeProofs, serializeProofs } from '../utils/core';
+import { FileBackedState, type FileSystemLike } from '../utils/fileStore';
+
+/**
+ * Lifecycle state of a proof held in a {@link ProofStore}.
+ *
+ * - `unspent` - available for coin selection.
+ * - `reserved` - selected by a prepared operation that has not reached the mint yet.
+ * - `pending` - submitted to the mint, or sent in a token the recipient has not claimed yet.
+ * - `spent` - the mint has consumed it.
+ */
+export type ProofStoreState = 'unspent' | 'reserved' | 'pending' | 'spent';
+
+/**
+ * A proof together with its bookkeeping.
+ */
+export type StoredProof = {
+  proof: Proof;
+  state: ProofStoreState;
+  /**
+   * Normalized mint URL the proof belongs to.
+   */
+  mintUrl: string;
+  unit: string;
+};
+
+/**
+ * Selects stored proofs. Every given field must match.
+ */
+export type ProofStoreFilter = {
+  mintUrl?: string;
+  unit?: string;
+  keysetId?: string;
+  states?: ProofStoreState[];
+  secrets?: string[];
+};
+
+/**
+ * Persistence for a wallet's proofs and their lifecycle state.
+ *
+ * @remarks
+ * Pass one to the `Wallet` constructor (`proofStore` option) and wallet operations reserve their
+ * inputs, store new proofs and mark spent ones automatically. Entries are keyed by proof secret.
+ * One store may be shared by wallets for several mints and units.
+ */
+export interface ProofStore {
+  /**
+   * Insert entries, replacing any stored entry with the same secret.
+   */
+  put(entries: StoredProof[]): Promise<void>;
+  /**
+   * List entries matching the filter, in insertion order.
+   */
+  list(filter?: ProofStoreFilter): Promise<StoredProof[]>;
+  /**
+   * Move stored proofs to state `to`.
+   *
+   * @remarks
+   * MUST be atomic: when `from` is given and any stored proof is in another state, nothing changes
+   * and the call throws {@link ProofStateConflictError}. Secrets the store does not hold are
+   * ignored.
+   * @returns Secrets of the proofs that were moved.
+   */
+  transition(
+    secrets: string[],
+    to: ProofStoreState,
+    from?: readonly ProofStoreState[],
+  ): Promise<string[]>;
+  /**
+   * Remove entries. Unknown secrets are ignored.
+   */
+  delete(secrets: string[]): Promise<void>;
+}
+
+const PROOF_STORE_STATES: readonly ProofStoreState[] = ['unspent', 'reserved', 'pending', 'spent'];
+
+function matches(entry: StoredProof, filter: ProofStoreFilter, secrets?: Set<string>): boolean {
+  return (
+    (filter.mintUrl === undefined || entry.mintUrl === filter.mintUrl) &&
+    (filter.unit === undefined || entry.unit === filter.unit) &&
+    (filter.keysetId === undefined || entry.proof.id === filter.keysetId) &&
+    (filter.states === undefined || filter.states.includes(entry.state)) &&
+    (secrets === undefined || secrets.has(entry.proof.secret))
+  );
+}
+
+/**
+ * In memory implementation. Contents are lost when the process exits.
+ */
+export class MemoryProofStore implements ProofStore {
+  private entries = new Map<string, StoredProof>();
+
+  constructor(initial?: StoredProof[]) {
+    if (initial) {
+      for (const e of initial) this.entries.set(e.proof.secret, { ...e });
+    }
+  }
+
+  put(entries: StoredProof[]): Promise<void> {
+    for (const e of entries) {
+      if (!PROOF_STORE_STATES.includes(e.state)) {
+        return Promise.reject(new CTSError(`Invalid proof store state: ${String(e.state)}`));
+      }
+    }
+    for (const e of entries) this.entries.set(e.proof.secret, { ...e });
+    return Promise.resolve();
+  }
+
+  list(filter: ProofStoreFilter = {}): Promise<StoredProof[]> {
+    const secrets = filter.secrets ? new Set(filter.secrets) : undefined;
+    const out: StoredProof[] = [];
+    for (const e of this.entries.values()) {
+      if (matches(e, filter, secrets)) out.push({ ...e });
+    }
+    return Promise.resolve(out);
+  }
+
+  transition(
+    secrets: string[],
+    to: ProofStoreState,
+    from?: readonly ProofStoreState[],
+  ): Promise<string[]> {
+    const known = secrets.filter((s) => this.entries.has(s));
+    if (from) {
+      const conflicts = known.filter((s) => !from.includes(this.entries.get(s)!.state));
+      if (conflicts.length > 0) {
+        return Promise.reject(new ProofStateConflictError(conflicts, to));
+      }
+    }
+    for (const s of known) this.entries.get(s)!.state = to;
+    return Promise.resolve(known);
+  }
+
+  delete(secrets: string[]): Promise<void> {
+    for (const s of secrets) this.entries.delete(s);
+    return Promise.resolve();
+  }
+
+  /**
+   * Entries in the plain JSON shape used by {@link FileProofStore}.
+   */
+  toJSON(): SerializedProofStore {
+    return {
+      version: 1,
+      entries: [...this.entries.values()].map((e) => ({
+        proof: serializeProofs(e.proof)[0],
+        state: e.state,
+        mintUrl: e.mintUrl,
+        unit: e.unit,
+      })),
+    };
+  }
+
+  /**
+   * Rebuilds a store from {@link MemoryProofStore.toJSON} output.
+   *
+   * @throws {@link CTSError} If the data is malformed.
+   */
+  static fromJSON(data: SerializedProofStore): MemoryProofStore {
+    try {
+      if (data?.version !== 1 || !Array.isArray(data.entries)) {
+        throw new CTSError('unsupported version or missing entries');
+      }
+      return new MemoryProofStore(
+        data.entries.map((e) => {
+          if (!PROOF_STORE_STATES.includes(e.state)) {
+            throw new CTSError(`invalid state ${String(e.state)}`);
+          }
+          return {
+            proof: deserializeProofs([e.proof])[0],
+            state: e.state,
+            mintUrl: e.mintUrl,
+            unit: e.unit,
+          };
+        }),
+      );
+    } catch (e) {
+      throw new CTSError(`Invalid SerializedProofStore: ${(e as Error).message}`, { cause: e });
+    }
+  }
+}
+
+/**
+ * JSON shape of a persisted proof store. Each `proof` is a {@link serializeProofs} string.
+ */
+export type SerializedProofStore = {
+  version: 1;
+  entries: Array<{ proof: string; state: ProofStoreState; mintUrl: string; unit: string }>;
+};
+
+/**
+ * File-backed implementation, for Node and other runtimes with a filesystem.
+ *
+ * @remarks
+ * Keeps the whole store in one JSON file, loaded on first use and rewritten atomically (temporary
+ * file + rename) after every change. Operations are serialized within the process; do not point two
+ * processes at the same file.
+ */
+export class FileProofStore implements ProofStore {
+  private state: FileBackedState<MemoryProofStore>;
+
+  constructor(path: string, fs: FileSystemLike) {
+    this.state = new FileBackedState(fs, path, {
+      load: (raw) =>
+        raw
+          ? MemoryProofStore.fromJSON(JSON.parse(raw) as SerializedProofStore)
+          : new MemoryProofStore(),
+      dump: (store) => JSON.stringify(store.toJSON()),
+    });
+  }
+
+  put(entries: StoredProof[]): Promise<void> {
+    return this.state.run((s) => s.put(entries), true);
+  }
+
+  list(filter?: ProofStoreFilter): Promise<StoredProof[]> {
+    return this.state.run((s) => s.list(filter), false);
+  }
+
+  transition(
+    secrets: string[],
+    to: ProofStoreState,
+    from?: readonly ProofStoreState[],
+  ): Promise<string[]> {
+    return this.state.run((s) => s.transition(secrets, to, from), true);
+  }
+
+  delete(secrets: string[]): Promise<void> {
+    return this.state.run((s) => s.delete(secrets), true);
+  }
+}
+
+/**
+ * Create an in-memory {@link ProofStore}.
+ *
+ * @param initial - Optional entries to start with.
+ */
+export function createMemoryProofStore(initial?: StoredProof[]): ProofStore {
+  return new MemoryProofStore(initial);
+}
+
+/**
+ * Create a {@link ProofStore} persisted to a JSON file.
+ *
+ * @example
+ *
+ *     import * as fs from 'node:fs/promises';
+ *     const wallet = new Wallet(mintUrl, {
+ *       proofStore: createFileProofStore('./proofs.json', fs),
+ *     });
+ *
+ * @param path - File to keep the store in. Created on first write.
+ * @param fs - Filesystem to use, eg: Node's `fs/promises`.
+ */
+export function createFileProofStore(path: string, fs: FileSystemLike): ProofStore {
+  return new FileProofStore(path, fs);
+}
@@ -0,0 +1,264 @@
+import { Amount, type AmountLike } from '../model/Amount';
+import { failedInputsState, SpendingPolicyError } from '../model/Errors';
+import type { MeltQuoteBaseResponse } from '../model/types';
+import type { Proof } from '../model/types/proof';
+import { normalizeMintUrl } from '../utils';
+
+import { type MeltPreview, type SwapPreview } from './types';
+
+/**
+ * Limits for one unit of a {@link SpendingPolicy}. Amounts are in that unit and count fees.
+ */
+export type SpendingLimits = {
+  /**
+   * Most a single operation may spend.
+   */
+  perOperation?: AmountLike;
+  /**
+   * Most all operations may spend within any `ms` long window.
+   */
+  window?: { amount: AmountLike; ms: number };
+  /**
+   * Operations spending more than this need the policy's `approve` callback to agree.
+   */
+  approveAbove?: AmountLike;
+};
+
+/**
+ * Rules of a {@link SpendingPolicy}.
+ */
+export type SpendingPolicyOptions = {
+  /**
+   * Limits by unit. Units without an entry are not limited.
+   */
+  limits?: Record<string, SpendingLimits>;
+  /**
+   * Mints that may be spent from. Default: any.
+   */
+  allowedMints?: string[];
+  /**
+   * Melt methods that may be used, eg: `['bolt11']`. Default: any.
+   */
+  allowedMeltMethods?: string[];
+  /**
+   * Most an operation may pay in fees, as a fraction of its amount, eg: `0.01` for 1%.
+   */
+  maxFeeRatio?: number;
+  /**
+   * Asked about operations above a unit's `approveAbove`. Without it, those are refused.
+   */
+  approve?: (preview: SpendingPreview) => boolean | Promise<boolean>;
+  /**
+   * Clock in milliseconds. Default `Date.now`.
+   */
+  now?: () => number;
+};
+
+/**
+ * An operation checked by a {@link SpendingPolicy}.
+ */
+export type SpendingPreview = {
+  kind: 'send' | 'melt';
+  mintUrl: string;
+  unit: string;
+  /**
+   * Melt method, for melts.
+   */
+  method?: string;
+  /**
+   * Amount sent, or the melt quote amount.
+   */
+  amount: Amount;
+  /**
+   * Input fees, plus the fee reserve for melts.
+   */
+  fee: Amount;
+  /**
+   * The prepared swap of an online send.
+   */
+  swap?: SwapPreview;
+  /**
+   * The prepared melt.
+   */
+  melt?: MeltPreview<Pick<MeltQuoteBaseResponse, 'amount' | 'quote'>>;
+  /**
+   * Proofs picked by an offline send.
+   */
+  send?: Proof[];
+};
+
+/**
+ * Rule of a {@link SpendingPolicy} an operation broke.
+ */
+export type SpendingPolicyRule =
+  | 'mint'
+  | 'meltMethod'
+  | 'perOperation'
+  | 'feeRatio'
+  | 'window'
+  | 'approval';
+
+/**
+ * An operation counted by {@link SpendingPolicy.authorize}, to pass to
+ * {@link SpendingPolicy.release}.
+ */
+export type SpendingAuthorization = {
+  readonly unit: string;
+  /**
+   * Amount plus fees counted against the window.
+   */
+  readonly total: Amount;
+  /**
+   * When it was authorized, by the policy's clock.
+   */
+  readonly at: number;
+};
+
+/**
+ * Guardrails for what a wallet may spend.
+ *
+ * @remarks
+ * Pass one to the `Wallet` constructor (`spendingPolicy` option). The `send`, `sendToRequest`,
+ * `meltBolt11`, `meltBolt12` and `meltOnchain` builders of `wallet.ops` then prepare the operation,
+ * have the policy check it, and only then complete it. A refused operation throws
+ * {@link SpendingPolicyError} and releases its reserved inputs.
+ *
+ * Spending counts the amount plus fees. Windows are rolling and kept in memory; share one policy
+ * between wallets (eg: through `WalletManager`'s `walletOptions`) to limit them together. An
+ * operation counts from the moment it is allowed, and stops counting only if the mint refuses it.
+ * @example
+ *
+ *     const spendingPolicy = new SpendingPolicy({
+ *       limits: { sat: { perOperation: 1000, window: { amount: 10_000, ms: 86_400_000 } } },
+ *       allowedMeltMethods: ['bolt11'],
+ *       maxFeeRatio: 0.02,
+ *     });
+ *     const wallet = new Wallet(mintUrl, { spendingPolicy });
+ */
+export class SpendingPolicy {
+  private readonly options: SpendingPolicyOptions;
+  private readonly now: () => number;
+  private readonly allowedMints?: string[];
+  private spends: SpendingAuthorization[] = [];
+
+  constructor(options: SpendingPolicyOptions) {
+    this.options = options;
+    this.now = options.now ?? Date.now;
+    this.allowedMints = options.allowedMints?.map(normalizeMintUrl);
+  }
+
+  /**
+   * Amount spent in `unit` within its window, fees included.
+   */
+  spentInWindow(unit: string): Amount {
+    return this.recent(unit).reduce((sum, s) => sum.add(s.total), Amount.zero());
+  }
+
+  /**
+   * Checks an operation and counts it against the window.
+   *
+   * @remarks
+   * Called by the `wallet.ops` builders. Call {@link SpendingPolicy.release} if the operation does
+   * not go ahead.
+   * @returns A handle for {@link SpendingPolicy.release}.
+   * @throws {@link SpendingPolicyError} If the operation breaks a rule.
+   */
+  async authorize(preview: SpendingPreview): Promise<SpendingAuthorization> {
+    const refuse = (rule: SpendingPolicyRule, message: string) =>
+      new SpendingPolicyError(`Spending policy: ${message}`, preview, rule);
+    const { unit, amount, fee } = preview;
+    const total = amount.add(fee);
+    const limits = this.options.limits?.[unit] ?? {};
+
+    if (this.allowedMints && !this.allowedMints.includes(normalizeMintUrl(preview.mintUrl))) {
+      throw refuse('mint', `mint ${preview.mintUrl} is not allowed`);
+    }
+    const methods = this.options.allowedMeltMethods;
+    if (preview.kind === 'melt' && methods && !methods.includes(preview.method ?? '')) {
+      throw refuse('meltMethod', `melt method ${preview.method ?? '?'} is not allowed`);
+    }
+    if (limits.perOperation !== undefined && total.greaterThan(limits.perOperation)) {
+      throw refuse(
+        'perOperation',
+        `${total.toString()} ${unit} exceeds the per-operation limit of ${Amount.from(limits.perOperation).toString()}`,
+      );
+    }
+    const maxFeeRatio = this.options.maxFeeRatio;
+    if (maxFeeRatio !== undefined && fee.toNumber() > amount.toNumber() * maxFeeRatio) {
+      throw refuse(
+        'feeRatio',
+        `fee of ${fee.toString()} ${unit} exceeds ${maxFeeRatio * 100}% of ${amount.toString()}`,
+      );
+    }
+    if (limits.window) {
+      const spent = this.spentInWindow(unit);
+      if (spent.add(total).greaterThan(limits.window.amount)) {
+        throw refuse(
+          'window',
+          `${total.toString()} ${unit} on top of ${spent.toString()} spent exceeds the limit of ${Amount.from(limits.window.amount).toString()} per ${limits.window.ms} ms`,
+        );
+      }
+    }
+
+    // Count it now, so concurrent operations see each other while approval is pending. Only a
+    // window looks back at past spends, so units without one keep none.
+    const spend: SpendingAuthorization = { unit, total, at: this.now() };
+    if (limits.window) this.spends.push(spend);
+    if (limits.approveAbove !== undefined && total.greaterThan(limits.approveAbove)) {
+      let approved = false;
+      try {
+        approved = (await this.options.approve?.(preview)) ?? false;
+      } finally {
+        if (!approved) this.release(spend);
+      }
+      if (!approved) {
+        throw refuse('approval', `${total.toString()} ${unit} was not approved`);
+      }
+    }
+    return spend;
+  }
+
+  /**
+   * Stops counting an authorized operation that did not go ahead.
+   *
+   * @param handle Returned by {@link SpendingPolicy.authorize}.
+   */
+  release(handle: SpendingAuthorization): void {
+    this.spends = this.spends.filter((s) => s !== handle);
+  }
+
+  /**
+   * Runs `complete` under the policy: authorizes `preview` (calling `abandon` if refused), and
+   * releases it if the mint refuses the operation.
+   *
+   * @internal
+   */
+  async _guard<T>(
+    preview: SpendingPreview,
+    complete: () => Promise<T>,
+    abandon?: () => Promise<void>,
+  ): Promise<T> {
+    let handle: SpendingAuthorization;
+    try {
+      handle = await this.authorize(preview);
+    } catch (e) {
+      await abandon?.();
+      throw e;
+    }
+    try {
+      return await complete();
+    } catch (e) {
+      // Only a refusal proves nothing was spent; an unknown outcome stays counted
+      if (failedInputsState(e)) this.release(handle);
+      throw e;
+    }
+  }
+
+  private recent(unit: string): SpendingAuthorization[] {
+    const window = this.options.limits?.[unit]?.window;
+    if (!window) return [];
+    const since = this.now() - window.ms;
+    this.spends = this.spends.filter((s) => s.unit !== unit || s.at > since);
+    return this.spends.filter((s) => s.unit === unit);
+  }
+}
@@ -24,7 +24,10 @@ export type SerializedSwapPreview = {
   unselectedProofs?: SerializedProof[];
 };
 
-function serializeProof(proof: Proof): SerializedProof {
+/**
+ * Converts a proof to its JSON-safe form.
+ */
+export function serializeProof(proof: Proof): SerializedProof {
   return { ...proof, amount: proof.amount.toString() };
 }
 
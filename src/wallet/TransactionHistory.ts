@@ -0,0 +1,370 @@
+import { Amount } from '../model/Amount';
+import { CTSError } from '../model/Errors';
+import { FileBackedState, type FileSystemLike } from '../utils/fileStore';
+
+/**
+ * Kinds of {@link HistoryEntry}.
+ *
+ * - `mint` - proofs minted against a paid quote.
+ * - `melt` - a quote paid with proofs. The amount is the quote amount.
+ * - `send` - proofs sent, online or offline. The amount is what the token holds.
+ * - `receive` - a token swapped into new proofs. The amount is what the wallet got.
+ * - `swap` - proofs swapped within the wallet, eg: by `consolidate`.
+ * - `fee` - fees paid by the operation named in `relatedId`.
+ */
+export type HistoryEntryType = 'mint' | 'melt' | 'send' | 'receive' | 'swap' | 'fee';
+
+/**
+ * One line of a {@link TransactionHistory}.
+ *
+ * @remarks
+ * Amounts exclude fees; an operation that paid fees is followed by a `fee` entry pointing back at
+ * it. Summing `in` entries minus `out` entries gives the change in balance.
+ */
+export type HistoryEntry = {
+  id: string;
+  type: HistoryEntryType;
+  /**
+   * `in` for mint and receive, `out` for melt, send and fee, `internal` for swap.
+   */
+  direction: 'in' | 'out' | 'internal';
+  /**
+   * Normalized mint URL of the wallet that wrote the entry.
+   */
+  mintUrl: string;
+  unit: string;
+  amount: Amount;
+  /**
+   * Unix time in milliseconds.
+   */
+  createdAt: number;
+  /**
+   * Payment method of a mint or melt, eg: `bolt11`.
+   */
+  method?: string;
+  quoteId?: string;
+  /**
+   * Payment preimage from a paid melt, if the mint returned one.
+   */
+  preimage?: string;
+  /**
+   * Encoded token of a send.
+   */
+  token?: string;
+  /**
+   * For `fee` entries, the id of the entry that paid it.
+   */
+  relatedId?: string;
+};
+
+/**
+ * Selects history entries. Every given field must match.
+ */
+export type HistoryQuery = {
+  mintUrl?: string;
+  unit?: string;
+  types?: HistoryEntryType[];
+  /**
+   * Only entries created at or after this Unix time in milliseconds.
+   */
+  since?: number;
+  /**
+   * Only entries created before this Unix time in milliseconds.
+   */
+  until?: number;
+  /**
+   * Entries per page, default 50.
+   */
+  limit?: number;
+  /**
+   * `next` of the previous page.
+   */
+  cursor?: string;
+};
+
+/**
+ * One page of history entries, newest first.
+ */
+export type HistoryPage = {
+  entries: HistoryEntry[];
+  /**
+   * Pass as `cursor` to get the next page. Absent on the last page.
+   */
+  next?: string;
+};
+
+/**
+ * Append-only record of what wallets did.
+ *
+ * @remarks
+ * Pass one to the `Wallet` constructor (`history` option) and the wallet appends an entry for each
+ * completed mint, melt, send, receive and swap. One history may be shared by wallets for several
+ * mints and units.
+ */
+export interface TransactionHistory {
+  /**
+   * Append entries. Existing entries are never changed.
+   */
+  append(entries: HistoryEntry[]): Promise<void>;
+  /**
+   * List entries matching the query, newest first, one page at a time.
+   */
+  list(query?: HistoryQuery): Promise<HistoryPage>;
+}
+
+/**
+ * JSON-safe form of a {@link HistoryEntry}: the amount is a decimal string.
+ */
+export type SerializedHistoryEntry = Omit<HistoryEntry, 'amount'> & { amount: string };
+
+/**
+ * JSON-safe snapshot of a {@link TransactionHistory}.
+ */
+export type SerializedTransactionHistory = {
+  version: 1;
+  entries: SerializedHistoryEntry[];
+};
+
+const HISTORY_ENTRY_TYPES: readonly HistoryEntryType[] = [
+  'mint',
+  'melt',
+  'send',
+  'receive',
+  'swap',
+  'fee',
+];
+
+/**
+ * Converts a history entry to its JSON-safe form.
+ */
+export function serializeHistoryEntry(entry: HistoryEntry): SerializedHistoryEntry {
+  return { ...entry, amount: entry.amount.toString() };
+}
+
+/**
+ * Rebuilds a history entry from {@link serializeHistoryEntry} output.
+ *
+ * @throws {@link CTSError} If the data is malformed.
+ */
+export function deserializeHistoryEntry(serialized: SerializedHistoryEntry): HistoryEntry {
+  if (
+    typeof serialized?.id !== 'string' ||
+    !HISTORY_ENTRY_TYPES.includes(serialized.type) ||
+    typeof serialized.amount !== 'string'
+  ) {
+    throw new CTSError('Invalid SerializedHistoryEntry: malformed entry');
+  }
+  return { ...serialized, amount: Amount.from(serialized.amount) };
+}
+
+function matches(entry: HistoryEntry, query: HistoryQuery): boolean {
+  return (
+    (query.mintUrl === undefined || entry.mintUrl === query.mintUrl) &&
+    (query.unit === undefined || entry.unit === query.unit) &&
+    (query.types === undefined || query.types.includes(entry.type)) &&
+    (query.since === undefined || entry.createdAt >= query.since) &&
+    (query.until === undefined || entry.createdAt < query.until)
+  );
+}
+
+/**
+ * In memory implementation. Survives nothing but useful for tests and short-lived processes.
+ */
+export class MemoryTransactionHistory implements TransactionHistory {
+  private entries: HistoryEntry[] = [];
+  private positions = new Map<string, number>();
+
+  constructor(initial?: HistoryEntry[]) {
+    if (initial) {
+      this.push(initial);
+    }
+  }
+
+  /**
+   * Snapshot of all entries, oldest first, eg: for writing to disk.
+   */
+  toJSON(): SerializedTransactionHistory {
+    return { version: 1, entries: this.entries.map(serializeHistoryEntry) };
+  }
+
+  /**
+   * Rebuilds a history from {@link MemoryTransactionHistory.toJSON} output.
+   *
+   * @throws {@link CTSError} If the data is malformed.
+   */
+  static fromJSON(data: SerializedTransactionHistory): MemoryTransactionHistory {
+    if (data?.version !== 1 || !Array.isArray(data.entries)) {
+      throw new CTSError(
+        'Invalid SerializedTransactionHistory: unsupported version or missing entries',
+      );
+    }
+    return new MemoryTransactionHistory(data.entries.map(deserializeHistoryEntry));
+  }
+
+  append(entries: HistoryEntry[]): Promise<void> {
+    const duplicate = entries.find((e) => this.positions.has(e.id));
+    if (duplicate) {
+      return Promise.reject(new CTSError(`History entry ${duplicate.id} already exists`));
+    }
+    this.push(entries);
+    return Promise.resolve();
+  }
+
+  list(query: HistoryQuery = {}): Promise<HistoryPage> {
+    const limit = query.limit ?? 50;
+    if (!Number.isInteger(limit) || limit < 1) {
+      return Promise.reject(new CTSError('History limit must be a positive integer'));
+    }
+    let from = this.entries.length - 1;
+    if (query.cursor !== undefined) {
+      const position = this.positions.get(query.cursor);
+      if (position === undefined) {
+        return Promise.reject(new CTSError('Unknown history cursor'));
+      }
+      from = position - 1;
+    }
+    const entries: HistoryEntry[] = [];
+    let i = from;
+    for (; i >= 0 && entries.length < limit; i--) {
+      if (matches(this.entries[i], query)) entries.push(this.entries[i]);
+    }
+    // Only promise a next page if one exists
+    while (i >= 0 && !matches(this.entries[i], query)) i--;
+    return Promise.resolve(
+      i >= 0 ? { entries, next: entries[entries.length - 1].id } : { entries },
+    );
+  }
+
+  private push(entries: HistoryEntry[]) {
+    for (const e of entries) {
+      this.positions.set(e.id, this.entries.length);
+      this.entries.push(e);
+    }
+  }
+}
+
+/**
+ * File-backed implementation, for Node and other runtimes with a filesystem.
+ *
+ * @remarks
+ * Keeps all entries in one JSON file, rewritten atomically (temporary file + rename) before
+ * `append()` resolves. Do not point two processes at the same file.
+ */
+export class FileTransactionHistory implements TransactionHistory {
+  private state: FileBackedState<MemoryTransactionHistory>;
+
+  constructor(path: string, fs: FileSystemLike) {
+    this.state = new FileBackedState(fs, path, {
+      load: (raw) =>
+        raw
+          ? MemoryTransactionHistory.fromJSON(JSON.parse(raw) as SerializedTransactionHistory)
+          : new MemoryTransactionHistory(),
+      dump: (history) => JSON.stringify(history.toJSON()),
+    });
+  }
+
+  append(entries: HistoryEntry[]): Promise<void> {
+    return this.state.run((h) => h.append(entries), true);
+  }
+
+  list(query?: HistoryQuery): Promise<HistoryPage> {
+    return this.state.run((h) => h.list(query), false);
+  }
+}
+
+/**
+ * Create an in-memory {@link TransactionHistory}.
+ */
+export function createMemoryTransactionHistory(): TransactionHistory {
+  return new MemoryTransactionHistory();
+}
+
+/**
+ * Create a {@link TransactionHistory} persisted to a JSON file.
+ *
+ * @example
+ *
+ *     import * as fs from 'node:fs/promises';
+ *     const wallet = new Wallet(mintUrl, {
+ *       history: createFileTransactionHistory('./history.json', fs),
+ *     });
+ *
+ * @param path - File to keep entries in. Created on first write.
+ * @param fs - Filesystem to use, eg: Node's `fs/promises`.
+ */
+export function createFileTransactionHistory(path: string, fs: FileSystemLike): TransactionHistory {
+  return new FileTransactionHistory(path, fs);
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'createdAt',
+  'type',
+  'direction',
+  'amount',
+  'unit',
+  'mintUrl',
+  'method',
+  'quoteId',
+  'preimage',
+  'relatedId',
+  'token',
+] as const;
+
+function csvField(value: string): string {
+  // Mint-controlled text must not run as a spreadsheet formula
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Renders history entries as CSV, one row per entry under a header row.
+ *
+ * @remarks
+ * `createdAt` is written as an ISO 8601 timestamp, amounts as integers in the entry's unit. Missing
+ * fields are left empty. Text starting with `=`, `+`, `-`, `@`, a tab or a carriage return gets a
+ * leading `'`, so spreadsheets do not evaluate it as a formula.
+ */
+export function historyToCsv(entries: HistoryEntry[]): string {
+  const rows = entries.map((e) =>
+    CSV_COLUMNS.map((column) => {
+      if (column === 'createdAt') return new Date(e.createdAt).toISOString();
+      if (column === 'amount') return e.amount.toString();
+      return csvField(e[column] ?? '');
+    }).join(','),
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Renders history entries as a JSON array of {@link SerializedHistoryEntry}.
+ */
+export function historyToJson(entries: HistoryEntry[]): string {
+  return JSON.stringify(entries.map(serializeHistoryEntry));
+}
+
+/**
+ * Exports every entry matching the query, newest first.
+ *
+ * @example
+ *
+ *     const csv = await exportHistory(history, 'csv', { since: Date.parse('2026-01-01') });
+ *
+ * @param history History to read, page by page.
+ * @param format `csv` for {@link historyToCsv}, `json` for {@link historyToJson}.
+ * @param query Filter. `limit` sets the page size; `cursor` is ignored.
+ */
+export async function exportHistory(
+  history: TransactionHistory,
+  format: 'csv' | 'json',
+  query: Omit<HistoryQuery, 'cursor'> = {},
+): Promise<string> {
+  const entries: HistoryEntry[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await history.list({ ...query, cursor });
+    entries.push(...page.entries);
+    cursor = page.next;
+  } while (cursor !== undefined);
+  return format === 'csv' ? historyToCsv(entries) : historyToJson(entries);
+}
@@ -17,6 +17,8 @@ import {
   buildP2PKSigAllMessageV0,
   assertSigAllInputs,
   parseSecret,
+  verifyP2PKSpendingConditions,
+  type P2PKVerificationResult,
 } from '../crypto';
 // Internal transitional fallback — not part of crypto/index.ts
 import { normalizeSecpPubkey } from '../crypto/curve_secp';
@@ -26,9 +28,12 @@ import { Mint } from '../mint';
 import { Amount, type AmountLike } from '../model/Amount';
 import {
   CTSError,
+  InvalidPreimageError,
   MeltChangeError,
+  type MintOperationError,
   StaleKeysetError,
   UnknownKeysetError,
+  failedInputsState,
   isMintOperationError,
 } from '../model/Errors';
 import { MintInfo } from '../model/MintInfo';
@@ -57,16 +62,24 @@ import type {
 } from '../model/types';
 import type { SerializedBlindedSignature } from '../model/types/blinded';
 import type { KeyChainCache } from '../model/types/keyset';
+import { MeltQuoteState } from '../model/types/NUT05';
 import { CheckStateEnum, type ProofState } from '../model/types/NUT07';
 import { type BatchMintRequest } from '../model/types/NUT29';
 import type { Proof, ProofLike } from '../model/types/proof';
 import type { Token } from '../model/types/token';
 import { BATCH_POOL_SIZE, runPool } from '../transport';
-import type { RequestFetch, RequestFn } from '../transport';
+import type { RequestFetch, RequestFn, WSConnectionOptions } from '../transport';
 import {
+  assertBitcoinAddress,
   bolt11AmountMsat,
+  bolt12AmountMsat,
+  decodeBolt11,
+  decodeBolt12,
+  generateUuidV7,
   getDecodedToken,
+  getEncodedToken,
   invoiceHasAmountInHRP,
+  isBolt11Preimage,
   normalizeMintUrl,
   normalizeProofAmounts,
   splitAmount,
@@ -75,6 +88,10 @@ import {
   ABSOLUTE_MAX_BATCH_SIZE,
   DEFAULT_MAX_ARRAY_LENGTH,
   REPAIR_COOLDOWN_MS,
+  type BitcoinAddressPolicy,
+  type DecodedBitcoinAddress,
+  type DecodedBolt11,
+  type DecodedBolt12,
 } from '../utils';
 
 import { ceilLog2, getKeepAmounts, stringifyOutputTypeForLog } from './_internal';
@@ -86,7 +103,25 @@ import {
 } from './CounterSource';
 import { KeyChain } from './KeyChain';
 import { type Keyset } from './Keyset';
+import { requestLnurlInvoice, resolveLnurlPay } from './LightningAddress';
+import {
+  type JournalEntry,
+  type JournalEntryBase,
+  type OperationJournal,
+  deserializeMeltPreview,
+  deserializeMintPreview,
+  serializeMeltPreview,
+  serializeMintPreview,
+} from './OperationJournal';
+import { type ProofStore, type ProofStoreState, type StoredProof } from './ProofStore';
 import { selectProofsRotating, type SelectProofs } from './SelectProofs';
+import { type SpendingPolicy } from './SpendingPolicy';
+import { deserializeSwapPreview, serializeSwapPreview } from './SwapPreview';
+import {
+  type HistoryEntry,
+  type HistoryEntryType,
+  type TransactionHistory,
+} from './TransactionHistory';
 import {
   type MeltPreview,
   type OutputType,
@@ -105,11 +140,17 @@ import {
   type RestoreAllConfig,
   type SecretsPolicy,
   type SwapPreview,
+  type ConsolidateConfig,
+  type ConsolidationPreview,
+  type ReclaimConfig,
+  type ReclaimResult,
   type MintPreview,
   type BatchMintPreview,
+  type WalletBalance,
+  type RecoveredOperation,
 } from './types';
 import { WalletCounters } from './WalletCounters';
-import { WalletEvents } from './WalletEvents';
+import { WalletEvents, type WalletEventsOptions } from './WalletEvents';
 import { WalletOps } from './WalletOps';
 
 // model helpers
@@ -119,6 +160,32 @@ const PENDING_KEYSET_ID = '__PENDING__';
 // NUT-20 "Signature for mint request invalid"
 const MINT_QUOTE_SIGNATURE_INVALID_CODE = 20008;
 
+const HISTORY_DIRECTIONS: Record<HistoryEntryType, HistoryEntry['direction']> = {
+  mint: 'in',
+  receive: 'in',
+  melt: 'out',
+  send: 'out',
+  fee: 'out',
+  swap: 'internal',
+};
+
+/**
+ * A completed operation to append to the history, with the fees it paid.
+ */
+type HistoryRecord = Pick<
+  HistoryEntry,
+  'type' | 'amount' | 'method' | 'quoteId' | 'preimage' | 'token'
+> & {
+  fee?: Amount;
+};
+
+/**
+ * What inputs paid beyond the value that came out of them.
+ */
+function paidFee(spent: Amount, kept: Amount): Amount {
+  return spent.greaterThan(kept) ? spent.subtract(kept) : Amount.zero();
+}
+
 /**
  * Class that represents a Cashu wallet.
  *
@@ -183,6 +250,11 @@ class Wallet {
   private _outputDataCreator: OutputDataCreator;
   private _requireSigDleq = false;
   private _strictCachedKeysets: boolean = false;
+  private _proofStore: ProofStore | undefined = undefined;
+  private _journal: OperationJournal | undefined = undefined;
+  private _spendingPolicy: SpendingPolicy | undefined = undefined;
+  private _history: TransactionHistory | undefined = undefined;
+  private _internalSwaps = new WeakSet<SwapPreview>();
   private _logger: Logger;
 
   /**
@@ -231,6 +303,19 @@ class Wallet {
    * @param options.requestFetch Custom fetch-compatible transport for mint HTTP requests. Use this
    *   for per-wallet OHTTP, Tor, native HTTP clients, or proxies while preserving the default
    *   request pipeline. Ignored when `customRequest` is supplied.
+   * @param options.webSocket Reconnect and heartbeat behaviour of the mint's NUT-17 WebSocket, eg:
+   *   `{ reconnect: true, heartbeat: true }` to keep `wallet.on` subscriptions alive across dropped
+   *   connections. Only used when `mint` is passed as a URL string.
+   * @param options.events How `wallet.on` subscriptions get updates: the WebSocket, or HTTP polling
+   *   when the mint lacks NUT-17 support for them, and the poll intervals.
+   * @param options.proofStore Store that tracks this wallet's proofs. When set, operations reserve
+   *   their inputs, store new proofs and mark spent ones, and `balance()` becomes available.
+   * @param options.journal Operation journal. When set, swaps, mints and melts are recorded before
+   *   they reach the mint so `recoverPendingOperations()` can finish them after a crash.
+   * @param options.history Transaction history. When set, completed mints, melts, sends, receives
+   *   and swaps are appended to it.
+   * @param options.spendingPolicy Spending policy checked by the `wallet.ops` send and melt
+   *   builders before they reach the mint.
    * @param options.logger Logger instance, default null logger.
    */
   constructor(
@@ -250,11 +335,17 @@ class Wallet {
       strictCachedKeysets?: boolean;
       customRequest?: RequestFn;
       requestFetch?: RequestFetch;
+      webSocket?: WSConnectionOptions;
+      events?: WalletEventsOptions;
+      proofStore?: ProofStore;
+      journal?: OperationJournal;
+      history?: TransactionHistory;
+      spendingPolicy?: SpendingPolicy;
       logger?: Logger;
     },
   ) {
     this.ops = new WalletOps(this);
-    this.on = new WalletEvents(this);
+    this.on = new WalletEvents(this, options?.events);
     this._logger = options?.logger ?? NULL_LOGGER; // init early (seed can throw)
     this._selectProofs = options?.selectProofs ?? selectProofsRotating; // vital
     this._outputDataCreator = options?.outputDataCreator ?? new DefaultOutputDataCreator();
@@ -264,6 +355,7 @@ class Wallet {
             authProvider: options?.authProvider,
             customRequest: options?.customRequest,
             requestFetch: options?.requestFetch,
+            webSocket: options?.webSocket,
             logger: this._logger,
           })
         : mint;
@@ -290,6 +382,10 @@ class Wallet {
     this._denominationTarget = options?.denominationTarget ?? this._denominationTarget;
     this._requireSigDleq = options?.requireSigDleq ?? this._requireSigDleq;
     this._strictCachedKeysets = options?.strictCachedKeysets ?? this._strictCachedKeysets;
+    this._proofStore = options?.proofStore;
+    this._journal = options?.journal;
+    this._history = options?.history;
+    this._spendingPolicy = options?.spendingPolicy;
   }
 
   // Convenience wrappers for "log and throw"
@@ -778,6 +874,505 @@ class Wallet {
     return this._logger;
   }
 
+  // -----------------------------------------------------------------
+  // Section: Proof Store
+  // -----------------------------------------------------------------
+
+  /**
+   * The proof store passed at construction, if any.
+   */
+  get proofStore(): ProofStore | undefined {
+    return this._proofStore;
+  }
+
+  /**
+   * The spending policy passed at construction, if any.
+   */
+  get spendingPolicy(): SpendingPolicy | undefined {
+    return this._spendingPolicy;
+  }
+
+  /**
+   * Balance of this wallet's mint and unit, derived from its proof store.
+   *
+   * @throws If the wallet was constructed without a `proofStore`.
+   */
+  async balance(): Promise<WalletBalance> {
+    const entries = await this.requireProofStore().list({
+      mintUrl: this.mint.mintUrl,
+      unit: this._unit,
+      states: ['unspent', 'reserved', 'pending'],
+    });
+    const sum = (state: ProofStoreState) =>
+      sumProofs(entries.filter((e) => e.state === state).map((e) => e.proof));
+    const byKeyset: Record<string, Amount> = {};
+    for (const { proof, state } of entries) {
+      if (state !== 'unspent') continue;
+      byKeyset[proof.id] = (byKeyset[proof.id] ?? Amount.zero()).add(proof.amount);
+    }
+    return {
+      unit: this._unit,
+      total: sum('unspent'),
+      byKeyset,
+      reserved: sum('reserved'),
+      pending: sum('pending'),
+    };
+  }
+
+  /**
+   * Stored proofs of this wallet's mint and unit.
+   *
+   * @example
+   *
+   * ```typescript
+   * const { keep, send } = await wallet.send(5, await wallet.getStoredProofs());
+   * ```
+   *
+   * @param state Lifecycle state to list, default 'unspent'.
+   * @throws If the wallet was constructed without a `proofStore`.
+   */
+  async getStoredProofs(state: ProofStoreState = 'unspent'): Promise<Proof[]> {
+    const entries = await this.requireProofStore().list({
+      mintUrl: this.mint.mintUrl,
+      unit: this._unit,
+      states: [state],
+    });
+    return entries.map((e) => e.proof);
+  }
+
+  /**
+   * Returns reserved proofs to `unspent`, eg: when abandoning a prepared send or melt.
+   *
+   * @param proofs Proofs to release. Proofs in other states are left alone.
+   * @throws If the wallet was constructed without a `proofStore`.
+   */
+  async releaseProofs(proofs: Array<Pick<ProofLike, 'secret'>>): Promise<void> {
+    const store = this.requireProofStore();
+    const reserved = await store.list({
+      secrets: proofs.map((p) => p.secret),
+      states: ['reserved'],
+    });
+    await store.transition(
+      reserved.map((e) => e.proof.secret),
+      'unspent',
+      ['reserved'],
+    );
+  }
+
+  /**
+   * Records an offline send in the proof store (inputs are adopted, sent proofs become pending) and
+   * the history.
+   *
+   * @internal
+   */
+  async _recordOfflineSend(proofs: ProofLike[], send: Proof[]) {
+    if (this._proofStore) {
+      await this.adoptProofs(normalizeProofAmounts(proofs));
+      await this.markProofs(send, 'pending', ['unspent']);
+    }
+    await this.recordHistory({ type: 'send', amount: sumProofs(send), token: this.encode(send) });
+  }
+
+  private requireProofStore(): ProofStore {
+    const store = this._proofStore;
+    this.failIfNullish(store, 'Wallet has no proofStore configured');
+    return store;
+  }
+
+  private toStored(proofs: Proof[], state: ProofStoreState): StoredProof[] {
+    return proofs.map((proof) => ({ proof, state, mintUrl: this.mint.mintUrl, unit: this._unit }));
+  }
+
+  private async storeProofs(proofs: Proof[], state: ProofStoreState): Promise<void> {
+    if (!this._proofStore || proofs.length === 0) return;
+    await this._proofStore.put(this.toStored(proofs, state));
+  }
+
+  /**
+   * Stores caller-supplied proofs the store does not know yet as `unspent`.
+   */
+  private async adoptProofs(proofs: Proof[]): Promise<void> {
+    if (!this._proofStore || proofs.length === 0) return;
+    const known = await this._proofStore.list({ secrets: proofs.map((p) => p.secret) });
+    const knownSecrets = new Set(known.map((e) => e.proof.secret));
+    await this.storeProofs(
+      proofs.filter((p) => !knownSecrets.has(p.secret)),
+      'unspent',
+    );
+  }
+
+  private async markProofs(
+    proofs: Array<Pick<ProofLike, 'secret'>>,
+    to: ProofStoreState,
+    from?: readonly ProofStoreState[],
+  ): Promise<void> {
+    if (!this._proofStore || proofs.length === 0) return;
+    await this._proofStore.transition(
+      proofs.map((p) => p.secret),
+      to,
+      from,
+    );
+  }
+
+  /**
+   * Settles inputs after the mint call failed: spent (11001), or still ours when the code shows the
+   * mint refused the request. Any other failure leaves the outcome unknown, so they stay pending
+   * until checked against the mint.
+   */
+  private async settleFailedInputs(inputs: Proof[], e: unknown): Promise<void> {
+    const to = failedInputsState(e);
+    if (!this._proofStore || !to) return;
+    try {
+      await this.markProofs(inputs, to, ['pending']);
+    } catch (storeError) {
+      this._logger.error('Could not update proof store after mint error', { e: storeError });
+    }
+  }
+
+  /**
+   * The protocol error behind a failed mint call, if the mint answered at all.
+   */
+  private mintRejection(e: unknown): MintOperationError | undefined {
+    const cause = e instanceof StaleKeysetError ? e.cause : e;
+    return isMintOperationError(cause) ? cause : undefined;
+  }
+
+  /**
+   * Runs proof store writes after the mint has signed. New proofs must reach the caller even if the
+   * store fails, so failures are logged rather than thrown.
+   */
+  private async persistAfterMint(op: string, fn: () => Promise<void>): Promise<void> {
+    if (!this._proofStore) return;
+    try {
+      await fn();
+    } catch (e) {
+      this._logger.error('Could not update proof store; returning proofs to caller', { op, e });
+    }
+  }
+
+  // -----------------------------------------------------------------
+  // Section: Operation Journal
+  // -----------------------------------------------------------------
+
+  /**
+   * The operation journal passed at construction, if any.
+   */
+  get journal(): OperationJournal | undefined {
+    return this._journal;
+  }
+
+  /**
+   * Finishes or rolls back operations left in the journal by a crash or a lost connection.
+   *
+   * @remarks
+   * Handles the entries of this wallet's mint and unit, oldest first. If the mint caches the
+   * endpoint (NUT-19), the recorded request is replayed and the cached response used. Otherwise the
+   * recorded outputs are looked up with restore (NUT-09), and the inputs or melt quote are checked
+   * with the mint. Settled entries are removed; `pending` and `failed` ones are kept for a later
+   * call. Recovered proofs are added to the proof store, if any.
+   * @example
+   *
+   * ```typescript
+   * await wallet.loadMint();
+   * for (const r of await wallet.recoverPendingOperations()) {
+   *   if (r.outcome === 'completed') saveProofs(r.proofs);
+   * }
+   * ```
+   *
+   * @returns One result per entry handled.
+   * @throws If the wallet was constructed without a `journal`.
+   */
+  async recoverPendingOperations(): Promise<RecoveredOperation[]> {
+    const journal = this._journal;
+    this.failIfNullish(journal, 'Wallet has no journal configured');
+    const entries = (await journal.list()).filter(
+      (e) => e.mintUrl === this.mint.mintUrl && e.unit === this._unit,
+    );
+    const results: RecoveredOperation[] = [];
+    for (const entry of entries) {
+      let result: Omit<RecoveredOperation, 'id' | 'kind'>;
+      try {
+        result = await this.recoverOperation(entry);
+      } catch (error) {
+        this._logger.warn('Could not recover journaled operation', {
+          id: entry.id,
+          kind: entry.kind,
+          e: error,
+        });
+        result = { outcome: 'failed', proofs: [], error };
+      }
+      if (result.outcome !== 'pending' && result.outcome !== 'failed') {
+        await journal.complete(entry.id);
+      }
+      results.push({ id: entry.id, kind: entry.kind, ...result });
+    }
+    return results;
+  }
+
+  private async recoverOperation(
+    entry: JournalEntry,
+  ): Promise<Omit<RecoveredOperation, 'id' | 'kind'>> {
+    switch (entry.kind) {
+      case 'swap':
+        return this.recoverSwap(deserializeSwapPreview(entry.preview));
+      case 'mint':
+        return this.recoverMint(deserializeMintPreview(entry.preview));
+      case 'melt':
+        return this.recoverMelt(deserializeMeltPreview(entry.preview), entry.options);
+    }
+  }
+
+  private async recoverSwap(
+    preview: SwapPreview,
+  ): Promise<Omit<RecoveredOperation, 'id' | 'kind'>> {
+    if (this.isCachedEndpoint('/v1/swap')) {
+      try {
+        const { keep, send } = await this.executeSwap(preview);
+        const unselected = new Set((preview.unselectedProofs ?? []).map((p) => p.secret));
+        return {
+          outcome: 'completed',
+          proofs: keep.filter((p) => !unselected.has(p.secret)),
+          send,
+        };
+      } catch (e) {
+        // The cached response may have expired; fall back to restore
+        if (!this.mintRejection(e)) throw e;
+      }
+    }
+    const keepOutputs = preview.keepOutputs ?? [];
+    const sendOutputs = preview.sendOutputs ?? [];
+    const restored = await this.restoreOutputs([...keepOutputs, ...sendOutputs]);
+    const keep = restored.slice(0, keepOutputs.length).filter((p): p is Proof => !!p);
+    const send = restored.slice(keepOutputs.length).filter((p): p is Proof => !!p);
+    if (keep.length === 0 && send.length === 0) {
+      return this.settleUnprocessedInputs(preview.inputs);
+    }
+    await this.storeProofs(keep, 'unspent');
+    await this.storeProofs(send, 'pending');
+    await this.markProofs(preview.inputs, 'spent');
+    await this.recordHistory(this.swapHistory(preview, keep, send));
+    return { outcome: 'completed', proofs: keep, send };
+  }
+
+  private async recoverMint(
+    preview: MintPreview<Pick<MintQuoteBaseResponse, 'quote'>>,
+  ): Promise<Omit<RecoveredOperation, 'id' | 'kind'>> {
+    if (this.isCachedEndpoint(`/v1/mint/${preview.method}`)) {
+      try {
+        return { outcome: 'completed', proofs: await this.executeMint(preview) };
+      } catch (e) {
+        if (!this.mintRejection(e)) throw e;
+      }
+    }
+    const proofs = (await this.restoreOutputs(preview.outputData)).filter((p): p is Proof => !!p);
+    if (proofs.length === 0) {
+      // Nothing was issued, the quote can be minted again
+      return { outcome: 'rolled-back', proofs: [] };
+    }
+    await this.storeProofs(proofs, 'unspent');
+    await this.recordHistory({
+      type: 'mint',
+      amount: sumProofs(proofs),
+      method: preview.method,
+      quoteId: preview.payload.quote,
+    });
+    return { outcome: 'completed', proofs };
+  }
+
+  private async recoverMelt(
+    preview: MeltPreview<Pick<MeltQuoteBaseResponse, 'quote'>>,
+    options?: CompleteMeltOptions,
+  ): Promise<Omit<RecoveredOperation, 'id' | 'kind'>> {
+    if (this.isCachedEndpoint(`/v1/melt/${preview.method}`)) {
+      try {
+        const { quote, change } = await this.executeMelt(preview, options ?? {});
+        const state = (quote as Partial<MeltQuoteBaseResponse>).state;
+        if (state === MeltQuoteState.PAID) return { outcome: 'completed', proofs: change };
+        if (state === MeltQuoteState.PENDING) return { outcome: 'pending', proofs: [] };
+        return { outcome: 'rolled-back', proofs: [] };
+      } catch (e) {
+        if (!this.mintRejection(e)) throw e;
+      }
+    }
+    const quote = await this.checkMeltQuote(preview.method, preview.quote.quote);
+    if (quote.state === MeltQuoteState.PENDING) {
+      await this.markProofs(preview.inputs, 'pending');
+      return { outcome: 'pending', proofs: [] };
+    }
+    if (quote.state !== MeltQuoteState.PAID) {
+      return this.settleUnprocessedInputs(preview.inputs);
+    }
+    let change: Proof[];
+    if (quote.change && quote.change.length > 0) {
+      await this._ensureOperableKeysets(
+        quote.change.map((s) => s.id),
+        { implicit: true },
+      );
+      change = this.createMeltChangeProofs(preview.outputData, quote.change);
+    } else {
+      change = (await this.restoreOutputs(preview.outputData)).filter((p): p is Proof => !!p);
+    }
+    await this.storeProofs(change, 'unspent');
+    await this.markProofs(preview.inputs, 'spent');
+    await this.recordHistory(this.meltHistory(preview.method, quote, preview.inputs, change));
+    return { outcome: 'completed', proofs: change };
+  }
+
+  /**
+   * Settles inputs of an operation whose outputs the mint never signed, by their NUT-07 state.
+   */
+  private async settleUnprocessedInputs(
+    inputs: Proof[],
+  ): Promise<Omit<RecoveredOperation, 'id' | 'kind'>> {
+    const states = await this.checkProofsStates(inputs);
+    if (states.some((s) => s.state === CheckStateEnum.PENDING)) {
+      return { outcome: 'pending', proofs: [] };
+    }
+    const spent = inputs.filter((_, i) => states[i].state === CheckStateEnum.SPENT);
+    const unspent = inputs.filter((_, i) => states[i].state === CheckStateEnum.UNSPENT);
+    await this.markProofs(spent, 'spent');
+    await this.markProofs(unspent, 'unspent');
+    return { outcome: spent.length > 0 ? 'abandoned' : 'rolled-back', proofs: [] };
+  }
+
+  /**
+   * Asks the mint (NUT-09) for signatures on previously sent outputs. Works for any secret type, as
+   * the blinding data is kept. Returns proofs aligned with `outputData`, undefined where unsigned.
+   */
+  private async restoreOutputs(outputData: OutputDataLike[]): Promise<Array<Proof | undefined>> {
+    if (outputData.length === 0) return [];
+    const { outputs, signatures } = await this.mint.restore({
+      outputs: outputData.map((d) => d.blindedMessage),
+    });
+    const signatureMap = new Map<string, SerializedBlindedSignature>();
+    outputs.forEach((o, i) => signatureMap.set(o.B_, signatures[i]));
+    await this._ensureOperableKeysets(
+      signatures.map((s) => s.id),
+      { implicit: true },
+    );
+    return outputData.map((d) => {
+      const sig = signatureMap.get(d.blindedMessage.B_);
+      if (!sig) return undefined;
+      // Melt change blanks carry amount zero
+      d.blindedMessage.amount = sig.amount;
+      return d.toProof(sig, this.getKeyset(sig.id));
+    });
+  }
+
+  private isCachedEndpoint(path: string): boolean {
+    const { supported, params } = this.getMintInfo().isSupported(19);
+    return (
+      supported && !!params?.cached_endpoints.some((e) => e.method === 'POST' && e.path === path)
+    );
+  }
+
+  /**
+   * Records an operation before it is sent. Returns the entry id, or undefined without a journal.
+   */
+  private async journalRecord(
+    build: (base: JournalEntryBase) => JournalEntry,
+  ): Promise<string | undefined> {
+    if (!this._journal) return undefined;
+    const entry = build({
+      id: generateUuidV7(),
+      mintUrl: this.mint.mintUrl,
+      unit: this._unit,
+      createdAt: Date.now(),
+    });
+    await this._journal.record(entry);
+    return entry.id;
+  }
+
+  /**
+   * Removes a settled entry. A failure only leaves work for `recoverPendingOperations`, so it is
+   * logged rather than thrown.
+   */
+  private async journalComplete(id: string | undefined): Promise<void> {
+    if (!this._journal || id === undefined) return;
+    try {
+      await this._journal.complete(id);
+    } catch (e) {
+      this._logger.error('Could not complete journal entry', { id, e });
+    }
+  }
+
+  // -----------------------------------------------------------------
+  // Section: History
+  // -----------------------------------------------------------------
+
+  /**
+   * The transaction history passed at construction, if any.
+   */
+  get history(): TransactionHistory | undefined {
+    return this._history;
+  }
+
+  /**
+   * Appends completed operations to the history, each followed by a `fee` entry if it paid fees.
+   * The mint has answered by then, so failures are logged rather than thrown.
+   */
+  private async recordHistory(...records: HistoryRecord[]): Promise<void> {
+    if (!this._history) return;
+    const entries: HistoryEntry[] = [];
+    for (const { fee, ...record } of records) {
+      const base = { mintUrl: this.mint.mintUrl, unit: this._unit, createdAt: Date.now() };
+      const id = generateUuidV7();
+      entries.push({ id, direction: HISTORY_DIRECTIONS[record.type], ...base, ...record });
+      if (fee && !fee.isZero()) {
+        entries.push({
+          id: generateUuidV7(),
+          type: 'fee',
+          direction: 'out',
+          ...base,
+          amount: fee,
+          relatedId: id,
+        });
+      }
+    }
+    try {
+      await this._history.append(entries);
+    } catch (e) {
+      this._logger.error('Could not append to transaction history', { e });
+    }
+  }
+
+  /**
+   * Describes a completed swap: a send if it made proofs to send, else a receive, or a swap for
+   * wallet-internal ones such as consolidation.
+   */
+  private swapHistory(preview: SwapPreview, keep: Proof[], send: Proof[]): HistoryRecord {
+    const kept = sumProofs(keep);
+    const fee = paidFee(sumProofs(preview.inputs), kept.add(sumProofs(send)));
+    if (send.length > 0) {
+      return { type: 'send', amount: sumProofs(send), fee, token: this.encode(send) };
+    }
+    return { type: this._internalSwaps.has(preview) ? 'swap' : 'receive', amount: kept, fee };
+  }
+
+  /**
+   * Describes a paid melt. The fee is what the inputs paid beyond the quote amount, less change.
+   */
+  private meltHistory(
+    method: string,
+    quote: Pick<MeltQuoteBaseResponse, 'quote' | 'amount'>,
+    inputs: Proof[],
+    change: Proof[],
+  ): HistoryRecord {
+    const { payment_preimage } = quote as { payment_preimage?: string | null };
+    return {
+      type: 'melt',
+      amount: quote.amount,
+      fee: paidFee(sumProofs(inputs), quote.amount.add(sumProofs(change))),
+      method,
+      quoteId: quote.quote,
+      ...(payment_preimage ? { preimage: payment_preimage } : {}),
+    };
+  }
+
+  private encode(proofs: Proof[]): string {
+    return getEncodedToken({ mint: this.mint.mintUrl, unit: this._unit, proofs });
+  }
+
   // -----------------------------------------------------------------
   // Section: Counters
   // -----------------------------------------------------------------
@@ -919,6 +1514,8 @@ class Wallet {
       logger: this._logger,
       counterSource: opts?.counterSource ?? this._counterSource,
       strictCachedKeysets: this._strictCachedKeysets,
+      proofStore: this._proofStore,
+      journal: this._journal,
     });
     // Load mint info from our caches
     newWallet.loadMintFromCache(this.getMintInfo().cache, this._keyChain.cache);
@@ -1265,24 +1862,7 @@ class Wallet {
     const { keysetId, requireDleq, proofsWeHave, onCountersReserved } = config || {};
     outputType = outputType ?? this.defaultOutputType(); // Fallback to policy
 
-    // Extract proofs — either directly or by decoding the token
-    let proofs: Proof[];
-    if (Array.isArray(token)) {
-      proofs = normalizeProofAmounts(token);
-    } else {
-      const decodedToken: Token = typeof token === 'string' ? this.decodeToken(token) : token;
-      const tokenMintUrl = normalizeMintUrl(decodedToken.mint);
-      this.failIf(tokenMintUrl !== this.mint.mintUrl, 'Token belongs to a different mint', {
-        token: tokenMintUrl,
-        wallet: this.mint.mintUrl,
-      });
-      this.failIf(decodedToken.unit !== this._unit, 'Token is not in wallet unit', {
-        token: decodedToken.unit,
-        wallet: this._unit,
-      });
-      // Token object may come from JSON.parse/localStorage and need runtime rehydration.
-      proofs = normalizeProofAmounts(decodedToken.proofs);
-    }
+    const proofs = this.proofsOfToken(token);
 
     // Rotation evidence check: repair the snapshot and load any missing keys before
     // any assertion or fee math relies on it.
@@ -1340,13 +1920,36 @@ class Wallet {
     };
   }
 
+  /**
+   * Extracts proofs either directly or by decoding the token, which must be for this wallet's mint
+   * and unit.
+   */
+  private proofsOfToken(token: Token | string | ProofLike[]): Proof[] {
+    if (Array.isArray(token)) {
+      return normalizeProofAmounts(token);
+    }
+    const decodedToken: Token = typeof token === 'string' ? this.decodeToken(token) : token;
+    const tokenMintUrl = normalizeMintUrl(decodedToken.mint);
+    this.failIf(tokenMintUrl !== this.mint.mintUrl, 'Token belongs to a different mint', {
+      token: tokenMintUrl,
+      wallet: this.mint.mintUrl,
+    });
+    this.failIf(decodedToken.unit !== this._unit, 'Token is not in wallet unit', {
+      token: decodedToken.unit,
+      wallet: this._unit,
+    });
+    // Token object may come from JSON.parse/localStorage and need runtime rehydration.
+    return normalizeProofAmounts(decodedToken.proofs);
+  }
+
   /**
    * Sends proofs of a given amount from provided proofs.
    *
    * @remarks
    * If proofs are P2PK-locked to your public key, call signP2PKProofs first to sign them. The
    * default config uses exact match selection, and does not includeFees or requireDleq. Because the
-   * send is offline, the user will unlock the signed proofs when they receive them online.
+   * send is offline, the user will unlock the signed proofs when they receive them online. Being
+   * synchronous, it does not update the proof store; `send()` and `ops.send()` do.
    * @param amount Amount to send.
    * @param proofs Array of proofs (must sum >= amount; pre-sign if P2PK-locked).
    * @param config Optional parameters for the send.
@@ -1429,6 +2032,7 @@ class Wallet {
     // First, let's see if we can avoid a swap (and fees)
     // by trying an exact match offline selection, including fees if
     // we are giving the receiver the amount + their fee to receive
+    let offline: SendResponse | undefined;
     try {
       // Offline exact-match only allowed for plain-random defaults; deterministic implies swap.
       const wantsDeterministicByPolicy = this.defaultOutputType().type === 'deterministic';
@@ -1462,12 +2066,16 @@ class Wallet {
 
       if (sumProofs(send).equals(sendAmount.add(expectedFee))) {
         this._logger.info('Successful exactMatch offline selection!');
-        return { keep, send };
+        offline = { keep, send };
       }
     } catch (e: unknown) {
       const message = e instanceof Error ? e.message : 'Unknown error';
       this._logger.debug('ExactMatch offline selection failed.', { e: message });
     }
+    if (offline) {
+      await this._recordOfflineSend(proofs, offline.send);
+      return offline;
+    }
 
     // Prepare and complete the send
     const txn = await this.prepareSwapToSend(sendAmount, proofs, config, outputConfig);
@@ -1587,6 +2195,10 @@ class Wallet {
     const sendOutputs = this.createOutputData(sendAmount, keyset, sendOT);
     const keepOutputs = this.createOutputData(keepAmount, keyset, keepOT);
 
+    // Reserve the inputs so concurrent operations cannot select them
+    await this.adoptProofs(normalizedProofs);
+    await this.markProofs(selectedProofs, 'reserved', ['unspent']);
+
     // Return SwapPreview
     return {
       amount: sendAmountTarget,
@@ -1612,26 +2224,41 @@ class Wallet {
    * const result = await wallet.completeSwap(txn);
    * ```
    *
+   * With a `journal`, the signed swap is recorded before it is sent.
+   *
    * @param swapPreview With metadata for swap transaction.
    * @param privkey The private key(s) for signing.
    * @returns SendResponse with keep/send proofs.
    * @throws {@link StaleKeysetError} If the mint rejects the outputs' keyset.
    */
   async completeSwap(swapPreview: SwapPreview, privkey?: string | string[]): Promise<SendResponse> {
-    const keepOutputs: OutputDataLike[] = swapPreview?.keepOutputs ? swapPreview.keepOutputs : [];
-    const sendOutputs: OutputDataLike[] = swapPreview.sendOutputs ? swapPreview.sendOutputs : [];
-    const unselectedProofs: Proof[] = swapPreview.unselectedProofs
-      ? swapPreview.unselectedProofs
-      : [];
-
     // Sign proofs if needed
     if (privkey) {
       swapPreview.inputs = this.signP2PKProofs(swapPreview.inputs, privkey, [
-        ...keepOutputs,
-        ...sendOutputs,
+        ...(swapPreview.keepOutputs ?? []),
+        ...(swapPreview.sendOutputs ?? []),
       ]);
     }
 
+    const journalId = await this.journalRecord((base) => ({
+      ...base,
+      kind: 'swap',
+      preview: serializeSwapPreview(swapPreview),
+    }));
+    return this.executeSwap(swapPreview, journalId);
+  }
+
+  /**
+   * Sends a signed swap and stores the result. The journal entry, if any, is completed once the
+   * mint has answered.
+   */
+  private async executeSwap(swapPreview: SwapPreview, journalId?: string): Promise<SendResponse> {
+    const keepOutputs: OutputDataLike[] = swapPreview?.keepOutputs ? swapPreview.keepOutputs : [];
+    const sendOutputs: OutputDataLike[] = swapPreview.sendOutputs ? swapPreview.sendOutputs : [];
+    const unselectedProofs: Proof[] = swapPreview.unselectedProofs
+      ? swapPreview.unselectedProofs
+      : [];
+
     // Create swap transaction
     const swapTransaction = this.createSwapTransaction(
       swapPreview.inputs,
@@ -1640,9 +2267,17 @@ class Wallet {
     );
 
     // Execute swap and validate result
-    const { signatures } = await this.withStaleKeysetRepair(() =>
-      this.mint.swap(swapTransaction.payload),
-    );
+    await this.markProofs(swapPreview.inputs, 'pending', ['unspent', 'reserved', 'pending']);
+    let signatures: SerializedBlindedSignature[];
+    try {
+      ({ signatures } = await this.withStaleKeysetRepair(() =>
+        this.mint.swap(swapTransaction.payload),
+      ));
+    } catch (e) {
+      await this.settleFailedInputs(swapPreview.inputs, e);
+      if (failedInputsState(e)) await this.journalComplete(journalId);
+      throw e;
+    }
     this.failIf(
       signatures.length !== swapTransaction.outputData.length,
       `Mint returned ${signatures.length} signatures, expected ${swapTransaction.outputData.length}. Inputs may already be spent; if the wallet is seeded, try restoring (NUT-09) to recover.`,
@@ -1673,12 +2308,298 @@ class Wallet {
       keepProofs: keepProofs.map((p) => p.amount.toString()),
       sendProofs: sendProofs.map((p) => p.amount.toString()),
     });
+    await this.persistAfterMint('completeSwap', async () => {
+      await this.storeProofs(keepProofs, 'unspent');
+      await this.storeProofs(sendProofs, 'pending');
+      await this.adoptProofs(unselectedProofs);
+      await this.markProofs(swapPreview.inputs, 'spent');
+    });
+    await this.journalComplete(journalId);
+    await this.recordHistory(this.swapHistory(swapPreview, keepProofs, sendProofs));
     return {
       keep: [...keepProofs, ...unselectedProofs],
       send: sendProofs,
     };
   }
 
+  // -----------------------------------------------------------------
+  // Section: Consolidate
+  // -----------------------------------------------------------------
+
+  /**
+   * Swaps surplus proofs into fewer, fee-efficient ones when that pays for itself.
+   *
+   * @remarks
+   * Prepares with {@link prepareConsolidation} and completes the swap if it is worthwhile (or
+   * `config.force` is set).
+   * @example
+   *
+   * ```typescript
+   * const { proofs, preview } = await wallet.consolidate(await wallet.getStoredProofs());
+   * if (preview.swap)
+   *   console.log(`Saved ${preview.spendFeeBefore.subtract(preview.spendFeeAfter)}`);
+   * ```
+   *
+   * @param proofs The proofs to consolidate, eg: all proofs of this mint and unit.
+   * @param config Optional consolidation config.
+   * @returns The full set of proofs afterwards (unchanged if no swap ran) and the preview.
+   */
+  async consolidate(
+    proofs: ProofLike[],
+    config?: ConsolidateConfig,
+  ): Promise<{ proofs: Proof[]; preview: ConsolidationPreview }> {
+    const preview = await this.prepareConsolidation(proofs, config);
+    if (!preview.swap) {
+      return { proofs: normalizeProofAmounts(proofs), preview };
+    }
+    const { keep } = await this.completeSwap(preview.swap, config?.privkey);
+    return { proofs: keep, preview };
+  }
+
+  /**
+   * Plans a consolidation swap and shows what it costs and saves.
+   *
+   * @remarks
+   * Proofs on an inactive keyset, or on a keyset with a higher input fee than the target, are moved
+   * to the target keyset: `config.keysetId`, or the cheapest active keyset. Of the rest, up to
+   * `denominationTarget` proofs per amount stay as they are; the surplus is swapped into outputs
+   * that fill the gaps in that distribution.
+   *
+   * The swap is prepared (outputs created, inputs reserved) only when worthwhile or forced; see
+   * {@link ConsolidationPreview.worthwhile}. Complete it with {@link completeSwap}. Input fees are
+   * charged per proof, so swapping proofs costs about what spending them later saves: on keysets
+   * with fees, `force` is the way to trade a fee for smaller tokens.
+   * @param proofs The proofs to consolidate.
+   * @param config Optional consolidation config.
+   * @returns ConsolidationPreview, with a `swap` to complete if one was prepared.
+   */
+  async prepareConsolidation(
+    proofs: ProofLike[],
+    config?: ConsolidateConfig,
+  ): Promise<ConsolidationPreview> {
+    const normalizedProofs = normalizeProofAmounts(proofs);
+    const { keysetId, force = false, onCountersReserved } = config || {};
+
+    // Inputs are priced from keyset metadata, so keys are not fetched
+    await this._ensureOperableKeysets(
+      normalizedProofs.map((p) => p.id),
+      { implicit: true, fetchKeys: false },
+    );
+    this.assertProofsInWalletUnit(normalizedProofs);
+    const keyset = this.getOutputKeyset(keysetId ?? this._keyChain.getCheapestKeyset().id);
+
+    // Split into proofs that stay and proofs to swap
+    const stay: Proof[] = [];
+    const inputs: Proof[] = [];
+    let moving = false;
+    const perAmount = new Map<string, number>();
+    for (const p of normalizedProofs) {
+      const ks = this._keyChain.getKeyset(p.id);
+      if (!ks.isActive || ks.fee > keyset.fee) {
+        moving ||= !ks.isActive;
+        inputs.push(p);
+        continue;
+      }
+      const n = perAmount.get(p.amount.toString()) ?? 0;
+      if (n < this._denominationTarget) {
+        perAmount.set(p.amount.toString(), n + 1);
+        stay.push(p);
+      } else {
+        inputs.push(p);
+      }
+    }
+
+    const swapFee = this.getFeesForProofs(inputs);
+    const inputTotal = sumProofs(inputs);
+    let outputs: Amount[] = [];
+    if (inputTotal.greaterThan(swapFee)) {
+      outputs = getKeepAmounts(
+        stay,
+        inputTotal.subtract(swapFee),
+        keyset.keys,
+        this._denominationTarget,
+      );
+    }
+    const spendFeeBefore = this.getFeesForProofs(normalizedProofs);
+    const spendFeeAfter = this.getFeesForProofs([
+      ...stay,
+      ...outputs.map(() => ({ id: keyset.id })),
+    ]);
+    const proofCountAfter = stay.length + outputs.length;
+    const saved = spendFeeBefore.subtract(Amount.min(spendFeeBefore, spendFeeAfter));
+    const worthwhile =
+      outputs.length > 0 &&
+      (saved.greaterThan(swapFee) ||
+        (swapFee.isZero() && (proofCountAfter < normalizedProofs.length || moving)));
+
+    const preview: ConsolidationPreview = {
+      worthwhile,
+      inputs,
+      swapFee,
+      spendFeeBefore,
+      spendFeeAfter,
+      proofCountBefore: normalizedProofs.length,
+      proofCountAfter,
+    };
+    if (outputs.length === 0 || !(worthwhile || force)) {
+      return preview;
+    }
+
+    // Prepare the swap, as prepareSwapToSend does for its change
+    const outputAmount = Amount.sum(outputs);
+    // Same denominations as planned: configureOutputs fills gaps around `stay` the same way
+    const plannedOT = this.configureOutputs(
+      outputAmount,
+      keyset,
+      this.defaultOutputType(),
+      false,
+      stay,
+    );
+    const autoCounters = await this.addCountersToOutputTypes(keyset.id, plannedOT);
+    const [keepOT] = autoCounters.outputTypes;
+    if (autoCounters.used) {
+      this.safeCallback(onCountersReserved, autoCounters.used, { op: 'consolidate' });
+    }
+    const keepOutputs = this.createOutputData(outputAmount, keyset, keepOT);
+
+    await this.adoptProofs(normalizedProofs);
+    await this.markProofs(inputs, 'reserved', ['unspent']);
+
+    preview.swap = {
+      amount: outputAmount,
+      fees: swapFee,
+      keysetId: keyset.id,
+      inputs,
+      keepOutputs,
+      sendOutputs: [],
+      unselectedProofs: stay,
+    };
+    this._internalSwaps.add(preview.swap);
+    return preview;
+  }
+
+  // -----------------------------------------------------------------
+  // Section: Reclaim
+  // -----------------------------------------------------------------
+
+  /**
+   * Takes back a sent token the recipient has not claimed ("undo send").
+   *
+   * @remarks
+   * Checks the token's proofs with the mint (NUT-07) and swaps the unspent ones into fresh proofs.
+   * Proofs locked to someone else (NUT-11) can only be reclaimed through their refund path, once
+   * `locktime` has passed and with `config.privkey` holding enough refund keys; until then they are
+   * returned as `locked`, with `unlocksAt` telling when to try again. Claimed proofs are marked
+   * `spent` in the proof store, if any.
+   *
+   * With `config.afterMs`, the reclaim waits that long first, so the recipient has a window to
+   * claim. Abort `config.signal` to call it off.
+   * @example
+   *
+   * ```typescript
+   * const { send } = await wallet.send(21, proofs);
+   * // Take the token back if nobody claimed it within a day
+   * const ac = new AbortController();
+   * const result = wallet.reclaim(send, { afterMs: 86_400_000, signal: ac.signal });
+   * ```
+   *
+   * @param token Token string, decoded token, or raw proof array.
+   * @param config Optional reclaim config.
+   * @returns The fresh proofs, and how the token's proofs were sorted.
+   * @throws If the swap fails, or the signal aborts while waiting for `afterMs`.
+   */
+  async reclaim(
+    token: Token | string | ProofLike[],
+    config: ReclaimConfig = {},
+  ): Promise<ReclaimResult> {
+    const { afterMs, signal, privkey } = config;
+    const proofs = this.proofsOfToken(token);
+    if (afterMs) await this.waitForReclaim(afterMs, signal);
+    signal?.throwIfAborted();
+
+    await this._ensureOperableKeysets(
+      proofs.map((p) => p.id),
+      { implicit: true },
+    );
+    this.assertProofsInWalletUnit(proofs);
+
+    const result: ReclaimResult = { proofs: [], reclaimed: [], spent: [], pending: [], locked: [] };
+    const states = await this.checkProofsStates(proofs);
+    proofs.forEach((proof, i) => {
+      const state = states[i].state;
+      if (state === CheckStateEnum.SPENT) {
+        result.spent.push(proof);
+      } else if (state === CheckStateEnum.PENDING) {
+        result.pending.push(proof);
+      } else {
+        const unlocksAt = this.reclaimLock(proof, privkey);
+        if (unlocksAt === null) {
+          result.reclaimed.push(proof);
+          return;
+        }
+        result.locked.push(proof);
+        if (unlocksAt !== undefined) {
+          result.unlocksAt = Math.min(result.unlocksAt ?? Infinity, unlocksAt);
+        }
+      }
+    });
+    await this.markProofs(result.spent, 'spent');
+
+    if (result.reclaimed.length) {
+      const txn = await this.prepareSwapToReceive(result.reclaimed, {
+        keysetId: config.keysetId,
+        onCountersReserved: config.onCountersReserved,
+      });
+      ({ keep: result.proofs } = await this.completeSwap(txn, privkey));
+    }
+    return result;
+  }
+
+  /**
+   * Whether the given keys can spend a proof now. Returns null if so, otherwise the `locktime` at
+   * which its refund path opens, if it has one the keys (or anyone) could use.
+   */
+  private reclaimLock(proof: Proof, privkey?: string | string[]): number | null | undefined {
+    let kind: string;
+    try {
+      kind = parseSecret(proof.secret)[0];
+    } catch {
+      return null; // Plain secret
+    }
+    // Sign a copy against its own secret: enough to see which path our keys satisfy
+    const signed = privkey ? cryptoSignP2PKProofs([proof], privkey, this._logger)[0] : proof;
+    let verification: P2PKVerificationResult;
+    try {
+      verification = verifyP2PKSpendingConditions(signed, this._logger, proof.secret);
+    } catch (e) {
+      this._logger.warn('reclaim: cannot evaluate spending conditions', { e });
+      return undefined;
+    }
+    const { success, path, lockState, locktime, refund } = verification;
+    // The main path of an HTLC also needs the preimage, which the sender does not have
+    if (success && (kind === 'P2PK' || path !== 'MAIN')) return null;
+    if (lockState !== 'ACTIVE') return undefined;
+    return refund.pubkeys.length === 0 || privkey ? locktime : undefined;
+  }
+
+  private waitForReclaim(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason as Error);
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason as Error);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
   // -----------------------------------------------------------------
   // Section: Transaction Helpers
   // -----------------------------------------------------------------
@@ -2830,23 +3751,42 @@ class Wallet {
    *
    * @remarks
    * Use with a `MintPreview` returned by `prepareMint()`. This is the second step of the generic
-   * mint flow and is also what the named convenience helpers use internally.
+   * mint flow and is also what the named convenience helpers use internally. With a `journal`, the
+   * request is recorded before it is sent.
    * @param mintPreview Preview returned by prepareMint.
    * @returns Minted proofs.
    * @throws {@link StaleKeysetError} If the mint rejects the outputs' keyset.
    */
   async completeMint(
     mintPreview: MintPreview<Pick<MintQuoteBaseResponse, 'quote'>>,
+  ): Promise<Proof[]> {
+    const journalId = await this.journalRecord((base) => ({
+      ...base,
+      kind: 'mint',
+      preview: serializeMintPreview(mintPreview),
+    }));
+    return this.executeMint(mintPreview, journalId);
+  }
+
+  private async executeMint(
+    mintPreview: MintPreview<Pick<MintQuoteBaseResponse, 'quote'>>,
+    journalId?: string,
   ): Promise<Proof[]> {
     const { payload, outputData, keysetId, method, legacySignature } = mintPreview;
     // TODO: Remove legacy message support
-    const { signatures } = await this.withStaleKeysetRepair(() =>
-      this.withLegacyQuoteSigFallback(
-        legacySignature !== undefined,
-        () => this.mint.mint(method, payload),
-        () => this.mint.mint(method, { ...payload, signature: legacySignature }),
-      ),
-    );
+    let signatures: SerializedBlindedSignature[];
+    try {
+      ({ signatures } = await this.withStaleKeysetRepair(() =>
+        this.withLegacyQuoteSigFallback(
+          legacySignature !== undefined,
+          () => this.mint.mint(method, payload),
+          () => this.mint.mint(method, { ...payload, signature: legacySignature }),
+        ),
+      ));
+    } catch (e) {
+      if (this.mintRejection(e)) await this.journalComplete(journalId);
+      throw e;
+    }
     this.failIf(
       signatures.length !== outputData.length,
       `Mint returned ${signatures.length} signatures, expected ${outputData.length}. The mint quote may already be marked issued; if the wallet is seeded, try restoring (NUT-09) to recover.`,
@@ -2858,7 +3798,16 @@ class Wallet {
     this._logger.debug('MINT COMPLETED', {
       amounts: outputData.map((o) => o.blindedMessage.amount.toString()),
     });
-    return outputData.map((d, i) => d.toProof(signatures[i], keyset));
+    const proofs = outputData.map((d, i) => d.toProof(signatures[i], keyset));
+    await this.persistAfterMint('completeMint', () => this.storeProofs(proofs, 'unspent'));
+    await this.journalComplete(journalId);
+    await this.recordHistory({
+      type: 'mint',
+      amount: sumProofs(proofs),
+      method,
+      quoteId: payload.quote,
+    });
+    return proofs;
   }
 
   /**
@@ -3034,7 +3983,17 @@ class Wallet {
       quotes: payload.quotes.length,
       amounts: outputData.map((o) => o.blindedMessage.amount.toString()),
     });
-    return outputData.map((d, i) => d.toProof(sigs[i], keyset));
+    const proofs = outputData.map((d, i) => d.toProof(sigs[i], keyset));
+    await this.persistAfterMint('completeBatchMint', () => this.storeProofs(proofs, 'unspent'));
+    await this.recordHistory(
+      ...payload.quotes.map((quoteId, i) => ({
+        type: 'mint' as const,
+        amount: payload.quote_amounts[i],
+        method,
+        quoteId,
+      })),
+    );
+    return proofs;
   }
 
   // -----------------------------------------------------------------
@@ -3098,14 +4057,18 @@ class Wallet {
    * @param invoice LN invoice that needs to get a fee estimate.
    * @param amountMsat Optional amount in millisatoshis to attach for amountless invoices, must not
    *   be provided for invoices that already encode an amount.
+   * @param options.verifyInvoice Decode the invoice and check its signature and expiry before
+   *   asking the mint, then check that the quote is for this invoice and, in sat, for its amount.
    * @returns The mint will create and return a melt quote for the invoice with an amount and fee
    *   reserve.
    */
   async createMeltQuoteBolt11(
     invoice: string,
     amountMsat?: AmountLike,
+    options?: { verifyInvoice?: boolean },
   ): Promise<MeltQuoteBolt11Response> {
     this.requireSupport('melt', 'bolt11');
+    const decoded = options?.verifyInvoice ? this.decodeInvoiceToPay(invoice) : undefined;
     const normalizedAmountMsat =
       amountMsat !== undefined ? this.parseAmount(amountMsat, 'createMeltQuoteBolt11') : undefined;
 
@@ -3143,6 +4106,14 @@ class Wallet {
       expectedMsat = normalizedAmountMsat;
     }
     this.assertBolt11MeltQuoteAmount(meltQuote, expectedMsat);
+    if (decoded) {
+      this.assertMeltQuoteMatchesRequest(
+        meltQuote,
+        decoded.paymentRequest,
+        expectedMsat,
+        'invoice',
+      );
+    }
     return {
       ...meltQuote,
       unit: meltQuote.unit || this._unit,
@@ -3150,6 +4121,82 @@ class Wallet {
     };
   }
 
+  /**
+   * Requests a melt quote to pay a Lightning address or LNURL-pay link.
+   *
+   * @remarks
+   * Resolves the pay request with {@link resolveLnurlPay}, fetches an invoice for `amountMsat` with
+   * {@link requestLnurlInvoice}, then quotes it with `createMeltQuoteBolt11` and `verifyInvoice`.
+   * @param target Lightning address (`name@domain`), bech32 LNURL or `lnurlp://` URL.
+   * @param amountMsat Amount to pay in millisatoshis.
+   * @param options.comment Comment for the recipient, if the service accepts comments.
+   * @param options.request Request function for the LNURL service. Default: the mint's, so the
+   *   lookup goes over the wallet's `customRequest` or `requestFetch` transport too.
+   * @returns The melt quote for the fetched invoice.
+   * @throws If the pay request or invoice fails a check, or the mint's quote is not for the
+   *   invoice.
+   */
+  async createMeltQuoteLnurl(
+    target: string,
+    amountMsat: AmountLike,
+    options?: { comment?: string; request?: RequestFn },
+  ): Promise<MeltQuoteBolt11Response> {
+    this.requireSupport('melt', 'bolt11');
+    const request = options?.request ?? this.mint.requestFn;
+    const payRequest = await resolveLnurlPay(target, { request });
+    const { invoice } = await requestLnurlInvoice(payRequest, amountMsat, {
+      comment: options?.comment,
+      request,
+    });
+    return this.createMeltQuoteBolt11(invoice, undefined, { verifyInvoice: true });
+  }
+
+  /**
+   * Decodes an invoice the wallet is asked to pay, failing on a bad signature or once expired.
+   */
+  private decodeInvoiceToPay(invoice: string): DecodedBolt11 {
+    let decoded: DecodedBolt11;
+    try {
+      decoded = decodeBolt11(invoice);
+    } catch (e) {
+      this.fail('Invalid BOLT11 invoice', { e });
+    }
+    this.failIf(decoded.expiresAt * 1000 <= Date.now(), 'BOLT11 invoice has expired', {
+      expiresAt: decoded.expiresAt,
+    });
+    return decoded;
+  }
+
+  /**
+   * Asserts a melt quote is for the decoded invoice or offer and, for sat quotes, for its amount
+   * rounded to whole sats either way.
+   */
+  private assertMeltQuoteMatchesRequest(
+    res: MeltQuoteBolt11Response,
+    request: string,
+    expectedMsat: AmountLike | null,
+    kind: 'invoice' | 'offer',
+  ): void {
+    this.failIf(
+      !!res.request && res.request.toLowerCase() !== request.toLowerCase(),
+      `Melt quote request does not match the ${kind}`,
+      { quote: res.quote },
+    );
+    if (this._unit !== 'sat' || expectedMsat === null) return;
+    const msat = Amount.from(expectedMsat);
+    const context = { quoted: res.amount.toString(), [`${kind}Msat`]: msat.toString() };
+    this.failIf(
+      res.amount.lessThan(msat.floorPercent(1, 1000)),
+      `Melt quote amount is below the ${kind} amount`,
+      context,
+    );
+    this.failIf(
+      res.amount.greaterThan(msat.ceilPercent(1, 1000)),
+      `Melt quote amount exceeds the ${kind} amount`,
+      context,
+    );
+  }
+
   /**
    * Requests a melt quote from the mint. Response returns amount and fees for a given unit in order
    * to pay a BOLT12 offer.
@@ -3157,17 +4204,27 @@ class Wallet {
    * @param offer BOLT12 offer that needs to get a fee estimate.
    * @param amountMsat Amount in millisatoshis for amount-less offers. If this is defined and the
    *   offer has an amount, they **MUST** be equal.
+   * @param options.verifyOffer Decode the offer and check it is unexpired and that `amountMsat`
+   *   agrees with it before asking the mint, then check that the quote is for this offer and, in
+   *   sat, for its amount.
    * @returns The mint will create and return a melt quote for the offer with an amount and fee
    *   reserve.
    */
   async createMeltQuoteBolt12(
     offer: string,
     amountMsat?: AmountLike,
+    options?: { verifyOffer?: boolean },
   ): Promise<MeltQuoteBolt12Response> {
     this.requireSupport('melt', 'bolt12');
     const normalizedAmountMsat =
       amountMsat !== undefined ? this.parseAmount(amountMsat, 'createMeltQuoteBolt12') : undefined;
-    return this.mint.createMeltQuoteBolt12({
+    let expectedMsat: Amount | null = null;
+    let decoded: DecodedBolt12 | undefined;
+    if (options?.verifyOffer) {
+      decoded = this.decodeOfferToPay(offer);
+      expectedMsat = this.bolt12ExpectedMsat(decoded, normalizedAmountMsat);
+    }
+    const meltQuote = await this.mint.createMeltQuoteBolt12({
       unit: this._unit,
       request: offer,
       options: normalizedAmountMsat
@@ -3178,6 +4235,51 @@ class Wallet {
           }
         : undefined,
     });
+    if (decoded) {
+      this.assertMeltQuoteMatchesRequest(meltQuote, decoded.encoded, expectedMsat, 'offer');
+    }
+    return meltQuote;
+  }
+
+  /**
+   * Decodes an offer the wallet is asked to pay, failing unless it is a valid, unexpired offer.
+   */
+  private decodeOfferToPay(offer: string): DecodedBolt12 {
+    let decoded: DecodedBolt12;
+    try {
+      decoded = decodeBolt12(offer);
+    } catch (e) {
+      this.fail('Invalid BOLT12 offer', { e });
+    }
+    this.failIf(decoded.kind !== 'offer', 'Expected a BOLT12 offer', { kind: decoded.kind });
+    const { absoluteExpiry } = decoded.offer;
+    this.failIf(
+      absoluteExpiry !== undefined && absoluteExpiry * 1000 <= Date.now(),
+      'BOLT12 offer has expired',
+      { absoluteExpiry },
+    );
+    return decoded;
+  }
+
+  /**
+   * The millisats a melt of this offer should pay, checking `amountMsat` against the offer.
+   *
+   * @returns `null` when only the mint can price the offer (a fiat currency).
+   */
+  private bolt12ExpectedMsat(decoded: DecodedBolt12, amountMsat?: Amount): Amount | null {
+    const { amount } = decoded.offer;
+    this.failIf(
+      amount === undefined && amountMsat === undefined,
+      'amountMsat is required for an offer without an amount',
+    );
+    const offerMsat = bolt12AmountMsat(decoded);
+    if (offerMsat === null) return amountMsat ?? null;
+    this.failIf(
+      amountMsat !== undefined && !amountMsat.equals(offerMsat),
+      'amountMsat does not match the offer amount',
+      { amountMsat: amountMsat?.toString(), offerMsat: offerMsat.toString() },
+    );
+    return Amount.from(offerMsat);
   }
 
   /**
@@ -3185,20 +4287,41 @@ class Wallet {
    *
    * @param address Bitcoin address to send to.
    * @param amount Amount to melt.
+   * @param options.verifyAddress Decode the address and check it against this policy (network and
+   *   script types) before asking the mint, then check that the quote pays this address. Pass `{}`
+   *   to only require a valid address of a standard script type.
    * @returns Melt quote with fee options.
    * @experimental Onchain support follows NUT-30 semantics and may change.
    */
   async createMeltQuoteOnchain(
     address: string,
     amount: AmountLike,
+    options?: { verifyAddress?: BitcoinAddressPolicy },
   ): Promise<MeltQuoteOnchainResponse> {
     this.requireSupport('melt', 'onchain');
     const normalizedAmount = this.parseAmount(amount, 'createMeltQuoteOnchain');
+    let decoded: DecodedBitcoinAddress | undefined;
+    if (options?.verifyAddress) {
+      try {
+        decoded = assertBitcoinAddress(address, options.verifyAddress);
+      } catch (e) {
+        this.fail((e as Error).message, { address });
+      }
+    }
     const quote = await this.mint.createMeltQuoteOnchain({
       unit: this._unit,
       request: address,
       amount: normalizedAmount,
     });
+    if (decoded) {
+      this.failIf(
+        !!quote.request &&
+          quote.request !== address &&
+          quote.request.toLowerCase() !== decoded.address,
+        'Melt quote request does not match the address',
+        { quote: quote.quote },
+      );
+    }
     return { ...quote, unit: quote.unit || this._unit };
   }
 
@@ -3413,6 +4536,24 @@ class Wallet {
     feeIndex: number,
     config?: MeltProofsConfig,
   ): Promise<MeltProofsResponse<MeltQuoteOnchainResponse>> {
+    const meltTxn = await this._prepareMeltOnchain(meltQuote, proofsToSend, feeIndex, config);
+    return this.completeMelt<MeltQuoteOnchainResponse>(meltTxn, config?.privkey, {
+      extraPayload: { fee_index: feeIndex },
+    });
+  }
+
+  /**
+   * Checks an onchain melt against the selected fee option and prepares it, reserving the inputs.
+   * Complete it with `completeMelt`, passing `fee_index` in `extraPayload`.
+   *
+   * @internal
+   */
+  async _prepareMeltOnchain(
+    meltQuote: MeltQuoteOnchainResponse,
+    proofsToSend: ProofLike[],
+    feeIndex: number,
+    config?: MeltProofsConfig,
+  ): Promise<MeltPreview<MeltQuoteOnchainResponse>> {
     this.requireSupport('melt', 'onchain');
     this.validateMeltQuote(meltQuote);
     // Validate fee_option selection
@@ -3442,12 +4583,7 @@ class Wallet {
       fee_reserve: feeOption.fee_reserve.toString(),
       inputFee: inputFee.toString(),
     });
-    // Perform melt
-    const meltTxn = await this.prepareMelt('onchain', meltQuote, normalizedProofs, config);
-    const response = await this.completeMelt<MeltQuoteOnchainResponse>(meltTxn, config?.privkey, {
-      extraPayload: { fee_index: feeIndex },
-    });
-    return response;
+    return this.prepareMelt('onchain', meltQuote, normalizedProofs, config);
   }
 
   /**
@@ -3559,6 +4695,10 @@ class Wallet {
       outputData = this.createOutputData(0, keyset, meltOT);
     }
 
+    // Reserve the inputs so concurrent operations cannot select them
+    await this.adoptProofs(normalizedProofs);
+    await this.markProofs(normalizedProofs, 'reserved', ['unspent']);
+
     // Create melt preview
     const meltPreview: MeltPreview<TQuote> = {
       method,
@@ -3577,6 +4717,9 @@ class Wallet {
    * @remarks
    * Use with a `MeltPreview` returned from `prepareMelt()`. This method lets you sign P2PK locked
    * proofs before melting. If the payment is pending or unpaid, the change array will be empty.
+   *
+   * With a `journal`, the signed request is recorded before it is sent. A pending melt keeps its
+   * entry, so `recoverPendingOperations()` can collect the change once it settles.
    * @param meltPreview The preview from prepareMelt().
    * @param privkey The private key(s) for signing.
    * @param options Optional override to request NUT-06 asynchronous melt or method-specific fields.
@@ -3585,6 +4728,8 @@ class Wallet {
    * @throws {@link StaleKeysetError} If the mint rejects the outputs' keyset.
    * @throws {@link MeltChangeError} If the melt went through but its change could not be built.
    *   Carries the `outputData` and quote needed to recover the change later.
+   * @throws {@link InvalidPreimageError} If a bolt11 melt is reported paid with a preimage that
+   *   does not match the invoice.
    */
   async completeMelt<TQuote extends Pick<MeltQuoteBaseResponse, 'quote'> = MeltQuoteBaseResponse>(
     meltPreview: MeltPreview<TQuote>,
@@ -3593,29 +4738,54 @@ class Wallet {
   ): Promise<MeltProofsResponse<TQuote>> {
     const completeOptions: CompleteMeltOptions = options ?? {};
 
-    // Extract vars from MeltPreview
-    let inputs = meltPreview.inputs;
-    const outputs = meltPreview.outputData.map((d) => d.blindedMessage);
-    const quote = meltPreview.quote.quote;
-
     // Sign proofs if needed
+    let inputs = meltPreview.inputs;
     if (privkey) {
-      inputs = this.signP2PKProofs(inputs, privkey, meltPreview.outputData, quote);
+      inputs = this.signP2PKProofs(
+        inputs,
+        privkey,
+        meltPreview.outputData,
+        meltPreview.quote.quote,
+      );
     }
 
-    // Prepare proofs for mint
-    inputs = this._prepareInputsForMint(inputs);
-
-    // Construct melt payload. Extension fields must not clobber the prepared request.
+    // Extension fields must not clobber the prepared request.
     const extra = completeOptions.extraPayload;
     if (extra) {
-      // Object.keys mirrors what the spread below copies (own enumerable keys).
+      // Object.keys mirrors what the spread in executeMelt copies (own enumerable keys).
       const owned = ['quote', 'inputs', 'outputs', 'prefer_async'];
       const reserved = Object.keys(extra).filter((k) => owned.includes(k));
       this.failIf(reserved.length > 0, 'extraPayload cannot override reserved melt fields', {
         reserved,
       });
     }
+
+    const signedPreview: MeltPreview<TQuote> = { ...meltPreview, inputs };
+    const journalId = await this.journalRecord((base) => ({
+      ...base,
+      kind: 'melt',
+      preview: serializeMeltPreview(signedPreview),
+      ...(options && { options }),
+    }));
+    return this.executeMelt(signedPreview, completeOptions, journalId);
+  }
+
+  /**
+   * Sends a signed melt, stores the result and builds change. The journal entry, if any, is
+   * completed once the melt is paid or refused.
+   */
+  private async executeMelt<TQuote extends Pick<MeltQuoteBaseResponse, 'quote'>>(
+    meltPreview: MeltPreview<TQuote>,
+    completeOptions: CompleteMeltOptions,
+    journalId?: string,
+  ): Promise<MeltProofsResponse<TQuote>> {
+    // Prepare proofs for mint
+    const inputs = this._prepareInputsForMint(meltPreview.inputs);
+    const outputs = meltPreview.outputData.map((d) => d.blindedMessage);
+    const quote = meltPreview.quote.quote;
+
+    // Construct melt payload
+    const extra = completeOptions.extraPayload;
     const meltPayload: MeltRequest = {
       quote,
       inputs,
@@ -3625,9 +4795,26 @@ class Wallet {
     };
 
     // Execute melt and validate result
-    const meltResponse: MeltQuoteBaseResponse = await this.withStaleKeysetRepair(() =>
-      this.mint.melt<TQuote>(meltPreview.method, meltPayload),
-    );
+    await this.markProofs(meltPreview.inputs, 'pending', ['unspent', 'reserved', 'pending']);
+    let meltResponse: MeltQuoteBaseResponse;
+    try {
+      meltResponse = await this.withStaleKeysetRepair(() =>
+        this.mint.melt<TQuote>(meltPreview.method, meltPayload),
+      );
+    } catch (e) {
+      await this.settleFailedInputs(meltPreview.inputs, e);
+      if (failedInputsState(e)) await this.journalComplete(journalId);
+      throw e;
+    }
+
+    // Inputs are spent once paid and returned once unpaid; pending stays pending.
+    await this.persistAfterMint('completeMelt', async () => {
+      if (meltResponse.state === MeltQuoteState.PAID) {
+        await this.markProofs(meltPreview.inputs, 'spent');
+      } else if (meltResponse.state === MeltQuoteState.UNPAID) {
+        await this.markProofs(meltPreview.inputs, 'unspent', ['pending']);
+      }
+    });
 
     // Merge preview quote with response to protect against incomplete response.
     const mergedQuote = { ...meltPreview.quote, ...meltResponse };
@@ -3649,6 +4836,22 @@ class Wallet {
       throw new MeltChangeError(meltPreview.outputData, mergedQuote, { cause: e });
     }
 
+    await this.persistAfterMint('completeMelt', () => this.storeProofs(change, 'unspent'));
+    if (meltResponse.state !== MeltQuoteState.PENDING) {
+      await this.journalComplete(journalId);
+    }
+    if (meltResponse.state === MeltQuoteState.PAID) {
+      await this.recordHistory(
+        this.meltHistory(meltPreview.method, meltResponse, meltPreview.inputs, change),
+      );
+    }
+
+    if (meltPreview.method === 'bolt11') {
+      // Against the invoice we quoted: the response must not get to choose what it proves
+      const { request } = meltPreview.quote as { request?: unknown };
+      this.assertMeltPreimage(mergedQuote, request, change);
+    }
+
     const changeAmounts = change.map((p) => p.amount.toString());
     if (completeOptions.preferAsync) {
       this._logger.debug('ASYNC MELT REQUESTED', { state: meltResponse.state, changeAmounts });
@@ -3664,6 +4867,38 @@ class Wallet {
     };
   }
 
+  /**
+   * Checks the preimage of a paid bolt11 melt against the payment hash of the quoted invoice.
+   * Skipped when the mint sends no preimage; an invoice that does not decode fails the check.
+   */
+  private assertMeltPreimage(
+    quote: MeltQuoteBaseResponse,
+    request: unknown,
+    change: Proof[],
+  ): void {
+    const { payment_preimage } = quote as { payment_preimage?: string | null };
+    if (quote.state !== MeltQuoteState.PAID || !payment_preimage) return;
+    let decoded: DecodedBolt11 | undefined;
+    try {
+      decoded = typeof request === 'string' ? decodeBolt11(request) : undefined;
+    } catch {
+      decoded = undefined;
+    }
+    if (!decoded) {
+      // The mint reported it paid; without a hash to check against there is no proven mismatch
+      this._logger.warn('Melt preimage not checked: the quoted invoice could not be decoded', {
+        quote: quote.quote,
+      });
+      return;
+    }
+    if (isBolt11Preimage(decoded, payment_preimage)) return;
+    this._logger.error('Melt preimage does not match the invoice payment hash', {
+      quote: quote.quote,
+      paymentHash: decoded.paymentHash,
+    });
+    throw new InvalidPreimageError(quote, change);
+  }
+
   /**
    * Constructs melt change proofs from prepared OutputData and mint returned Change Signatures.
    *
@@ -1,15 +1,17 @@
 import { hashToCurve, hashToCurveBls, isBlsKeyset } from '../crypto';
 import { safeCallback } from '../logger';
-import { CTSError } from '../model/Errors';
-import { MintQuoteState, MeltQuoteState } from '../model/types';
+import { CTSError, isMintOperationError } from '../model/Errors';
+import { CheckStateEnum, MintQuoteState, MeltQuoteState } from '../model/types';
 import type {
   Proof,
   ProofLike,
   ProofState,
   MeltQuoteBolt11Response,
   MintQuoteBolt11Response,
+  RpcSubKinds,
 } from '../model/types';
 import type { KeyChainCache } from '../model/types/keyset';
+import { ABSOLUTE_MAX_BATCH_SIZE } from '../utils/limits';
 
 import { type OperationCounters } from './CounterSource';
 import type { Wallet } from './Wallet';
@@ -20,6 +22,35 @@ export type CancellerLike = SubscriptionCanceller | Promise<SubscriptionCancelle
 
 export type SubscribeOpts = { signal?: AbortSignal };
 
+/**
+ * How {@link WalletEvents} gets quote and proof state updates from the mint.
+ */
+export type WalletEventsOptions = {
+  /**
+   * - `auto` (default) - the NUT-17 WebSocket where the mint advertises the subscription kind for the
+   *   wallet's unit, HTTP polling otherwise.
+   * - `websocket` - always the WebSocket.
+   * - `polling` - always polling.
+   */
+  transport?: 'auto' | 'websocket' | 'polling';
+  /**
+   * Milliseconds between polls, for every kind or by subscription kind. Default 5 000.
+   */
+  pollIntervalMs?: number | Partial<Record<RpcSubKinds, number>>;
+};
+
+// What a polled subscription checks, and when an item stops changing
+type PollSpec<T> = {
+  kind: RpcSubKinds;
+  ids: string[];
+  check: (ids: string[]) => Promise<T[]>;
+  id: (item: T) => string;
+  state: (item: T) => string;
+  settled: (item: T) => boolean;
+};
+
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+
 function safeStringify(obj: unknown): string {
   const seen = new WeakSet<object>();
   try {
@@ -64,7 +95,10 @@ function cancelSafely(c: CancellerLike | null | undefined): void {
 }
 
 export class WalletEvents {
-  constructor(private wallet: Wallet) {}
+  constructor(
+    private wallet: Wallet,
+    private options: WalletEventsOptions = {},
+  ) {}
 
   // Callbacks registered for Counters Reserved events
   private countersReservedHandlers = new Set<(payload: OperationCounters) => void>();
@@ -154,6 +188,93 @@ export class WalletEvents {
     });
   }
 
+  // Whether a subscription of this kind goes over the WebSocket rather than polling
+  private useWebSocket(kind: RpcSubKinds): boolean {
+    const transport = this.options.transport ?? 'auto';
+    if (transport !== 'auto') return transport === 'websocket';
+    const { supported, params } = this.wallet.getMintInfo().isSupported(17);
+    return (
+      supported &&
+      (params ?? []).some(
+        (s) =>
+          s.unit === this.wallet.unit &&
+          s.commands.includes(kind) &&
+          (kind === 'proof_state' || s.method === 'bolt11'),
+      )
+    );
+  }
+
+  private pollInterval(kind: RpcSubKinds): number {
+    const interval = this.options.pollIntervalMs;
+    if (typeof interval === 'number') return interval;
+    return interval?.[kind] ?? DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  // Polls until cancelled, calling cb with the first state of each item and on every change, like
+  // a NUT-17 subscription. Settled items are no longer polled. Errors the mint answers with end
+  // the subscription; network errors are logged and retried on the next poll.
+  private poll<T>(
+    spec: PollSpec<T>,
+    cb: (item: T) => void,
+    err: (e: Error) => void,
+  ): SubscriptionCanceller {
+    const seen = new Map<string, string>();
+    let pending = spec.ids;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const tick = async () => {
+      try {
+        const items = await spec.check(pending);
+        if (stopped) return;
+        for (const item of items) {
+          const id = spec.id(item);
+          const state = spec.state(item);
+          if (seen.get(id) !== state) {
+            seen.set(id, state);
+            try {
+              cb(item);
+            } catch (e) {
+              this.wallet.logger.error('Subscription handler threw', { e });
+            }
+          }
+          if (spec.settled(item)) pending = pending.filter((p) => p !== id);
+        }
+      } catch (e) {
+        if (stopped) return;
+        if (isMintOperationError(e)) {
+          stopped = true;
+          err(normalizeError(e));
+          return;
+        }
+        this.wallet.logger.warn('Polling failed, retrying', { kind: spec.kind, e });
+      }
+      if (!stopped && pending.length > 0) {
+        timer = setTimeout(() => void tick(), this.pollInterval(spec.kind));
+      }
+    };
+    void tick();
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    };
+  }
+
+  // One batched request per chunk where the mint supports NUT-29 for bolt11, else one per quote
+  private async checkMintQuotes(ids: string[]): Promise<MintQuoteBolt11Response[]> {
+    const { supported, params } = this.wallet.getMintInfo().isSupported(29);
+    if (!supported || (params?.methods?.length && !params.methods.includes('bolt11'))) {
+      return Promise.all(ids.map((id) => this.wallet.checkMintQuoteBolt11(id)));
+    }
+    const size = params?.max_batch_size ?? ABSOLUTE_MAX_BATCH_SIZE;
+    const quotes: MintQuoteBolt11Response[] = [];
+    for (let i = 0; i < ids.length; i += size) {
+      quotes.push(...(await this.wallet.mint.checkMintQuoteBatchBolt11(ids.slice(i, i + size))));
+    }
+    return quotes;
+  }
+
   /**
    * Register a callback that fires whenever deterministic counters are reserved.
    *
@@ -240,11 +361,22 @@ export class WalletEvents {
     err: (e: Error) => void,
     opts?: SubscribeOpts,
   ): Promise<SubscriptionCanceller> {
+    const uniq = Array.from(new Set(ids));
+    if (!this.useWebSocket('bolt11_mint_quote')) {
+      const spec: PollSpec<MintQuoteBolt11Response> = {
+        kind: 'bolt11_mint_quote',
+        ids: uniq,
+        check: (pending) => this.checkMintQuotes(pending),
+        id: (q) => q.quote,
+        state: (q) => q.state,
+        settled: (q) => q.state === MintQuoteState.ISSUED,
+      };
+      return this.withAbort(opts?.signal, this.poll(spec, cb, err));
+    }
     await this.wallet.mint.connectWebSocket();
     const ws = this.wallet.mint.webSocketConnection;
     if (!ws) throw new CTSError('Failed to establish WebSocket connection.');
 
-    const uniq = Array.from(new Set(ids));
     const subId = ws.createSubscription({ kind: 'bolt11_mint_quote', filters: uniq }, cb, err);
     const cancel = () => ws.cancelSubscription(subId, cb);
     return this.withAbort(opts?.signal, cancel);
@@ -288,11 +420,22 @@ export class WalletEvents {
     err: (e: Error) => void,
     opts?: SubscribeOpts,
   ): Promise<SubscriptionCanceller> {
+    const uniq = Array.from(new Set(ids));
+    if (!this.useWebSocket('bolt11_melt_quote')) {
+      const spec: PollSpec<MeltQuoteBolt11Response> = {
+        kind: 'bolt11_melt_quote',
+        ids: uniq,
+        check: (pending) => Promise.all(pending.map((id) => this.wallet.checkMeltQuoteBolt11(id))),
+        id: (q) => q.quote,
+        state: (q) => q.state,
+        settled: (q) => q.state === MeltQuoteState.PAID,
+      };
+      return this.withAbort(opts?.signal, this.poll(spec, cb, err));
+    }
     await this.wallet.mint.connectWebSocket();
     const ws = this.wallet.mint.webSocketConnection;
     if (!ws) throw new CTSError('Failed to establish WebSocket connection.');
 
-    const uniq = Array.from(new Set(ids));
     const subId = ws.createSubscription({ kind: 'bolt11_melt_quote', filters: uniq }, cb, err);
     const cancel = () => ws.cancelSubscription(subId, cb);
     return this.withAbort(opts?.signal, cancel);
@@ -341,10 +484,6 @@ export class WalletEvents {
     err: (e: Error) => void,
     opts?: SubscribeOpts,
   ): Promise<SubscriptionCanceller> {
-    await this.wallet.mint.connectWebSocket();
-    const ws = this.wallet.mint.webSocketConnection;
-    if (!ws) throw new CTSError('Failed to establish WebSocket connection.');
-
     const enc = new TextEncoder();
     // Object.create(null) avoids prototype-key collisions: a mint sending
     // payload.Y === '__proto__' (or 'constructor', etc.) would otherwise
@@ -366,6 +505,22 @@ export class WalletEvents {
       if (!proof) return; // ignore unsolicited Y from a misbehaving mint
       cb({ ...payload, proof });
     };
+
+    if (!this.useWebSocket('proof_state')) {
+      const spec: PollSpec<ProofState> = {
+        kind: 'proof_state',
+        ids: ys,
+        check: (pending) => this.wallet.checkProofsStates(pending.map((y) => proofMap[y])),
+        id: (p) => p.Y,
+        state: (p) => p.state,
+        settled: (p) => p.state === CheckStateEnum.SPENT,
+      };
+      return this.withAbort(opts?.signal, this.poll(spec, handler, err));
+    }
+    await this.wallet.mint.connectWebSocket();
+    const ws = this.wallet.mint.webSocketConnection;
+    if (!ws) throw new CTSError('Failed to establish WebSocket connection.');
+
     const subId = ws.createSubscription({ kind: 'proof_state', filters: ys }, handler, err);
     const cancel = () => ws.cancelSubscription(subId, handler);
 
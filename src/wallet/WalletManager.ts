@@ -0,0 +1,262 @@
+import { type Logger, NULL_LOGGER } from '../logger';
+import { Amount, type AmountLike } from '../model/Amount';
+import { CTSError } from '../model/Errors';
+import { type PaymentRequest } from '../model/PaymentRequest';
+import type { Proof } from '../model/types/proof';
+import type { Token } from '../model/types/token';
+import { getTokenMetadata, normalizeMintUrl } from '../utils';
+
+import { type CounterSource, EphemeralCounterSource } from './CounterSource';
+import { type OperationJournal } from './OperationJournal';
+import { type ProofStore } from './ProofStore';
+import { type MultiMintBalance, type ReceiveConfig, type WalletBalance } from './types';
+import { Wallet } from './Wallet';
+
+/**
+ * Options for {@link WalletManager}.
+ */
+export type WalletManagerOptions = {
+  /**
+   * BIP39 seed shared by every wallet, for deterministic secrets.
+   */
+  bip39seed?: Uint8Array;
+  /**
+   * Counter source shared by every wallet. Counters are keyed by keyset id, which is unique per
+   * mint, so one source serves all of them. Default: an in memory source.
+   */
+  counterSource?: CounterSource;
+  /**
+   * Proof store shared by every wallet. Required for balances and payment routing.
+   */
+  proofStore?: ProofStore;
+  /**
+   * Operation journal shared by every wallet.
+   */
+  journal?: OperationJournal;
+  /**
+   * Create a wallet on the fly when `receive()` meets a token from an unknown mint. Default false:
+   * receiving from a mint you did not add throws.
+   */
+  autoAddMints?: boolean;
+  /**
+   * Further options passed to each `Wallet`.
+   */
+  walletOptions?: Omit<
+    NonNullable<ConstructorParameters<typeof Wallet>[1]>,
+    'unit' | 'bip39seed' | 'counterSource' | 'counterInit' | 'proofStore' | 'journal' | 'logger'
+  >;
+  logger?: Logger;
+};
+
+/**
+ * A mint chosen by {@link WalletManager.selectMintForRequest}.
+ */
+export type PaymentRequestMintSelection = {
+  wallet: Wallet;
+  mintUrl: string;
+  /**
+   * Amount to send from this mint, including the request's fee for mints outside its list.
+   */
+  amount: Amount;
+  /**
+   * Unspent balance at this mint in the request unit.
+   */
+  available: Amount;
+};
+
+/**
+ * Owns one {@link Wallet} per mint and unit.
+ *
+ * @remarks
+ * Wallets are keyed by normalized mint URL and unit, created on first use and loaded once. They
+ * share the seed, counter source, proof store and journal given here.
+ * @example
+ *
+ *     const manager = new WalletManager({ bip39seed, proofStore, counterSource });
+ *     await manager.getWallet('https://mint-a.example');
+ *     await manager.getWallet('https://mint-b.example');
+ *     await manager.receive(token);
+ *     const { total, byMint } = await manager.balance('sat');
+ */
+export class WalletManager {
+  private readonly wallets = new Map<string, Promise<Wallet>>();
+  private readonly counterSource: CounterSource;
+  private readonly logger: Logger;
+
+  constructor(private readonly options: WalletManagerOptions = {}) {
+    this.counterSource = options.counterSource ?? new EphemeralCounterSource();
+    this.logger = options.logger ?? NULL_LOGGER;
+  }
+
+  /**
+   * The shared proof store, if any.
+   */
+  get proofStore(): ProofStore | undefined {
+    return this.options.proofStore;
+  }
+
+  /**
+   * Returns the wallet for a mint and unit, creating and loading it on first use.
+   *
+   * @param mintUrl Mint URL, normalized before lookup.
+   * @param unit Wallet unit, default 'sat'.
+   */
+  getWallet(mintUrl: string, unit = 'sat'): Promise<Wallet> {
+    const url = normalizeMintUrl(mintUrl);
+    const key = walletKey(url, unit);
+    let wallet = this.wallets.get(key);
+    if (!wallet) {
+      wallet = this.createWallet(url, unit);
+      this.wallets.set(key, wallet);
+      // A failed load must not poison later attempts
+      const pending = wallet;
+      void pending.catch(() => {
+        if (this.wallets.get(key) === pending) this.wallets.delete(key);
+      });
+    }
+    return wallet;
+  }
+
+  /**
+   * Whether a wallet for this mint and unit was added.
+   */
+  hasWallet(mintUrl: string, unit = 'sat'): boolean {
+    return this.wallets.has(walletKey(normalizeMintUrl(mintUrl), unit));
+  }
+
+  /**
+   * Forgets the wallet for this mint and unit. Stored proofs are kept.
+   */
+  removeWallet(mintUrl: string, unit = 'sat'): boolean {
+    return this.wallets.delete(walletKey(normalizeMintUrl(mintUrl), unit));
+  }
+
+  /**
+   * All loaded wallets, optionally of one unit only.
+   */
+  async getWallets(unit?: string): Promise<Wallet[]> {
+    const settled = await Promise.allSettled(this.wallets.values());
+    return settled
+      .filter((r): r is PromiseFulfilledResult<Wallet> => r.status === 'fulfilled')
+      .map((r) => r.value)
+      .filter((w) => unit === undefined || w.unit === unit);
+  }
+
+  /**
+   * Balance of one unit across all wallets.
+   *
+   * @throws If the manager has no `proofStore`.
+   */
+  async balance(unit = 'sat'): Promise<MultiMintBalance> {
+    this.requireProofStore();
+    const wallets = await this.getWallets(unit);
+    const byMint: Record<string, WalletBalance> = {};
+    let total = Amount.zero();
+    let reserved = Amount.zero();
+    let pending = Amount.zero();
+    for (const wallet of wallets) {
+      const b = await wallet.balance();
+      byMint[wallet.mint.mintUrl] = b;
+      total = total.add(b.total);
+      reserved = reserved.add(b.reserved);
+      pending = pending.add(b.pending);
+    }
+    return { unit, total, reserved, pending, byMint };
+  }
+
+  /**
+   * Receives a token with the wallet of its mint and unit.
+   *
+   * @param token Encoded token or decoded Token.
+   * @param config Passed to `wallet.receive`.
+   * @returns The new proofs.
+   * @throws If the token's mint was not added and `autoAddMints` is off.
+   */
+  async receive(token: string | Token, config?: ReceiveConfig): Promise<Proof[]> {
+    const { mint, unit } =
+      typeof token === 'string' ? getTokenMetadata(token) : { mint: token.mint, unit: token.unit };
+    const tokenUnit = unit || 'sat';
+    if (!this.options.autoAddMints && !this.hasWallet(mint, tokenUnit)) {
+      throw new CTSError(
+        `No wallet for mint ${mint} (${tokenUnit}); add it with getWallet() or set autoAddMints`,
+      );
+    }
+    const wallet = await this.getWallet(mint, tokenUnit);
+    return wallet.receive(token, config);
+  }
+
+  /**
+   * Picks the mint to pay a NUT-18 payment request from.
+   *
+   * @remarks
+   * Considers loaded wallets in the request unit. A strict mint list limits the choice to listed
+   * mints. Each candidate's amount is what `PaymentRequest.amountToSend` gives, so mints outside
+   * the list carry the request's fee (`PaymentRequest.feesFor`). Prefers the cheapest amount, then
+   * the larger balance, and skips mints whose unspent balance cannot cover it (input fees are not
+   * counted).
+   * @param pr The payment request.
+   * @param amount Amount to pay for amountless requests; ignored when the request sets one.
+   * @returns The chosen mint, or undefined if none can pay.
+   * @throws If the manager has no `proofStore`, or the request is amountless and no amount is
+   *   given.
+   */
+  async selectMintForRequest(
+    pr: PaymentRequest,
+    amount?: AmountLike,
+  ): Promise<PaymentRequestMintSelection | undefined> {
+    this.requireProofStore();
+    const base = pr.amount ?? (amount !== undefined ? Amount.from(amount) : undefined);
+    if (!base) {
+      throw new CTSError('amountless payment request: pass the amount to pay');
+    }
+    const unit = pr.unit ?? 'sat';
+    let wallets = await this.getWallets(unit);
+    if (pr.isMintListStrict) {
+      wallets = wallets.filter((w) => pr.includesMint(w.mint.mintUrl));
+    }
+    const candidates: PaymentRequestMintSelection[] = [];
+    for (const wallet of wallets) {
+      const mintUrl = wallet.mint.mintUrl;
+      const meltMethods = wallet
+        .getMintInfo()
+        .supportedMethods('melt')
+        .filter((m) => m.unit === unit)
+        .map((m) => m.method);
+      const needed = pr.amount
+        ? pr.amountToSend(mintUrl, meltMethods)
+        : base.add(pr.feesFor(mintUrl, meltMethods));
+      const { total } = await wallet.balance();
+      if (total.compareTo(needed) < 0) {
+        this.logger.debug('selectMintForRequest: insufficient funds', { mintUrl });
+        continue;
+      }
+      candidates.push({ wallet, mintUrl, amount: needed, available: total });
+    }
+    candidates.sort((a, b) => a.amount.compareTo(b.amount) || b.available.compareTo(a.available));
+    return candidates[0];
+  }
+
+  private async createWallet(mintUrl: string, unit: string): Promise<Wallet> {
+    const wallet = new Wallet(mintUrl, {
+      ...this.options.walletOptions,
+      unit,
+      bip39seed: this.options.bip39seed,
+      counterSource: this.counterSource,
+      proofStore: this.options.proofStore,
+      journal: this.options.journal,
+      logger: this.logger,
+    });
+    await wallet.loadMint();
+    return wallet;
+  }
+
+  private requireProofStore(): void {
+    if (!this.options.proofStore) {
+      throw new CTSError('WalletManager has no proofStore configured');
+    }
+  }
+}
+
+function walletKey(mintUrl: string, unit: string): string {
+  return `${unit} ${mintUrl}`;
+}
@@ -12,9 +12,11 @@ import {
   type MintQuoteBolt11Response,
   type MintQuoteOnchainResponse,
 } from '../model/types';
-import type { ProofLike } from '../model/types/proof';
+import type { Proof, ProofLike } from '../model/types/proof';
 import type { Token } from '../model/types/token';
+import { assertBitcoinAddress, sumProofs, type BitcoinAddressPolicy } from '../utils';
 
+import { type SpendingPreview } from './SpendingPolicy';
 import {
   type OutputType,
   type OutputConfig,
@@ -374,7 +376,11 @@ export class SendBuilder {
   /**
    * Execute the send.
    *
+   * @remarks
+   * With a wallet `spendingPolicy`, online sends always swap, and the policy checks the prepared
+   * swap before it reaches the mint.
    * @returns The split result with kept and sent proofs.
+   * @throws {@link SpendingPolicyError} If the wallet's spending policy refuses the send.
    */
   async run() {
     // If an offline mode is requested, forbid custom OutputTypes,
@@ -391,11 +397,13 @@ export class SendBuilder {
       if (this.config.privkey) {
         this.proofs = this.wallet.signP2PKProofs(this.proofs, this.config.privkey);
       }
-      return this.wallet.sendOffline(this.amount, this.proofs, {
+      const res = this.wallet.sendOffline(this.amount, this.proofs, {
         includeFees: this.config.includeFees,
         exactMatch: true,
         requireDleq: this.offlineExact.requireDleq,
       });
+      await this.recordOffline(res.send);
+      return res;
     }
 
     // Offline close match, may overshoot
@@ -404,11 +412,13 @@ export class SendBuilder {
       if (this.config.privkey) {
         this.proofs = this.wallet.signP2PKProofs(this.proofs, this.config.privkey);
       }
-      return this.wallet.sendOffline(this.amount, this.proofs, {
+      const res = this.wallet.sendOffline(this.amount, this.proofs, {
         includeFees: this.config.includeFees,
         exactMatch: false,
         requireDleq: this.offlineClose.requireDleq,
       });
+      await this.recordOffline(res.send);
+      return res;
     }
 
     // Construct an OutputConfig using default send if no customizations
@@ -416,7 +426,38 @@ export class SendBuilder {
       send: this.sendOT ?? this.wallet.defaultOutputType(),
       ...(this.keepOT ? { keep: this.keepOT } : {}),
     };
-    return this.wallet.send(this.amount, this.proofs, this.config, outputConfig);
+    const policy = this.wallet.spendingPolicy;
+    if (!policy) {
+      return this.wallet.send(this.amount, this.proofs, this.config, outputConfig);
+    }
+
+    // Under a spending policy, always swap so the policy sees the final amount and fees
+    const swap = await this.wallet.prepareSwapToSend(
+      this.amount,
+      this.proofs,
+      this.config,
+      outputConfig,
+    );
+    return policy._guard(
+      { ...this.spending(swap.amount, swap.fees), swap },
+      () => this.wallet.completeSwap(swap, this.config.privkey),
+      () => releaseReserved(this.wallet, swap.inputs),
+    );
+  }
+
+  private async recordOffline(send: Proof[]) {
+    const record = () => this.wallet._recordOfflineSend(this.proofs, send);
+    const policy = this.wallet.spendingPolicy;
+    if (!policy) {
+      return record();
+    }
+    // Anything above the amount, eg: an overshooting close match, counts as fee
+    const fee = sumProofs(send).subtract(this.amount);
+    return policy._guard({ ...this.spending(this.amount, fee), send }, record);
+  }
+
+  private spending(amount: Amount, fee: Amount): SpendingPreview {
+    return { kind: 'send', mintUrl: this.wallet.mint.mintUrl, unit: this.wallet.unit, amount, fee };
   }
 }
 
@@ -947,8 +988,10 @@ export class MeltBuilder<
    * Execute the melt against the quote.
    *
    * @remarks
-   * Builders are single use: run a fresh one after a `StaleKeysetError` with `repaired` true.
+   * Builders are single use: run a fresh one after a `StaleKeysetError` with `repaired` true. With
+   * a wallet `spendingPolicy`, the policy checks the prepared melt before it reaches the mint.
    * @returns The melt result: `{ quote, change, outputData }`.
+   * @throws {@link SpendingPolicyError} If the wallet's spending policy refuses the melt.
    */
   async run(): Promise<MeltProofsResponse<TQuote>> {
     // Step 1, preview and allocate NUT-08 blanks
@@ -961,7 +1004,20 @@ export class MeltBuilder<
     );
 
     // Step 2, sign if needed and complete the melt
-    return this.wallet.completeMelt(preview, this.config.privkey);
+    const complete = () => this.wallet.completeMelt(preview, this.config.privkey);
+    const policy = this.wallet.spendingPolicy;
+    if (!policy) {
+      return complete();
+    }
+    const { fee_reserve } = this.quote as Pick<MeltQuoteBaseResponse, 'fee_reserve'>;
+    return policy._guard(
+      {
+        ...meltSpending(this.wallet, this.method, this.quote.amount, fee_reserve, preview.inputs),
+        melt: preview,
+      },
+      complete,
+      () => releaseReserved(this.wallet, preview.inputs),
+    );
   }
 }
 
@@ -976,10 +1032,11 @@ export class MeltBuilder<
  * // Basic onchain melt (1 fee option)
  * const result = await wallet.ops.meltOnchain(quote, proofs).privkey('sk').run();
  *
- * // with custom keyset ID and selected fee option
+ * // with custom keyset ID, a mainnet-only address check and selected fee option
  * await wallet.ops
  *   .meltOnchain(quote, proofs)
  *   .keyset('01abc...')
+ *   .verifyAddress({ network: 'mainnet' })
  *   .privkey('sk')
  *   .feeIndex(0)
  *   .run();
@@ -990,6 +1047,7 @@ export class MeltBuilder<
 export class MeltOnchainBuilder {
   private config: MeltProofsConfig = {};
   private selectedFeeIndex?: number;
+  private addressPolicy?: BitcoinAddressPolicy;
 
   constructor(
     private wallet: Wallet,
@@ -1027,13 +1085,30 @@ export class MeltOnchainBuilder {
     return this;
   }
 
+  /**
+   * Check the quote's destination address before melting.
+   *
+   * @param policy Network and script types to allow. By default any valid address of a standard
+   *   script type.
+   */
+  verifyAddress(policy: BitcoinAddressPolicy = {}) {
+    this.addressPolicy = policy;
+    return this;
+  }
+
   /**
    * Execute the onchain melt against the quote.
    *
    * @returns The melt result: `{ quote, change, outputData }`. Use `outputData` with the polled
    *   quote's `change` to unblind deferred change after broadcast.
+   * @throws {@link CTSError} If `verifyAddress()` was set and the address fails it.
+   * @throws {@link SpendingPolicyError} If the wallet's spending policy refuses the melt.
    */
   async run(): Promise<MeltProofsResponse<MeltQuoteOnchainResponse>> {
+    if (this.addressPolicy) {
+      assertBitcoinAddress(this.quote.request, this.addressPolicy);
+    }
+
     // Ensure fee_option is selected if there is only one
     if (this.selectedFeeIndex === undefined && this.quote.fee_options.length === 1) {
       this.selectedFeeIndex = this.quote.fee_options[0].fee_index;
@@ -1043,11 +1118,58 @@ export class MeltOnchainBuilder {
       throw new Error('feeIndex is required when an onchain melt quote has multiple fee options');
     }
 
-    return this.wallet.meltProofsOnchain(
+    const feeIndex = this.selectedFeeIndex;
+    const policy = this.wallet.spendingPolicy;
+    if (!policy) {
+      return this.wallet.meltProofsOnchain(this.quote, this.proofs, feeIndex, this.config);
+    }
+    const preview = await this.wallet._prepareMeltOnchain(
       this.quote,
       this.proofs,
-      this.selectedFeeIndex,
+      feeIndex,
       this.config,
     );
+    const complete = () =>
+      this.wallet.completeMelt<MeltQuoteOnchainResponse>(preview, this.config.privkey, {
+        extraPayload: { fee_index: feeIndex },
+      });
+    const feeOption = this.quote.fee_options.find((o) => o.fee_index === feeIndex);
+    return policy._guard(
+      {
+        ...meltSpending(
+          this.wallet,
+          'onchain',
+          this.quote.amount,
+          feeOption?.fee_reserve,
+          preview.inputs,
+        ),
+        melt: preview,
+      },
+      complete,
+      () => releaseReserved(this.wallet, preview.inputs),
+    );
+  }
+}
+
+function meltSpending(
+  wallet: Wallet,
+  method: string,
+  amount: Amount,
+  feeReserve: Amount | undefined,
+  inputs: Proof[],
+): SpendingPreview {
+  return {
+    kind: 'melt',
+    mintUrl: wallet.mint.mintUrl,
+    unit: wallet.unit,
+    method,
+    amount,
+    fee: wallet.getFeesForProofs(inputs).add(feeReserve ?? 0),
+  };
+}
+
+async function releaseReserved(wallet: Wallet, inputs: Proof[]) {
+  if (wallet.proofStore) {
+    await wallet.releaseProofs(inputs);
   }
 }
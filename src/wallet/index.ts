@@ -2,10 +2,21 @@ export * from './types';
 export * from './CounterSource';
 export * from './KeyChain';
 export * from './Keyset';
+export * from './LightningAddress';
+export * from './MintTransfer';
+export * from './MultiPathMelt';
+export * from './OperationJournal';
 export * from './P2PKBuilder';
+export * from './PayingFetch';
+export * from './Paywall';
+export * from './ProofReconciler';
+export * from './ProofStore';
 export * from './SelectProofs';
+export * from './SpendingPolicy';
 export * from './SwapPreview';
+export * from './TransactionHistory';
 export * from './Wallet';
 export * from './WalletCounters';
 export * from './WalletEvents';
+export * from './WalletManager';
 export * from './WalletOps';
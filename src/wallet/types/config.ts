@@ -175,6 +175,39 @@ export type ReceiveConfig = {
   onCountersReserved?: OnCountersReserved;
 };
 
+/**
+ * Configuration for consolidating proofs.
+ */
+export type ConsolidateConfig = {
+  keysetId?: string;
+  privkey?: string | string[];
+  /**
+   * Prepare the swap even when it does not pay for itself.
+   */
+  force?: boolean;
+  onCountersReserved?: OnCountersReserved;
+};
+
+/**
+ * Configuration for reclaiming a sent token.
+ */
+export type ReclaimConfig = {
+  keysetId?: string;
+  /**
+   * Key(s) for P2PK-locked proofs: the refund key once `locktime` has passed.
+   */
+  privkey?: string | string[];
+  /**
+   * Wait this many milliseconds before reclaiming, eg: to give the recipient a day to claim.
+   */
+  afterMs?: number;
+  /**
+   * Cancels a reclaim still waiting for `afterMs`.
+   */
+  signal?: AbortSignal;
+  onCountersReserved?: OnCountersReserved;
+};
+
 /**
  * Configuration for minting operations.
  */
@@ -163,3 +163,60 @@ export type SwapPreview = {
    */
   unselectedProofs?: Proof[];
 };
+
+/**
+ * Plan from `wallet.prepareConsolidation`, with the fees it saves and costs.
+ *
+ * @remarks
+ * Spend fees are the input fees of spending every proof at once, before and after the swap.
+ */
+export type ConsolidationPreview = {
+  /**
+   * Whether the swap pays for itself: it saves more in spend fees than it costs, or it is free and
+   * leaves fewer proofs or moves proofs off inactive keysets.
+   */
+  worthwhile: boolean;
+  /**
+   * Proofs the swap replaces: surplus denominations, and proofs on inactive or pricier keysets.
+   */
+  inputs: Proof[];
+  swapFee: Amount;
+  spendFeeBefore: Amount;
+  spendFeeAfter: Amount;
+  proofCountBefore: number;
+  proofCountAfter: number;
+  /**
+   * The prepared swap, when worthwhile or forced. Complete it with `wallet.completeSwap`.
+   */
+  swap?: SwapPreview;
+};
+
+/**
+ * Outcome of reclaiming a sent token.
+ */
+export type ReclaimResult = {
+  /**
+   * Fresh proofs from swapping the reclaimed ones.
+   */
+  proofs: Proof[];
+  /**
+   * Token proofs that were still unspent and have been swapped back.
+   */
+  reclaimed: Proof[];
+  /**
+   * Token proofs the recipient already claimed.
+   */
+  spent: Proof[];
+  /**
+   * Token proofs the mint holds as pending, eg: in a melt by the recipient.
+   */
+  pending: Proof[];
+  /**
+   * Unspent token proofs the given keys cannot unlock yet.
+   */
+  locked: Proof[];
+  /**
+   * Earliest `locktime` (unix seconds) after which a locked proof falls to its refund path, if any.
+   */
+  unlocksAt?: number;
+};
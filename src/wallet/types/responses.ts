@@ -1,5 +1,7 @@
+import type { Amount } from '../../model/Amount';
 import type { OutputDataLike } from '../../model/OutputData';
 import type { MeltQuoteBaseResponse, Proof } from '../../model/types';
+import type { JournalOperationKind } from '../OperationJournal';
 
 /**
  * Response after melting proofs.
@@ -38,3 +40,72 @@ export type SendResponse = {
   send: Proof[];
   serialized?: Array<{ proof: Proof; keep: boolean }>;
 };
+
+/**
+ * Wallet balance derived from its proof store.
+ */
+export type WalletBalance = {
+  unit: string;
+  /**
+   * Spendable total: sum of `unspent` proofs.
+   */
+  total: Amount;
+  /**
+   * Spendable amount per keyset id.
+   */
+  byKeyset: Record<string, Amount>;
+  /**
+   * Locked by prepared operations that have not reached the mint yet.
+   */
+  reserved: Amount;
+  /**
+   * Awaiting the mint or an unclaimed recipient.
+   */
+  pending: Amount;
+};
+
+/**
+ * Balance of one unit across the wallets of a `WalletManager`.
+ */
+export type MultiMintBalance = {
+  unit: string;
+  total: Amount;
+  reserved: Amount;
+  pending: Amount;
+  /**
+   * Per mint balance, keyed by normalized mint URL.
+   */
+  byMint: Record<string, WalletBalance>;
+};
+
+/**
+ * Result of recovering one journaled operation with `wallet.recoverPendingOperations()`.
+ */
+export type RecoveredOperation = {
+  /**
+   * Journal entry id.
+   */
+  id: string;
+  kind: JournalOperationKind;
+  /**
+   * - `completed`: the mint processed the operation; new proofs are in `proofs`.
+   * - `rolled-back`: the mint never processed it; inputs are unspent again (or the quote is still
+   *   mintable).
+   * - `pending`: the mint reports it in progress; the entry is kept for a later attempt.
+   * - `abandoned`: the inputs are spent but no outputs could be recovered.
+   * - `failed`: recovery itself failed, eg: the mint was unreachable; the entry is kept.
+   */
+  outcome: 'completed' | 'rolled-back' | 'pending' | 'abandoned' | 'failed';
+  /**
+   * Proofs recovered from the mint: kept swap outputs, minted proofs or melt change.
+   */
+  proofs: Proof[];
+  /**
+   * Swap outputs meant for the recipient. Stored as `pending`, as `completeSwap` would have.
+   */
+  send?: Proof[];
+  /**
+   * Set when `outcome` is `failed`.
+   */
+  error?: unknown;
+};
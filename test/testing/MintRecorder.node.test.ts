@@ -0,0 +1,74 @@
+import * as fs from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, expect, test } from 'vitest';
+
+import { NetworkError, Wallet, injectWebSocketImpl } from '../../src';
+import {
+  MintRecorder,
+  ReplayMismatchError,
+  TestMint,
+  createTestWebSocket,
+  type MintFixture,
+} from '../../src/testing';
+
+const bip39seed = new Uint8Array(64).fill(1);
+
+// Mints, waits for payment over NUT-17 and swaps, the same way on every run
+async function flow(recorder: MintRecorder, pay?: (request: string) => void) {
+  injectWebSocketImpl(recorder.webSocket);
+  const wallet = new Wallet('http://mint.test', { requestFetch: recorder.fetch, bip39seed });
+  await wallet.loadMint();
+  const quote = await wallet.createMintQuoteBolt11(8);
+  const paid = wallet.on.onceMintPaid(quote.quote, { timeoutMs: 2_000 });
+  pay?.(quote.request);
+  await paid;
+  const proofs = await wallet.mintProofsBolt11(8, quote.quote);
+  const { send } = await wallet.send(3, proofs);
+  wallet.mint.disconnectWebSocket();
+  return send.map((p) => p.secret);
+}
+
+async function record(): Promise<{ fixture: MintFixture; secrets: string[] }> {
+  const mint = new TestMint('http://mint.test');
+  const recorder = MintRecorder.record({
+    fetch: mint.fetch,
+    webSocket: createTestWebSocket(mint),
+  });
+  const secrets = await flow(recorder, (request) => setTimeout(() => mint.lightning.pay(request)));
+  return { fixture: recorder.fixture, secrets };
+}
+
+describe('MintRecorder', () => {
+  test('replays a recorded conversation from a fixture file', async () => {
+    const { fixture, secrets } = await record();
+    expect(fixture.exchanges.map((e) => `${e.method} ${e.path}`)).toContain('POST /v1/swap');
+    expect(fixture.sockets).toHaveLength(1);
+    expect(fixture.sockets[0].frames.map((f) => f.direction)).toContain('receive');
+
+    const dir = await fs.mkdtemp(join(tmpdir(), 'cashu-recorder-'));
+    const path = join(dir, 'fixture.json');
+    await MintRecorder.replay(fixture).save(path, fs);
+    const replay = await MintRecorder.load(path, fs);
+
+    expect(await flow(replay)).toEqual(secrets);
+    expect(() => replay.assertDone()).not.toThrow();
+    await fs.rm(dir, { recursive: true });
+  });
+
+  test('fails loudly on requests the fixture does not have', async () => {
+    const { fixture } = await record();
+    const replay = MintRecorder.replay(fixture);
+    const wallet = new Wallet('http://mint.test', { requestFetch: replay.fetch, bip39seed });
+    await wallet.loadMint();
+
+    const err = await wallet.createMintQuoteBolt11(21).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(NetworkError);
+    expect((err as NetworkError).cause).toBeInstanceOf(ReplayMismatchError);
+    expect(() => replay.assertDone()).toThrow(
+      /Unexpected request: POST http:\/\/mint\.test\/v1\/mint\/quote\/bolt11[\s\S]*Unused recording: POST http:\/\/mint\.test\/v1\/swap/,
+    );
+    expect(() => MintRecorder.replay({ version: 2 } as never)).toThrow('unsupported version');
+  });
+});
@@ -0,0 +1,242 @@
+import { schnorr } from '@noble/curves/secp256k1.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import { describe, expect, test } from 'vitest';
+
+import {
+  CheckStateEnum,
+  HttpResponseError,
+  MeltQuoteState,
+  Mint,
+  MintOperationError,
+  MintQuoteState,
+  Wallet,
+  getEncodedToken,
+  injectWebSocketImpl,
+  transferBetweenMints,
+  type Proof,
+  sumProofs,
+} from '../../src';
+import { FakeLightning, TestMint, createTestWebSocket } from '../../src/testing';
+
+const privkeyBytes = new Uint8Array(32).fill(7);
+const privkey = bytesToHex(privkeyBytes);
+const pubkey = '02' + bytesToHex(schnorr.getPublicKey(privkeyBytes));
+
+async function setup(options: ConstructorParameters<typeof TestMint>[1] = {}) {
+  const mint = new TestMint('http://mint.test', options);
+  injectWebSocketImpl(createTestWebSocket(mint));
+  const wallet = new Wallet(mint.url, { requestFetch: mint.fetch });
+  await wallet.loadMint();
+  return { mint, wallet };
+}
+
+async function fund(mint: TestMint, wallet: Wallet, amount: number): Promise<Proof[]> {
+  const quote = await wallet.createMintQuoteBolt11(amount);
+  mint.lightning.pay(quote.request);
+  return wallet.mintProofsBolt11(amount, quote);
+}
+
+describe('TestMint', () => {
+  test('mints bolt11 quotes once the invoice is paid', async () => {
+    const { mint, wallet } = await setup();
+    const quote = await wallet.createMintQuoteBolt11(100);
+    expect(quote.state).toBe(MintQuoteState.UNPAID);
+    await expect(wallet.mintProofsBolt11(100, quote)).rejects.toMatchObject({ code: 20001 });
+
+    mint.lightning.pay(quote.request);
+    expect((await wallet.checkMintQuoteBolt11(quote.quote)).state).toBe(MintQuoteState.PAID);
+    const proofs = await wallet.mintProofsBolt11(100, quote);
+    expect(sumProofs(proofs).toNumber()).toBe(100);
+    expect(proofs.every((p) => p.dleq)).toBe(true);
+    expect((await wallet.checkMintQuoteBolt11(quote.quote)).state).toBe(MintQuoteState.ISSUED);
+    await expect(wallet.mintProofsBolt11(100, quote)).rejects.toMatchObject({ code: 20002 });
+  });
+
+  test('swaps, sends and rejects double spends', async () => {
+    const { mint, wallet } = await setup();
+    const proofs = await fund(mint, wallet, 64);
+    const { send, keep } = await wallet.send(10, proofs);
+    expect(sumProofs(send).toNumber()).toBe(10);
+    expect(sumProofs(keep).toNumber()).toBe(54);
+
+    const token = getEncodedToken({ mint: mint.url, proofs: send });
+    const received = await wallet.receive(token);
+    expect(sumProofs(received).toNumber()).toBe(10);
+    await expect(wallet.receive(token)).rejects.toMatchObject({ code: 11001 });
+    const states = await wallet.checkProofsStates([...proofs, ...received]);
+    expect(states.map((s) => s.state)).toEqual([
+      CheckStateEnum.SPENT,
+      ...received.map(() => CheckStateEnum.UNSPENT),
+    ]);
+  });
+
+  test('charges input fees', async () => {
+    const { mint, wallet } = await setup({ inputFeePpk: 600 });
+    const proofs = await fund(mint, wallet, 8);
+    const { send, keep } = await wallet.send(4, proofs, { includeFees: true });
+    expect(sumProofs(send).toNumber() + sumProofs(keep).toNumber()).toBe(7);
+  });
+
+  test('enforces P2PK locks', async () => {
+    const { mint, wallet } = await setup();
+    const proofs = await fund(mint, wallet, 16);
+    const { send } = await wallet.send(8, proofs, undefined, {
+      send: { type: 'p2pk', options: { kind: 'P2PK', data: pubkey } },
+    });
+    const token = getEncodedToken({ mint: mint.url, proofs: send });
+    await expect(wallet.receive(token)).rejects.toMatchObject({ code: 10003 });
+    expect(sumProofs(await wallet.receive(token, { privkey })).toNumber()).toBe(8);
+  });
+
+  test('melts and returns the unused fee reserve as change', async () => {
+    const { mint, wallet } = await setup();
+    const proofs = await fund(mint, wallet, 128);
+    const payee = new FakeLightning({ paymentNetwork: mint.lightning.paymentNetwork });
+    const invoice = payee.createInvoice(50);
+    const quote = await wallet.createMeltQuoteBolt11(invoice);
+    expect(quote.fee_reserve.toNumber()).toBe(2);
+
+    const { send } = await wallet.send(52, proofs, { includeFees: true });
+    const res = await wallet.meltProofsBolt11(quote, send);
+    expect(res.quote.state).toBe(MeltQuoteState.PAID);
+    expect(res.quote.payment_preimage).toBe(payee.lookup(invoice)!.preimage);
+    expect(sumProofs(res.change).toNumber()).toBe(sumProofs(send).toNumber() - 50);
+    await expect(wallet.meltProofsBolt11(quote, send)).rejects.toMatchObject({ code: 20006 });
+  });
+
+  test('reveals preimages only to nodes on the same network', () => {
+    const payee = new FakeLightning();
+    const invoice = payee.createInvoice(10);
+    const peer = new FakeLightning({ paymentNetwork: payee.paymentNetwork });
+    const stranger = new FakeLightning();
+    const onSettle = () => {};
+    expect(peer.send(invoice, 10, onSettle).preimage).toBe(payee.lookup(invoice)!.preimage);
+    expect(stranger.send(invoice, 10, onSettle).preimage).not.toBe(payee.lookup(invoice)!.preimage);
+  });
+
+  test('releases the inputs of a failed melt', async () => {
+    const { mint, wallet } = await setup();
+    const proofs = await fund(mint, wallet, 64);
+    const invoice = mint.lightning.createInvoice(20);
+    mint.lightning.setOutcome(invoice, 'failed');
+    const quote = await wallet.createMeltQuoteBolt11(invoice);
+
+    await expect(wallet.meltProofsBolt11(quote, proofs)).rejects.toMatchObject({ code: 20004 });
+    const states = await wallet.checkProofsStates(proofs);
+    expect(states.every((s) => s.state === CheckStateEnum.UNSPENT)).toBe(true);
+    expect((await wallet.checkMeltQuoteBolt11(quote.quote)).state).toBe(MeltQuoteState.UNPAID);
+  });
+
+  test('keeps a melt pending until the payment settles', async () => {
+    const { mint, wallet } = await setup();
+    const proofs = await fund(mint, wallet, 64);
+    mint.lightning.outgoing = 'pending';
+    const quote = await wallet.createMeltQuoteBolt11(mint.lightning.createInvoice(20));
+
+    const res = await wallet.meltProofsBolt11(quote, proofs);
+    expect(res.quote.state).toBe(MeltQuoteState.PENDING);
+    expect((await wallet.checkProofsStates(proofs))[0].state).toBe(CheckStateEnum.PENDING);
+    await expect(wallet.send(1, proofs)).rejects.toMatchObject({ code: 20005 });
+
+    mint.lightning.settle(quote.request, 'paid');
+    const settled = await wallet.checkMeltQuoteBolt11(quote.quote);
+    expect(settled.state).toBe(MeltQuoteState.PAID);
+    expect((await wallet.checkProofsStates(proofs))[0].state).toBe(CheckStateEnum.SPENT);
+  });
+
+  test('restores signatures for a seeded wallet', async () => {
+    const { mint } = await setup();
+    const bip39seed = new Uint8Array(64).fill(3);
+    const wallet = new Wallet(mint.url, { requestFetch: mint.fetch, bip39seed });
+    await wallet.loadMint();
+    const proofs = await fund(mint, wallet, 13);
+
+    const fresh = new Wallet(mint.url, { requestFetch: mint.fetch, bip39seed });
+    await fresh.loadMint();
+    const { proofs: restored } = await fresh.restore(0, 10);
+    expect(restored.map((p) => p.secret).sort()).toEqual(proofs.map((p) => p.secret).sort());
+  });
+
+  test('mints locked bolt12 and onchain quotes', async () => {
+    const { mint, wallet } = await setup();
+    const offer = await wallet.createMintQuoteBolt12(pubkey);
+    expect(offer.amount).toBeNull();
+    mint.lightning.pay(offer.request, 5);
+    mint.lightning.pay(offer.request, 3);
+    const quote = await wallet.checkMintQuoteBolt12(offer.quote);
+    expect(quote.amount_paid.toNumber()).toBe(8);
+    expect(sumProofs(await wallet.mintProofsBolt12(8, quote, privkey)).toNumber()).toBe(8);
+
+    const onchain = await wallet.createMintQuoteOnchain(pubkey);
+    mint.lightning.pay(onchain.request, 21);
+    const paid = await wallet.checkMintQuoteOnchain(onchain.quote);
+    await expect(
+      wallet.mint.mintOnchain({ quote: paid.quote, outputs: [], signature: 'ab'.repeat(64) }),
+    ).rejects.toMatchObject({ code: 20008 });
+    expect(sumProofs(await wallet.mintProofsOnchain(21, paid, privkey)).toNumber()).toBe(21);
+  });
+
+  test('melts onchain', async () => {
+    const { mint, wallet } = await setup();
+    const proofs = await fund(mint, wallet, 64);
+    const address = new FakeLightning().createAddress();
+    const quote = await wallet.createMeltQuoteOnchain(address, 30);
+    const res = await wallet.meltProofsOnchain(quote, proofs, 0);
+    expect(res.quote.state).toBe(MeltQuoteState.PAID);
+    expect(res.quote.outpoint).toMatch(/^[0-9a-f]{64}:0$/);
+    expect(sumProofs(res.change).toNumber()).toBe(64 - 30);
+  });
+
+  test('notifies paid mint quotes over NUT-17', async () => {
+    const { mint, wallet } = await setup();
+    const quote = await wallet.createMintQuoteBolt11(21);
+    const paid = wallet.on.onceMintPaid(quote.quote, { timeoutMs: 1000 });
+    setTimeout(() => mint.lightning.pay(quote.request), 10);
+    await expect(paid).resolves.toMatchObject({ quote: quote.quote, state: MintQuoteState.PAID });
+    wallet.mint.disconnectWebSocket();
+  });
+
+  test('transfers between two mints on one network', async () => {
+    const lightning = new FakeLightning();
+    const a = new TestMint('http://a.test', { lightning });
+    const b = new TestMint('http://b.test', { lightning });
+    const source = new Wallet(a.url, { requestFetch: a.fetch });
+    const dest = new Wallet(b.url, { requestFetch: b.fetch });
+    await source.loadMint();
+    await dest.loadMint();
+    const proofs = await fund(a, source, 100);
+
+    const { state, proofs: minted } = await transferBetweenMints(source, dest, 50, { proofs });
+    expect(state.stage).toBe('minted');
+    expect(sumProofs(minted).toNumber()).toBe(50);
+  });
+
+  test('rotates keysets and refuses to sign on inactive ones', async () => {
+    const { mint, wallet } = await setup();
+    const proofs = await fund(mint, wallet, 8);
+    const old = wallet.keysetId;
+    const next = mint.rotateKeyset();
+    expect(mint.activeKeysetIds).toEqual([next]);
+
+    await expect(wallet.send(8, proofs)).resolves.toBeDefined();
+    const fresh = new Wallet(mint.url, { requestFetch: mint.fetch });
+    await fresh.loadMint();
+    expect(fresh.keysetId).toBe(next);
+    expect(fresh.keysetId).not.toBe(old);
+  });
+
+  test('answers like a mint over customRequest', async () => {
+    const testMint = new TestMint('http://mint.test/path');
+    const mint = new Mint(testMint.url, { customRequest: testMint.request });
+    expect((await mint.getKeySets()).keysets).toHaveLength(1);
+    await expect(mint.checkMintQuoteBolt11('nope')).rejects.toBeInstanceOf(HttpResponseError);
+    await expect(mint.swap({ inputs: [], outputs: [] })).rejects.toBeInstanceOf(MintOperationError);
+  });
+
+  test('is deterministic for a given URL', async () => {
+    const a = new TestMint('http://mint.test');
+    const b = new TestMint('http://mint.test');
+    expect(a.activeKeysetIds).toEqual(b.activeKeysetIds);
+    expect(a.lightning.createInvoice(1)).toBe(b.lightning.createInvoice(1));
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, test, vi } from 'vitest';
+
+import {
+  CircuitOpenError,
+  Mint,
+  MintHealthTracker,
+  MintOperationError,
+  NetworkError,
+  type RequestFetch,
+} from '../../src';
+import request from '../../src/transport';
+
+const mintUrl = 'https://mint.test';
+// Not idempotent, so each request is one attempt
+const endpoint = mintUrl + '/v1/swap';
+
+function setup(options: ConstructorParameters<typeof MintHealthTracker>[0] = {}) {
+  let now = 1_000_000;
+  const clock = {
+    advance: (ms: number) => (now += ms),
+  };
+  const onStateChange = vi.fn();
+  const tracker = new MintHealthTracker({ now: () => now, onStateChange, ...options });
+  let reply: () => Response = () => Response.json({ keysets: [] });
+  const fetch = vi.fn<RequestFetch>(() => Promise.resolve(reply()));
+  const send = () => request({ endpoint, method: 'POST', fetch, middleware: [tracker] });
+  return {
+    tracker,
+    clock,
+    onStateChange,
+    fetch,
+    send,
+    replyWith: (r: () => Response) => (reply = r),
+  };
+}
+
+const down = () => {
+  throw new TypeError('connection refused');
+};
+
+describe('MintHealthTracker', () => {
+  test('opens after repeated failures, fails fast, then recovers through a probe', async () => {
+    const { tracker, clock, onStateChange, fetch, send, replyWith } = setup({
+      failureThreshold: 3,
+      cooldownMs: 10_000,
+    });
+    replyWith(down);
+    for (let i = 0; i < 3; i++) {
+      await expect(send()).rejects.toBeInstanceOf(NetworkError);
+    }
+    expect(tracker.health(mintUrl)).toMatchObject({
+      state: 'open',
+      score: 0,
+      consecutiveFailures: 3,
+      retryAt: 1_010_000,
+    });
+    expect(onStateChange).toHaveBeenLastCalledWith(expect.objectContaining({ state: 'open' }));
+
+    fetch.mockClear();
+    const err = await send().catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(CircuitOpenError);
+    expect(err).toMatchObject({ mintUrl, retryAt: 1_010_000 });
+    expect(fetch).not.toHaveBeenCalled();
+
+    // A failed probe reopens the circuit
+    clock.advance(10_000);
+    await expect(send()).rejects.toBeInstanceOf(NetworkError);
+    expect(tracker.health(mintUrl)).toMatchObject({ state: 'open', retryAt: 1_020_000 });
+
+    clock.advance(10_000);
+    replyWith(() => Response.json({ keysets: [] }));
+    await send();
+    expect(tracker.health(mintUrl)).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+    expect(onStateChange.mock.calls.map(([h]) => (h as { state: string }).state)).toEqual([
+      'open',
+      'half-open',
+      'open',
+      'half-open',
+      'closed',
+    ]);
+  });
+
+  test('lets only the configured number of probes through while half-open', async () => {
+    const { tracker, clock, send, replyWith } = setup({ failureThreshold: 1, cooldownMs: 100 });
+    replyWith(down);
+    await expect(send()).rejects.toBeInstanceOf(NetworkError);
+    clock.advance(100);
+
+    let release!: () => void;
+    replyWith(() => Response.json({ keysets: [] }));
+    const gate = new Promise<void>((r) => (release = r));
+    const probe = request({
+      endpoint,
+      method: 'POST',
+      fetch: async () => {
+        await gate;
+        return Response.json({ keysets: [] });
+      },
+      middleware: [tracker],
+    });
+    await expect(send()).rejects.toBeInstanceOf(CircuitOpenError);
+    release();
+    await probe;
+    expect(tracker.health(mintUrl).state).toBe('closed');
+  });
+
+  test('scores error rate and latency, and ignores mint protocol errors', async () => {
+    let now = 0;
+    const tracker = new MintHealthTracker({ now: () => now, slowMs: 500, smoothing: 0.5 });
+    const slow: RequestFetch = () => {
+      now += 1_000;
+      return Promise.resolve(Response.json({ keysets: [] }));
+    };
+    await request({ endpoint, fetch: slow, middleware: [tracker] });
+    expect(tracker.health(mintUrl)).toMatchObject({ latencyMs: 1_000, errorRate: 0, score: 0.5 });
+
+    const failing: RequestFetch = () => Promise.resolve(new Response('oops', { status: 503 }));
+    await expect(request({ endpoint, fetch: failing, middleware: [tracker] })).rejects.toThrow();
+    expect(tracker.health(mintUrl)).toMatchObject({ errorRate: 0.5, consecutiveFailures: 1 });
+
+    const spent: RequestFetch = () =>
+      Promise.resolve(Response.json({ code: 11001, detail: 'spent' }, { status: 400 }));
+    await expect(request({ endpoint, fetch: spent, middleware: [tracker] })).rejects.toBeInstanceOf(
+      MintOperationError,
+    );
+    expect(tracker.health(mintUrl)).toMatchObject({ errorRate: 0.25, consecutiveFailures: 0 });
+    expect(tracker.all().map((h) => h.mintUrl)).toEqual([mintUrl]);
+
+    tracker.reset(mintUrl);
+    expect(tracker.health(mintUrl)).toMatchObject({ state: 'closed', score: 1, errorRate: 0 });
+  });
+
+  test('tracks mints separately when used per mint', async () => {
+    const tracker = new MintHealthTracker({ failureThreshold: 2 });
+    const broken = new Mint('https://broken.test', {
+      requestFetch: () => Promise.reject(new TypeError('connection refused')),
+    });
+    const working = new Mint(mintUrl, {
+      requestFetch: () => Promise.resolve(Response.json({ keysets: [] })),
+    });
+    broken.use(tracker);
+    working.use(tracker);
+
+    // The idempotent retry is the second failure
+    await expect(broken.getKeySets()).rejects.toBeInstanceOf(NetworkError);
+    expect(tracker.health('https://broken.test').consecutiveFailures).toBe(2);
+    await expect(broken.getKeySets()).rejects.toBeInstanceOf(CircuitOpenError);
+    await working.getKeySets();
+    expect(tracker.health('https://broken.test').state).toBe('open');
+    expect(tracker.health(mintUrl).state).toBe('closed');
+  });
+});
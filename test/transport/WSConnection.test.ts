@@ -1064,3 +1064,149 @@ describe('WSConnection – listener management', () => {
     }
   });
 });
+
+describe('WSConnection – reconnect', () => {
+  async function until(condition: () => boolean, timeoutMs = 1000): Promise<void> {
+    const startedAt = Date.now();
+    while (!condition()) {
+      if (Date.now() - startedAt > timeoutMs) throw new Error('Timed out');
+      await new Promise((res) => setTimeout(res, 5));
+    }
+  }
+
+  // Acks every subscribe and records it
+  function ackingServer(url: string) {
+    const srv = new Server(url, { mock: false });
+    const sockets: Client[] = [];
+    const subscribes: Array<{ subId: string; filters: string[] }> = [];
+    srv.on('connection', (socket) => {
+      sockets.push(socket);
+      socket.on('message', (m) => {
+        const msg = JSON.parse(m.toString()) as {
+          id: number;
+          method: string;
+          params: { subId: string; filters: string[] };
+        };
+        if (msg.method === 'subscribe') subscribes.push(msg.params);
+        socket.send(
+          JSON.stringify({
+            jsonrpc: '2.0',
+            result: { status: 'OK', subId: msg.params.subId },
+            id: msg.id,
+          }),
+        );
+      });
+    });
+    return { srv, sockets, subscribes };
+  }
+
+  test('reconnects and subscribes again with the original filters', async () => {
+    const url = 'ws://localhost:3352/v1/ws';
+    const { srv, sockets, subscribes } = ackingServer(url);
+    const conn = new WSConnection(url, undefined, { reconnect: { initialDelayMs: 10 } });
+    const states: string[] = [];
+    conn.onStateChange((e) => states.push(e.state));
+    await conn.connect();
+
+    const payloads: unknown[] = [];
+    const errorCb = vi.fn();
+    const subId = conn.createSubscription(
+      { kind: 'bolt11_mint_quote', filters: ['quote-1'] },
+      (p) => payloads.push(p),
+      errorCb,
+    );
+    await waitForSubscription(conn, subId);
+
+    sockets[0].close({ code: 1006, reason: 'network change', wasClean: false });
+    await until(() => subscribes.length === 2 && conn.state === 'open');
+    expect(subscribes[1]).toEqual(subscribes[0]);
+    expect(subscribes[1]).toMatchObject({ subId, filters: ['quote-1'] });
+
+    sockets[1].send(
+      JSON.stringify({ jsonrpc: '2.0', method: 'subscribe', params: { subId, payload: 'paid' } }),
+    );
+    await until(() => payloads.length === 1);
+    expect(payloads).toEqual(['paid']);
+    expect(errorCb).not.toHaveBeenCalled();
+    expect(states).toEqual(['connecting', 'open', 'reconnecting', 'connecting', 'open']);
+
+    conn.close();
+    expect(conn.state).toBe('closed');
+    srv.close();
+  });
+
+  test('does not subscribe again to cancelled subscriptions or after close()', async () => {
+    const url = 'ws://localhost:3353/v1/ws';
+    const { srv, sockets, subscribes } = ackingServer(url);
+    const conn = new WSConnection(url, undefined, { reconnect: { initialDelayMs: 10 } });
+    await conn.connect();
+    const callback = vi.fn();
+    const subId = conn.createSubscription(
+      { kind: 'proof_state', filters: ['y'] },
+      callback,
+      vi.fn(),
+    );
+    await waitForSubscription(conn, subId);
+    conn.cancelSubscription(subId, callback);
+
+    sockets[0].close({ code: 1006, reason: '', wasClean: false });
+    await until(() => conn.state === 'open' && sockets.length === 2);
+    expect(subscribes).toHaveLength(1);
+
+    conn.close();
+    await new Promise((res) => setTimeout(res, 30));
+    expect(sockets).toHaveLength(2);
+    expect(conn.state).toBe('closed');
+    srv.close();
+  });
+
+  test('fails subscriptions once reconnect gives up', async () => {
+    const url = 'ws://localhost:3354/v1/ws';
+    const { srv, sockets } = ackingServer(url);
+    const conn = new WSConnection(url, undefined, {
+      reconnect: { initialDelayMs: 5, maxAttempts: 2 },
+    });
+    const events: Array<{ state: string; attempt?: number; delayMs?: number }> = [];
+    conn.onStateChange(({ state, attempt, delayMs }) => events.push({ state, attempt, delayMs }));
+    await conn.connect();
+    const errorCb = vi.fn();
+    const subId = conn.createSubscription(
+      { kind: 'proof_state', filters: ['y'] },
+      vi.fn(),
+      errorCb,
+    );
+    await waitForSubscription(conn, subId);
+
+    srv.close({ code: 1001, reason: 'gone', wasClean: true });
+    await until(() => conn.state === 'closed');
+    expect(sockets).toHaveLength(1);
+    expect(errorCb).toHaveBeenCalledOnce();
+    expect((errorCb.mock.calls[0][0] as Error).message).toContain('failed after 2 attempts');
+    expect(events.filter((e) => e.state === 'reconnecting')).toEqual([
+      { state: 'reconnecting', attempt: 1, delayMs: 5 },
+      { state: 'reconnecting', attempt: 2, delayMs: 10 },
+    ]);
+  });
+
+  test('heartbeat drops a socket that stopped answering', async () => {
+    const url = 'ws://localhost:3355/v1/ws';
+    const srv = new Server(url, { mock: false });
+    const probes: string[] = [];
+    srv.on('connection', (socket) => {
+      socket.on('message', (m) => probes.push(m.toString())); // never answers
+    });
+    const logger = createLogger();
+    const conn = new WSConnection(url, logger, {
+      heartbeat: { intervalMs: 10, timeoutMs: 20 },
+    });
+    const closed = vi.fn();
+    conn.onClose(closed);
+    await conn.connect();
+
+    await until(() => conn.state === 'closed');
+    expect(JSON.parse(probes[0])).toMatchObject({ method: 'unsubscribe' });
+    expect(closed).toHaveBeenCalledWith(expect.objectContaining({ reason: 'heartbeat timeout' }));
+    expect(logger.warn).toHaveBeenCalledWith('WebSocket heartbeat timed out', { url });
+    srv.close();
+  });
+});
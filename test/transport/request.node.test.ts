@@ -3,6 +3,7 @@ import { setupServer } from 'msw/node';
 import { beforeAll, beforeEach, test, describe, expect, afterAll, afterEach, vi } from 'vitest';
 
 import {
+  Mint,
   Wallet,
   HttpResponseError,
   NetworkError,
@@ -10,6 +11,7 @@ import {
   RateLimitError,
   type ResponseMeta,
   type RequestFetch,
+  type RequestMiddleware,
   setGlobalRequestOptions,
   type Nut19Policy,
 } from '../../src';
@@ -2003,3 +2005,161 @@ describe('onResponseMeta callback', () => {
     );
   });
 });
+
+describe('request middleware', () => {
+  const endpoint = mintUrl + '/v1/keysets';
+
+  function recorder(name: string, calls: string[]): RequestMiddleware {
+    return {
+      onRequest: () => void calls.push(`${name}:request`),
+      onResponse: () => void calls.push(`${name}:response`),
+      onError: () => void calls.push(`${name}:error`),
+    };
+  }
+
+  test('runs global, then per-call middleware, unwinding in reverse', async () => {
+    let trace: string | null = null;
+    server.use(
+      http.post(endpoint, ({ request }) => {
+        trace = request.headers.get('X-Trace-Id');
+        return HttpResponse.json({ keysets: [] });
+      }),
+    );
+    const calls: string[] = [];
+    let response: { status?: number; data?: unknown } = {};
+    setGlobalRequestOptions({ middleware: [recorder('global', calls)] });
+
+    await request({
+      endpoint,
+      method: 'post',
+      requestBody: { a: 1 },
+      middleware: [
+        {
+          onRequest: (req) => {
+            calls.push('call:request');
+            expect(req).toMatchObject({ endpoint, method: 'POST', body: '{"a":1}', attempt: 1 });
+            req.headers['X-Trace-Id'] = 'abc';
+          },
+          onResponse: ({ meta, data }) => {
+            calls.push('call:response');
+            response = { status: meta.status, data };
+          },
+        },
+      ],
+    });
+
+    expect(calls).toEqual(['global:request', 'call:request', 'call:response', 'global:response']);
+    expect(trace).toBe('abc');
+    expect(response).toEqual({ status: 200, data: { keysets: [] } });
+  });
+
+  test('passes meta and the parsed mint error to onError', async () => {
+    server.use(
+      http.get(endpoint, () =>
+        HttpResponse.json({ code: 11001, detail: 'Token already spent' }, { status: 400 }),
+      ),
+    );
+    const onError = vi.fn<NonNullable<RequestMiddleware['onError']>>(() => {
+      throw new Error('observer failed');
+    });
+
+    await expect(request({ endpoint, middleware: [{ onError }] })).rejects.toBeInstanceOf(
+      MintOperationError,
+    );
+    expect(onError).toHaveBeenCalledOnce();
+    const [event] = onError.mock.calls[0];
+    expect(event.error).toBeInstanceOf(MintOperationError);
+    expect(event.meta?.status).toBe(400);
+    expect(event.apiError).toEqual({ code: 11001, detail: 'Token already spent' });
+  });
+
+  test('reports network failures without meta and counts attempts', async () => {
+    let calls = 0;
+    server.use(
+      http.get(endpoint, () => {
+        calls++;
+        return calls === 1 ? HttpResponse.error() : HttpResponse.json({ keysets: [] });
+      }),
+    );
+    const events: Array<{ attempt: number; meta?: ResponseMeta; ok: boolean }> = [];
+
+    await request({
+      endpoint,
+      idempotent: true,
+      middleware: [
+        {
+          onResponse: ({ request: r, meta }) =>
+            void events.push({ attempt: r.attempt, meta, ok: true }),
+          onError: ({ request: r, meta }) =>
+            void events.push({ attempt: r.attempt, meta, ok: false }),
+        },
+      ],
+    });
+
+    expect(events.map((e) => [e.attempt, e.ok, e.meta?.status])).toEqual([
+      [1, false, undefined],
+      [2, true, 200],
+    ]);
+  });
+
+  test('a throwing onRequest fails the request before it is sent', async () => {
+    const handler = vi.fn(() => HttpResponse.json({ keysets: [] }));
+    server.use(http.get(endpoint, handler));
+
+    await expect(
+      request({
+        endpoint,
+        middleware: [
+          {
+            onRequest: () => {
+              throw new Error('unsigned');
+            },
+          },
+        ],
+      }),
+    ).rejects.toThrow('unsigned');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  test('a throwing onResponse is logged and the response still returned', async () => {
+    server.use(http.get(endpoint, () => HttpResponse.json({ keysets: [] })));
+    const after = vi.fn();
+
+    const data = await request({
+      endpoint,
+      middleware: [
+        { onResponse: after },
+        {
+          onResponse: () => {
+            throw new Error('metrics down');
+          },
+        },
+      ],
+    });
+    expect(data).toEqual({ keysets: [] });
+    expect(after).toHaveBeenCalledOnce();
+  });
+
+  test('runs per-mint middleware after global middleware', async () => {
+    server.use(http.get(endpoint, () => HttpResponse.json({ keysets: [] })));
+    const calls: string[] = [];
+    setGlobalRequestOptions({ middleware: [recorder('global', calls)] });
+    const mint = new Mint(mintUrl, { middleware: [recorder('mint', calls)] });
+    const remove = mint.use(recorder('used', calls));
+
+    await mint.getKeySets();
+    expect(calls).toEqual([
+      'global:request',
+      'mint:request',
+      'used:request',
+      'used:response',
+      'mint:response',
+      'global:response',
+    ]);
+
+    calls.length = 0;
+    remove();
+    await mint.getKeySets();
+    expect(calls).toEqual(['global:request', 'mint:request', 'mint:response', 'global:response']);
+  });
+});
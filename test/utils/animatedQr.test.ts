@@ -0,0 +1,240 @@
+import { sha256 } from '@noble/hashes/sha2.js';
+import { describe, expect, test } from 'vitest';
+
+import {
+  AnimatedQRDecoder,
+  AnimatedQREncoder,
+  Amount,
+  PaymentRequest,
+  getEncodedToken,
+  getEncodedTokenBinary,
+  type Token,
+} from '../../src';
+
+const keysetId = '009a1f293253e41e';
+const C = '034268c0bd30b945adf578aca2dc0d1e26ef089869aaf9a08ba3a6da40fda1d8be';
+
+function makeToken(count: number): Token {
+  return {
+    mint: 'https://mint.example.com',
+    unit: 'sat',
+    proofs: Array.from({ length: count }, (_, i) => ({
+      id: keysetId,
+      amount: Amount.from(2 ** (i % 10)),
+      secret: i.toString(16).padStart(64, '0'),
+      C,
+    })),
+  };
+}
+
+/**
+ * `make_message` of the BC-UR reference tests: `length` bytes of Xoshiro256** seeded with
+ * sha256(`seed`).
+ */
+function makeMessage(length: number, seed: string): Uint8Array {
+  const digest = sha256(new TextEncoder().encode(seed));
+  const view = new DataView(digest.buffer, digest.byteOffset);
+  const s = [0, 8, 16, 24].map((o) => view.getBigUint64(o));
+  const mask = (1n << 64n) - 1n;
+  const rotl = (x: bigint, k: bigint) => ((x << k) | (x >> (64n - k))) & mask;
+  const next = () => {
+    const result = (rotl((s[1] * 5n) & mask, 7n) * 9n) & mask;
+    const t = (s[1] << 17n) & mask;
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 45n);
+    return result;
+  };
+  return Uint8Array.from({ length }, () => Math.floor((Number(next()) / 2 ** 64) * 256));
+}
+
+// BC-UR reference encoder output for makeMessage(256, 'Wolf') in fragments of at most 30 bytes
+const REFERENCE_FRAMES = [
+  'ur:bytes/1-9/lpadascfadaxcywenbpljkhdcahkadaemejtswhhylkepmykhhtsytsnoyoyaxaedsuttydmmhhpktpmsrjtdkgslpgh',
+  'ur:bytes/2-9/lpaoascfadaxcywenbpljkhdcagwdpfnsboxgwlbaawzuefywkdplrsrjynbvygabwjldapfcsgmghhkhstlrdcxaefz',
+  'ur:bytes/3-9/lpaxascfadaxcywenbpljkhdcahelbknlkuejnbadmssfhfrdpsbiegecpasvssovlgeykssjykklronvsjksopdzmol',
+  'ur:bytes/4-9/lpaaascfadaxcywenbpljkhdcasotkhemthydawydtaxneurlkosgwcekonertkbrlwmplssjtammdplolsbrdzcrtas',
+  'ur:bytes/5-9/lpahascfadaxcywenbpljkhdcatbbdfmssrkzmcwnezelennjpfzbgmuktrhtejscktelgfpdlrkfyfwdajldejokbwf',
+  'ur:bytes/6-9/lpamascfadaxcywenbpljkhdcackjlhkhybssklbwefectpfnbbectrljectpavyrolkzczcpkmwidmwoxkilghdsowp',
+  'ur:bytes/7-9/lpatascfadaxcywenbpljkhdcavszmwnjkwtclrtvaynhpahrtoxmwvwatmedibkaegdosftvandiodagdhthtrlnnhy',
+  'ur:bytes/8-9/lpayascfadaxcywenbpljkhdcadmsponkkbbhgsoltjntegepmttmoonftnbuoiyrehfrtsabzsttorodklubbuyaetk',
+  'ur:bytes/9-9/lpasascfadaxcywenbpljkhdcajskecpmdckihdyhphfotjojtfmlnwmadspaxrkytbztpbauotbgtgtaeaevtgavtny',
+  'ur:bytes/10-9/lpbkascfadaxcywenbpljkhdcahkadaemejtswhhylkepmykhhtsytsnoyoyaxaedsuttydmmhhpktpmsrjtwdkiplzs',
+  'ur:bytes/11-9/lpbdascfadaxcywenbpljkhdcahelbknlkuejnbadmssfhfrdpsbiegecpasvssovlgeykssjykklronvsjkvetiiapk',
+  'ur:bytes/12-9/lpbnascfadaxcywenbpljkhdcarllaluzmdmgstospeyiefmwejlwtpedamktksrvlcygmzemovovllarodtmtbnptrs',
+  'ur:bytes/13-9/lpbtascfadaxcywenbpljkhdcamtkgtpknghchchyketwsvwgwfdhpgmgtylctotzopdrpayoschcmhplffziachrfgd',
+  'ur:bytes/14-9/lpbaascfadaxcywenbpljkhdcapazewnvonnvdnsbyleynwtnsjkjndeoldydkbkdslgjkbbkortbelomueekgvstegt',
+  'ur:bytes/15-9/lpbsascfadaxcywenbpljkhdcaynmhpddpzmversbdqdfyrehnqzlugmjzmnmtwmrouohtstgsbsahpawkditkckynwt',
+  'ur:bytes/16-9/lpbeascfadaxcywenbpljkhdcawygekobamwtlihsnpalnsghenskkiynthdzotsimtojetprsttmukirlrsbtamjtpd',
+  'ur:bytes/17-9/lpbyascfadaxcywenbpljkhdcamklgftaxykpewyrtqzhydntpnytyisincxmhtbceaykolduortotiaiaiafhiaoyce',
+  'ur:bytes/18-9/lpbgascfadaxcywenbpljkhdcahkadaemejtswhhylkepmykhhtsytsnoyoyaxaedsuttydmmhhpktpmsrjtntwkbkwy',
+  'ur:bytes/19-9/lpbwascfadaxcywenbpljkhdcadekicpaajootjzpsdrbalpeywllbdsnbinaerkurspbncxgslgftvtsrjtksplcpeo',
+  'ur:bytes/20-9/lpbbascfadaxcywenbpljkhdcayapmrleeleaxpasfrtrdkncffwjyjzgyetdmlewtkpktgllepfrltataztksmhkbot',
+];
+
+/**
+ * Feeds frames until the decoder completes; returns how many were needed.
+ */
+function decodeAll(decoder: AnimatedQRDecoder, frames: Iterable<string>): number {
+  let n = 0;
+  for (const frame of frames) {
+    n++;
+    decoder.receive(frame);
+    if (decoder.isComplete) return n;
+  }
+  throw new Error('decoder did not complete');
+}
+
+function* stream(encoder: AnimatedQREncoder, skip: (i: number) => boolean = () => false) {
+  for (let i = 0; i < 10_000; i++) {
+    const frame = encoder.nextFrame();
+    if (!skip(i)) yield frame;
+  }
+}
+
+describe('AnimatedQREncoder', () => {
+  test('emits a single static frame for small payloads', () => {
+    const encoder = new AnimatedQREncoder('cashuBshort');
+    expect(encoder.isSinglePart).toBe(true);
+    const [a, b] = encoder.frames(2);
+    expect(a).toBe(b);
+    expect(a).toMatch(/^ur:bytes\/[a-z]+$/);
+  });
+
+  test('numbers the frames of multi-part payloads', () => {
+    const encoder = new AnimatedQREncoder(makeToken(20), { maxFragmentLength: 60 });
+    expect(encoder.seqLength).toBeGreaterThan(5);
+    const frames = encoder.frames(encoder.seqLength + 2);
+    frames.forEach((frame, i) => {
+      expect(frame.startsWith(`ur:bytes/${i + 1}-${encoder.seqLength}/`)).toBe(true);
+    });
+  });
+
+  test('is deterministic', () => {
+    const a = new AnimatedQREncoder(makeToken(8), { maxFragmentLength: 30 }).frames(40);
+    const b = new AnimatedQREncoder(makeToken(8), { maxFragmentLength: 30 }).frames(40);
+    expect(a).toEqual(b);
+  });
+
+  test('matches the BC-UR reference encoder', () => {
+    const encoder = new AnimatedQREncoder(makeMessage(256, 'Wolf'), { maxFragmentLength: 30 });
+    expect(encoder.frames(20)).toEqual(REFERENCE_FRAMES);
+  });
+
+  test('rejects invalid fragment lengths', () => {
+    expect(() => new AnimatedQREncoder('x', { minFragmentLength: 0 })).toThrow(
+      'minFragmentLength must be a positive integer',
+    );
+    expect(() => new AnimatedQREncoder('x', { maxFragmentLength: 5 })).toThrow(
+      'maxFragmentLength must be an integer of at least minFragmentLength',
+    );
+  });
+});
+
+describe('AnimatedQRDecoder', () => {
+  test('round trips a token', () => {
+    const token = makeToken(30);
+    const encoder = new AnimatedQREncoder(token);
+    const decoder = new AnimatedQRDecoder();
+    expect(decodeAll(decoder, stream(encoder))).toBe(encoder.seqLength);
+    expect(decoder.getText()).toBe(getEncodedToken(token));
+    expect(decoder.getToken([keysetId])).toEqual(token);
+  });
+
+  test('decodes the BC-UR reference frames', () => {
+    const decoder = new AnimatedQRDecoder();
+    // Frames 2 and 7 are left out and must be recovered from the reference mixed frames
+    decodeAll(
+      decoder,
+      REFERENCE_FRAMES.filter((_, i) => i !== 1 && i !== 6),
+    );
+    expect(decoder.getBytes()).toEqual(makeMessage(256, 'Wolf'));
+  });
+
+  test('accepts frames in any order and reports progress', () => {
+    const encoder = new AnimatedQREncoder(makeToken(20), { maxFragmentLength: 50 });
+    const frames = encoder.frames().reverse();
+    const decoder = new AnimatedQRDecoder();
+    expect(decoder.progress).toBe(0);
+    const seen: number[] = [];
+    for (const frame of frames) {
+      expect(decoder.receive(frame.toUpperCase())).toBe(true);
+      seen.push(decoder.progress);
+    }
+    expect(decoder.seqLength).toBe(encoder.seqLength);
+    expect(seen).toEqual([...seen].sort((a, b) => a - b));
+    expect(decoder.isComplete).toBe(true);
+    expect(decoder.progress).toBe(1);
+  });
+
+  test('recovers missed frames from fountain-coded frames', () => {
+    const token = makeToken(40);
+    const encoder = new AnimatedQREncoder(token, { maxFragmentLength: 40 });
+    const decoder = new AnimatedQRDecoder();
+    // Lose every other plain frame and one in three mixed frames
+    const needed = decodeAll(
+      decoder,
+      stream(encoder, (i) => (i < encoder.seqLength ? i % 2 === 0 : i % 3 === 0)),
+    );
+    expect(needed).toBeGreaterThan(encoder.seqLength / 2);
+    expect(decoder.getToken([keysetId])).toEqual(token);
+  });
+
+  test('decodes from mixed frames alone', () => {
+    const encoder = new AnimatedQREncoder('creqA'.padEnd(500, 'x'), { maxFragmentLength: 50 });
+    const decoder = new AnimatedQRDecoder();
+    decodeAll(
+      decoder,
+      stream(encoder, (i) => i < encoder.seqLength),
+    );
+    expect(decoder.getText()).toBe('creqA'.padEnd(500, 'x'));
+  });
+
+  test('ignores duplicate frames', () => {
+    const encoder = new AnimatedQREncoder(makeToken(10), { maxFragmentLength: 40 });
+    const decoder = new AnimatedQRDecoder();
+    const [first] = encoder.frames(1);
+    expect(decoder.receive(first)).toBe(true);
+    expect(decoder.receive(first)).toBe(false);
+  });
+
+  test('round trips payment requests and binary tokens', () => {
+    const pr = new PaymentRequest({
+      id: 'req-1',
+      amount: 21,
+      unit: 'sat',
+      mints: ['https://mint.example.com'],
+    });
+    const prDecoder = new AnimatedQRDecoder();
+    decodeAll(prDecoder, stream(new AnimatedQREncoder(pr, { maxFragmentLength: 20 })));
+    expect(prDecoder.getPaymentRequest().toEncodedRequest()).toBe(pr.toEncodedRequest());
+
+    const token = makeToken(12);
+    const binDecoder = new AnimatedQRDecoder();
+    decodeAll(binDecoder, stream(new AnimatedQREncoder(getEncodedTokenBinary(token))));
+    expect(binDecoder.getToken([])).toEqual(token);
+    expect(() => binDecoder.getText()).toThrow('Animated QR payload is not text');
+  });
+
+  test('rejects foreign, corrupted and mismatched frames', () => {
+    const decoder = new AnimatedQRDecoder();
+    expect(() => decoder.receive('cashuBxyz')).toThrow('Not a NUT-16 frame');
+    expect(() => decoder.receive('ur:crypto-psbt/abcd')).toThrow('Not a NUT-16 frame');
+
+    const [frame] = new AnimatedQREncoder(makeToken(10), { maxFragmentLength: 40 }).frames(1);
+    const word = frame.slice(-6, -4) === 'ae' ? 'ad' : 'ae';
+    const corrupted = frame.slice(0, -6) + word + frame.slice(-4);
+    expect(() => decoder.receive(corrupted)).toThrow('Invalid bytewords checksum');
+    expect(() => decoder.receive(frame.replace('/1-', '/2-'))).toThrow(
+      'Frame sequence does not match its content',
+    );
+
+    decoder.receive(frame);
+    const [other] = new AnimatedQREncoder(makeToken(11), { maxFragmentLength: 40 }).frames(1);
+    expect(() => decoder.receive(other)).toThrow('Frame belongs to a different message');
+    expect(() => decoder.getBytes()).toThrow('Animated QR payload is not complete');
+  });
+});
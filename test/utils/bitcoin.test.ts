@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+
+import { assertBitcoinAddress, decodeBitcoinAddress, parseBip21 } from '../../src/utils';
+
+// Valid addresses from BIP-173 and BIP-350, and well known base58 addresses
+const p2wpkh = 'BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4';
+const p2tr = 'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0';
+const hash160 = '751e76e8199196d454941c45d1b3a323f1433bd6';
+
+describe('decodeBitcoinAddress', () => {
+  it.each([
+    [p2wpkh, 'mainnet', 'p2wpkh', 0, hash160],
+    [
+      'tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7',
+      'testnet',
+      'p2wsh',
+      0,
+      '1863143c14c5166804bd19203356da136c985678cd4d27a1b8c6329604903262',
+    ],
+    [
+      p2tr,
+      'mainnet',
+      'p2tr',
+      1,
+      '79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798',
+    ],
+    ['bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080', 'regtest', 'p2wpkh', 0, hash160],
+    ['BC1SW50QGDZ25J', 'mainnet', 'witness_unknown', 16, '751e'],
+    [
+      '1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2',
+      'mainnet',
+      'p2pkh',
+      undefined,
+      '77bff20c60e522dfaa3350c39b030a5d004e839a',
+    ],
+    [
+      '3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy',
+      'mainnet',
+      'p2sh',
+      undefined,
+      'b472a266d0bd89c13706a4132ccfb16f7c3b9fcb',
+    ],
+    [
+      'mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn',
+      'testnet',
+      'p2pkh',
+      undefined,
+      '243f1394f44554f4ce3fd68649c19adc483ce924',
+    ],
+    [
+      '2MzQwSSnBHWHqSAqtTVQ6v47XtaisrJa1Vc',
+      'testnet',
+      'p2sh',
+      undefined,
+      '4e9f39ca4688ff102128ea4ccda34105324305b0',
+    ],
+  ])('decodes %s', (address, network, type, witnessVersion, program) => {
+    const decoded = decodeBitcoinAddress(address);
+    expect(decoded).toMatchObject({ network, type, program });
+    expect(decoded.witnessVersion).toBe(witnessVersion);
+    expect(decoded.address).toBe(witnessVersion === undefined ? address : address.toLowerCase());
+  });
+
+  it.each([
+    ['bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kemeawh', /wrong checksum/], // v0 with bech32m
+    ['bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t5', /bad checksum/],
+    ['bc1qW508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4', /mixed case/],
+    ['tc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq5zuyut', /not base58check/],
+    ['1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN3', /not base58check/],
+    ['', /not base58check/],
+  ])('rejects %s', (address, message) => {
+    expect(() => decodeBitcoinAddress(address)).toThrow(message);
+  });
+});
+
+describe('assertBitcoinAddress', () => {
+  it('checks the network and script type', () => {
+    expect(assertBitcoinAddress(p2tr, { network: 'mainnet', scriptTypes: ['p2tr'] }).type).toBe(
+      'p2tr',
+    );
+    expect(() => assertBitcoinAddress(p2wpkh, { network: 'testnet' })).toThrow(
+      'Bitcoin address is for mainnet, expected testnet',
+    );
+    expect(() => assertBitcoinAddress(p2wpkh, { scriptTypes: ['p2tr'] })).toThrow(
+      'Bitcoin address type p2wpkh is not allowed',
+    );
+    // Unknown witness versions are refused unless asked for
+    expect(() => assertBitcoinAddress('BC1SW50QGDZ25J')).toThrow('witness_unknown');
+    // Base58 testnet and regtest addresses look the same
+    expect(
+      assertBitcoinAddress('mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn', { network: 'regtest' }).network,
+    ).toBe('testnet');
+  });
+});
+
+describe('parseBip21', () => {
+  it('reads the address, amount, label and message', () => {
+    expect(
+      parseBip21(
+        `BITCOIN:${p2wpkh}?amount=20.3&label=Luke-Jr&message=Donation%20for%20project%20xyz`,
+      ),
+    ).toEqual({
+      address: p2wpkh.toLowerCase(),
+      amountSat: 2_030_000_000n,
+      label: 'Luke-Jr',
+      message: 'Donation for project xyz',
+      params: { amount: '20.3', label: 'Luke-Jr', message: 'Donation for project xyz' },
+    });
+    expect(parseBip21(`bitcoin:${p2tr}?amount=0.00000001`).amountSat).toBe(1n);
+  });
+
+  it('returns Lightning requests, with or without an address', () => {
+    const unified = parseBip21(`bitcoin:${p2tr}?LIGHTNING=lnbc1abc&lno=lno1xyz&somethingelse=1`);
+    expect(unified).toMatchObject({ lightning: 'lnbc1abc', offer: 'lno1xyz' });
+    expect(unified.params.somethingelse).toBe('1');
+    expect(parseBip21('bitcoin:?lightning=lnbc1abc')).toEqual({
+      lightning: 'lnbc1abc',
+      params: { lightning: 'lnbc1abc' },
+    });
+  });
+
+  it.each([
+    [`bitcoin:${p2tr}?req-somethingnew=1`, /req-somethingnew/],
+    [`bitcoin:${p2tr}?amount=1.123456789`, /amount/],
+    [`bitcoin:${p2tr}?amount=1e3`, /amount/],
+    [`bitcoin:${p2tr}?label=%E0%A4%A`, /percent-encoding/],
+    ['bitcoin:notanaddress', /Invalid Bitcoin address/],
+    ['bitcoin:?amount=1', /no address/],
+    [`lightning:${p2tr}`, /expected a bitcoin: URI/],
+  ])('rejects %s', (uri, message) => {
+    expect(() => parseBip21(uri)).toThrow(message);
+  });
+});
@@ -1,6 +1,9 @@
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bech32 } from '@scure/base';
 import { describe, it, expect } from 'vitest';
 
-import { bolt11AmountMsat } from '../../src/utils';
+import { Bytes, bolt11AmountMsat, decodeBolt11, isBolt11Preimage } from '../../src/utils';
 
 // The 2,000 sat fixture invoice from test/wallet/_setup (not imported: _setup pulls in msw/node,
 // which does not load in the browser projects).
@@ -44,3 +47,138 @@ describe('bolt11AmountMsat', () => {
     expect(() => bolt11AmountMsat(null as unknown as string)).toThrow();
   });
 });
+
+// Builds and signs an invoice with the given tagged fields (letter -> 5 bit words)
+function buildInvoice(
+  hrp: string,
+  fields: Array<[string, number[]]>,
+  nodeKey = new Uint8Array(32).fill(3),
+): string {
+  const charset = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+  const data = [0, 0, 0, 0, 0, 1, 0]; // timestamp 32
+  for (const [tag, words] of fields) {
+    data.push(charset.indexOf(tag), words.length >> 5, words.length & 31, ...words);
+  }
+  const bits = data.flatMap((w) => [4, 3, 2, 1, 0].map((b) => (w >> b) & 1));
+  while (bits.length % 8) bits.push(0);
+  const bytes = Uint8Array.from({ length: bits.length / 8 }, (_, i) =>
+    bits.slice(i * 8, i * 8 + 8).reduce((n, b) => n * 2 + b, 0),
+  );
+  const digest = sha256(Bytes.concat(Bytes.fromString(hrp), bytes));
+  const sig = secp256k1.sign(digest, nodeKey, { prehash: false, format: 'recovered' });
+  const signature = Bytes.concat(sig.slice(1), sig.slice(0, 1));
+  return bech32.encode(hrp, [...data, ...bech32.toWords(signature)], false);
+}
+
+const words = (hex: string) => bech32.toWords(Bytes.fromHex(hex));
+const preimage = '11'.repeat(32);
+const paymentHash = Bytes.toHex(sha256(Bytes.fromHex(preimage)));
+
+describe('decodeBolt11', () => {
+  it('decodes the fixture invoice', () => {
+    const decoded = decodeBolt11('lightning:' + invoice.toUpperCase());
+    expect(decoded).toMatchObject({
+      paymentRequest: invoice.toUpperCase(),
+      network: 'bc',
+      amountMsat: 2_000_000n,
+      timestamp: 1673886305,
+      expiry: 86400,
+      expiresAt: 1673972705,
+      paymentHash: '0edfeaa536d6eaafb3b93e347af85e3719725a6e45ade089b8cd7c81a556801d',
+      paymentSecret: '83b53f604be343fa6e926445a6ac015a8576c41a6b9095e4850198f2b8ea1a24',
+      description: 'Powered by @LightningTipBot',
+      minFinalCltvExpiry: 40,
+      featureBits: [9, 14, 17],
+      features: {
+        var_onion_optin: 'supported',
+        payment_secret: 'required',
+        basic_mpp: 'supported',
+      },
+      payeeNodeKey: '036ff83834666d3ebfe61c2a7d1f8fc5d6b339a26559a61819e2b0d1b5f540fdfc',
+    });
+  });
+
+  it('decodes every tagged field and checks the signature against n', () => {
+    const nodeKey = new Uint8Array(32).fill(3);
+    const payee = Bytes.toHex(secp256k1.getPublicKey(nodeKey, true));
+    const hop = payee + '0000640000c80001' + '000003e8' + '00000001' + '0028';
+    const pr = buildInvoice(
+      'lntb1500n',
+      [
+        ['p', words('ab'.repeat(20))], // wrong length: skipped
+        ['p', words(paymentHash)],
+        ['h', words('cd'.repeat(32))],
+        ['n', words(payee)],
+        ['m', words('0102')],
+        ['x', [1, 0]], // 32 seconds
+        ['c', [9]],
+        ['f', [0, ...words('ef'.repeat(20))]],
+        ['r', words(hop + hop)],
+        ['9', [1, 0, 0, 0]], // bit 15
+        ['v', [1, 2, 3]], // unknown: skipped
+      ],
+      nodeKey,
+    );
+
+    expect(decodeBolt11(pr)).toEqual({
+      paymentRequest: pr,
+      network: 'tb',
+      amountMsat: 150_000n,
+      timestamp: 32,
+      expiry: 32,
+      expiresAt: 64,
+      paymentHash,
+      descriptionHash: 'cd'.repeat(32),
+      metadata: '0102',
+      payeeNodeKey: payee,
+      minFinalCltvExpiry: 9,
+      fallbacks: [{ version: 0, program: 'ef'.repeat(20) }],
+      routeHints: [
+        Array(2).fill({
+          pubkey: payee,
+          shortChannelId: '100x200x1',
+          feeBaseMsat: 1000,
+          feeProportionalMillionths: 1,
+          cltvExpiryDelta: 40,
+        }),
+      ],
+      featureBits: [15],
+      features: { payment_secret: 'supported' },
+      signature: expect.stringMatching(/^[0-9a-f]{128}$/) as string,
+      recoveryFlag: expect.any(Number) as number,
+    });
+
+    // Signed by another key than n names
+    const forged = buildInvoice(
+      'lntb',
+      [
+        ['p', words(paymentHash)],
+        ['n', words(payee)],
+      ],
+      new Uint8Array(32).fill(4),
+    );
+    expect(() => decodeBolt11(forged)).toThrow('Invalid BOLT11 signature');
+  });
+
+  it('recovers the payee without n and verifies preimages', () => {
+    const pr = buildInvoice('lnbcrt', [['p', words(paymentHash)]]);
+    const decoded = decodeBolt11(pr);
+    expect(decoded.payeeNodeKey).toBe(
+      Bytes.toHex(secp256k1.getPublicKey(new Uint8Array(32).fill(3), true)),
+    );
+    expect(decoded).toMatchObject({ network: 'bcrt', amountMsat: null, expiry: 3600 });
+    expect(isBolt11Preimage(pr, preimage)).toBe(true);
+    expect(isBolt11Preimage(decoded, preimage.toUpperCase())).toBe(true);
+    expect(isBolt11Preimage(decoded, '22'.repeat(32))).toBe(false);
+    expect(isBolt11Preimage(decoded, 'preimage')).toBe(false);
+  });
+
+  it.each([
+    ['a bad checksum', invoice.slice(0, -1) + 'q', 'Invalid BOLT11 invoice'],
+    ['no payment hash', buildInvoice('lnbc', [['d', []]]), 'no payment hash'],
+    ['another bech32 string', bech32.encode('bc', Array(120).fill(0), false), 'Invalid BOLT11'],
+    ['a truncated field', invoice.slice(0, 20) + 'qqqq', 'Invalid BOLT11 invoice'],
+  ])('rejects %s', (_, pr, message) => {
+    expect(() => decodeBolt11(pr)).toThrow(message);
+  });
+});
@@ -0,0 +1,237 @@
+import { bech32 } from '@scure/base';
+import { describe, it, expect } from 'vitest';
+
+import { Bytes, bolt12AmountMsat, decodeBolt12 } from '../../src/utils';
+import { decodeTLVStream } from '../../src/utils/tlv';
+
+// Offer test vectors from the BOLT12 specification
+const minimalOffer = 'lno1zcss9mk8y3wkklfvevcrszlmu23kfrxh49px20665dqwmn4p72pksese';
+const offer =
+  'lno1pqps7sjqpgtyzm3qv4uxzmtsd3jjqer9wd3hy6tsw35k7msjzfpy7nz5yqcnygrfdej82um5wf5k2uckyypwa3eyt44h6txtxquqh7lz5djge4afgfjn7k4rgrkuag0jsd5xvxg';
+const issuerId = '02eec7245d6b7d2ccb30380bfbe2a3648cd7a942653f5aa340edcea1f283686619';
+
+const point = (fill: number) => '02' + Bytes.toHex(new Uint8Array(32).fill(fill));
+
+// Encodes TLV records (type, hex value), in the order given, as a checksumless bech32 string
+function build(hrp: string, records: Array<[number, string]>): string {
+  const bytes: number[] = [];
+  const bigSize = (n: number) => (n < 0xfd ? [n] : [0xfd, n >> 8, n & 0xff]);
+  for (const [type, hex] of records) {
+    const value = Bytes.fromHex(hex);
+    bytes.push(...bigSize(type), ...bigSize(value.length), ...value);
+  }
+  const charset = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+  return (
+    hrp +
+    '1' +
+    bech32
+      .toWords(Uint8Array.from(bytes))
+      .map((w) => charset[w])
+      .join('')
+  );
+}
+
+const utf8 = (s: string) => Bytes.toHex(Bytes.fromString(s));
+// One path with a single hop carrying 2 bytes of recipient data
+const path = (intro: string) => intro + point(5) + '01' + point(6) + '0002abcd';
+const invreqFields: Array<[number, string]> = [
+  [0, 'aa'],
+  [10, utf8('coffee')],
+  [22, issuerId],
+  [82, '03e8'],
+  [88, point(7)],
+  [89, utf8('thanks')],
+];
+const signature: [number, string] = [240, '99'.repeat(64)];
+
+describe('decodeBolt12', () => {
+  it('decodes the specification offers', () => {
+    expect(decodeBolt12(minimalOffer)).toEqual({
+      kind: 'offer',
+      encoded: minimalOffer,
+      offer: { issuerId },
+    });
+    const decoded = decodeBolt12(offer);
+    expect(decoded.offer).toEqual({
+      amount: 1_000_000n,
+      description: 'An example description',
+      issuer: 'BOLT 12 industries',
+      issuerId,
+    });
+    expect(bolt12AmountMsat(decoded)).toBe(1_000_000n);
+    expect(bolt12AmountMsat(decoded, 3n)).toBe(3_000_000n);
+    expect(bolt12AmountMsat(decodeBolt12(minimalOffer))).toBeNull();
+  });
+
+  it('joins + split strings and accepts upper case and a lightning: prefix', () => {
+    const split = `${offer.slice(0, 40)}+\n  ${offer.slice(40, 90)}+${offer.slice(90)}`;
+    expect(decodeBolt12(split).encoded).toBe(offer);
+    expect(decodeBolt12('lightning:' + offer.toUpperCase()).offer.issuer).toBe(
+      'BOLT 12 industries',
+    );
+  });
+
+  it('reads every offer field', () => {
+    const chain = '6fe28c0ab6f1b372c1a6a246ae63f74f931e8365e15a089c68d6190000000000';
+    const compact = '00' + '0000640000020003'; // direction 0, 100x2x3
+    const decoded = decodeBolt12(
+      build('lno', [
+        [2, chain],
+        [4, 'beef'],
+        [6, utf8('USD')],
+        [8, '0199'],
+        [10, utf8('hat')],
+        [12, '0200'],
+        [14, '77359400'],
+        [16, path(point(4)) + path(compact)],
+        [18, utf8('shop')],
+        [20, ''],
+        [33, 'ff'], // unknown odd field, skipped
+      ]),
+    );
+    expect(decoded.offer).toEqual({
+      chains: [chain],
+      metadata: 'beef',
+      currency: 'USD',
+      amount: 409n,
+      description: 'hat',
+      features: '0200',
+      absoluteExpiry: 2_000_000_000,
+      paths: [
+        {
+          introductionNode: point(4),
+          firstPathKey: point(5),
+          hops: [{ blindedNodeId: point(6), encryptedRecipientData: 'abcd' }],
+        },
+        {
+          introductionNode: '100x2x3/0',
+          firstPathKey: point(5),
+          hops: [{ blindedNodeId: point(6), encryptedRecipientData: 'abcd' }],
+        },
+      ],
+      issuer: 'shop',
+      quantityMax: 0n,
+    });
+    // Priced in dollars: only the mint can convert it
+    expect(bolt12AmountMsat(decoded)).toBeNull();
+  });
+
+  it('decodes invoice requests and invoices', () => {
+    const request = decodeBolt12(build('lnr', [...invreqFields, signature]));
+    expect(request.kind).toBe('invoice_request');
+    expect(request.offer).toEqual({ description: 'coffee', issuerId });
+    expect(request.invoiceRequest).toEqual({
+      metadata: 'aa',
+      amountMsat: 1000n,
+      payerId: point(7),
+      payerNote: 'thanks',
+    });
+    expect(request.signature).toBe('99'.repeat(64));
+    expect(bolt12AmountMsat(request)).toBe(1000n);
+
+    const paymentHash = '11'.repeat(32);
+    const invoice = decodeBolt12(
+      build('lni', [
+        ...invreqFields,
+        [160, path(point(4))],
+        [164, '6553f100'],
+        [168, paymentHash],
+        [170, '03e8'],
+        [176, point(8)],
+        signature,
+      ]),
+    );
+    expect(invoice.invoiceRequest?.payerId).toBe(point(7));
+    expect(invoice.invoice).toMatchObject({
+      createdAt: 1_700_000_000,
+      relativeExpiry: 7200,
+      expiresAt: 1_700_007_200,
+      paymentHash,
+      amountMsat: 1000n,
+      nodeId: point(8),
+    });
+    expect(bolt12AmountMsat(invoice)).toBe(1000n);
+  });
+
+  it.each([
+    [
+      'mixed case',
+      'lno1ZCSS9mk8y3wkklfvevcrszlmu23kfrxh49px20665dqwmn4p72pksese',
+      /Invalid BOLT12/,
+    ],
+    ['an unknown prefix', build('lnx', [[22, issuerId]]), /unknown prefix lnx/],
+    [
+      'fields out of order',
+      build('lno', [
+        [22, issuerId],
+        [10, utf8('a')],
+      ]),
+      /Invalid BOLT12/,
+    ],
+    [
+      'an unknown even field',
+      build('lno', [
+        [22, issuerId],
+        [24, '00'],
+      ]),
+      /unknown even field 24/,
+    ],
+    [
+      'a field outside the offer range',
+      build('lno', [
+        [0, 'aa'],
+        [22, issuerId],
+      ]),
+      /not allowed/,
+    ],
+    [
+      'a non-minimal amount',
+      build('lno', [
+        [8, '0064'],
+        [10, '61'],
+        [22, issuerId],
+      ]),
+      /minimal/,
+    ],
+    [
+      'a currency without an amount',
+      build('lno', [
+        [6, utf8('USD')],
+        [22, issuerId],
+      ]),
+      /currency/,
+    ],
+    [
+      'an amount without a description',
+      build('lno', [
+        [8, '64'],
+        [22, issuerId],
+      ]),
+      /description/,
+    ],
+    ['no issuer id or paths', build('lno', [[10, utf8('a')]]), /neither/],
+    ['a short issuer id', build('lno', [[22, issuerId.slice(2)]]), /33 bytes/],
+    ['an unsigned invoice request', build('lnr', invreqFields), /missing signature/],
+    ['an invoice without a payment hash', build('lni', [...invreqFields, signature]), /missing/],
+  ])('rejects %s', (_, encoded, message) => {
+    expect(() => decodeBolt12(encoded)).toThrow(message);
+  });
+});
+
+describe('decodeTLVStream', () => {
+  it('reads BigSize types and lengths', () => {
+    const records = decodeTLVStream(Uint8Array.from([0x01, 0x00, 0xfd, 0x01, 0x00, 0x01, 0x07]));
+    expect(records).toEqual([
+      { type: 1n, value: new Uint8Array() },
+      { type: 256n, value: Uint8Array.of(7) },
+    ]);
+  });
+
+  it.each([
+    ['a non-minimal BigSize', [0xfd, 0x00, 0xfc, 0x00]],
+    ['a truncated value', [0x01, 0x02, 0x00]],
+    ['a repeated type', [0x01, 0x00, 0x01, 0x00]],
+  ])('rejects %s', (_, bytes) => {
+    expect(() => decodeTLVStream(Uint8Array.from(bytes))).toThrow();
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+
+import { CTSError } from '../../src/model/Errors';
+import { parsePaymentPayload } from '../../src/utils';
+
+// Fixtures copied from core.test.ts, bolt11.test.ts and bolt12.test.ts
+const V4_TOKEN =
+  'cashuBpGF0gaJhaUgArSaMTR9YJmFwgaNhYQFhc3hAOWE2ZGJiODQ3YmQyMzJiYTc2ZGIwZGYxOTcyMTZiMjlkM2I4Y2MxNDU1M2NkMjc4MjdmYzFjYzk0MmZlZGI0ZWFjWCEDhhhUP_trhpXfStS6vN6So0qWvc2X3O4NfM-Y1HISZ5JhZGlUaGFuayB5b3VhbXVodHRwOi8vbG9jYWxob3N0OjMzMzhhdWNzYXQ=';
+const CREQ_A =
+  'creqApGF0gaNhdGVub3N0cmFheKlucHJvZmlsZTFxeTI4d3VtbjhnaGo3dW45ZDNzaGp0bnl2OWtoMnVld2Q5aHN6OW1od2RlbjV0ZTB3ZmprY2N0ZTljdXJ4dmVuOWVlaHFjdHJ2NWhzenJ0aHdkZW41dGUwZGVoaHh0bnZkYWtxcWd5bWRleDNndmZzZnVqcDN4eW43ZTdxcnM4eXlxOWQ4enN1MnpxdWp4dXhjYXBmcXZ6YzhncnFka3RzYWeBgmFuYjE3YWloNDg0MGY1MWVhdWNzYXRhbYFwaHR0cHM6Ly9taW50LmNvbQ==';
+const CREQ_B =
+  'CREQB1QYQQSC3HVYUNQVFHXCPQQZQQQQQQQQQQQQ9QXQQPQQZSQ9MGW368QUE69UHNSVENXVH8XURPVDJN5VENXVUQWQREQYQQZQQZQQSGM6QFA3C8DTZ2FVZHVFQEACMWM0E50PE3K5TFMVPJJMN0VJ7M2TGRQQZSZMSZXYMSXQQHQ9EPGAMNWVAZ7TMJV4KXZ7FWV3SK6ATN9E5K7QCQRGQHY9MHWDEN5TE0WFJKCCTE9CURXVEN9EEHQCTRV5HSXQQSQ9EQ6AMNWVAZ7TMWDAEJUMR0DSRYDPGF'.toLowerCase();
+const invoice =
+  'lnbc20u1p3u27nppp5pm074ffk6m42lvae8c6847z7xuvhyknwgkk7pzdce47grf2ksqwsdpv2phhwetjv4jzqcneypqyc6t8dp6xu6twva2xjuzzda6qcqzpgxqyz5vqsp5sw6n7cztudpl5m5jv3z6dtqpt2zhd3q6dwgftey9qxv09w82rgjq9qyyssqhtfl8wv7scwp5flqvmgjjh20nf6utvv5daw5h43h69yqfwjch7wnra3cn94qkscgewa33wvfh7guz76rzsfg9pwlk8mqd27wavf2udsq3yeuju';
+const offer =
+  'lno1pqps7sjqpgtyzm3qv4uxzmtsd3jjqer9wd3hy6tsw35k7msjzfpy7nz5yqcnygrfdej82um5wf5k2uckyypwa3eyt44h6txtxquqh7lz5djge4afgfjn7k4rgrkuag0jsd5xvxg';
+const p2tr = 'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0';
+
+describe('parsePaymentPayload', () => {
+  it('classifies a token and a payment request', () => {
+    expect(parsePaymentPayload(V4_TOKEN)).toMatchObject({
+      kind: 'token',
+      operation: 'receive',
+      payload: V4_TOKEN,
+      metadata: { mint: 'http://localhost:3338', unit: 'sat' },
+    });
+    expect(parsePaymentPayload(`cashu:${V4_TOKEN}`)?.payload).toBe(V4_TOKEN);
+    const request = parsePaymentPayload(CREQ_A);
+    expect(request).toMatchObject({ kind: 'paymentRequest', operation: 'sendToRequest' });
+    expect(request?.kind === 'paymentRequest' && request.request.unit).toBe('sat');
+    expect(parsePaymentPayload(CREQ_B.toUpperCase())?.payload).toBe(CREQ_B);
+  });
+
+  it('classifies invoices and offers, with or without lightning:', () => {
+    const bolt11 = parsePaymentPayload(`  lightning:${invoice.toUpperCase()}\n`);
+    expect(bolt11).toMatchObject({ kind: 'bolt11', operation: 'meltBolt11', payload: invoice });
+    expect(bolt11?.kind === 'bolt11' && bolt11.invoice.amountMsat).toBe(2_000_000n);
+    const bolt12 = parsePaymentPayload(offer);
+    expect(bolt12).toMatchObject({ kind: 'bolt12', operation: 'meltBolt12', payload: offer });
+    expect(bolt12?.kind === 'bolt12' && bolt12.offer.offer.issuer).toBe('BOLT 12 industries');
+  });
+
+  it('classifies Lightning addresses and LNURLs without fetching them', () => {
+    expect(parsePaymentPayload('lightning:alice@pay.test')).toEqual({
+      kind: 'lnurl',
+      operation: 'meltBolt11',
+      payload: 'alice@pay.test',
+      url: 'https://pay.test/.well-known/lnurlp/alice',
+    });
+    expect(parsePaymentPayload('lnurlp://pay.test/lnurlp/alice')?.kind).toBe('lnurl');
+  });
+
+  it('classifies an onchain address', () => {
+    expect(parsePaymentPayload(p2tr)).toMatchObject({
+      kind: 'onchain',
+      operation: 'meltOnchain',
+      payload: p2tr,
+      address: { type: 'p2tr', network: 'mainnet' },
+    });
+  });
+
+  it('lists the options of a unified URI, cashu request first', () => {
+    const uri = `bitcoin:${p2tr}?amount=0.0001&lightning=${invoice}&lno=${offer}&creq=${CREQ_B}`;
+    const parsed = parsePaymentPayload(uri);
+    expect(parsed).toMatchObject({ kind: 'bip21', operation: 'sendToRequest', payload: uri });
+    if (parsed?.kind !== 'bip21') throw new Error('expected a bip21 payload');
+    expect(parsed.options.map((o) => o.kind)).toEqual([
+      'paymentRequest',
+      'bolt12',
+      'bolt11',
+      'onchain',
+    ]);
+    expect(parsed.options[3]).toMatchObject({ payload: p2tr, amountSat: 10_000n });
+    expect(parsed.uri.amountSat).toBe(10_000n);
+  });
+
+  it('leaves out parameters that do not decode', () => {
+    const parsed = parsePaymentPayload(`bitcoin:?lightning=lnbc1nope&lno=${offer}`);
+    expect(parsed).toMatchObject({ kind: 'bip21', operation: 'meltBolt12' });
+    expect(parsed?.kind === 'bip21' && parsed.options).toHaveLength(1);
+    expect(parsePaymentPayload('bitcoin:?lightning=lnbc1nope')).toBeNull();
+  });
+
+  it('falls back to scanning for a cashu payload', () => {
+    expect(parsePaymentPayload(`bitcoin:bc1qexample?cashu=${CREQ_A}`)?.kind).toBe('paymentRequest');
+    expect(parsePaymentPayload(`here you go: ${V4_TOKEN}. thanks!`)?.payload).toBe(V4_TOKEN);
+  });
+
+  it.each(['', 'hello', 'lnbc1nope', 'lni1qqqq', 'alice@localhost', 'bc1qnope'])(
+    'returns null for %j',
+    (text) => {
+      expect(parsePaymentPayload(text)).toBeNull();
+    },
+  );
+
+  it('rejects a non-string argument', () => {
+    expect(() => parsePaymentPayload(null as unknown as string)).toThrow(CTSError);
+  });
+});
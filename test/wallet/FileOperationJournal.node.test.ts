@@ -0,0 +1,67 @@
+import * as fs from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import { createFileOperationJournal, type FileSystemLike, type JournalEntry } from '../../src';
+
+function entry(id: string): JournalEntry {
+  return {
+    id,
+    kind: 'mint',
+    mintUrl: 'http://localhost:3338',
+    unit: 'sat',
+    createdAt: 1,
+    preview: { method: 'bolt11', keysetId: '00bd033559de27d0', quote: 'q', outputData: [] },
+  };
+}
+
+describe('FileOperationJournal', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'cashu-journal-'));
+    path = join(dir, 'journal.json');
+  });
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('persists open entries across instances', async () => {
+    const a = createFileOperationJournal(path, fs);
+    expect(await a.list()).toEqual([]);
+    await a.record(entry('1'));
+    await a.record(entry('2'));
+    await a.complete('1');
+
+    const b = createFileOperationJournal(path, fs);
+    expect(await b.list()).toEqual([entry('2')]);
+  });
+
+  test('record does not resolve before the entry is on disk', async () => {
+    const calls: string[] = [];
+    const spy: FileSystemLike = {
+      readFile: (p, enc) => fs.readFile(p, enc),
+      writeFile: (p, d, enc) => {
+        calls.push(`write ${p}`);
+        return fs.writeFile(p, d, enc);
+      },
+      rename: (from, to) => {
+        calls.push(`rename ${from} ${to}`);
+        return fs.rename(from, to);
+      },
+    };
+    await createFileOperationJournal(path, spy).record(entry('1'));
+    expect(calls).toEqual([`write ${path}.tmp`, `rename ${path}.tmp ${path}`]);
+    expect(JSON.parse(await fs.readFile(path, 'utf8')).entries).toHaveLength(1);
+  });
+
+  test('rejects a corrupt file', async () => {
+    await fs.writeFile(path, JSON.stringify({ version: 9 }), 'utf8');
+    await expect(createFileOperationJournal(path, fs).list()).rejects.toThrow(
+      'Invalid SerializedOperationJournal',
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import * as fs from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import {
+  Amount,
+  ProofStateConflictError,
+  createFileProofStore,
+  type FileSystemLike,
+  type StoredProof,
+} from '../../src';
+
+const mintUrl = 'http://localhost:3338';
+
+function entry(secret: string, amount: number, state: StoredProof['state'] = 'unspent') {
+  return {
+    proof: {
+      id: '00bd033559de27d0',
+      amount: Amount.from(amount),
+      secret,
+      C: '02' + 'ab'.repeat(32),
+    },
+    state,
+    mintUrl,
+    unit: 'sat',
+  };
+}
+
+describe('FileProofStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'cashu-proofstore-'));
+    path = join(dir, 'proofs.json');
+  });
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('starts empty when the file does not exist', async () => {
+    const store = createFileProofStore(path, fs);
+    expect(await store.list()).toEqual([]);
+    await expect(fs.access(path)).rejects.toThrow();
+  });
+
+  test('persists across instances', async () => {
+    const a = createFileProofStore(path, fs);
+    await a.put([entry('s1', 1), entry('s2', 2)]);
+    await a.transition(['s1'], 'pending', ['unspent']);
+
+    const b = createFileProofStore(path, fs);
+    const listed = await b.list();
+    expect(listed.map((e) => [e.proof.secret, e.state])).toEqual([
+      ['s1', 'pending'],
+      ['s2', 'unspent'],
+    ]);
+    expect(listed[1].proof.amount).toEqual(Amount.from(2));
+  });
+
+  test('keeps u64 amounts exact', async () => {
+    const big = Amount.from(2n ** 63n);
+    await createFileProofStore(path, fs).put([
+      { ...entry('s1', 1), proof: { ...entry('s1', 1).proof, amount: big } },
+    ]);
+    const [e] = await createFileProofStore(path, fs).list();
+    expect(e.proof.amount).toEqual(big);
+  });
+
+  test('writes through a temporary file and rename', async () => {
+    const calls: string[] = [];
+    const spy: FileSystemLike = {
+      readFile: (p, enc) => fs.readFile(p, enc),
+      writeFile: (p, d, enc) => {
+        calls.push(`write ${p}`);
+        return fs.writeFile(p, d, enc);
+      },
+      rename: (from, to) => {
+        calls.push(`rename ${from} ${to}`);
+        return fs.rename(from, to);
+      },
+    };
+    await createFileProofStore(path, spy).put([entry('s1', 1)]);
+    expect(calls).toEqual([`write ${path}.tmp`, `rename ${path}.tmp ${path}`]);
+  });
+
+  test('serializes concurrent operations', async () => {
+    const store = createFileProofStore(path, fs);
+    await store.put([entry('s1', 1)]);
+    const results = await Promise.allSettled([
+      store.transition(['s1'], 'reserved', ['unspent']),
+      store.transition(['s1'], 'reserved', ['unspent']),
+    ]);
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(ProofStateConflictError);
+    // The queue survives the failed operation
+    await store.put([entry('s2', 2)]);
+    expect(await createFileProofStore(path, fs).list()).toHaveLength(2);
+  });
+
+  test('reloads from disk after a failed write', async () => {
+    let fail = false;
+    const flaky: FileSystemLike = {
+      readFile: (p, enc) => fs.readFile(p, enc),
+      writeFile: (p, d, enc) =>
+        fail ? Promise.reject(new Error('disk full')) : fs.writeFile(p, d, enc),
+      rename: (from, to) => fs.rename(from, to),
+    };
+    const store = createFileProofStore(path, flaky);
+    await store.put([entry('s1', 1)]);
+    fail = true;
+    await expect(store.put([entry('s2', 2)])).rejects.toThrow('disk full');
+    fail = false;
+    expect((await store.list()).map((e) => e.proof.secret)).toEqual(['s1']);
+  });
+
+  test('rejects a corrupt file', async () => {
+    await fs.writeFile(path, JSON.stringify({ version: 9 }), 'utf8');
+    await expect(createFileProofStore(path, fs).list()).rejects.toThrow(
+      'Invalid SerializedProofStore',
+    );
+  });
+});
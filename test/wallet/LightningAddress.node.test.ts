@@ -0,0 +1,213 @@
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bech32 } from '@scure/base';
+import { describe, expect, test } from 'vitest';
+
+import {
+  Wallet,
+  lnurlPayUrl,
+  requestLnurlInvoice,
+  resolveLnurlPay,
+  type RequestFn,
+} from '../../src';
+import { FakeLightning, TestMint } from '../../src/testing';
+import request from '../../src/transport';
+import { Bytes } from '../../src/utils';
+
+const metadata = JSON.stringify([
+  ['text/plain', 'Pay alice'],
+  ['text/identifier', 'alice@pay.test'],
+]);
+
+type Overrides = {
+  payRequest?: Record<string, unknown>;
+  /**
+   * Replaces the invoice the callback returns, given the requested msat.
+   */
+  invoice?: (msat: number) => unknown;
+};
+
+/**
+ * Stand-in LNURL-pay service for alice@pay.test, issuing invoices from its own node.
+ */
+function lnurlServer(overrides: Overrides = {}) {
+  const lightning = new FakeLightning({ seed: new Uint8Array(32).fill(9) });
+  const calls: URL[] = [];
+  const fetch = (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(new Request(input, init).url);
+    calls.push(url);
+    let body: unknown = { status: 'ERROR', reason: 'Not found' };
+    if (url.pathname === '/.well-known/lnurlp/alice') {
+      body = {
+        tag: 'payRequest',
+        callback: 'https://pay.test/lnurlp/alice/callback?user=1',
+        minSendable: 1000,
+        maxSendable: 1_000_000,
+        metadata,
+        commentAllowed: 10,
+        ...overrides.payRequest,
+      };
+    } else if (url.pathname === '/lnurlp/alice/callback') {
+      const msat = Number(url.searchParams.get('amount'));
+      const descriptionHash = Bytes.toHex(sha256(Bytes.fromString(metadata)));
+      body = {
+        pr: overrides.invoice?.(msat) ?? lightning.createInvoice(msat / 1000, { descriptionHash }),
+        routes: [],
+        successAction: { tag: 'message', message: 'Thanks' },
+      };
+    }
+    return Promise.resolve(Response.json(body));
+  };
+  const lnurlRequest: RequestFn = (args) => request({ ...args, fetch });
+  return { lightning, calls, fetch, request: lnurlRequest };
+}
+
+describe('lnurlPayUrl', () => {
+  test.each([
+    ['alice@pay.test', 'https://pay.test/.well-known/lnurlp/alice'],
+    ['lightning:Alice@Pay.Test', 'https://pay.test/.well-known/lnurlp/alice'],
+    ['bob@abc.onion', 'http://abc.onion/.well-known/lnurlp/bob'],
+    ['lnurlp://pay.test/lnurlp/alice', 'https://pay.test/lnurlp/alice'],
+    // LUD-01 example
+    [
+      'LNURL1DP68GURN8GHJ7UM9WFMXJCM99E3K7MF0V9CXJ0M385EKVCENXC6R2C35XVUKXEFCV5MKVV34X5EKZD3EV56NYD3HXQURZEPEXEJXXEPNXSCRVWFNV9NXZCN9XQ6XYEFHVGCXXCMYXYMNSERXFQ5FNS',
+      'https://service.com/api?q=3fc3645b439ce8e7f2553a69e5267081d96dcd340693afabe04be7b0ccd178df',
+    ],
+  ])('resolves %s', (target, url) => {
+    expect(lnurlPayUrl(target)).toBe(url);
+  });
+
+  const lnurl = (url: string) =>
+    bech32.encode('lnurl', bech32.toWords(Bytes.fromString(url)), 2000);
+
+  test('accepts a bech32 LNURL for an onion service over http', () => {
+    expect(lnurlPayUrl(lnurl('http://abc.onion/lnurlp/bob'))).toBe('http://abc.onion/lnurlp/bob');
+  });
+
+  test.each([
+    'alice',
+    'alice@localhost',
+    'lnurl1qqqq',
+    'https://pay.test',
+    lnurl('http://pay.test/lnurlp/alice'),
+    lnurl('http://evil.onion.pay.test/lnurlp/alice'),
+    lnurl('ftp://pay.test/lnurlp/alice'),
+  ])('rejects %s', (target) => {
+    expect(() => lnurlPayUrl(target)).toThrow();
+  });
+});
+
+describe('resolveLnurlPay and requestLnurlInvoice', () => {
+  test('resolve the address and fetch a checked invoice', async () => {
+    const server = lnurlServer();
+    const payRequest = await resolveLnurlPay('alice@pay.test', server);
+    expect(payRequest).toMatchObject({
+      url: 'https://pay.test/.well-known/lnurlp/alice',
+      description: 'Pay alice',
+      identifier: 'alice@pay.test',
+      commentAllowed: 10,
+    });
+    expect(payRequest.minSendable.toNumber()).toBe(1000);
+    expect(payRequest.maxSendable.toNumber()).toBe(1_000_000);
+
+    const { decoded, successAction } = await requestLnurlInvoice(payRequest, 21_000, {
+      comment: 'hi',
+      request: server.request,
+    });
+    expect(decoded.amountMsat).toBe(21_000n);
+    expect(successAction).toEqual({ tag: 'message', message: 'Thanks' });
+    const callback = server.calls[1];
+    expect(callback.searchParams.get('user')).toBe('1');
+    expect(callback.searchParams.get('amount')).toBe('21000');
+    expect(callback.searchParams.get('comment')).toBe('hi');
+  });
+
+  test.each([
+    ['a request of another kind', { tag: 'withdrawRequest' }, /not a pay request/],
+    ['min above max', { minSendable: 2000, maxSendable: 1000 }, /minSendable exceeds/],
+    ['a fractional amount', { maxSendable: 1.5 }, /maxSendable/],
+    ['metadata without text/plain', { metadata: '[["text/email","a@b.c"]]' }, /text\/plain/],
+    ['metadata that is not JSON', { metadata: 'hi' }, /not JSON/],
+    ['a service error', { status: 'ERROR', reason: 'User unknown' }, /User unknown/],
+    ['a plain http callback', { callback: 'http://pay.test/lnurlp/alice/callback' }, /https/],
+    ['a callback to a fake onion', { callback: 'http://x.onion.pay.test/cb' }, /https/],
+  ])('rejects %s', async (_, payRequest, message) => {
+    const server = lnurlServer({ payRequest });
+    await expect(resolveLnurlPay('alice@pay.test', server)).rejects.toThrow(message);
+  });
+
+  test('accepts an http callback to an onion service', async () => {
+    const callback = 'http://abc.onion/lnurlp/alice/callback';
+    const server = lnurlServer({ payRequest: { callback } });
+    expect((await resolveLnurlPay('alice@pay.test', server)).callback).toBe(callback);
+  });
+
+  test('refuses amounts and comments the service does not accept', async () => {
+    const server = lnurlServer();
+    const payRequest = await resolveLnurlPay('alice@pay.test', server);
+    await expect(requestLnurlInvoice(payRequest, 999, server)).rejects.toThrow(/outside/);
+    await expect(requestLnurlInvoice(payRequest, 1_000_001, server)).rejects.toThrow(/outside/);
+    await expect(
+      requestLnurlInvoice(payRequest, 1000, { ...server, comment: 'x'.repeat(11) }),
+    ).rejects.toThrow(/10 characters/);
+    // Nothing was asked of the callback
+    expect(server.calls).toHaveLength(1);
+  });
+
+  test.each([
+    [
+      'for another amount',
+      (lightning: FakeLightning, msat: number) =>
+        lightning.createInvoice(msat / 1000 + 1, {
+          descriptionHash: Bytes.toHex(sha256(Bytes.fromString(metadata))),
+        }),
+      /amount does not match/,
+    ],
+    [
+      'without the metadata hash',
+      (lightning: FakeLightning, msat: number) =>
+        lightning.createInvoice(msat / 1000, { description: 'Pay alice' }),
+      /description hash/,
+    ],
+    ['that does not decode', () => 'lnbc1notaninvoice', /invalid BOLT11/],
+  ])('rejects an invoice %s', async (_, invoice, message) => {
+    const server = lnurlServer();
+    const payRequest = await resolveLnurlPay('alice@pay.test', server);
+    const bad = lnurlServer({ invoice: (msat) => invoice(server.lightning, msat) });
+    await expect(requestLnurlInvoice(payRequest, 5000, bad)).rejects.toThrow(message);
+  });
+});
+
+describe('Wallet.createMeltQuoteLnurl', () => {
+  test('quotes the invoice fetched for a Lightning address', async () => {
+    const mint = new TestMint('http://mint.test');
+    const wallet = new Wallet(mint.url, { requestFetch: mint.fetch });
+    await wallet.loadMint();
+    const server = lnurlServer();
+
+    const quote = await wallet.createMeltQuoteLnurl('alice@pay.test', 21_000, {
+      request: server.request,
+    });
+    expect(quote.amount.toNumber()).toBe(21);
+    expect(quote.request).toMatch(/^lnbc210n1/);
+    expect(server.calls.map((u) => u.pathname)).toEqual([
+      '/.well-known/lnurlp/alice',
+      '/lnurlp/alice/callback',
+    ]);
+  });
+
+  test("fetches over the wallet's own transport by default", async () => {
+    const mint = new TestMint('http://mint.test');
+    const server = lnurlServer();
+    const wallet = new Wallet(mint.url, {
+      requestFetch: (input, init) =>
+        new URL(new Request(input, init).url).host === 'pay.test'
+          ? server.fetch(input, init)
+          : mint.fetch(input, init),
+    });
+    await wallet.loadMint();
+
+    const quote = await wallet.createMeltQuoteLnurl('alice@pay.test', 21_000);
+    expect(quote.amount.toNumber()).toBe(21);
+    expect(server.calls).toHaveLength(2);
+  });
+});
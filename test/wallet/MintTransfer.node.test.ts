@@ -0,0 +1,378 @@
+import { HttpResponse, http } from 'msw';
+import { describe, expect, test } from 'vitest';
+
+import {
+  Amount,
+  MeltQuoteState,
+  Wallet,
+  createMemoryProofStore,
+  resumeMintTransfer,
+  transferBetweenMints,
+  type MintTransferStage,
+  type MintTransferState,
+  type Proof,
+  type ProofStore,
+  sumProofs,
+} from '../../src';
+
+import { dummyKeysResp, dummyKeysetResp, mintInfoResp, mintUrl, useTestServer } from './_setup';
+
+const server = useTestServer();
+
+const destUrl = 'http://localhost:3339';
+const keysetId = '00bd033559de27d0';
+const C_ = '021179b095a67380ab3285424b563b7aab9818bd38068e1930641b3dceb364d422';
+const C = '034268c0bd30b945adf578aca2dc0d1e26ef089869aaf9a08ba3a6da40fda1d8be';
+
+type Sig = { id: string; amount: number; C_: string };
+
+function inFuture() {
+  return Math.floor(Date.now() / 1000) + 600;
+}
+
+/**
+ * Source mint at mintUrl, destination at destUrl. Each new mint quote gets a fresh id.
+ */
+function serveMints(opts: {
+  feeReserve?: number;
+  meltState?: MeltQuoteState;
+  meltChange?: (outputs: Array<{ id: string }>) => Sig[];
+}) {
+  let n = 0;
+  const amounts: number[] = [];
+  // Quote number as the data part's length: bolt11 data has no digit 1
+  const invoice = (i: number) => `lnbc${amounts[i] * 10}n1${'q'.repeat(i)}`;
+  const meltBody = (quote: string, state: MeltQuoteState, change?: Sig[]) => ({
+    quote,
+    amount: amounts[Number(quote.slice(5))],
+    fee_reserve: opts.feeReserve ?? 1,
+    request: invoice(Number(quote.slice(5))),
+    unit: 'sat',
+    state,
+    expiry: inFuture(),
+    ...(change && { change }),
+  });
+  const mintBody = (i: number, state: string) => ({
+    quote: `mint-${i}`,
+    request: invoice(i),
+    amount: amounts[i],
+    unit: 'sat',
+    state,
+    expiry: inFuture(),
+  });
+  let mintState = 'UNPAID';
+  server.use(
+    http.get(destUrl + '/v1/info', () => HttpResponse.json(mintInfoResp)),
+    http.get(destUrl + '/v1/keys', () => HttpResponse.json(dummyKeysResp)),
+    http.get(destUrl + '/v1/keysets', () => HttpResponse.json(dummyKeysetResp)),
+    http.post(destUrl + '/v1/mint/quote/bolt11', async ({ request }) => {
+      const { amount } = (await request.json()) as { amount: number };
+      amounts[++n] = amount;
+      return HttpResponse.json(mintBody(n, 'UNPAID'));
+    }),
+    http.get(destUrl + '/v1/mint/quote/bolt11/:id', ({ params }) =>
+      HttpResponse.json(mintBody(Number(String(params.id).slice(5)), mintState)),
+    ),
+    http.post(destUrl + '/v1/mint/bolt11', async ({ request }) => {
+      const { outputs } = (await request.json()) as {
+        outputs: Array<{ id: string; amount: number }>;
+      };
+      return HttpResponse.json({
+        signatures: outputs.map((o) => ({ id: o.id, amount: o.amount, C_ })),
+      });
+    }),
+    http.post(mintUrl + '/v1/melt/quote/bolt11', async ({ request: req }) => {
+      const { request } = (await req.json()) as { request: string };
+      const data = /n1(q+)$/.exec(request)?.[1] ?? '';
+      return HttpResponse.json(meltBody(`melt-${data.length}`, MeltQuoteState.UNPAID));
+    }),
+    http.post(mintUrl + '/v1/melt/bolt11', async ({ request }) => {
+      const { quote, outputs } = (await request.json()) as {
+        quote: string;
+        outputs: Array<{ id: string }>;
+      };
+      const state = opts.meltState ?? MeltQuoteState.PAID;
+      return HttpResponse.json(meltBody(quote, state, opts.meltChange?.(outputs)));
+    }),
+  );
+  return {
+    mintQuoteResponds(state: string) {
+      mintState = state;
+    },
+    // A list of states is answered in order, repeating the last
+    meltQuoteResponds(states: MeltQuoteState | MeltQuoteState[], change?: Sig[]) {
+      const queue = Array.isArray(states) ? [...states] : [states];
+      server.use(
+        http.get(mintUrl + '/v1/melt/quote/bolt11/:id', ({ params }) => {
+          const state = queue.length > 1 ? queue.shift()! : queue[0];
+          return HttpResponse.json(meltBody(String(params.id), state, change));
+        }),
+      );
+    },
+  };
+}
+
+function proof(secret: string, amount: number): Proof {
+  return { id: keysetId, amount: Amount.from(amount), secret, C };
+}
+
+async function wallets(...amounts: number[]) {
+  const store = createMemoryProofStore();
+  await store.put(
+    amounts.map((a, i) => ({
+      proof: proof(`in-${i}`, a),
+      state: 'unspent' as const,
+      mintUrl,
+      unit: 'sat',
+    })),
+  );
+  const events = { transport: 'polling', pollIntervalMs: 10 } as const;
+  const source = new Wallet(mintUrl, { proofStore: store, events });
+  const dest = new Wallet(destUrl, { proofStore: store, events });
+  await source.loadMint();
+  await dest.loadMint();
+  return { source, dest, store };
+}
+
+async function stateOf(store: ProofStore, mint: string) {
+  const entries = await store.list({ mintUrl: mint });
+  return Object.fromEntries(entries.map((e) => [e.proof.secret, e.state]));
+}
+
+function recorder() {
+  const states: MintTransferState[] = [];
+  return {
+    states,
+    stages: (): MintTransferStage[] => states.map((s) => s.stage),
+    onStateChange: (s: MintTransferState) => {
+      states.push(JSON.parse(JSON.stringify(s)) as MintTransferState);
+    },
+  };
+}
+
+describe('transferBetweenMints', () => {
+  test('melts at the source, mints at the destination and keeps the change', async () => {
+    serveMints({ meltChange: (outputs) => [{ id: outputs[0].id, amount: 1, C_ }] });
+    const { source, dest, store } = await wallets(2, 2);
+    const rec = recorder();
+
+    const { state, proofs, change } = await transferBetweenMints(source, dest, 2, rec);
+    expect(rec.stages()).toEqual(['quoted', 'melting', 'paid', 'minting', 'minted']);
+    expect(state.amount).toBe('2');
+    expect(sumProofs(proofs).toNumber()).toBe(2);
+    expect(sumProofs(change).toNumber()).toBe(1);
+    expect(await stateOf(store, mintUrl)).toEqual({
+      'in-0': 'spent',
+      'in-1': 'spent',
+      [change[0].secret]: 'unspent',
+    });
+    expect(Object.values(await stateOf(store, destUrl))).toEqual(['unspent']);
+  });
+
+  test('shrinks the amount until it fits the fee reserve', async () => {
+    serveMints({ feeReserve: 1 });
+    const { source, dest } = await wallets(2);
+    const { state, proofs } = await transferBetweenMints(source, dest, 3);
+    expect(state.amount).toBe('1');
+    expect(state.requested).toBe('3');
+    expect(state.attempts).toBe(2);
+    expect(sumProofs(proofs).toNumber()).toBe(1);
+  });
+
+  test('gives up when fees eat the whole balance', async () => {
+    serveMints({ feeReserve: 2 });
+    const { source, dest } = await wallets(1, 1);
+    await expect(transferBetweenMints(source, dest, 2)).rejects.toThrow(
+      'balance does not cover any amount up to 2 after fees',
+    );
+  });
+
+  test('returns a pending melt and finishes it on resume', async () => {
+    const mints = serveMints({ meltState: MeltQuoteState.PENDING });
+    const { source, dest, store } = await wallets(2, 2);
+    const rec = recorder();
+
+    mints.meltQuoteResponds(MeltQuoteState.PENDING);
+    const first = await transferBetweenMints(source, dest, 2, rec);
+    expect(first.state.stage).toBe('melt-pending');
+    expect(first.proofs).toEqual([]);
+    expect(await stateOf(store, mintUrl)).toEqual({ 'in-0': 'pending', 'in-1': 'pending' });
+
+    const blank = rec.states[1].melt?.outputData[0];
+    mints.meltQuoteResponds(MeltQuoteState.PAID, [
+      { id: blank?.blindedMessage.id ?? '', amount: 1, C_ },
+    ]);
+    const { state, proofs, change } = await resumeMintTransfer(source, dest, first.state, rec);
+    expect(state.stage).toBe('minted');
+    expect(sumProofs(proofs).toNumber()).toBe(2);
+    expect(sumProofs(change).toNumber()).toBe(1);
+    expect((await stateOf(store, mintUrl))['in-0']).toBe('spent');
+  });
+
+  test('mints once the destination is paid, even while the melt is pending', async () => {
+    const mints = serveMints({ meltState: MeltQuoteState.PENDING });
+    mints.meltQuoteResponds(MeltQuoteState.PENDING);
+    mints.mintQuoteResponds('PAID');
+    const { source, dest } = await wallets(2, 2);
+    const { state, proofs, change } = await transferBetweenMints(source, dest, 2);
+    expect(state.stage).toBe('minted');
+    expect(sumProofs(proofs).toNumber()).toBe(2);
+    expect(change).toEqual([]);
+  });
+
+  test('returns the pending melt when the wait times out', async () => {
+    const mints = serveMints({ meltState: MeltQuoteState.PENDING });
+    mints.meltQuoteResponds(MeltQuoteState.PENDING);
+    const { source, dest, store } = await wallets(2, 2);
+    const { state } = await transferBetweenMints(source, dest, 2, { timeoutMs: 50 });
+    expect(state.stage).toBe('melt-pending');
+    expect(await stateOf(store, mintUrl)).toEqual({ 'in-0': 'pending', 'in-1': 'pending' });
+  });
+
+  test('stops waiting when the pending melt fails', async () => {
+    const mints = serveMints({ meltState: MeltQuoteState.PENDING });
+    mints.meltQuoteResponds([MeltQuoteState.PENDING, MeltQuoteState.UNPAID]);
+    const { source, dest, store } = await wallets(2, 2);
+    const rec = recorder();
+    await expect(
+      transferBetweenMints(source, dest, 2, { ...rec, timeoutMs: 60_000 }),
+    ).rejects.toThrow('melt failed: source mint did not pay the invoice');
+    expect(rec.stages()).toEqual(['quoted', 'melting', 'melt-pending', 'failed']);
+    expect(await stateOf(store, mintUrl)).toEqual({ 'in-0': 'unspent', 'in-1': 'unspent' });
+  });
+
+  test('settles a melt whose response was lost from the quote state', async () => {
+    const mints = serveMints({});
+    server.use(http.post(mintUrl + '/v1/melt/bolt11', () => HttpResponse.error()));
+    mints.meltQuoteResponds(MeltQuoteState.PAID);
+    const { source, dest, store } = await wallets(2, 2);
+    const { state } = await transferBetweenMints(source, dest, 2);
+    expect(state.stage).toBe('minted');
+    expect(await stateOf(store, mintUrl)).toEqual({ 'in-0': 'spent', 'in-1': 'spent' });
+  });
+
+  test('restores the proofs of a mint issued before a crash', async () => {
+    const mints = serveMints({});
+    const { source, dest, store } = await wallets(2, 2);
+    let saved: MintTransferState | undefined;
+    await expect(
+      transferBetweenMints(source, dest, 2, {
+        onStateChange: (s) => {
+          // Crash after the mint, before its stage is saved
+          if (s.stage === 'minted') throw new Error('crash');
+          saved = JSON.parse(JSON.stringify(s)) as MintTransferState;
+        },
+      }),
+    ).rejects.toThrow('crash');
+    expect(saved?.stage).toBe('minting');
+
+    server.use(
+      http.post(destUrl + '/v1/mint/bolt11', () =>
+        HttpResponse.json({ code: 20002, detail: 'quote already issued' }, { status: 400 }),
+      ),
+      http.post(destUrl + '/v1/restore', async ({ request }) => {
+        const { outputs } = (await request.json()) as {
+          outputs: Array<{ id: string; amount: number }>;
+        };
+        const signatures = outputs.map((o) => ({ id: o.id, amount: o.amount, C_ }));
+        return HttpResponse.json({ outputs, signatures });
+      }),
+    );
+    mints.mintQuoteResponds('ISSUED');
+    const { state, proofs } = await resumeMintTransfer(source, dest, saved!);
+    expect(state.stage).toBe('minted');
+    expect(sumProofs(proofs).toNumber()).toBe(2);
+    // The same proofs the first run stored, not a second mint
+    expect(await stateOf(store, destUrl)).toEqual({ [proofs[0].secret]: 'unspent' });
+  });
+
+  test('re-quotes expired quotes before melting', async () => {
+    serveMints({});
+    const { source, dest } = await wallets(2, 2);
+    const rec = recorder();
+    await expect(
+      transferBetweenMints(source, dest, 2, {
+        onStateChange: () => {
+          throw new Error('crash');
+        },
+      }),
+    ).rejects.toThrow('crash');
+
+    const saved: MintTransferState = {
+      stage: 'quoted',
+      sourceMintUrl: mintUrl,
+      destMintUrl: destUrl,
+      unit: 'sat',
+      requested: '2',
+      amount: '2',
+      mintQuote: 'mint-1',
+      meltQuote: 'melt-1',
+      feeReserve: '1',
+      expiry: 1,
+      attempts: 1,
+      change: [],
+      proofs: [],
+    };
+    const { state } = await resumeMintTransfer(source, dest, saved, rec);
+    expect(rec.stages()).toEqual(['quoted', 'melting', 'paid', 'minting', 'minted']);
+    expect(state.mintQuote).toBe('mint-2');
+    expect(state.attempts).toBe(2);
+  });
+
+  test('fails and releases the inputs when the source mint refuses', async () => {
+    const mints = serveMints({});
+    server.use(
+      http.post(mintUrl + '/v1/melt/bolt11', () =>
+        HttpResponse.json({ code: 20001, detail: 'route not found' }, { status: 400 }),
+      ),
+    );
+    mints.meltQuoteResponds(MeltQuoteState.UNPAID);
+    const { source, dest, store } = await wallets(2, 2);
+    const rec = recorder();
+    await expect(transferBetweenMints(source, dest, 2, rec)).rejects.toThrow(
+      'melt failed: route not found',
+    );
+    expect(rec.states[rec.states.length - 1]).toMatchObject({
+      stage: 'failed',
+      error: 'route not found',
+    });
+    expect(await stateOf(store, mintUrl)).toEqual({ 'in-0': 'unspent', 'in-1': 'unspent' });
+  });
+
+  test('fails a resumed melt whose inputs the store no longer holds', async () => {
+    const mints = serveMints({});
+    const { source, dest, store } = await wallets(2, 2);
+    let saved: MintTransferState | undefined;
+    await expect(
+      transferBetweenMints(source, dest, 2, {
+        onStateChange: (s) => {
+          saved = JSON.parse(JSON.stringify(s)) as MintTransferState;
+          // Crash before the melt is sent
+          if (s.stage === 'melting') throw new Error('crash');
+        },
+      }),
+    ).rejects.toThrow('crash');
+    expect(saved?.stage).toBe('melting');
+
+    // Moved by another operation while the transfer was down; the store refuses to send them
+    await store.transition(['in-0', 'in-1'], 'spent');
+    mints.meltQuoteResponds(MeltQuoteState.UNPAID);
+    const rec = recorder();
+    await expect(resumeMintTransfer(source, dest, saved!, rec)).rejects.toThrow(
+      'melt failed: Cannot mark 2 proof(s) pending',
+    );
+    expect(rec.stages()).toEqual(['failed']);
+  });
+
+  test('rejects wallets of different units and foreign states', async () => {
+    serveMints({});
+    const { source, dest } = await wallets();
+    const usd = new Wallet(destUrl, { unit: 'usd' });
+    await expect(transferBetweenMints(source, usd, 2)).rejects.toThrow(
+      "source unit 'sat' differs from dest unit 'usd'",
+    );
+    await expect(
+      resumeMintTransfer(dest, source, { sourceMintUrl: mintUrl } as MintTransferState),
+    ).rejects.toThrow('state belongs to other wallets');
+  });
+});
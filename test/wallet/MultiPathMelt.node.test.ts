@@ -0,0 +1,183 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  MeltQuoteState,
+  Wallet,
+  createMemoryProofStore,
+  meltMultiPath,
+  sumProofs,
+} from '../../src';
+import { FakeLightning, FakeLightningNetwork, TestMint } from '../../src/testing';
+
+async function fundedWallet(url: string, amount: number, paymentNetwork: FakeLightningNetwork) {
+  const mint = new TestMint(url, { lightning: new FakeLightning({ paymentNetwork }) });
+  const wallet = new Wallet(mint.url, { requestFetch: mint.fetch });
+  await wallet.loadMint();
+  const quote = await wallet.createMintQuoteBolt11(amount);
+  mint.lightning.pay(quote.request);
+  const proofs = await wallet.mintProofsBolt11(amount, quote);
+  return { mint, wallet, proofs };
+}
+
+async function setup(...balances: number[]) {
+  const network = new FakeLightningNetwork();
+  const funded = await Promise.all(
+    balances.map((amount, i) => fundedWallet(`http://mint${i}.test`, amount, network)),
+  );
+  const proofsOf = new Map(funded.map((f) => [f.wallet, f.proofs]));
+  // The payee is on its own node: the mints pay it over the network
+  const payee = new FakeLightning({ seed: new Uint8Array(32).fill(7), paymentNetwork: network });
+  return {
+    funded,
+    wallets: funded.map((f) => f.wallet),
+    proofs: (wallet: Wallet) => proofsOf.get(wallet)!,
+    payee,
+  };
+}
+
+const shares = (parts: Array<{ amountMsat: { toNumber(): number } }>) =>
+  parts.map((p) => p.amountMsat.toNumber());
+
+describe('meltMultiPath', () => {
+  test('pays an invoice from two mints and reports the preimage', async () => {
+    const { wallets, proofs, payee } = await setup(100, 100);
+    const invoice = payee.createInvoice(150);
+
+    const result = await meltMultiPath(invoice, wallets, { proofs });
+    expect(result.state).toBe('paid');
+    expect(result.preimage).toBe(payee.lookup(invoice)!.preimage);
+    // The first part could not cover its fee reserve at 100 sat, so it shrank to 98
+    expect(shares(result.parts)).toEqual([98_000, 52_000]);
+    expect(result.parts.every((p) => p.state === MeltQuoteState.PAID)).toBe(true);
+    // The test mints return the unused reserve as change
+    expect(result.fee.toNumber()).toBe(0);
+    expect(result.feeReserve.toNumber()).toBe(4);
+  });
+
+  test('uses a single mint when its balance covers the invoice', async () => {
+    const { wallets, proofs, payee } = await setup(50, 500);
+    const result = await meltMultiPath(payee.createInvoice(150), wallets, { proofs });
+    expect(result.state).toBe('paid');
+    expect(result.parts).toHaveLength(1);
+    expect(result.parts[0].wallet).toBe(wallets[1]);
+  });
+
+  test('pays from stored proofs and settles each store', async () => {
+    const network = new FakeLightningNetwork();
+    const funded = await Promise.all(
+      [80, 80].map(async (amount, i) => {
+        const { wallet, proofs, mint } = await fundedWallet(
+          `http://store${i}.test`,
+          amount,
+          network,
+        );
+        const stored = new Wallet(mint.url, {
+          requestFetch: mint.fetch,
+          proofStore: createMemoryProofStore(),
+        });
+        await stored.loadMint();
+        await stored.proofStore!.put(
+          proofs.map((proof) => ({ proof, state: 'unspent', mintUrl: mint.url, unit: 'sat' })),
+        );
+        return { wallet, stored };
+      }),
+    );
+    const payee = new FakeLightning({ seed: new Uint8Array(32).fill(7), paymentNetwork: network });
+    const wallets = funded.map((f) => f.stored);
+
+    const result = await meltMultiPath(payee.createInvoice(100), wallets);
+    expect(result.state).toBe('paid');
+    const left = await Promise.all(
+      wallets.map(async (w) => sumProofs(await w.getStoredProofs()).toNumber()),
+    );
+    expect(left.reduce((a, b) => a + b)).toBe(60);
+  });
+
+  test('sends a failed part again while the others are in flight', async () => {
+    const { funded, wallets, proofs, payee } = await setup(120, 60, 50);
+    const invoice = payee.createInvoice(150);
+    funded[0].mint.lightning.setOutcome(invoice, 'pending');
+    funded[1].mint.lightning.setOutcome(invoice, 'failed');
+
+    const result = await meltMultiPath(invoice, wallets, { proofs });
+    expect(result.state).toBe('paid');
+    expect(result.parts.map((p) => [p.wallet, p.state])).toEqual([
+      [wallets[0], MeltQuoteState.PENDING],
+      [wallets[1], MeltQuoteState.UNPAID],
+      [wallets[2], MeltQuoteState.PAID],
+    ]);
+    expect(result.parts[2].amountMsat.equals(result.parts[1].amountMsat)).toBe(true);
+    expect(result.preimage).toBe(payee.lookup(invoice)!.preimage);
+  });
+
+  test('stops once a part is paid, as the payee has settled the invoice', async () => {
+    const { funded, wallets, proofs, payee } = await setup(120, 60, 50);
+    const invoice = payee.createInvoice(150);
+    funded[1].mint.lightning.setOutcome(invoice, 'failed');
+
+    const result = await meltMultiPath(invoice, wallets, { proofs });
+    expect(result.state).toBe('paid');
+    expect(result.preimage).toBe(payee.lookup(invoice)!.preimage);
+    // The failed share is not sent again through the third mint
+    expect(result.parts.map((p) => [p.wallet, p.state])).toEqual([
+      [wallets[0], MeltQuoteState.PAID],
+      [wallets[1], MeltQuoteState.UNPAID],
+    ]);
+    expect(result.parts[1].error).toBeDefined();
+  });
+
+  test('reports parts left in flight as pending', async () => {
+    const { funded, wallets, proofs, payee } = await setup(100, 100);
+    const invoice = payee.createInvoice(150);
+    funded.forEach((f) => f.mint.lightning.setOutcome(invoice, 'pending'));
+
+    const result = await meltMultiPath(invoice, wallets, { proofs });
+    expect(result.state).toBe('pending');
+    expect(result.preimage).toBeUndefined();
+    expect(result.parts.map((p) => p.state)).toEqual([
+      MeltQuoteState.PENDING,
+      MeltQuoteState.PENDING,
+    ]);
+    // Nothing is paid yet, so no fee; both reserves are still held
+    expect(result.fee.toNumber()).toBe(0);
+    expect(result.feeReserve.toNumber()).toBe(4);
+  });
+
+  test('reports a partial payment when no mint is left to retry', async () => {
+    const { funded, wallets, proofs, payee } = await setup(100, 100);
+    const invoice = payee.createInvoice(150);
+    funded[0].mint.lightning.setOutcome(invoice, 'pending');
+    funded[1].mint.lightning.setOutcome(invoice, 'failed');
+
+    const result = await meltMultiPath(invoice, wallets, { proofs });
+    expect(result.state).toBe('partial');
+    expect(result.parts.map((p) => p.state)).toEqual([
+      MeltQuoteState.PENDING,
+      MeltQuoteState.UNPAID,
+    ]);
+    expect(result.parts[1].error).toBeDefined();
+  });
+
+  test('reports failure when no part goes through', async () => {
+    const { funded, wallets, proofs, payee } = await setup(100, 100);
+    const invoice = payee.createInvoice(150);
+    funded.forEach((f) => f.mint.lightning.setOutcome(invoice, 'failed'));
+
+    const result = await meltMultiPath(invoice, wallets, { proofs });
+    expect(result.state).toBe('failed');
+    expect(result.preimage).toBeUndefined();
+    expect(result.feeReserve.toNumber()).toBe(0);
+  });
+
+  test('throws before spending anything', async () => {
+    const { wallets, proofs, payee } = await setup(50, 50);
+    await expect(meltMultiPath(payee.createInvoice(150), wallets, { proofs })).rejects.toThrow(
+      /do not cover/,
+    );
+    await expect(meltMultiPath(payee.createInvoice(null), wallets, { proofs })).rejects.toThrow(
+      /no amount/,
+    );
+    await expect(meltMultiPath('lnbc1nope', wallets, { proofs })).rejects.toThrow(/invalid/);
+    await expect(meltMultiPath(payee.createInvoice(10), wallets)).rejects.toThrow(/proofStore/);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  Amount,
+  MemoryOperationJournal,
+  OutputData,
+  createMemoryOperationJournal,
+  deserializeMeltPreview,
+  deserializeMintPreview,
+  serializeMeltPreview,
+  serializeMintPreview,
+  type JournalEntry,
+  type MeltPreview,
+  type MintPreview,
+} from '../../src';
+import { DUMMY_TEST_KEYS } from '../consts';
+
+const keyset = { id: DUMMY_TEST_KEYS.id, keys: DUMMY_TEST_KEYS.keys };
+
+function entry(id: string): JournalEntry {
+  return {
+    id,
+    kind: 'mint',
+    mintUrl: 'http://localhost:3338',
+    unit: 'sat',
+    createdAt: 1,
+    preview: { method: 'bolt11', keysetId: keyset.id, quote: 'q', outputData: [] },
+  };
+}
+
+describe('MemoryOperationJournal', () => {
+  test('record, list and complete', async () => {
+    const journal = createMemoryOperationJournal();
+    await journal.record(entry('a'));
+    await journal.record(entry('b'));
+    expect((await journal.list()).map((e) => e.id)).toEqual(['a', 'b']);
+    await journal.complete('a');
+    await journal.complete('zz');
+    expect((await journal.list()).map((e) => e.id)).toEqual(['b']);
+  });
+
+  test('toJSON / fromJSON round trip', async () => {
+    const journal = new MemoryOperationJournal([entry('a')]);
+    const revived = MemoryOperationJournal.fromJSON(JSON.parse(JSON.stringify(journal.toJSON())));
+    expect(await revived.list()).toEqual(await journal.list());
+  });
+
+  test('fromJSON rejects malformed data', () => {
+    expect(() =>
+      MemoryOperationJournal.fromJSON({ version: 2 } as unknown as Parameters<
+        typeof MemoryOperationJournal.fromJSON
+      >[0]),
+    ).toThrow('Invalid SerializedOperationJournal: unsupported version or missing entries');
+    expect(() =>
+      MemoryOperationJournal.fromJSON({
+        version: 1,
+        entries: [{ ...entry('a'), kind: 'split' } as unknown as JournalEntry],
+      }),
+    ).toThrow('Invalid SerializedOperationJournal: malformed entry');
+  });
+});
+
+describe('preview serialization', () => {
+  test('mint preview round trip rebuilds the same payload', () => {
+    const outputData = OutputData.createRandomData(5, keyset);
+    const preview: MintPreview<{ quote: string }> = {
+      method: 'bolt11',
+      keysetId: keyset.id,
+      quote: { quote: 'quote-1' },
+      outputData,
+      payload: {
+        outputs: outputData.map((d) => d.blindedMessage),
+        quote: 'quote-1',
+        signature: 'sig',
+      },
+      legacySignature: 'legacy',
+    };
+    const json = JSON.parse(JSON.stringify(serializeMintPreview(preview)));
+    const revived = deserializeMintPreview(json);
+    expect(JSON.stringify(revived.payload)).toEqual(JSON.stringify(preview.payload));
+    expect(revived.legacySignature).toBe('legacy');
+    expect(revived.outputData[0].secret).toEqual(outputData[0].secret);
+  });
+
+  test('melt preview round trip keeps inputs and blanks', () => {
+    const outputData = [0, 0].map((a) => OutputData.createSingleRandomData(a, keyset.id));
+    const preview: MeltPreview<{ quote: string }> = {
+      method: 'bolt11',
+      keysetId: keyset.id,
+      quote: { quote: 'melt-1' },
+      inputs: [
+        {
+          id: keyset.id,
+          amount: Amount.from(8),
+          secret: 's',
+          C: '02' + 'ab'.repeat(32),
+          witness: 'w',
+        },
+      ],
+      outputData,
+    };
+    const json = JSON.parse(JSON.stringify(serializeMeltPreview(preview)));
+    expect(json.quote).toBe('melt-1');
+    const revived = deserializeMeltPreview(json);
+    expect(revived.inputs).toEqual(preview.inputs);
+    expect(revived.outputData.map((d) => d.blindedMessage.B_)).toEqual(
+      outputData.map((d) => d.blindedMessage.B_),
+    );
+  });
+
+  test('deserializers wrap malformed data', () => {
+    expect(() =>
+      deserializeMintPreview({
+        method: 'bolt11',
+        keysetId: keyset.id,
+        quote: 'q',
+        outputData: [{ bad: true } as never],
+      }),
+    ).toThrow('Invalid SerializedMintPreview');
+    expect(() =>
+      deserializeMeltPreview({
+        method: 'bolt11',
+        keysetId: keyset.id,
+        quote: 'q',
+        inputs: [{ id: 'x', amount: 'nope', secret: 's', C: 'c' }],
+        outputData: [],
+      }),
+    ).toThrow('Invalid SerializedMeltPreview');
+  });
+});
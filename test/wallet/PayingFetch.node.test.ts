@@ -0,0 +1,138 @@
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+
+import { afterEach, describe, expect, test } from 'vitest';
+
+import {
+  PaymentRequest,
+  Wallet,
+  createMemoryProofStore,
+  createPayingFetch,
+  type Proof,
+  type ProofStore,
+  sumProofs,
+} from '../../src';
+import { TestMint } from '../../src/testing';
+
+async function setup(proofStore?: ProofStore) {
+  const mint = new TestMint('http://mint.test');
+  const wallet = new Wallet(mint.url, { requestFetch: mint.fetch, proofStore });
+  await wallet.loadMint();
+  const payee = new Wallet(mint.url, { requestFetch: mint.fetch });
+  await payee.loadMint();
+  const quote = await wallet.createMintQuoteBolt11(100);
+  mint.lightning.pay(quote.request);
+  const proofs = await wallet.mintProofsBolt11(100, quote);
+  return { mint, wallet, payee, proofs };
+}
+
+let server: Server | undefined;
+
+afterEach(async () => {
+  await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+  server = undefined;
+});
+
+/**
+ * Stand-in paywall: answers 402 until a token worth `price` arrives, which `payee` redeems.
+ */
+async function paywall(payee: Wallet, price: number, mints = [payee.mint.mintUrl]) {
+  const received: Proof[][] = [];
+  const bodies: string[] = [];
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    req.on('end', () => {
+      const token = req.headers['x-cashu'];
+      if (req.url === '/free') {
+        res.writeHead(200).end('free');
+        return;
+      }
+      if (typeof token !== 'string') {
+        const pr = new PaymentRequest({ amount: price, unit: 'sat', mints });
+        res.writeHead(402, { 'X-Cashu': pr.toEncodedRequest() }).end();
+        return;
+      }
+      void payee
+        .receive(token)
+        .then((proofs) => {
+          received.push(proofs);
+          bodies.push(body);
+          res.writeHead(200).end('paid content');
+          return undefined;
+        })
+        .catch(() => res.writeHead(400).end());
+    });
+  });
+  await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}`, received, bodies };
+}
+
+describe('createPayingFetch', () => {
+  test('pays a 402 and retries with the token', async () => {
+    const { wallet, payee, proofs } = await setup();
+    const { url, received, bodies } = await paywall(payee, 10);
+    const payments: Proof[][] = [];
+    const paidFetch = createPayingFetch(wallet, {
+      maxAmount: 10,
+      proofs: () => proofs,
+      onPayment: ({ send, keep }) => {
+        payments.push(send);
+        expect(sumProofs(send).toNumber() + sumProofs(keep).toNumber()).toBe(100);
+      },
+    });
+
+    const res = await paidFetch(`${url}/premium`, { method: 'POST', body: 'hello' });
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('paid content');
+    expect(sumProofs(received[0]).toNumber()).toBe(10);
+    expect(bodies).toEqual(['hello']);
+    expect(sumProofs(payments[0]).toNumber()).toBe(10);
+  });
+
+  test('pays from the proof store by default', async () => {
+    const { wallet, payee } = await setup(createMemoryProofStore());
+    const { url, received } = await paywall(payee, 5);
+    const paidFetch = createPayingFetch(wallet, { maxAmount: 10 });
+
+    const [a, b] = await Promise.all([paidFetch(`${url}/a`), paidFetch(`${url}/b`)]);
+    expect([a.status, b.status]).toEqual([200, 200]);
+    expect(received.map((proofs) => sumProofs(proofs).toNumber())).toEqual([5, 5]);
+    expect(sumProofs(await wallet.getStoredProofs()).toNumber()).toBe(90);
+  });
+
+  test('passes other responses through', async () => {
+    const { wallet, payee } = await setup();
+    const { url } = await paywall(payee, 5);
+    const paidFetch = createPayingFetch(wallet, { maxAmount: 10, proofs: () => [] });
+    const res = await paidFetch(`${url}/free`);
+    expect(await res.text()).toBe('free');
+  });
+
+  test('refuses requests outside the policy', async () => {
+    const { wallet, payee, proofs } = await setup();
+    const { url, received } = await paywall(payee, 50);
+    const onPayment = () => expect.unreachable();
+
+    await expect(
+      createPayingFetch(wallet, { maxAmount: 20, proofs: () => proofs, onPayment })(url),
+    ).rejects.toThrow('createPayingFetch: request asks 50 sat, policy allows 20');
+    await expect(
+      createPayingFetch(wallet, {
+        maxAmount: 100,
+        allowedMints: ['http://other.test'],
+        proofs: () => proofs,
+        onPayment,
+      })(url),
+    ).rejects.toThrow('createPayingFetch: mint http://mint.test is not allowed by the policy');
+    expect(received).toEqual([]);
+  });
+
+  test("surfaces the wallet's refusal of a strict mint list", async () => {
+    const { wallet, payee, proofs } = await setup();
+    const { url } = await paywall(payee, 5, ['http://other.test']);
+    const paidFetch = createPayingFetch(wallet, { maxAmount: 10, proofs: () => proofs });
+    await expect(paidFetch(url)).rejects.toThrow('strict mint list');
+  });
+});
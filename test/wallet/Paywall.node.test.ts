@@ -0,0 +1,176 @@
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+
+import { schnorr } from '@noble/curves/secp256k1.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import { afterEach, describe, expect, test } from 'vitest';
+
+import {
+  Wallet,
+  createPayingFetch,
+  createPaywall,
+  decodePaymentRequest,
+  getEncodedToken,
+  toNodeHandler,
+  type PaywallHandler,
+  type PaywallPayment,
+  type Proof,
+  sumProofs,
+} from '../../src';
+import { TestMint } from '../../src/testing';
+
+const privkeyBytes = new Uint8Array(32).fill(7);
+const privkey = bytesToHex(privkeyBytes);
+const pubkey = '02' + bytesToHex(schnorr.getPublicKey(privkeyBytes));
+
+async function setup() {
+  const mint = new TestMint('http://mint.test');
+  const payer = new Wallet(mint.url, { requestFetch: mint.fetch });
+  await payer.loadMint();
+  const merchant = new Wallet(mint.url, { requestFetch: mint.fetch });
+  await merchant.loadMint();
+  const quote = await payer.createMintQuoteBolt11(100);
+  mint.lightning.pay(quote.request);
+  const proofs = await payer.mintProofsBolt11(100, quote);
+  return { mint, payer, merchant, proofs };
+}
+
+async function pay(payer: Wallet, proofs: Proof[], amount: number) {
+  const { send, keep } = await payer.send(amount, proofs, { includeFees: true });
+  return { token: getEncodedToken({ mint: payer.mint.mintUrl, unit: 'sat', proofs: send }), keep };
+}
+
+const request = (token?: string) =>
+  new Request('http://shop.test/item', token ? { headers: { 'X-Cashu': token } } : {});
+
+let server: Server | undefined;
+
+afterEach(async () => {
+  await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+  server = undefined;
+});
+
+async function listen(handler: PaywallHandler): Promise<string> {
+  const listener = toNodeHandler(handler);
+  server = createServer((req, res) => void listener(req, res));
+  await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+describe('createPaywall', () => {
+  test('answers unpaid requests with a NUT-18 request', async () => {
+    const { merchant } = await setup();
+    const paywall = createPaywall(merchant, { price: 21, description: 'one item' }, () =>
+      expect.unreachable(),
+    );
+    const res = await paywall(request());
+    expect(res.status).toBe(402);
+    const pr = decodePaymentRequest(res.headers.get('X-Cashu')!);
+    expect(pr.amount?.toNumber()).toBe(21);
+    expect(pr.unit).toBe('sat');
+    expect(pr.mints).toEqual(['http://mint.test']);
+    expect(pr.description).toBe('one item');
+    expect(pr.transport).toBeUndefined();
+  });
+
+  test('redeems a payment and rejects its replay', async () => {
+    const { payer, merchant, proofs } = await setup();
+    const payments: PaywallPayment[] = [];
+    const paywall = createPaywall(
+      merchant,
+      { price: 10, onPayment: (p) => void payments.push(p) },
+      (_req, payment) => new Response(`paid ${payment?.amount.toString()}`),
+    );
+    const { token } = await pay(payer, proofs, 10);
+
+    const res = await paywall(request(token));
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('paid 10');
+    expect(sumProofs(payments[0].proofs).toNumber()).toBe(10);
+
+    const replay = await paywall(request(token));
+    expect(replay.status).toBe(400);
+    expect(payments).toHaveLength(1);
+  });
+
+  test('lets only one of concurrent copies through', async () => {
+    const { payer, merchant, proofs } = await setup();
+    const paywall = createPaywall(merchant, { price: 10 }, () => new Response('ok'));
+    const { token } = await pay(payer, proofs, 10);
+    const statuses = await Promise.all([paywall(request(token)), paywall(request(token))]);
+    expect(statuses.map((r) => r.status).sort()).toEqual([200, 400]);
+  });
+
+  test('refuses tokens that do not pay for the request', async () => {
+    const { payer, merchant, proofs } = await setup();
+    const paywall = createPaywall(merchant, { price: 10 }, () => expect.unreachable());
+    const expect400 = async (token: string, message: string) => {
+      const res = await paywall(request(token));
+      expect(res.status).toBe(400);
+      expect(await res.text()).toContain(message);
+    };
+
+    const { token: short, keep } = await pay(payer, proofs, 5);
+    await expect400(short, 'Token pays 5 sat after fees, price is 10');
+    await expect400('cashuBgarbage', '');
+
+    const other = new TestMint('http://other.test');
+    const foreign = getEncodedToken({ mint: other.url, unit: 'sat', proofs: keep });
+    await expect400(foreign, 'only http://mint.test is accepted');
+  });
+
+  test('requires and redeems the requested lock', async () => {
+    const { payer, merchant, proofs } = await setup();
+    const paywall = createPaywall(
+      merchant,
+      { price: 8, lock: { kind: 'P2PK', data: pubkey }, privkey },
+      () => new Response('ok'),
+    );
+
+    const { token: unlocked, keep } = await pay(payer, proofs, 8);
+    const refused = await paywall(request(unlocked));
+    expect(refused.status).toBe(400);
+    expect(await refused.text()).toBe('Token is not locked as requested');
+
+    const pr = decodePaymentRequest((await paywall(request())).headers.get('X-Cashu')!);
+    const { send } = await payer.ops.sendToRequest(pr, keep).run();
+    const locked = getEncodedToken({ mint: payer.mint.mintUrl, unit: 'sat', proofs: send });
+    expect((await paywall(request(locked))).status).toBe(200);
+  });
+
+  test('serves free requests', async () => {
+    const { merchant } = await setup();
+    const paywall = createPaywall(
+      merchant,
+      { price: (req) => (new URL(req.url).pathname === '/free' ? null : 5) },
+      (_req, payment) => new Response(payment ? 'paid' : 'free'),
+    );
+    expect(await (await paywall(new Request('http://shop.test/free'))).text()).toBe('free');
+    expect((await paywall(request())).status).toBe(402);
+  });
+});
+
+describe('toNodeHandler', () => {
+  test('serves a paywall to a paying client over node:http', async () => {
+    const { payer, merchant, proofs } = await setup();
+    const bodies: string[] = [];
+    const url = await listen(
+      createPaywall(merchant, { price: 10 }, async (req) => {
+        bodies.push(await req.text());
+        return new Response('premium', { headers: { 'Set-Cookie': 'a=1' } });
+      }),
+    );
+    const paidFetch = createPayingFetch(payer, { maxAmount: 10, proofs: () => proofs });
+
+    const res = await paidFetch(`${url}/item`, { method: 'POST', body: 'order' });
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('premium');
+    expect(res.headers.get('set-cookie')).toBe('a=1');
+    expect(bodies).toEqual(['order']);
+  });
+
+  test('answers 500 when the handler throws', async () => {
+    const url = await listen(() => Promise.reject(new Error('boom')));
+    expect((await fetch(url)).status).toBe(500);
+  });
+});
@@ -0,0 +1,222 @@
+import { execFile } from 'node:child_process';
+import * as fs from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { promisify } from 'node:util';
+
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import {
+  createFileCounterSource,
+  createKeyValueCounterSource,
+  type CounterRange,
+  type CounterSource,
+  type KeyValueStore,
+  type LockingFileSystemLike,
+} from '../../src';
+import { withFileLock } from '../../src/utils/fileStore';
+
+/**
+ * In-memory store; `delay` yields between read and write so concurrent CAS calls interleave.
+ */
+function memoryStore(): KeyValueStore & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  const tick = () => new Promise((resolve) => setTimeout(resolve, Math.random() * 2));
+  return {
+    data,
+    async get(key) {
+      await tick();
+      return data.get(key);
+    },
+    async set(key, value) {
+      await tick();
+      data.set(key, value);
+    },
+    async compareAndSwap(key, expected, value) {
+      await tick();
+      if (data.get(key) !== expected) return false;
+      data.set(key, value);
+      return true;
+    },
+  };
+}
+
+/**
+ * Asserts the ranges tile [0, total) without gaps or overlaps.
+ */
+function expectDisjoint(ranges: CounterRange[]) {
+  const sorted = ranges.filter((r) => r.count > 0).sort((a, b) => a.start - b.start);
+  let next = 0;
+  for (const r of sorted) {
+    expect(r.start).toBe(next);
+    next = r.start + r.count;
+  }
+  return next;
+}
+
+let dir: string;
+let path: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(join(tmpdir(), 'cashu-counters-'));
+  path = join(dir, 'counters.json');
+});
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+const sources: Array<[string, () => CounterSource]> = [
+  ['FileCounterSource', () => createFileCounterSource(path, fs)],
+  ['KeyValueCounterSource', () => createKeyValueCounterSource(memoryStore())],
+];
+
+describe.each(sources)('%s', (_name, make) => {
+  test('reserves, peeks and claims ranges', async () => {
+    const src = make();
+    expect(await src.reserve('ks', 3)).toEqual({ start: 0, count: 3 });
+    expect(await src.reserve('ks', 0)).toEqual({ start: 3, count: 0 });
+    expect(await src.reserveAt('ks', 5, 2)).toEqual({ start: 5, count: 2 });
+    await expect(src.reserveAt('ks', 6, 1)).rejects.toThrow(
+      'Counter 6 for keyset ks was already issued (next is 7)',
+    );
+    await expect(src.reserve('ks', -1)).rejects.toThrow('negative count');
+    expect(await src.reserve('ks', 0)).toEqual({ start: 7, count: 0 });
+  });
+
+  test('advances monotonically and hard sets', async () => {
+    const src = make();
+    await src.advanceToAtLeast('a', 10);
+    await src.advanceToAtLeast('a', 4);
+    await src.setNext!('b', 2);
+    expect(await src.snapshot!()).toEqual({ a: 10, b: 2 });
+    await src.setNext!('a', 1);
+    expect((await src.reserve('a', 1)).start).toBe(1);
+    await expect(src.setNext!('a', -1)).rejects.toThrow('negative next');
+  });
+
+  test('never hands out overlapping ranges to concurrent callers', async () => {
+    const src = make();
+    const ranges = await Promise.all(
+      Array.from({ length: 40 }, (_, i) => src.reserve('ks', 1 + (i % 4))),
+    );
+    expect(expectDisjoint(ranges)).toBe(100);
+  });
+});
+
+describe('FileCounterSource', () => {
+  test('persists across instances', async () => {
+    await createFileCounterSource(path, fs).reserve('ks', 4);
+    expect(await createFileCounterSource(path, fs).reserve('ks', 1)).toEqual({
+      start: 4,
+      count: 1,
+    });
+    expect(JSON.parse(await fs.readFile(path, 'utf8'))).toEqual({ ks: 5 });
+    await expect(fs.access(`${path}.lock`)).rejects.toThrow();
+  });
+
+  test('waits for a held lock and takes over a stale one', async () => {
+    await fs.writeFile(`${path}.lock`, String(Date.now()));
+    await expect(
+      createFileCounterSource(path, fs, { timeoutMs: 50 }).reserve('ks', 1),
+    ).rejects.toThrow(`Timed out waiting for lock on ${path}`);
+
+    await fs.writeFile(`${path}.lock`, String(Date.now() - 60_000));
+    expect(await createFileCounterSource(path, fs).reserve('ks', 1)).toEqual({
+      start: 0,
+      count: 1,
+    });
+  });
+
+  test('gives a stale lock taken over meanwhile back to its new holder', async () => {
+    const lockPath = `${path}.lock`;
+    await fs.writeFile(lockPath, String(Date.now() - 60_000));
+    const fresh = `${Date.now()} other`;
+    // Another waiter replaces the stale lock between our read and our rename
+    const racing: LockingFileSystemLike = {
+      ...fs,
+      async rename(from, to) {
+        if (from === lockPath) await fs.writeFile(lockPath, fresh);
+        await fs.rename(from, to);
+      },
+    };
+    await expect(
+      createFileCounterSource(path, racing, { timeoutMs: 50 }).reserve('ks', 1),
+    ).rejects.toThrow(`Timed out waiting for lock on ${path}`);
+    expect(await fs.readFile(lockPath, 'utf8')).toBe(fresh);
+    expect((await fs.readdir(dir)).filter((f) => f.startsWith('counters.json.lock.'))).toEqual([]);
+  });
+
+  test('never gives a lock back over a fresh one', async () => {
+    const lockPath = `${path}.lock`;
+    await fs.writeFile(lockPath, String(Date.now() - 60_000));
+    const third = `${Date.now()} third`;
+    // A waiter replaces the stale lock before our rename, then a third process takes the free lock
+    const racing: LockingFileSystemLike = {
+      ...fs,
+      async rename(from, to) {
+        if (from === lockPath) await fs.writeFile(lockPath, `${Date.now()} other`);
+        await fs.rename(from, to);
+        if (from === lockPath) await fs.writeFile(lockPath, third);
+      },
+    };
+    await expect(
+      createFileCounterSource(path, racing, { timeoutMs: 50 }).reserve('ks', 1),
+    ).rejects.toThrow(`Timed out waiting for lock on ${path}`);
+    expect(await fs.readFile(lockPath, 'utf8')).toBe(third);
+    expect((await fs.readdir(dir)).filter((f) => f.startsWith('counters.json.lock.'))).toEqual([]);
+  });
+
+  test('releases only its own lock', async () => {
+    const lockPath = `${path}.lock`;
+    await withFileLock(fs, path, async () => {
+      expect(await fs.readFile(lockPath, 'utf8')).toMatch(/^\d+ [0-9a-f]{32}$/);
+      // Held too long: another process took the lock over
+      await fs.writeFile(lockPath, `${Date.now()} other`);
+    });
+    expect(await fs.readFile(lockPath, 'utf8')).toMatch(/ other$/);
+  });
+
+  test('rejects a corrupted file', async () => {
+    await fs.writeFile(path, JSON.stringify({ ks: -3 }));
+    await expect(createFileCounterSource(path, fs).reserve('ks', 1)).rejects.toThrow(
+      'Invalid stored counter for keyset ks: -3',
+    );
+  });
+
+  test('stays disjoint across processes', { timeout: 60_000 }, async () => {
+    const run = promisify(execFile);
+    const worker = fileURLToPath(new URL('_counterWorker.ts', import.meta.url));
+    const children = Array.from({ length: 3 }, () =>
+      run(process.execPath, ['--import', 'tsx', worker, path, '30'], { timeout: 50_000 }),
+    );
+    const local = createFileCounterSource(path, fs);
+    const own = await Promise.all(Array.from({ length: 30 }, () => local.reserve('ks', 2)));
+    const outputs = await Promise.all(children);
+    const ranges = [...own, ...outputs.flatMap((o) => JSON.parse(o.stdout) as CounterRange[])];
+    // Each worker reserves 1..5 in turn: 6 rounds of 15 per 30 reservations
+    expect(expectDisjoint(ranges)).toBe(60 + 3 * 90);
+  });
+});
+
+describe('KeyValueCounterSource', () => {
+  test('keeps one key per keyset under the prefix', async () => {
+    const store = memoryStore();
+    const src = createKeyValueCounterSource(store, 'w1:');
+    await src.reserve('a', 2);
+    await src.reserve('b', 5);
+    expect(Object.fromEntries(store.data)).toEqual({
+      'w1:a': '2',
+      'w1:b': '5',
+      'w1:keysets': '["a","b"]',
+    });
+  });
+
+  test('gives up when the value never settles', async () => {
+    const store = memoryStore();
+    store.compareAndSwap = () => Promise.resolve(false);
+    await expect(createKeyValueCounterSource(store).reserve('ks', 1)).rejects.toThrow(
+      'gave up after retries',
+    );
+  });
+});
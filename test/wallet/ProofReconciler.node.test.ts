@@ -0,0 +1,221 @@
+import { afterEach, describe, expect, test } from 'vitest';
+
+import {
+  Amount,
+  ProofReconciler,
+  Wallet,
+  createMemoryOperationJournal,
+  createMemoryProofStore,
+  injectWebSocketImpl,
+  type OperationJournal,
+  type Proof,
+  type ProofReconcilerEvents,
+  sumProofs,
+} from '../../src';
+import { TestMint, createTestWebSocket } from '../../src/testing';
+import { type RequestFetch } from '../../src/transport';
+
+const secrets = (proofs: Proof[]) => proofs.map((p) => p.secret).sort();
+
+async function setup(
+  options: {
+    withStore?: boolean;
+    fetch?: (mint: TestMint) => RequestFetch;
+    journal?: OperationJournal;
+  } = {},
+) {
+  const mint = new TestMint('http://mint.test');
+  const proofStore = options.withStore === false ? undefined : createMemoryProofStore();
+  const requestFetch = options.fetch?.(mint) ?? mint.fetch;
+  const wallet = new Wallet(mint.url, { requestFetch, proofStore, journal: options.journal });
+  await wallet.loadMint();
+  const receiver = new Wallet(mint.url, { requestFetch: mint.fetch });
+  await receiver.loadMint();
+  const quote = await wallet.createMintQuoteBolt11(64);
+  mint.lightning.pay(quote.request);
+  const proofs = await wallet.mintProofsBolt11(64, quote, undefined, {
+    type: 'random',
+    denominations: Array<Amount>(8).fill(Amount.from(8)),
+  });
+  return { mint, wallet, receiver, proofs };
+}
+
+let reconciler: ProofReconciler | undefined;
+
+afterEach(() => {
+  reconciler?.stop();
+  reconciler = undefined;
+});
+
+describe('ProofReconciler', () => {
+  test('reports sent tokens once claimed and marks them spent', async () => {
+    const { wallet, receiver, proofs } = await setup();
+    const { send } = await wallet.send(10, proofs);
+    reconciler = new ProofReconciler(wallet);
+    const claimed: Proof[][] = [];
+    reconciler.on('sentClaimed', ({ proofs }) => void claimed.push(proofs));
+
+    // Unclaimed tokens are left alone
+    expect((await reconciler.sweep()).sentClaimed).toEqual([]);
+    expect(secrets(await wallet.getStoredProofs('pending'))).toEqual(secrets(send));
+
+    await receiver.receive(send);
+    const result = await reconciler.sweep();
+    expect(secrets(result.sentClaimed)).toEqual(secrets(send));
+    expect(claimed).toHaveLength(1);
+    expect(await wallet.getStoredProofs('pending')).toEqual([]);
+    expect(sumProofs(await wallet.getStoredProofs('spent')).toNumber()).toBeGreaterThanOrEqual(10);
+
+    await reconciler.sweep();
+    expect(claimed).toHaveLength(1);
+  });
+
+  test('tracks watched proofs without a proof store', async () => {
+    const { wallet, receiver, proofs } = await setup({ withStore: false });
+    const { send } = await wallet.send(5, proofs);
+    reconciler = new ProofReconciler(wallet);
+    reconciler.watch(send);
+
+    expect((await reconciler.sweep()).sentClaimed).toEqual([]);
+    await receiver.receive(send);
+    expect(secrets((await reconciler.sweep()).sentClaimed)).toEqual(secrets(send));
+    expect((await reconciler.sweep()).sentClaimed).toEqual([]);
+  });
+
+  test('resolves proofs the mint held as pending', async () => {
+    const { mint, wallet, proofs } = await setup();
+    const invoice = mint.lightning.createInvoice(20);
+    mint.lightning.setOutcome(invoice, 'pending');
+    const quote = await wallet.createMeltQuoteBolt11(invoice);
+    await wallet.meltProofsBolt11(quote, proofs);
+    reconciler = new ProofReconciler(wallet);
+    const events: Array<ProofReconcilerEvents['pendingResolved']> = [];
+    reconciler.on('pendingResolved', (e) => void events.push(e));
+
+    const first = await reconciler.sweep();
+    expect(first.sentClaimed).toEqual([]);
+    expect(first.pendingResolved).toEqual({ spent: [], unspent: [] });
+
+    mint.lightning.settle(invoice, 'failed');
+    const second = await reconciler.sweep();
+    expect(secrets(second.pendingResolved.unspent)).toEqual(secrets(proofs));
+    expect(events).toHaveLength(1);
+    expect(await wallet.getStoredProofs('pending')).toEqual([]);
+    expect(sumProofs(await wallet.getStoredProofs()).toNumber()).toBe(64);
+  });
+
+  test('leaves the inputs of a journaled swap to its recovery', async () => {
+    let crash = false;
+    const { wallet, proofs } = await setup({
+      journal: createMemoryOperationJournal(),
+      fetch: (mint) => async (input, init) => {
+        const res = await mint.fetch(input, init);
+        // The mint swaps, but the response is lost
+        if (crash && new Request(input, init).url.endsWith('/v1/swap')) {
+          throw new TypeError('fetch failed');
+        }
+        return res;
+      },
+    });
+    crash = true;
+    await expect(wallet.send(10, proofs)).rejects.toThrow();
+    crash = false;
+    const inFlight = await wallet.getStoredProofs('pending');
+    expect(inFlight.length).toBeGreaterThan(0);
+    reconciler = new ProofReconciler(wallet);
+
+    expect((await reconciler.sweep()).sentClaimed).toEqual([]);
+    expect(secrets(await wallet.getStoredProofs('pending'))).toEqual(secrets(inFlight));
+
+    // Recovery spends the inputs and keeps the recovered token pending until it is claimed
+    await wallet.recoverPendingOperations();
+    const sent = await wallet.getStoredProofs('pending');
+    expect(sumProofs(sent).toNumber()).toBe(10);
+    expect(secrets(await wallet.getStoredProofs('spent'))).toEqual(secrets(inFlight));
+    expect((await reconciler.sweep()).sentClaimed).toEqual([]);
+  });
+
+  test('reports reservations still unspent on the next sweep, once', async () => {
+    const { wallet, proofs } = await setup();
+    await wallet.prepareSwapToSend(3, proofs);
+    const reserved = await wallet.getStoredProofs('reserved');
+    expect(reserved.length).toBeGreaterThan(0);
+    reconciler = new ProofReconciler(wallet);
+
+    expect((await reconciler.sweep()).reservedUnspent).toEqual([]);
+    expect(secrets((await reconciler.sweep()).reservedUnspent)).toEqual(secrets(reserved));
+    expect((await reconciler.sweep()).reservedUnspent).toEqual([]);
+  });
+
+  test('checks in batches of max_array_length and waits out rate limits', async () => {
+    const checks: number[] = [];
+    let limited = 0;
+    const { wallet, proofs } = await setup({
+      withStore: false,
+      fetch: (mint) => async (input, init) => {
+        const req = new Request(input, init);
+        if (req.url.endsWith('/v1/info')) {
+          const info = (await (await mint.fetch(req)).json()) as Record<string, unknown>;
+          return Response.json({ ...info, max_array_length: 2 });
+        }
+        if (req.url.endsWith('/v1/checkstate')) {
+          if (limited++ === 1) {
+            return Response.json(
+              { detail: 'slow down' },
+              { status: 429, headers: { 'Retry-After': '0' } },
+            );
+          }
+          checks.push(((await req.clone().json()) as { Ys: string[] }).Ys.length);
+        }
+        return mint.fetch(req);
+      },
+    });
+    reconciler = new ProofReconciler(wallet, { rateLimitBackoffMs: 1 });
+    reconciler.watch(proofs.slice(0, 5));
+
+    await reconciler.sweep();
+    expect(checks).toEqual([2, 2, 1]);
+    expect(limited).toBe(4);
+  });
+
+  test('gives up after the rate limit retries and honours abort', async () => {
+    const { wallet, proofs } = await setup({
+      withStore: false,
+      fetch: (mint) => (input, init) => {
+        const req = new Request(input, init);
+        if (req.url.endsWith('/v1/checkstate')) {
+          return Promise.resolve(Response.json({ detail: 'slow down' }, { status: 429 }));
+        }
+        return mint.fetch(req);
+      },
+    });
+    reconciler = new ProofReconciler(wallet, { rateLimitRetries: 1, rateLimitBackoffMs: 1 });
+    reconciler.watch(proofs);
+    await expect(reconciler.sweep()).rejects.toMatchObject({ name: 'RateLimitError' });
+
+    const ac = new AbortController();
+    ac.abort();
+    await expect(reconciler.sweep({ signal: ac.signal })).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+  });
+
+  test('sweeps on a NUT-17 push while started', async () => {
+    const { mint, wallet, receiver, proofs } = await setup();
+    injectWebSocketImpl(createTestWebSocket(mint));
+    const { send } = await wallet.send(10, proofs);
+    reconciler = new ProofReconciler(wallet, { push: true, intervalMs: 3_600_000 });
+    const claimed = new Promise<Proof[]>((resolve) =>
+      reconciler!.on('sentClaimed', ({ proofs }) => resolve(proofs)),
+    );
+    reconciler.start();
+    expect(reconciler.started).toBe(true);
+    // Let the first background sweep subscribe
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    await receiver.receive(send);
+    expect(secrets(await claimed)).toEqual(secrets(send));
+    reconciler.stop();
+    expect(reconciler.started).toBe(false);
+  });
+});
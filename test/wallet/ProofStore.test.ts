@@ -0,0 +1,121 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  Amount,
+  CTSError,
+  MemoryProofStore,
+  ProofStateConflictError,
+  createMemoryProofStore,
+  type Proof,
+  type StoredProof,
+} from '../../src';
+
+const mintUrl = 'http://localhost:3338';
+
+function proof(secret: string, amount: number, id = '00bd033559de27d0'): Proof {
+  return { id, amount: Amount.from(amount), secret, C: '02' + 'ab'.repeat(32) };
+}
+
+function entry(secret: string, amount: number, overrides?: Partial<StoredProof>): StoredProof {
+  return { proof: proof(secret, amount), state: 'unspent', mintUrl, unit: 'sat', ...overrides };
+}
+
+describe('MemoryProofStore', () => {
+  test('put replaces entries by secret and list keeps insertion order', async () => {
+    const store = createMemoryProofStore();
+    await store.put([entry('a', 1), entry('b', 2)]);
+    await store.put([entry('a', 4, { state: 'pending' })]);
+    const all = await store.list();
+    expect(all.map((e) => e.proof.secret)).toEqual(['a', 'b']);
+    expect(all[0].state).toBe('pending');
+    expect(all[0].proof.amount).toEqual(Amount.from(4));
+  });
+
+  test('list filters on every given field', async () => {
+    const store = createMemoryProofStore([
+      entry('a', 1),
+      entry('b', 2, { unit: 'usd' }),
+      entry('c', 4, { mintUrl: 'http://other' }),
+      entry('d', 8, { state: 'spent' }),
+      { ...entry('e', 16), proof: proof('e', 16, '00ffffffffffffff') },
+    ]);
+    const secrets = async (f: Parameters<typeof store.list>[0]) =>
+      (await store.list(f)).map((e) => e.proof.secret);
+    expect(await secrets({ unit: 'usd' })).toEqual(['b']);
+    expect(await secrets({ mintUrl: 'http://other' })).toEqual(['c']);
+    expect(await secrets({ states: ['spent'] })).toEqual(['d']);
+    expect(await secrets({ keysetId: '00ffffffffffffff' })).toEqual(['e']);
+    expect(await secrets({ secrets: ['a', 'e', 'zz'] })).toEqual(['a', 'e']);
+    expect(await secrets({ mintUrl, unit: 'sat', states: ['unspent'] })).toEqual(['a', 'e']);
+  });
+
+  test('list returns copies', async () => {
+    const store = createMemoryProofStore([entry('a', 1)]);
+    const [e] = await store.list();
+    e.state = 'spent';
+    expect((await store.list())[0].state).toBe('unspent');
+  });
+
+  test('transition moves known proofs and ignores unknown secrets', async () => {
+    const store = createMemoryProofStore([entry('a', 1), entry('b', 2)]);
+    const moved = await store.transition(['a', 'zz'], 'reserved', ['unspent']);
+    expect(moved).toEqual(['a']);
+    expect((await store.list({ states: ['reserved'] })).map((e) => e.proof.secret)).toEqual(['a']);
+  });
+
+  test('transition is all-or-nothing when a proof is in another state', async () => {
+    const store = createMemoryProofStore([entry('a', 1), entry('b', 2, { state: 'reserved' })]);
+    const err = await store.transition(['a', 'b'], 'reserved', ['unspent']).catch((e) => e);
+    expect(err).toBeInstanceOf(ProofStateConflictError);
+    expect(err).toBeInstanceOf(CTSError);
+    expect((err as ProofStateConflictError).secrets).toEqual(['b']);
+    expect((err as ProofStateConflictError).to).toBe('reserved');
+    expect((await store.list({ secrets: ['a'] }))[0].state).toBe('unspent');
+  });
+
+  test('transition without from moves regardless of state', async () => {
+    const store = createMemoryProofStore([entry('a', 1, { state: 'pending' })]);
+    await store.transition(['a'], 'spent');
+    expect((await store.list())[0].state).toBe('spent');
+  });
+
+  test('put rejects an unknown state', async () => {
+    const store = createMemoryProofStore();
+    await expect(
+      store.put([{ ...entry('a', 1), state: 'lost' as StoredProof['state'] }]),
+    ).rejects.toThrow('Invalid proof store state: lost');
+    expect(await store.list()).toHaveLength(0);
+  });
+
+  test('delete removes entries', async () => {
+    const store = createMemoryProofStore([entry('a', 1), entry('b', 2)]);
+    await store.delete(['a', 'zz']);
+    expect((await store.list()).map((e) => e.proof.secret)).toEqual(['b']);
+  });
+
+  test('toJSON / fromJSON round trip', async () => {
+    const store = new MemoryProofStore([
+      entry('a', 1),
+      { ...entry('b', 2, { state: 'pending' }), proof: { ...proof('b', 2), witness: 'w' } },
+    ]);
+    const json = JSON.parse(JSON.stringify(store.toJSON()));
+    expect(json.version).toBe(1);
+    expect(typeof json.entries[0].proof).toBe('string');
+    const revived = MemoryProofStore.fromJSON(json);
+    expect(await revived.list()).toEqual(await store.list());
+  });
+
+  test('fromJSON rejects malformed data', () => {
+    expect(() =>
+      MemoryProofStore.fromJSON({ version: 2 } as unknown as Parameters<
+        typeof MemoryProofStore.fromJSON
+      >[0]),
+    ).toThrow('Invalid SerializedProofStore: unsupported version or missing entries');
+    expect(() =>
+      MemoryProofStore.fromJSON({
+        version: 1,
+        entries: [{ proof: '{}', state: 'gone' as StoredProof['state'], mintUrl, unit: 'sat' }],
+      }),
+    ).toThrow('Invalid SerializedProofStore: invalid state gone');
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  Amount,
+  SpendingPolicy,
+  SpendingPolicyError,
+  Wallet,
+  createMemoryProofStore,
+  type SpendingPolicyOptions,
+  type SpendingPreview,
+  sumProofs,
+} from '../../src';
+import { TestMint } from '../../src/testing';
+
+async function setup(options: SpendingPolicyOptions, feeReserve = 2) {
+  const mint = new TestMint('http://mint.test', { feeReserve: () => feeReserve });
+  const spendingPolicy = new SpendingPolicy(options);
+  const wallet = new Wallet(mint.url, {
+    requestFetch: mint.fetch,
+    proofStore: createMemoryProofStore(),
+    spendingPolicy,
+  });
+  await wallet.loadMint();
+  const quote = await wallet.createMintQuoteBolt11(64);
+  mint.lightning.pay(quote.request);
+  const proofs = await wallet.mintProofsBolt11(64, quote, undefined, {
+    type: 'random',
+    denominations: Array<Amount>(8).fill(Amount.from(8)),
+  });
+  return { mint, wallet, spendingPolicy, proofs };
+}
+
+async function refusal(run: Promise<unknown>) {
+  const error = await run.then(
+    () => undefined,
+    (e: unknown) => e,
+  );
+  expect(error).toBeInstanceOf(SpendingPolicyError);
+  return error as SpendingPolicyError;
+}
+
+describe('SpendingPolicy', () => {
+  test('refuses a send above the per-operation limit and releases its inputs', async () => {
+    const { wallet, proofs } = await setup({ limits: { sat: { perOperation: 20 } } });
+
+    const error = await refusal(wallet.ops.send(21, proofs).run());
+    expect(error.rule).toBe('perOperation');
+    expect(error.preview.kind).toBe('send');
+    expect(error.preview.amount.toNumber()).toBe(21);
+    expect(error.preview.swap?.inputs.length).toBeGreaterThan(0);
+    expect(await wallet.getStoredProofs('reserved')).toEqual([]);
+    expect(sumProofs(await wallet.getStoredProofs('unspent')).toNumber()).toBe(64);
+
+    const { send } = await wallet.ops.send(20, proofs).run();
+    expect(sumProofs(send).toNumber()).toBe(20);
+  });
+
+  test('limits spending over a rolling window', async () => {
+    let now = 1_000_000;
+    const { wallet, spendingPolicy, proofs } = await setup({
+      limits: { sat: { window: { amount: 30, ms: 60_000 } } },
+      now: () => now,
+    });
+
+    await wallet.ops.send(16, proofs.slice(0, 2)).offlineExactOnly().run();
+    expect(spendingPolicy.spentInWindow('sat').toNumber()).toBe(16);
+    const second = await wallet.ops.send(10, proofs.slice(2)).run();
+    expect(spendingPolicy.spentInWindow('sat').toNumber()).toBe(26);
+
+    const error = await refusal(wallet.ops.send(5, second.keep).run());
+    expect(error.rule).toBe('window');
+
+    now += 60_000;
+    expect(spendingPolicy.spentInWindow('sat').toNumber()).toBe(0);
+    await wallet.ops.send(5, second.keep).run();
+  });
+
+  test('checks mints, melt methods and fee ratios', async () => {
+    const { mint, wallet, proofs } = await setup({
+      allowedMeltMethods: ['bolt12'],
+      maxFeeRatio: 0.05,
+    });
+    const quote = await wallet.createMeltQuoteBolt11(mint.lightning.createInvoice(20));
+
+    const method = await refusal(wallet.ops.meltBolt11(quote, proofs).run());
+    expect(method.rule).toBe('meltMethod');
+    expect(method.preview.method).toBe('bolt11');
+    expect(method.preview.fee.toNumber()).toBe(2);
+    expect(method.preview.melt?.quote.quote).toBe(quote.quote);
+    expect(await wallet.getStoredProofs('reserved')).toEqual([]);
+
+    const fees = new SpendingPolicy({ maxFeeRatio: 0.05 });
+    const base = { kind: 'melt', mintUrl: mint.url, unit: 'sat', method: 'bolt11' } as const;
+    await expect(
+      fees.authorize({ ...base, amount: Amount.from(20), fee: Amount.from(2) }),
+    ).rejects.toMatchObject({ rule: 'feeRatio' });
+    await fees.authorize({ ...base, amount: Amount.from(40), fee: Amount.from(2) });
+
+    const mints = new SpendingPolicy({ allowedMints: ['https://other.mint/'] });
+    await expect(
+      mints.authorize({ ...base, amount: Amount.from(1), fee: Amount.zero() }),
+    ).rejects.toMatchObject({ rule: 'mint' });
+    const trailing = new SpendingPolicy({ allowedMints: [`${mint.url}/`] });
+    await trailing.authorize({ ...base, amount: Amount.from(1), fee: Amount.zero() });
+  });
+
+  test('prices an onchain melt from its prepared inputs', async () => {
+    const { wallet, proofs } = await setup({ allowedMeltMethods: ['bolt11'] });
+    const quote = await wallet.createMeltQuoteOnchain('bc1qrecipient', 20);
+    const inputs = proofs.slice(0, 3);
+
+    const error = await refusal(wallet.ops.meltOnchain(quote, inputs).run());
+    expect(error.rule).toBe('meltMethod');
+    expect(error.preview.melt?.inputs).toEqual(inputs);
+    expect(error.preview.fee.equals(quote.fee_options[0].fee_reserve)).toBe(true);
+    expect(await wallet.getStoredProofs('reserved')).toEqual([]);
+    expect(sumProofs(await wallet.getStoredProofs('unspent')).toNumber()).toBe(64);
+  });
+
+  test('asks for approval above the threshold', async () => {
+    const asked: SpendingPreview[] = [];
+    let approve = false;
+    const { mint, wallet, spendingPolicy, proofs } = await setup({
+      limits: { sat: { approveAbove: 10, window: { amount: 1000, ms: 60_000 } } },
+      approve: (preview) => {
+        asked.push(preview);
+        return Promise.resolve(approve);
+      },
+    });
+
+    await wallet.ops.send(8, proofs.slice(0, 1)).offlineExactOnly().run();
+    expect(asked).toEqual([]);
+
+    const quote = await wallet.createMeltQuoteBolt11(mint.lightning.createInvoice(20));
+    const inputs = proofs.slice(1, 4);
+    const error = await refusal(wallet.ops.meltBolt11(quote, inputs).run());
+    expect(error.rule).toBe('approval');
+    expect(asked).toHaveLength(1);
+    expect(asked[0].amount.toNumber()).toBe(20);
+    expect(spendingPolicy.spentInWindow('sat').toNumber()).toBe(8);
+
+    approve = true;
+    const { quote: paid } = await wallet.ops.meltBolt11(quote, inputs).run();
+    expect(paid.state).toBe('PAID');
+    expect(spendingPolicy.spentInWindow('sat').toNumber()).toBe(30);
+  });
+
+  test('keeps no spends for units without a window', async () => {
+    const policy = new SpendingPolicy({ limits: { sat: { perOperation: 100 } }, maxFeeRatio: 0.5 });
+    const preview = {
+      kind: 'send',
+      mintUrl: 'http://mint.test',
+      unit: 'sat',
+      amount: Amount.from(10),
+      fee: Amount.zero(),
+    } as const;
+    for (let i = 0; i < 5; i++) await policy.authorize(preview);
+    expect((policy as unknown as { spends: unknown[] }).spends).toEqual([]);
+  });
+
+  test('stops counting an operation the mint refuses', async () => {
+    const { wallet, spendingPolicy, proofs } = await setup({
+      limits: { sat: { window: { amount: 1000, ms: 60_000 } } },
+    });
+    const other = new Wallet(wallet.mint, { unit: 'sat' });
+    await other.loadMint();
+    await other.receive(proofs.slice(0, 1));
+
+    await expect(wallet.ops.send(4, proofs.slice(0, 1)).run()).rejects.toThrow();
+    expect(spendingPolicy.spentInWindow('sat').toNumber()).toBe(0);
+  });
+
+  test('keeps counting an operation whose outcome is unknown', async () => {
+    const mint = new TestMint('http://mint.test');
+    const spendingPolicy = new SpendingPolicy({
+      limits: { sat: { window: { amount: 1000, ms: 60_000 } } },
+    });
+    const wallet = new Wallet(mint.url, {
+      requestFetch: (input, init) =>
+        new Request(input, init).url.endsWith('/v1/swap')
+          ? Promise.resolve(Response.json({ code: 20005, detail: 'Pending' }, { status: 400 }))
+          : mint.fetch(input, init),
+      spendingPolicy,
+    });
+    await wallet.loadMint();
+    const quote = await wallet.createMintQuoteBolt11(16);
+    mint.lightning.pay(quote.request);
+    const proofs = await wallet.mintProofsBolt11(16, quote);
+
+    await expect(wallet.ops.send(5, proofs).run()).rejects.toThrow('Pending');
+    expect(spendingPolicy.spentInWindow('sat').toNumber()).toBe(5);
+  });
+});
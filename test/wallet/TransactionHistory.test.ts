@@ -0,0 +1,125 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  Amount,
+  MemoryTransactionHistory,
+  createMemoryTransactionHistory,
+  exportHistory,
+  historyToCsv,
+  historyToJson,
+  type HistoryEntry,
+  type HistoryEntryType,
+} from '../../src';
+
+function entry(
+  id: string,
+  type: HistoryEntryType = 'mint',
+  extra: Partial<HistoryEntry> = {},
+): HistoryEntry {
+  return {
+    id,
+    type,
+    direction: type === 'mint' || type === 'receive' ? 'in' : 'out',
+    mintUrl: 'http://localhost:3338',
+    unit: 'sat',
+    amount: Amount.from(10),
+    createdAt: Number(id) * 1000,
+    ...extra,
+  };
+}
+
+const ids = (entries: HistoryEntry[]) => entries.map((e) => e.id);
+
+describe('MemoryTransactionHistory', () => {
+  test('pages newest first and filters', async () => {
+    const history = createMemoryTransactionHistory();
+    await history.append(['1', '2', '3', '4', '5'].map((id) => entry(id)));
+    await history.append([entry('6', 'send'), entry('7', 'fee')]);
+
+    const first = await history.list({ limit: 3 });
+    expect(ids(first.entries)).toEqual(['7', '6', '5']);
+    const second = await history.list({ limit: 3, cursor: first.next });
+    expect(ids(second.entries)).toEqual(['4', '3', '2']);
+    const last = await history.list({ limit: 3, cursor: second.next });
+    expect(ids(last.entries)).toEqual(['1']);
+    expect(last.next).toBeUndefined();
+
+    const mints = await history.list({ types: ['mint'], since: 2000, until: 5000, limit: 3 });
+    expect(ids(mints.entries)).toEqual(['4', '3', '2']);
+    expect(mints.next).toBeUndefined();
+    expect((await history.list({ unit: 'usd' })).entries).toEqual([]);
+  });
+
+  test('refuses duplicate ids, bad cursors and bad limits', async () => {
+    const history = createMemoryTransactionHistory();
+    await history.append([entry('1')]);
+    await expect(history.append([entry('2'), entry('1')])).rejects.toThrow('already exists');
+    expect(ids((await history.list()).entries)).toEqual(['1']);
+    await expect(history.list({ cursor: 'nope' })).rejects.toThrow('Unknown history cursor');
+    await expect(history.list({ limit: 0 })).rejects.toThrow('positive integer');
+  });
+
+  test('round-trips through JSON', async () => {
+    const history = new MemoryTransactionHistory([
+      entry('1', 'melt', { amount: Amount.from(2n ** 60n), quoteId: 'q', preimage: 'ab' }),
+    ]);
+    const copy = MemoryTransactionHistory.fromJSON(
+      JSON.parse(JSON.stringify(history.toJSON())) as ReturnType<typeof history.toJSON>,
+    );
+    expect(await copy.list()).toEqual(await history.list());
+    expect(() => MemoryTransactionHistory.fromJSON({ version: 2 } as never)).toThrow(
+      'unsupported version',
+    );
+    expect(() =>
+      MemoryTransactionHistory.fromJSON({
+        version: 1,
+        entries: [{ ...history.toJSON().entries[0], type: 'gift' as never }],
+      }),
+    ).toThrow('malformed entry');
+  });
+});
+
+describe('history export', () => {
+  test('renders CSV with escaping', () => {
+    const csv = historyToCsv([
+      entry('1', 'send', { token: 'cashuBabc', method: 'a,"b"' }),
+      entry('2', 'fee', { amount: Amount.from(1), relatedId: '1' }),
+    ]);
+    expect(csv.split('\r\n')).toEqual([
+      'id,createdAt,type,direction,amount,unit,mintUrl,method,quoteId,preimage,relatedId,token',
+      '1,1970-01-01T00:00:01.000Z,send,out,10,sat,http://localhost:3338,"a,""b""",,,,cashuBabc',
+      '2,1970-01-01T00:00:02.000Z,fee,out,1,sat,http://localhost:3338,,,,1,',
+      '',
+    ]);
+  });
+
+  test('defuses text a spreadsheet would run as a formula', () => {
+    const csv = historyToCsv([
+      entry('1', 'melt', {
+        mintUrl: '=HYPERLINK("http://evil")',
+        quoteId: '+1',
+        method: '-2',
+        preimage: '@SUM(A1)',
+        relatedId: '\tx',
+        token: '\rx',
+      }),
+    ]);
+    expect(csv.split('\r\n')[1]).toBe(
+      `1,1970-01-01T00:00:01.000Z,melt,out,10,sat,"'=HYPERLINK(""http://evil"")",'-2,'+1,'@SUM(A1),'\tx,"'\rx"`,
+    );
+  });
+
+  test('exports every page', async () => {
+    const history = createMemoryTransactionHistory();
+    await history.append(['1', '2', '3'].map((id) => entry(id)));
+    const json = JSON.parse(await exportHistory(history, 'json', { limit: 1 })) as Array<{
+      id: string;
+      amount: string;
+    }>;
+    expect(json.map((e) => e.id)).toEqual(['3', '2', '1']);
+    expect(json[0].amount).toBe('10');
+    expect(historyToJson([])).toBe('[]');
+    const csv = await exportHistory(history, 'csv', { types: ['send'] });
+    expect(csv.split('\r\n')).toHaveLength(2);
+  });
+});
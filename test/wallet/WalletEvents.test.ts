@@ -112,10 +112,29 @@ class MockMint {
   });
 }
 
+// A mint advertising every NUT-17 subscription, so WalletEvents picks the WebSocket
+const wsMint = {
+  unit: 'sat',
+  getMintInfo: () => ({
+    isSupported: () => ({
+      supported: true,
+      params: [
+        {
+          method: 'bolt11',
+          unit: 'sat',
+          commands: ['bolt11_mint_quote', 'bolt11_melt_quote', 'proof_state'],
+        },
+      ],
+    }),
+  }),
+};
+
 /**
  * Only what WalletEvents touches.
  */
 class MockWallet {
+  public unit = wsMint.unit;
+  public getMintInfo = wsMint.getMintInfo;
   public mint = new MockMint();
 }
 
@@ -830,6 +849,7 @@ describe('WalletEvents', () => {
 
   // A wallet whose connectWebSocket resolves but never populates webSocketConnection.
   const makeNullWsWallet = () => ({
+    ...wsMint,
     mint: { connectWebSocket: vi.fn(async () => {}), webSocketConnection: undefined },
   });
 
@@ -865,7 +885,10 @@ describe('WalletEvents', () => {
         for (const s of subs.values()) if (s.filters.includes(quote)) s.err(error);
       },
     };
-    const wallet = { mint: { connectWebSocket: vi.fn(async () => {}), webSocketConnection: ws } };
+    const wallet = {
+      ...wsMint,
+      mint: { connectWebSocket: vi.fn(async () => {}), webSocketConnection: ws },
+    };
     return { wallet, ws };
   };
 
@@ -1315,6 +1338,7 @@ describe('WalletEvents', () => {
       // connectWebSocket rejects with a nullish reason, so each subscription setup rejects with no
       // usable error and lastError stays nullish.
       const wallet = {
+        ...wsMint,
         mint: {
           // eslint-disable-next-line @typescript-eslint/prefer-promise-reject-errors -- nullish reason is the case under test
           connectWebSocket: vi.fn(() => Promise.reject(undefined)),
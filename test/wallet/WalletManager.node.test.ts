@@ -0,0 +1,215 @@
+import { HttpResponse, http } from 'msw';
+import { describe, expect, test } from 'vitest';
+
+import {
+  Amount,
+  PaymentRequest,
+  WalletManager,
+  createMemoryProofStore,
+  getEncodedToken,
+  type Proof,
+  type ProofStore,
+} from '../../src';
+
+import {
+  dummyKeysResp,
+  dummyKeysetResp,
+  mintInfoResp,
+  mintUrl,
+  token3sat,
+  useTestServer,
+} from './_setup';
+
+const server = useTestServer();
+
+const otherMintUrl = 'http://localhost:3339';
+const C_ = '021179b095a67380ab3285424b563b7aab9818bd38068e1930641b3dceb364d422';
+const C = '034268c0bd30b945adf578aca2dc0d1e26ef089869aaf9a08ba3a6da40fda1d8be';
+
+function proof(secret: string, amount: number): Proof {
+  return { id: '00bd033559de27d0', amount: Amount.from(amount), secret, C };
+}
+
+function serveMint(url: string) {
+  server.use(
+    http.get(url + '/v1/info', () => HttpResponse.json(mintInfoResp)),
+    http.get(url + '/v1/keys', () => HttpResponse.json(dummyKeysResp)),
+    http.get(url + '/v1/keys/00bd033559de27d0', () => HttpResponse.json(dummyKeysResp)),
+    http.get(url + '/v1/keysets', () => HttpResponse.json(dummyKeysetResp)),
+    http.post(url + '/v1/swap', async ({ request }) => {
+      const { outputs } = (await request.json()) as {
+        outputs: Array<{ id: string; amount: number }>;
+      };
+      return HttpResponse.json({
+        signatures: outputs.map((o) => ({ id: o.id, amount: o.amount, C_ })),
+      });
+    }),
+  );
+}
+
+async function fund(store: ProofStore, url: string, ...amounts: number[]) {
+  await store.put(
+    amounts.map((a, i) => ({
+      proof: proof(`${url}-${i}`, a),
+      state: 'unspent' as const,
+      mintUrl: url,
+      unit: 'sat',
+    })),
+  );
+}
+
+describe('WalletManager', () => {
+  test('keys wallets by normalized mint URL and unit', async () => {
+    const manager = new WalletManager();
+    const [a, b] = await Promise.all([
+      manager.getWallet(mintUrl),
+      manager.getWallet(mintUrl + '/'),
+    ]);
+    expect(a).toBe(b);
+    expect(manager.hasWallet('HTTP://LOCALHOST:3338')).toBe(true);
+    expect(manager.hasWallet(mintUrl, 'usd')).toBe(false);
+
+    const usd = await manager.getWallet(mintUrl, 'usd');
+    expect(usd).not.toBe(a);
+    expect(usd.unit).toBe('usd');
+    expect(await manager.getWallets('sat')).toEqual([a]);
+
+    expect(manager.removeWallet(mintUrl, 'usd')).toBe(true);
+    expect(await manager.getWallets()).toEqual([a]);
+  });
+
+  test('shares the counter source, seed and proof store', async () => {
+    serveMint(otherMintUrl);
+    const proofStore = createMemoryProofStore();
+    const manager = new WalletManager({ bip39seed: new Uint8Array(64).fill(1), proofStore });
+    const a = await manager.getWallet(mintUrl);
+    const b = await manager.getWallet(otherMintUrl);
+    await a.counters.advanceToAtLeast('00bd033559de27d0', 7);
+    expect(await b.counters.peekNext('00bd033559de27d0')).toBe(7);
+    expect(a.proofStore).toBe(proofStore);
+    expect(b.proofStore).toBe(proofStore);
+  });
+
+  test('retries a wallet whose mint failed to load', async () => {
+    server.use(http.get(mintUrl + '/v1/info', () => HttpResponse.error()));
+    const manager = new WalletManager();
+    await expect(manager.getWallet(mintUrl)).rejects.toThrow();
+    expect(manager.hasWallet(mintUrl)).toBe(false);
+
+    server.use(http.get(mintUrl + '/v1/info', () => HttpResponse.json(mintInfoResp)));
+    await expect(manager.getWallet(mintUrl)).resolves.toBeDefined();
+  });
+
+  test('aggregates balances across mints', async () => {
+    serveMint(otherMintUrl);
+    const store = createMemoryProofStore();
+    await fund(store, mintUrl, 1, 2);
+    await fund(store, otherMintUrl, 8);
+    const manager = new WalletManager({ proofStore: store });
+    await manager.getWallet(mintUrl);
+    await manager.getWallet(otherMintUrl);
+
+    const balance = await manager.balance();
+    expect(balance.total).toEqual(Amount.from(11));
+    expect(balance.byMint[mintUrl].total).toEqual(Amount.from(3));
+    expect(balance.byMint[otherMintUrl].total).toEqual(Amount.from(8));
+    expect((await manager.balance('usd')).total).toEqual(Amount.zero());
+    await expect(new WalletManager().balance()).rejects.toThrow(
+      'WalletManager has no proofStore configured',
+    );
+  });
+
+  describe('receive', () => {
+    test('routes the token to the wallet of its mint', async () => {
+      serveMint(mintUrl);
+      serveMint(otherMintUrl);
+      const store = createMemoryProofStore();
+      const manager = new WalletManager({ proofStore: store });
+      await manager.getWallet(mintUrl);
+      await manager.getWallet(otherMintUrl);
+
+      const token = getEncodedToken({
+        mint: otherMintUrl,
+        proofs: [proof('t', 2), proof('u', 2)],
+        unit: 'sat',
+      });
+      const proofs = await manager.receive(token);
+      expect(proofs.reduce((s, p) => s + p.amount.toNumber(), 0)).toBe(4);
+      expect((await manager.balance()).byMint[otherMintUrl].total).toEqual(Amount.from(4));
+      expect((await manager.balance()).byMint[mintUrl].total).toEqual(Amount.zero());
+    });
+
+    test('rejects unknown mints unless autoAddMints is set', async () => {
+      serveMint(mintUrl);
+      await expect(new WalletManager().receive(token3sat)).rejects.toThrow(
+        `No wallet for mint ${mintUrl} (sat)`,
+      );
+      const manager = new WalletManager({ autoAddMints: true });
+      await manager.receive(token3sat);
+      expect(manager.hasWallet(mintUrl)).toBe(true);
+    });
+  });
+
+  describe('selectMintForRequest', () => {
+    async function twoMints() {
+      serveMint(otherMintUrl);
+      const store = createMemoryProofStore();
+      const manager = new WalletManager({ proofStore: store });
+      await manager.getWallet(mintUrl);
+      await manager.getWallet(otherMintUrl);
+      return { manager, store };
+    }
+
+    test('prefers a listed mint that can pay', async () => {
+      const { manager, store } = await twoMints();
+      await fund(store, mintUrl, 16);
+      await fund(store, otherMintUrl, 16);
+      const pr = new PaymentRequest({
+        amount: 10,
+        unit: 'sat',
+        mints: [otherMintUrl],
+        mintsPreferred: true,
+        supportedMethods: [{ method: 'bolt11', fee: 2 }],
+      });
+      const choice = await manager.selectMintForRequest(pr);
+      expect(choice?.mintUrl).toBe(otherMintUrl);
+      expect(choice?.amount).toEqual(Amount.from(10));
+    });
+
+    test('falls back to an unlisted mint, adding the request fee', async () => {
+      const { manager, store } = await twoMints();
+      await fund(store, mintUrl, 16);
+      await fund(store, otherMintUrl, 4);
+      const pr = new PaymentRequest({
+        amount: 10,
+        unit: 'sat',
+        mints: [otherMintUrl],
+        mintsPreferred: true,
+        supportedMethods: [{ method: 'bolt11', fee: 2 }],
+      });
+      const choice = await manager.selectMintForRequest(pr);
+      expect(choice?.mintUrl).toBe(mintUrl);
+      expect(choice?.amount).toEqual(Amount.from(12));
+      expect(choice?.available).toEqual(Amount.from(16));
+    });
+
+    test('honours a strict mint list', async () => {
+      const { manager, store } = await twoMints();
+      await fund(store, mintUrl, 16);
+      const pr = new PaymentRequest({ amount: 10, unit: 'sat', mints: [otherMintUrl] });
+      expect(await manager.selectMintForRequest(pr)).toBeUndefined();
+    });
+
+    test('prices amountless requests with the given amount', async () => {
+      const { manager, store } = await twoMints();
+      await fund(store, mintUrl, 2, 4);
+      await fund(store, otherMintUrl, 8);
+      const pr = new PaymentRequest({ unit: 'sat' });
+      await expect(manager.selectMintForRequest(pr)).rejects.toThrow('amountless payment request');
+      const choice = await manager.selectMintForRequest(pr, 5);
+      // Both can pay 5; the larger balance wins the tie
+      expect(choice?.mintUrl).toBe(otherMintUrl);
+      expect(choice?.amount).toEqual(Amount.from(5));
+    });
+  });
+});
@@ -37,6 +37,8 @@ type SendFn = (
   outputConfig?: OutputConfig,
 ) => Promise<SendResponse>;
 
+type RecordOfflineSendFn = (proofs: Proof[], send: Proof[]) => Promise<void>;
+
 type SignP2PKFn = (
   proofs: Proof[],
   privkey: string | string[],
@@ -183,6 +185,7 @@ class MockWallet {
   });
   completeMint: Mock<CompleteMintFn> = vi.fn<CompleteMintFn>(async () => []);
   sendOffline: Mock<SendOfflineFn> = vi.fn<SendOfflineFn>(() => ({ keep: [], send: [] }));
+  _recordOfflineSend: Mock<RecordOfflineSendFn> = vi.fn<RecordOfflineSendFn>(async () => {});
   prepareMelt: Mock<PrepareMeltFn> = vi.fn<PrepareMeltFn>(async (m, q, p, _c, _o) => ({
     method: m,
     inputs: p,
@@ -477,6 +480,7 @@ describe('WalletOps builders', () => {
       expect(sentProofs).toStrictEqual(proofs);
       expect(config).toEqual({ includeFees: true, exactMatch: true, requireDleq: false });
       expect(wallet.send).not.toHaveBeenCalled();
+      expect(wallet._recordOfflineSend).toHaveBeenCalledWith(proofs, []);
     });
 
     it('offlineCloseMatch calls sendOffline with exactMatch false and requireDleq true when set', async () => {
@@ -1242,5 +1246,23 @@ describe('WalletOps builders', () => {
       expect(result.quote.state).toBe('PAID');
       expect(result.change).toBe(change);
     });
+
+    it('verifies the quote address before melting when asked', async () => {
+      const taproot = 'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0';
+      const quote = { ...meltOnchainSingle, request: taproot };
+      await expect(
+        ops.meltOnchain(meltOnchainSingle, proofs).verifyAddress().run(),
+      ).rejects.toThrow('Invalid Bitcoin address');
+      await expect(
+        ops.meltOnchain(quote, proofs).verifyAddress({ network: 'testnet' }).run(),
+      ).rejects.toThrow('Bitcoin address is for mainnet, expected testnet');
+      expect(wallet.meltProofsOnchain).not.toHaveBeenCalled();
+
+      await ops
+        .meltOnchain(quote, proofs)
+        .verifyAddress({ scriptTypes: ['p2tr'] })
+        .run();
+      expect(wallet.meltProofsOnchain).toHaveBeenCalledTimes(1);
+    });
   });
 });
@@ -0,0 +1,13 @@
+// Child process for the FileCounterSource stress test: reserves from a shared file and prints
+// the ranges it got as JSON.
+import * as fs from 'node:fs/promises';
+
+import { createFileCounterSource } from '../../src/wallet/CounterSource';
+
+const [path, rounds] = process.argv.slice(2);
+const source = createFileCounterSource(path, fs);
+const ranges = [];
+for (let i = 0; i < Number(rounds); i++) {
+  ranges.push(await source.reserve('ks', 1 + (i % 5)));
+}
+process.stdout.write(JSON.stringify(ranges));
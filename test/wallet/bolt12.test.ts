@@ -468,6 +468,71 @@ describe('Wallet (BOLT12) – wrappers', () => {
     });
   });
 
+  describe('createMeltQuoteBolt12 with verifyOffer', () => {
+    // BOLT12 specification offers: 1,000,000 msat, and amountless
+    const offer =
+      'lno1pqps7sjqpgtyzm3qv4uxzmtsd3jjqer9wd3hy6tsw35k7msjzfpy7nz5yqcnygrfdej82um5wf5k2uckyypwa3eyt44h6txtxquqh7lz5djge4afgfjn7k4rgrkuag0jsd5xvxg';
+    const amountless = 'lno1zcss9mk8y3wkklfvevcrszlmu23kfrxh49px20665dqwmn4p72pksese';
+    // Expired at Unix second 1
+    const expired =
+      'lno1pgrk27rsd9ex2eqwqyq3vggzamrjghtt05kvkvpcp0a79gmy3nt6jsn98ad2xs8de6sl9qmgvcvs';
+
+    const setup = (quote: Record<string, unknown> = {}) => {
+      const { req, calls } = makeRequestSpy({
+        quote: 'm1',
+        request: offer,
+        amount: 1000,
+        fee_reserve: 2,
+        unit: 'sat',
+        expiry: 9999999999,
+        state: 'UNPAID',
+        ...quote,
+      });
+      const wallet = new Wallet(new Mint(mintUrl, { customRequest: req }));
+      wallet.loadMintFromCache(MINTCACHE.mintInfo, MINTCACHE.keychainCache);
+      return { wallet, calls };
+    };
+
+    it('rejects bad offers and amounts before asking the mint', async () => {
+      const { wallet, calls } = setup();
+      const verify = { verifyOffer: true };
+      await expect(wallet.createMeltQuoteBolt12('lno1offer...', 1000, verify)).rejects.toThrow(
+        'Invalid BOLT12 offer',
+      );
+      await expect(wallet.createMeltQuoteBolt12(expired, 1000, verify)).rejects.toThrow(
+        'BOLT12 offer has expired',
+      );
+      await expect(wallet.createMeltQuoteBolt12(amountless, undefined, verify)).rejects.toThrow(
+        'amountMsat is required for an offer without an amount',
+      );
+      await expect(wallet.createMeltQuoteBolt12(offer, 999_000, verify)).rejects.toThrow(
+        'amountMsat does not match the offer amount',
+      );
+      expect(calls).toHaveLength(0);
+
+      const res = await wallet.createMeltQuoteBolt12(offer, undefined, verify);
+      expect(res.amount).toEqual(Amount.from(1000));
+      const priced = setup({ request: amountless, amount: 5 }).wallet;
+      expect((await priced.createMeltQuoteBolt12(amountless, 5_000, verify)).quote).toBe('m1');
+    });
+
+    it('checks the quote against the offer', async () => {
+      const verify = { verifyOffer: true };
+      await expect(
+        setup({ amount: 999 }).wallet.createMeltQuoteBolt12(offer, undefined, verify),
+      ).rejects.toThrow('Melt quote amount is below the offer amount');
+      await expect(
+        setup({ amount: 1001 }).wallet.createMeltQuoteBolt12(offer, undefined, verify),
+      ).rejects.toThrow('Melt quote amount exceeds the offer amount');
+      await expect(
+        setup({ request: amountless }).wallet.createMeltQuoteBolt12(offer, undefined, verify),
+      ).rejects.toThrow('Melt quote request does not match the offer');
+      // Without verifyOffer the offer stays opaque
+      const res = await setup({ amount: 1001 }).wallet.createMeltQuoteBolt12(offer);
+      expect(res.amount).toEqual(Amount.from(1001));
+    });
+  });
+
   it('wallet.meltProofsBolt12 delegates and returns {quote, change}', async () => {
     const response = {
       quote: 'm1',
@@ -0,0 +1,117 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  Amount,
+  Wallet,
+  createMemoryProofStore,
+  type Proof,
+  type ProofStore,
+  sumProofs,
+} from '../../src';
+import { TestMint } from '../../src/testing';
+
+async function setup(inputFeePpk = 0, proofStore?: ProofStore) {
+  const mint = new TestMint('http://mint.test', { inputFeePpk });
+  const wallet = new Wallet(mint.url, { requestFetch: mint.fetch, proofStore });
+  await wallet.loadMint();
+  return { mint, wallet };
+}
+
+/**
+ * Mints `denominations` as separate proofs.
+ */
+async function mintAs(mint: TestMint, wallet: Wallet, denominations: number[]) {
+  const amount = denominations.reduce((a, b) => a + b, 0);
+  const quote = await wallet.createMintQuoteBolt11(amount);
+  mint.lightning.pay(quote.request);
+  return wallet.mintProofsBolt11(amount, quote, undefined, {
+    type: 'random',
+    denominations: denominations.map((d) => Amount.from(d)),
+  });
+}
+
+function countOf(proofs: Proof[], amount: number) {
+  return proofs.filter((p) => p.amount.toNumber() === amount).length;
+}
+
+describe('wallet.consolidate', () => {
+  test('plans a swap of the surplus and prices it', async () => {
+    const { mint, wallet } = await setup(100);
+    const proofs = await mintAs(mint, wallet, Array<number>(40).fill(1));
+
+    const preview = await wallet.prepareConsolidation(proofs);
+    expect(preview.inputs).toHaveLength(37); // three 1s stay
+    expect(preview.swapFee.toNumber()).toBe(4);
+    expect(preview.spendFeeBefore.toNumber()).toBe(4);
+    expect(preview.spendFeeAfter.toNumber()).toBe(2);
+    expect(preview.proofCountBefore).toBe(40);
+    expect(preview.proofCountAfter).toBe(13);
+    // Saves 2 on spending everything, costs 4 now
+    expect(preview.worthwhile).toBe(false);
+    expect(preview.swap).toBeUndefined();
+
+    const { proofs: result } = await wallet.consolidate(proofs, { force: true });
+    expect(result).toHaveLength(13);
+    expect(sumProofs(result).toNumber()).toBe(36);
+  });
+
+  test('returns the full set of proofs after the swap', async () => {
+    const { mint, wallet } = await setup();
+    const proofs = await mintAs(mint, wallet, [...Array<number>(20).fill(2), 8, 8]);
+
+    const { proofs: result, preview } = await wallet.consolidate(proofs);
+    expect(preview.worthwhile).toBe(true);
+    expect(preview.swapFee.toNumber()).toBe(0);
+    expect(sumProofs(result).toNumber()).toBe(56);
+    expect(result).toHaveLength(preview.proofCountAfter);
+    expect(result).toHaveLength(15);
+    // The surplus fills the gaps around the proofs that stay, remainder split as usual
+    expect([1, 2, 4, 8].map((a) => countOf(result, a))).toEqual([4, 4, 3, 4]);
+
+    const again = await wallet.consolidate(result);
+    expect(again.preview.worthwhile).toBe(false);
+    expect(again.preview.swap).toBeUndefined();
+    expect(again.proofs).toEqual(result);
+  });
+
+  test('leaves proofs alone when the swap costs more than it saves', async () => {
+    const { mint, wallet } = await setup(100);
+    const proofs = await mintAs(mint, wallet, [1, 1, 1, 1, 4]);
+
+    const { proofs: result, preview } = await wallet.consolidate(proofs);
+    expect(preview.inputs).toHaveLength(1);
+    expect(preview.worthwhile).toBe(false);
+    expect(preview.swap).toBeUndefined();
+    expect(result).toEqual(proofs);
+
+    // The only input is worth no more than its fee, so even force has nothing to swap
+    expect((await wallet.prepareConsolidation(proofs, { force: true })).swap).toBeUndefined();
+  });
+
+  test('moves proofs off inactive and pricier keysets to the cheapest one', async () => {
+    const { mint, wallet } = await setup(0);
+    const old = await mintAs(mint, wallet, [4, 4]);
+    const oldId = old[0].id;
+    const newId = mint.rotateKeyset('sat', 0);
+    await wallet.loadMint(true);
+
+    const { proofs: result, preview } = await wallet.consolidate(old);
+    expect(preview.worthwhile).toBe(true);
+    expect(preview.inputs.map((p) => p.id)).toEqual([oldId, oldId]);
+    expect(result.every((p) => p.id === newId)).toBe(true);
+    expect(sumProofs(result).toNumber()).toBe(8);
+  });
+
+  test('reserves inputs in the proof store until the swap completes', async () => {
+    const store = createMemoryProofStore();
+    const { mint, wallet } = await setup(0, store);
+    const proofs = await mintAs(mint, wallet, Array<number>(8).fill(1));
+
+    const preview = await wallet.prepareConsolidation(proofs);
+    expect(await wallet.getStoredProofs('reserved')).toHaveLength(5);
+    await wallet.completeSwap(preview.swap!);
+    expect(await wallet.getStoredProofs('reserved')).toHaveLength(0);
+    expect(sumProofs(await wallet.getStoredProofs()).toNumber()).toBe(8);
+    expect((await wallet.getStoredProofs()).length).toBe(preview.proofCountAfter);
+  });
+});
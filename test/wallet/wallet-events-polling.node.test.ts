@@ -0,0 +1,104 @@
+import { describe, expect, test, vi } from 'vitest';
+
+import {
+  CheckStateEnum,
+  MintQuoteState,
+  Wallet,
+  type MintQuoteBolt11Response,
+  type Proof,
+  type ProofState,
+  type RequestFetch,
+} from '../../src';
+import { TestMint } from '../../src/testing';
+
+// A TestMint without NUT-17, optionally with the NUT-29 batch quote check
+async function setup(batch = false) {
+  const mint = new TestMint('http://mint.test');
+  const paths: string[] = [];
+  const requestFetch: RequestFetch = async (input, init) => {
+    const req = new Request(input, init);
+    const path = new URL(req.url).pathname;
+    paths.push(`${req.method} ${path}`);
+    if (batch && path === '/v1/mint/quote/bolt11/check') {
+      const { quotes } = (await req.json()) as { quotes: string[] };
+      const checked = await Promise.all(
+        quotes.map(async (q) => (await mint.fetch(`${mint.url}/v1/mint/quote/bolt11/${q}`)).json()),
+      );
+      return Response.json(checked);
+    }
+    const res = await mint.fetch(req);
+    if (path !== '/v1/info') return res;
+    const info = (await res.json()) as { nuts: Record<string, unknown> };
+    delete info.nuts['17'];
+    if (batch) info.nuts['29'] = { methods: ['bolt11'] };
+    return Response.json(info);
+  };
+  const wallet = new Wallet(mint.url, { requestFetch, events: { pollIntervalMs: 10 } });
+  await wallet.loadMint();
+  return { mint, wallet, paths };
+}
+
+const count = (paths: string[], prefix: string) => paths.filter((p) => p.startsWith(prefix)).length;
+
+describe('WalletEvents polling', () => {
+  test('polls mint quotes when the mint has no NUT-17', async () => {
+    const { mint, wallet, paths } = await setup();
+    const quote = await wallet.createMintQuoteBolt11(8);
+    const paid = wallet.on.onceMintPaid(quote.quote, { timeoutMs: 2_000 });
+    await vi.waitFor(() => expect(count(paths, 'GET /v1/mint/quote/bolt11/')).toBeGreaterThan(1));
+    mint.lightning.pay(quote.request);
+    expect((await paid).state).toBe(MintQuoteState.PAID);
+    expect(wallet.mint.webSocketConnection).toBeUndefined();
+  });
+
+  test('batches mint quote checks through NUT-29 and stops polling settled quotes', async () => {
+    const { mint, wallet, paths } = await setup(true);
+    const a = await wallet.createMintQuoteBolt11(8);
+    const b = await wallet.createMintQuoteBolt11(8);
+    const updates: MintQuoteBolt11Response[] = [];
+    const cancel = await wallet.on.mintQuoteUpdates(
+      [a.quote, b.quote],
+      (q) => updates.push(q),
+      (e) => {
+        throw e;
+      },
+    );
+    await vi.waitFor(() => expect(updates).toHaveLength(2));
+    mint.lightning.pay(a.request);
+    await vi.waitFor(() => expect(updates.map((q) => q.state)).toContain(MintQuoteState.PAID));
+    await wallet.mintProofsBolt11(8, a.quote);
+    await vi.waitFor(() => expect(updates.map((q) => q.state)).toContain(MintQuoteState.ISSUED));
+    cancel();
+
+    // First poll reports both quotes, later ones only changes
+    expect(updates.map((q) => [q.quote, q.state])).toEqual([
+      [a.quote, MintQuoteState.UNPAID],
+      [b.quote, MintQuoteState.UNPAID],
+      [a.quote, MintQuoteState.PAID],
+      [a.quote, MintQuoteState.ISSUED],
+    ]);
+    expect(count(paths, 'POST /v1/mint/quote/bolt11/check')).toBeGreaterThan(1);
+    expect(count(paths, 'GET /v1/mint/quote/bolt11/')).toBe(0);
+  });
+
+  test('polls proof states until spent', async () => {
+    const { mint, wallet } = await setup();
+    const quote = await wallet.createMintQuoteBolt11(8);
+    mint.lightning.pay(quote.request);
+    const proofs = await wallet.mintProofsBolt11(8, quote);
+    const states: Array<ProofState & { proof: Proof }> = [];
+    const cancel = await wallet.on.proofStateUpdates(
+      proofs,
+      (s) => states.push(s),
+      (e) => {
+        throw e;
+      },
+    );
+    await vi.waitFor(() => expect(states).toHaveLength(proofs.length));
+    await wallet.send(4, proofs);
+    await vi.waitFor(() => expect(states).toHaveLength(proofs.length * 2));
+    cancel();
+    expect(states.slice(proofs.length).every((s) => s.state === CheckStateEnum.SPENT)).toBe(true);
+    expect(states[0].proof).toEqual(proofs[0]);
+  });
+});
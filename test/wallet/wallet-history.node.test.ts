@@ -0,0 +1,118 @@
+import { describe, expect, test } from 'vitest';
+
+import {
+  Amount,
+  Wallet,
+  createMemoryOperationJournal,
+  createMemoryTransactionHistory,
+  type HistoryEntry,
+  type TransactionHistory,
+  sumProofs,
+} from '../../src';
+import { TestMint } from '../../src/testing';
+
+async function setup(inputFeePpk = 0) {
+  const mint = new TestMint('http://mint.test', { inputFeePpk, feeReserve: () => 4 });
+  const history = createMemoryTransactionHistory();
+  const wallet = new Wallet(mint.url, { requestFetch: mint.fetch, history });
+  await wallet.loadMint();
+  return { mint, wallet, history };
+}
+
+async function entries(history: TransactionHistory): Promise<HistoryEntry[]> {
+  return (await history.list({ limit: 100 })).entries.reverse();
+}
+
+const summary = (e: HistoryEntry) => [e.type, e.direction, e.amount.toNumber()];
+
+describe('wallet history', () => {
+  test('records mints, sends, receives and melts with their fees', async () => {
+    const { mint, wallet, history } = await setup(100);
+    const receiver = new Wallet(mint.url, { requestFetch: mint.fetch, history });
+    await receiver.loadMint();
+
+    const quote = await wallet.createMintQuoteBolt11(64);
+    mint.lightning.pay(quote.request);
+    const proofs = await wallet.mintProofsBolt11(64, quote, undefined, {
+      type: 'random',
+      denominations: Array<Amount>(8).fill(Amount.from(8)),
+    });
+    const { send, keep } = await wallet.send(10, proofs.slice(0, 2));
+    const received = await receiver.receive(send);
+
+    const invoice = mint.lightning.createInvoice(20);
+    const meltQuote = await wallet.createMeltQuoteBolt11(invoice);
+    const melted = await wallet.meltProofsBolt11(meltQuote, [...keep, ...proofs.slice(2, 5)]);
+
+    const all = await entries(history);
+    expect(all.map(summary)).toEqual([
+      ['mint', 'in', 64],
+      ['send', 'out', 10],
+      ['fee', 'out', 1],
+      ['receive', 'in', sumProofs(received).toNumber()],
+      ['fee', 'out', 1],
+      ['melt', 'out', 20],
+      ['fee', 'out', 24 + 5 - 20 - sumProofs(melted.change).toNumber()],
+    ]);
+    const [minted, sent, sendFee, , , paid] = all;
+    expect(minted).toMatchObject({ method: 'bolt11', quoteId: quote.quote, mintUrl: mint.url });
+    expect(sendFee.relatedId).toBe(sent.id);
+    expect(wallet.decodeToken(sent.token!).proofs.map((p) => p.secret)).toEqual(
+      send.map((p) => p.secret),
+    );
+    expect(paid).toMatchObject({ method: 'bolt11', quoteId: meltQuote.quote });
+    expect(paid.preimage).toBe(melted.quote.payment_preimage);
+    expect(paid.preimage).toBeTruthy();
+  });
+
+  test('records offline sends and consolidation swaps, and skips unpaid melts', async () => {
+    const { mint, wallet, history } = await setup();
+    const quote = await wallet.createMintQuoteBolt11(40);
+    mint.lightning.pay(quote.request);
+    const proofs = await wallet.mintProofsBolt11(40, quote, undefined, {
+      type: 'random',
+      denominations: Array<Amount>(20).fill(Amount.from(2)),
+    });
+
+    await wallet.ops.send(4, proofs.slice(0, 2)).offlineExactOnly().run();
+    const { proofs: consolidated } = await wallet.consolidate(proofs.slice(2), { force: true });
+
+    const invoice = mint.lightning.createInvoice(10);
+    mint.lightning.setOutcome(invoice, 'pending');
+    const meltQuote = await wallet.createMeltQuoteBolt11(invoice);
+    await wallet.meltProofsBolt11(meltQuote, consolidated);
+
+    expect((await entries(history)).map(summary)).toEqual([
+      ['mint', 'in', 40],
+      ['send', 'out', 4],
+      ['swap', 'internal', expect.any(Number) as number],
+    ]);
+  });
+
+  test('records operations finished by recovery', async () => {
+    const mint = new TestMint('http://mint.test');
+    const history = createMemoryTransactionHistory();
+    const journal = createMemoryOperationJournal();
+    let dropResponse = true;
+    const wallet = new Wallet(mint.url, {
+      requestFetch: async (input, init) => {
+        const res = await mint.fetch(input, init);
+        if (dropResponse && new Request(input, init).url.endsWith('/v1/mint/bolt11')) {
+          throw new TypeError('connection reset');
+        }
+        return res;
+      },
+      history,
+      journal,
+    });
+    await wallet.loadMint();
+    const quote = await wallet.createMintQuoteBolt11(16);
+    mint.lightning.pay(quote.request);
+    await expect(wallet.mintProofsBolt11(16, quote)).rejects.toThrow();
+    expect(await entries(history)).toEqual([]);
+
+    dropResponse = false;
+    await wallet.recoverPendingOperations();
+    expect((await entries(history)).map(summary)).toEqual([['mint', 'in', 16]]);
+  });
+});
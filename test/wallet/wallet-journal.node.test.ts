@@ -0,0 +1,370 @@
+import { HttpResponse, http } from 'msw';
+import { describe, expect, test } from 'vitest';
+
+import {
+  Amount,
+  MeltQuoteState,
+  Wallet,
+  createMemoryOperationJournal,
+  createMemoryProofStore,
+  type MeltQuoteBolt11Response,
+  type OperationJournal,
+  type Proof,
+  type ProofStore,
+  sumProofs,
+} from '../../src';
+
+import { useTestServer, mintInfoResp, mintUrl, unit } from './_setup';
+
+const server = useTestServer();
+
+const C_ = '021179b095a67380ab3285424b563b7aab9818bd38068e1930641b3dceb364d422';
+const C = '034268c0bd30b945adf578aca2dc0d1e26ef089869aaf9a08ba3a6da40fda1d8be';
+
+type Outputs = Array<{ id: string; amount: number; B_: string }>;
+
+function proof(secret: string, amount: number): Proof {
+  return { id: '00bd033559de27d0', amount: Amount.from(amount), secret, C };
+}
+
+function sign(outputs: Outputs) {
+  return outputs.map((o) => ({ id: o.id, amount: o.amount, C_ }));
+}
+
+async function journalWallet(
+  journal: OperationJournal = createMemoryOperationJournal(),
+  store: ProofStore = createMemoryProofStore(),
+) {
+  const wallet = new Wallet(mintUrl, { unit, journal, proofStore: store });
+  await wallet.loadMint();
+  return { wallet, journal, store };
+}
+
+async function states(store: ProofStore) {
+  return Object.fromEntries((await store.list()).map((e) => [e.proof.secret, e.state]));
+}
+
+/**
+ * Mint answers restore with signatures for every output, or for none.
+ */
+function restoreResponds(signed: boolean) {
+  server.use(
+    http.post(mintUrl + '/v1/restore', async ({ request }) => {
+      const { outputs } = (await request.json()) as { outputs: Outputs };
+      return HttpResponse.json(
+        signed ? { outputs, signatures: sign(outputs) } : { outputs: [], signatures: [] },
+      );
+    }),
+  );
+}
+
+function checkstateResponds(state: 'UNSPENT' | 'PENDING' | 'SPENT') {
+  server.use(
+    http.post(mintUrl + '/v1/checkstate', async ({ request }) => {
+      const { Ys } = (await request.json()) as { Ys: string[] };
+      return HttpResponse.json({ states: Ys.map((Y) => ({ Y, state, witness: null })) });
+    }),
+  );
+}
+
+function cachedEndpoints(...paths: string[]) {
+  server.use(
+    http.get(mintUrl + '/v1/info', () =>
+      HttpResponse.json({
+        ...mintInfoResp,
+        nuts: {
+          ...mintInfoResp.nuts,
+          19: { ttl: 60, cached_endpoints: paths.map((path) => ({ method: 'POST', path })) },
+        },
+      }),
+    ),
+  );
+}
+
+describe('Wallet with an OperationJournal', () => {
+  test('exposes the journal and requires one for recovery', async () => {
+    const { wallet, journal } = await journalWallet();
+    expect(wallet.journal).toBe(journal);
+    expect(wallet.withKeyset(wallet.keysetId).journal).toBe(journal);
+
+    const plain = new Wallet(mintUrl, { unit });
+    await plain.loadMint();
+    await expect(plain.recoverPendingOperations()).rejects.toThrow(
+      'Wallet has no journal configured',
+    );
+  });
+
+  describe('swap', () => {
+    test('is recorded before sending and completed after storing', async () => {
+      const { wallet, journal } = await journalWallet();
+      let inFlight: unknown[] = [];
+      server.use(
+        http.post(mintUrl + '/v1/swap', async ({ request }) => {
+          inFlight = await journal.list();
+          const { outputs } = (await request.json()) as { outputs: Outputs };
+          return HttpResponse.json({ signatures: sign(outputs) });
+        }),
+      );
+      await wallet.send(3, [proof('a', 4)]);
+      expect(inFlight).toHaveLength(1);
+      expect(inFlight[0]).toMatchObject({ kind: 'swap', mintUrl, unit });
+      expect(await journal.list()).toEqual([]);
+    });
+
+    test('a protocol rejection completes the entry', async () => {
+      server.use(
+        http.post(mintUrl + '/v1/swap', () =>
+          HttpResponse.json(
+            { code: 11002, detail: 'Transaction is not balanced.' },
+            { status: 400 },
+          ),
+        ),
+      );
+      const { wallet, journal } = await journalWallet();
+      await expect(wallet.send(3, [proof('a', 4)])).rejects.toThrow('not balanced');
+      expect(await journal.list()).toEqual([]);
+    });
+
+    test('a lost response is recovered with restore', async () => {
+      server.use(http.post(mintUrl + '/v1/swap', () => HttpResponse.error()));
+      const { wallet, journal, store } = await journalWallet();
+      await expect(wallet.send(3, [proof('a', 4)])).rejects.toThrow();
+      const [entry] = await journal.list();
+      expect(entry.kind).toBe('swap');
+
+      restoreResponds(true);
+      const [result] = await wallet.recoverPendingOperations();
+      expect(result).toMatchObject({ id: entry.id, kind: 'swap', outcome: 'completed' });
+      expect(sumProofs(result.send ?? []).toNumber()).toBe(3);
+      expect(sumProofs(result.proofs).toNumber()).toBe(1);
+
+      const s = await states(store);
+      expect(s.a).toBe('spent');
+      for (const p of result.send ?? []) expect(s[p.secret]).toBe('pending');
+      for (const p of result.proofs) expect(s[p.secret]).toBe('unspent');
+      expect(await journal.list()).toEqual([]);
+    });
+
+    test('rolls back when the mint never saw the swap', async () => {
+      server.use(http.post(mintUrl + '/v1/swap', () => HttpResponse.error()));
+      const { wallet, journal, store } = await journalWallet();
+      await expect(wallet.send(3, [proof('a', 4)])).rejects.toThrow();
+      expect(await states(store)).toEqual({ a: 'pending' });
+
+      restoreResponds(false);
+      checkstateResponds('UNSPENT');
+      const [result] = await wallet.recoverPendingOperations();
+      expect(result.outcome).toBe('rolled-back');
+      expect(await states(store)).toEqual({ a: 'unspent' });
+      expect(await journal.list()).toEqual([]);
+    });
+
+    test('keeps the entry while the inputs are pending', async () => {
+      server.use(http.post(mintUrl + '/v1/swap', () => HttpResponse.error()));
+      const { wallet, journal } = await journalWallet();
+      await expect(wallet.send(3, [proof('a', 4)])).rejects.toThrow();
+
+      restoreResponds(false);
+      checkstateResponds('PENDING');
+      const [result] = await wallet.recoverPendingOperations();
+      expect(result.outcome).toBe('pending');
+      expect(await journal.list()).toHaveLength(1);
+    });
+
+    test('abandons spent inputs with no recoverable outputs', async () => {
+      server.use(http.post(mintUrl + '/v1/swap', () => HttpResponse.error()));
+      const { wallet, journal, store } = await journalWallet();
+      await expect(wallet.send(3, [proof('a', 4)])).rejects.toThrow();
+
+      restoreResponds(false);
+      checkstateResponds('SPENT');
+      const [result] = await wallet.recoverPendingOperations();
+      expect(result.outcome).toBe('abandoned');
+      expect(await states(store)).toEqual({ a: 'spent' });
+      expect(await journal.list()).toEqual([]);
+    });
+
+    test('replays the identical request when the mint caches swaps (NUT-19)', async () => {
+      const bodies: string[] = [];
+      server.use(
+        http.post(mintUrl + '/v1/swap', async ({ request }) => {
+          bodies.push(await request.text());
+          return HttpResponse.error();
+        }),
+      );
+      const journal = createMemoryOperationJournal();
+      const { wallet } = await journalWallet(journal);
+      await expect(wallet.send(3, [proof('a', 4)])).rejects.toThrow();
+
+      // A new process, against a mint that caches swap responses
+      cachedEndpoints('/v1/swap');
+      server.use(
+        http.post(mintUrl + '/v1/swap', async ({ request }) => {
+          const body = await request.text();
+          bodies.push(body);
+          const { outputs } = JSON.parse(body) as { outputs: Outputs };
+          return HttpResponse.json({ signatures: sign(outputs) });
+        }),
+      );
+      const { wallet: restarted } = await journalWallet(journal);
+      const [result] = await restarted.recoverPendingOperations();
+      expect(result.outcome).toBe('completed');
+      expect(sumProofs(result.send ?? []).toNumber()).toBe(3);
+      expect(bodies).toHaveLength(2);
+      expect(bodies[1]).toBe(bodies[0]);
+    });
+  });
+
+  describe('mint', () => {
+    test('a lost response is recovered with restore', async () => {
+      server.use(http.post(mintUrl + '/v1/mint/bolt11', () => HttpResponse.error()));
+      const { wallet, journal, store } = await journalWallet();
+      await expect(wallet.mintProofsBolt11(5, 'quote-id')).rejects.toThrow();
+      expect((await journal.list())[0]).toMatchObject({
+        kind: 'mint',
+        preview: { quote: 'quote-id' },
+      });
+
+      restoreResponds(true);
+      const [result] = await wallet.recoverPendingOperations();
+      expect(result.outcome).toBe('completed');
+      expect(sumProofs(result.proofs).toNumber()).toBe(5);
+      expect((await wallet.balance()).total).toEqual(Amount.from(5));
+      expect(await store.list()).toHaveLength(result.proofs.length);
+    });
+
+    test('rolls back when nothing was issued', async () => {
+      server.use(http.post(mintUrl + '/v1/mint/bolt11', () => HttpResponse.error()));
+      const { wallet, journal } = await journalWallet();
+      await expect(wallet.mintProofsBolt11(5, 'quote-id')).rejects.toThrow();
+
+      restoreResponds(false);
+      const [result] = await wallet.recoverPendingOperations();
+      expect(result).toMatchObject({ outcome: 'rolled-back', proofs: [] });
+      expect(await journal.list()).toEqual([]);
+    });
+
+    test('replays when the mint caches mint requests (NUT-19)', async () => {
+      server.use(http.post(mintUrl + '/v1/mint/bolt11', () => HttpResponse.error()));
+      const journal = createMemoryOperationJournal();
+      const { wallet } = await journalWallet(journal);
+      await expect(wallet.mintProofsBolt11(5, 'quote-id')).rejects.toThrow();
+
+      cachedEndpoints('/v1/mint/bolt11');
+      server.use(
+        http.post(mintUrl + '/v1/mint/bolt11', async ({ request }) => {
+          const { outputs } = (await request.json()) as { outputs: Outputs };
+          return HttpResponse.json({ signatures: sign(outputs) });
+        }),
+      );
+      const { wallet: restarted } = await journalWallet(journal);
+      const [result] = await restarted.recoverPendingOperations();
+      expect(result.outcome).toBe('completed');
+      expect(sumProofs(result.proofs).toNumber()).toBe(5);
+    });
+  });
+
+  describe('melt', () => {
+    const meltQuote: MeltQuoteBolt11Response = {
+      quote: 'test_melt_quote',
+      amount: Amount.from(10),
+      fee_reserve: Amount.from(3),
+      request: 'bolt11request',
+      state: MeltQuoteState.UNPAID,
+      expiry: 1234567890,
+      payment_preimage: null,
+      unit: 'sat',
+      method: 'bolt11',
+    };
+    const inputs = () => [proof('m1', 8), proof('m2', 5)];
+
+    function quoteBody(state: MeltQuoteState, change: unknown[] = []) {
+      return {
+        quote: 'test_melt_quote',
+        amount: 10,
+        unit: 'sat',
+        fee_reserve: 3,
+        state,
+        expiry: 1234567890,
+        payment_preimage: state === MeltQuoteState.PAID ? 'preimage' : null,
+        request: 'bolt11request',
+        change,
+      };
+    }
+
+    function quoteResponds(state: MeltQuoteState, change: unknown[] = []) {
+      server.use(
+        http.get(mintUrl + '/v1/melt/quote/bolt11/test_melt_quote', () =>
+          HttpResponse.json(quoteBody(state, change)),
+        ),
+      );
+    }
+
+    test('collects change once a lost melt turns out paid', async () => {
+      server.use(http.post(mintUrl + '/v1/melt/bolt11', () => HttpResponse.error()));
+      const { wallet, journal, store } = await journalWallet();
+      await expect(wallet.meltProofsBolt11(meltQuote, inputs())).rejects.toThrow();
+
+      quoteResponds(MeltQuoteState.PAID, [{ id: '00bd033559de27d0', amount: 2, C_ }]);
+      const [result] = await wallet.recoverPendingOperations();
+      expect(result.outcome).toBe('completed');
+      expect(sumProofs(result.proofs).toNumber()).toBe(2);
+      const s = await states(store);
+      expect(s.m1).toBe('spent');
+      expect(s.m2).toBe('spent');
+      expect(s[result.proofs[0].secret]).toBe('unspent');
+      expect(await journal.list()).toEqual([]);
+    });
+
+    test('a pending melt keeps its entry until it settles', async () => {
+      server.use(
+        http.post(mintUrl + '/v1/melt/bolt11', () =>
+          HttpResponse.json(quoteBody(MeltQuoteState.PENDING)),
+        ),
+      );
+      const { wallet, journal } = await journalWallet();
+      await wallet.meltProofsBolt11(meltQuote, inputs());
+      expect(await journal.list()).toHaveLength(1);
+
+      quoteResponds(MeltQuoteState.PENDING);
+      expect((await wallet.recoverPendingOperations())[0].outcome).toBe('pending');
+      expect(await journal.list()).toHaveLength(1);
+
+      quoteResponds(MeltQuoteState.PAID);
+      restoreResponds(false);
+      expect((await wallet.recoverPendingOperations())[0].outcome).toBe('completed');
+      expect(await journal.list()).toEqual([]);
+    });
+
+    test('rolls back an unpaid melt with unspent inputs', async () => {
+      server.use(http.post(mintUrl + '/v1/melt/bolt11', () => HttpResponse.error()));
+      const { wallet, store } = await journalWallet();
+      await expect(wallet.meltProofsBolt11(meltQuote, inputs())).rejects.toThrow();
+
+      quoteResponds(MeltQuoteState.UNPAID);
+      checkstateResponds('UNSPENT');
+      const [result] = await wallet.recoverPendingOperations();
+      expect(result.outcome).toBe('rolled-back');
+      expect(await states(store)).toEqual({ m1: 'unspent', m2: 'unspent' });
+    });
+  });
+
+  test('only recovers entries of its own mint and unit; failures keep the entry', async () => {
+    const journal = createMemoryOperationJournal();
+    const base = { mintUrl, unit, createdAt: 1, kind: 'mint' as const };
+    const preview = { method: 'bolt11', keysetId: '00bd033559de27d0', quote: 'q', outputData: [] };
+    await journal.record({ ...base, id: 'other-mint', mintUrl: 'http://other', preview });
+    await journal.record({ ...base, id: 'other-unit', unit: 'usd', preview });
+    await journal.record({
+      ...base,
+      id: 'broken',
+      preview: { ...preview, outputData: [{ bad: true } as never] },
+    });
+    const { wallet } = await journalWallet(journal);
+    const results = await wallet.recoverPendingOperations();
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ id: 'broken', outcome: 'failed' });
+    expect(results[0].error).toBeInstanceOf(Error);
+    expect((await journal.list()).map((e) => e.id)).toEqual(['other-mint', 'other-unit', 'broken']);
+  });
+});
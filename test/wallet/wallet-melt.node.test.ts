@@ -16,11 +16,18 @@ import {
   type AuthProvider,
   type OutputType,
   Amount,
+  InvalidPreimageError,
+  isBolt11Preimage,
 } from '../../src';
+import { FakeLightning, TestMint } from '../../src/testing';
 
 import { useTestServer, mint, mintUrl, unit, invoice, logger, mintInfoResp } from './_setup';
 
 const server = useTestServer();
+// A real invoice and its preimage, for stubbed melts that report it paid
+const payee = new FakeLightning({ seed: new Uint8Array(32).fill(3) });
+const paidInvoice = payee.createInvoice(10);
+const paidPreimage = payee.lookup(paidInvoice)!.preimage;
 const mintInfoRespWithNut12 = {
   ...mintInfoResp,
   nuts: { ...mintInfoResp.nuts, 12: { supported: true } },
@@ -37,8 +44,8 @@ describe('melt proofs', () => {
           fee_reserve: 3,
           state: MeltQuoteState.PAID,
           expiry: 1234567890,
-          payment_preimage: 'preimage',
-          request: 'bolt11request',
+          payment_preimage: paidPreimage,
+          request: paidInvoice,
           change: [
             {
               id: '00bd033559de27d0',
@@ -61,7 +68,7 @@ describe('melt proofs', () => {
       quote: 'test_melt_quote',
       amount: Amount.from(10),
       fee_reserve: Amount.from(3),
-      request: 'bolt11request',
+      request: paidInvoice,
       state: MeltQuoteState.UNPAID,
       expiry: 1234567890,
       payment_preimage: null,
@@ -85,7 +92,7 @@ describe('melt proofs', () => {
     const response = await wallet.meltProofsBolt11(meltQuote, proofsToSend);
 
     expect(response.quote.state).toBe(MeltQuoteState.PAID);
-    expect(response.quote.payment_preimage).toBe('preimage');
+    expect(response.quote.payment_preimage).toBe(paidPreimage);
     expect(response.change).toHaveLength(2);
     expect(response.change[0]).toMatchObject({ amount: Amount.from(1), id: '00bd033559de27d0' });
     expect(response.change[1]).toMatchObject({ amount: Amount.from(2), id: '00bd033559de27d0' });
@@ -103,8 +110,8 @@ describe('melt proofs', () => {
           fee_reserve: 0,
           state: MeltQuoteState.PAID,
           expiry: 1234567890,
-          payment_preimage: 'preimage',
-          request: 'bolt11request',
+          payment_preimage: paidPreimage,
+          request: paidInvoice,
           change: [],
         });
       }),
@@ -116,7 +123,7 @@ describe('melt proofs', () => {
       quote: 'test_melt_quote',
       amount: Amount.from(12),
       fee_reserve: Amount.from(0),
-      request: 'bolt11request',
+      request: paidInvoice,
       state: MeltQuoteState.UNPAID,
       expiry: 1234567890,
       payment_preimage: null,
@@ -140,7 +147,7 @@ describe('melt proofs', () => {
     const response = await wallet.meltProofsBolt11(meltQuote, proofsToSend);
 
     expect(response.quote.state).toBe(MeltQuoteState.PAID);
-    expect(response.quote.payment_preimage).toBe('preimage');
+    expect(response.quote.payment_preimage).toBe(paidPreimage);
     expect(response.change).toHaveLength(0);
   });
 
@@ -155,8 +162,8 @@ describe('melt proofs', () => {
           fee_reserve: 3,
           state: MeltQuoteState.PAID,
           expiry: 1234567890,
-          payment_preimage: 'preimage',
-          request: 'bolt11request',
+          payment_preimage: paidPreimage,
+          request: paidInvoice,
           change: [
             {
               id: '00bd033559de27d0',
@@ -174,7 +181,7 @@ describe('melt proofs', () => {
       quote: 'test_melt_quote',
       amount: Amount.from(10),
       fee_reserve: Amount.from(3),
-      request: 'bolt11request',
+      request: paidInvoice,
       state: MeltQuoteState.UNPAID,
       expiry: 1234567890,
       payment_preimage: null,
@@ -214,8 +221,8 @@ describe('melt proofs', () => {
           fee_reserve: 0,
           state: MeltQuoteState.PAID,
           expiry: 1234567890,
-          payment_preimage: 'preimage',
-          request: 'bolt11request',
+          payment_preimage: paidPreimage,
+          request: paidInvoice,
           change: [],
         });
       }),
@@ -227,7 +234,7 @@ describe('melt proofs', () => {
       quote: 'test_melt_quote',
       amount: Amount.from(12),
       fee_reserve: Amount.from(0),
-      request: 'bolt11request',
+      request: paidInvoice,
       state: MeltQuoteState.UNPAID,
       expiry: 1234567890,
       payment_preimage: null,
@@ -497,7 +504,7 @@ describe('melt proofs', () => {
         quote: 'test_melt_quote',
         amount: Amount.from(10),
         fee_reserve: Amount.from(3), // ceil(log2(3)) = 2 blanks expected
-        request: 'bolt11...',
+        request: paidInvoice,
         state: MeltQuoteState.UNPAID,
         expiry: 1234567890,
         payment_preimage: null,
@@ -530,7 +537,7 @@ describe('melt proofs', () => {
             fee_reserve: meltQuote.fee_reserve,
             state: MeltQuoteState.PAID,
             expiry: meltQuote.expiry,
-            payment_preimage: 'deadbeef',
+            payment_preimage: paidPreimage,
             request: meltQuote.request,
             change: [
               {
@@ -1363,3 +1370,165 @@ describe('bolt11 melt quote amount validation', () => {
     await expect(wallet.checkMeltQuoteBolt11('melt-check-amountless')).resolves.toBeDefined();
   });
 });
+
+describe('bolt11 invoice verification', () => {
+  const lightning = new FakeLightning({ seed: new Uint8Array(32).fill(9) });
+
+  test('createMeltQuoteBolt11 refuses an expired invoice before asking the mint', async () => {
+    const quoteRequested = vi.fn();
+    server.use(http.post(mintUrl + '/v1/melt/quote/bolt11', quoteRequested));
+    const wallet = new Wallet(mint, { unit });
+    await wallet.loadMint();
+
+    await expect(
+      wallet.createMeltQuoteBolt11(invoice, undefined, { verifyInvoice: true }),
+    ).rejects.toThrow('BOLT11 invoice has expired');
+    await expect(
+      wallet.createMeltQuoteBolt11('lnbc1pfake', undefined, { verifyInvoice: true }),
+    ).rejects.toThrow('Invalid BOLT11 invoice');
+    expect(quoteRequested).not.toHaveBeenCalled();
+  });
+
+  test('createMeltQuoteBolt11 checks the quote against the decoded invoice', async () => {
+    const ours = lightning.createInvoice(100);
+    const other = lightning.createInvoice(100);
+    let reply = { amount: 100, request: other };
+    server.use(
+      http.post(mintUrl + '/v1/melt/quote/bolt11', () =>
+        HttpResponse.json({
+          quote: 'melt-verify',
+          fee_reserve: 2,
+          unit: 'sat',
+          state: 'UNPAID',
+          expiry: 0,
+          payment_preimage: null,
+          ...reply,
+        }),
+      ),
+    );
+    const wallet = new Wallet(mint, { unit });
+    await wallet.loadMint();
+    const verify = () => wallet.createMeltQuoteBolt11(ours, undefined, { verifyInvoice: true });
+
+    await expect(verify()).rejects.toThrow('Melt quote request does not match the invoice');
+    reply = { amount: 99, request: ours.toUpperCase() };
+    await expect(verify()).rejects.toThrow('Melt quote amount is below the invoice amount');
+    reply = { amount: 100, request: ours.toUpperCase() };
+    await expect(verify()).resolves.toMatchObject({ quote: 'melt-verify' });
+    // Without the option only the upper bound is checked
+    reply = { amount: 99, request: other };
+    await expect(wallet.createMeltQuoteBolt11(ours)).resolves.toBeDefined();
+  });
+
+  test('meltProofsBolt11 rejects a preimage that does not match the payment hash', async () => {
+    const testMint = new TestMint('http://mint.test', {
+      lightning: new FakeLightning({ paymentNetwork: lightning.paymentNetwork }),
+    });
+    let forgePreimage = false;
+    const wallet = new Wallet(testMint.url, {
+      requestFetch: async (input, init) => {
+        const res = await testMint.fetch(input, init);
+        if (!forgePreimage || !new Request(input, init).url.endsWith('/v1/melt/bolt11')) {
+          return res;
+        }
+        const body = (await res.json()) as Record<string, unknown>;
+        return HttpResponse.json({ ...body, payment_preimage: '00'.repeat(32) });
+      },
+    });
+    await wallet.loadMint();
+    const fund = async () => {
+      const mintQuote = await wallet.createMintQuoteBolt11(16);
+      testMint.lightning.pay(mintQuote.request);
+      return wallet.mintProofsBolt11(16, mintQuote);
+    };
+
+    const paid = await wallet.meltProofsBolt11(
+      await wallet.createMeltQuoteBolt11(lightning.createInvoice(10)),
+      await fund(),
+    );
+    expect(isBolt11Preimage(paid.quote.request, paid.quote.payment_preimage!)).toBe(true);
+
+    forgePreimage = true;
+    const quote = await wallet.createMeltQuoteBolt11(lightning.createInvoice(10));
+    const err = await wallet.meltProofsBolt11(quote, await fund()).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(InvalidPreimageError);
+    expect((err as InvalidPreimageError).quote.state).toBe(MeltQuoteState.PAID);
+    expect((err as InvalidPreimageError).change.length).toBeGreaterThan(0);
+  });
+
+  test('completeMelt checks the preimage against the invoice it quoted', async () => {
+    const testMint = new TestMint('http://mint.test');
+    // The response swaps in another invoice, with that invoice's preimage
+    const decoy = lightning.createInvoice(10);
+    const wallet = new Wallet(testMint.url, {
+      requestFetch: async (input, init) => {
+        const res = await testMint.fetch(input, init);
+        if (!new Request(input, init).url.endsWith('/v1/melt/bolt11')) return res;
+        const body = (await res.json()) as Record<string, unknown>;
+        return HttpResponse.json({
+          ...body,
+          request: decoy,
+          payment_preimage: lightning.lookup(decoy)!.preimage,
+        });
+      },
+    });
+    await wallet.loadMint();
+    const mintQuote = await wallet.createMintQuoteBolt11(16);
+    testMint.lightning.pay(mintQuote.request);
+    const proofs = await wallet.mintProofsBolt11(16, mintQuote);
+
+    const quote = await wallet.createMeltQuoteBolt11(lightning.createInvoice(10));
+    await expect(wallet.meltProofsBolt11(quote, proofs)).rejects.toThrow(InvalidPreimageError);
+  });
+
+  const stubPaidMelt = async (request: string, preimage: string, warn = vi.fn()) => {
+    server.use(
+      http.post(mintUrl + '/v1/melt/bolt11', () =>
+        HttpResponse.json({
+          quote: 'melt-stubbed',
+          amount: 10,
+          fee_reserve: 0,
+          unit: 'sat',
+          request,
+          state: MeltQuoteState.PAID,
+          expiry: 1234567890,
+          payment_preimage: preimage,
+          change: [],
+        }),
+      ),
+    );
+    const wallet = new Wallet(mint, {
+      unit,
+      logger: { error: vi.fn(), warn, info: vi.fn(), debug: vi.fn(), trace: vi.fn(), log: vi.fn() },
+    });
+    await wallet.loadMint();
+    const quote: MeltQuoteBolt11Response = {
+      quote: 'melt-stubbed',
+      amount: Amount.from(10),
+      fee_reserve: Amount.from(0),
+      request,
+      state: MeltQuoteState.UNPAID,
+      expiry: 1234567890,
+      payment_preimage: null,
+      unit: 'sat',
+      method: 'bolt11',
+    };
+    const inputs = [{ id: '00bd033559de27d0', amount: Amount.from(10), secret: 's1', C: 'C1' }];
+    return wallet.meltProofsBolt11(quote, inputs);
+  };
+
+  test('completeMelt throws when the preimage does not hash to the invoice', async () => {
+    await expect(stubPaidMelt(paidInvoice, '00'.repeat(32))).rejects.toThrow(InvalidPreimageError);
+    await expect(stubPaidMelt(paidInvoice, paidPreimage)).resolves.toBeDefined();
+  });
+
+  test('completeMelt warns and completes when the invoice does not decode', async () => {
+    const warn = vi.fn();
+    const { quote } = await stubPaidMelt('lnbc1pfake', paidPreimage, warn);
+    expect(quote.state).toBe(MeltQuoteState.PAID);
+    expect(warn).toHaveBeenCalledWith(
+      'Melt preimage not checked: the quoted invoice could not be decoded',
+      { quote: 'melt-stubbed' },
+    );
+  });
+});
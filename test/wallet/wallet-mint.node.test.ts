@@ -2125,6 +2125,47 @@ describe('generic mint/melt methods', () => {
       expect(quote.selected_fee_index).toBeNull();
       expect(quote.outpoint).toBeNull();
     });
+
+    test('createMeltQuoteOnchain verifies the address when asked', async () => {
+      const address = 'BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4';
+      let echoed = address.toLowerCase();
+      const requested: string[] = [];
+      server.use(
+        http.post(mintUrl + '/v1/melt/quote/onchain', async ({ request }) => {
+          const body = (await request.json()) as { request: string };
+          requested.push(body.request);
+          return HttpResponse.json({
+            quote: 'onchain-melt-verified',
+            request: echoed,
+            amount: 10,
+            unit: 'sat',
+            fee_options: [{ fee_index: 0, fee_reserve: 2, estimated_blocks: 6 }],
+            state: MeltQuoteState.UNPAID,
+            expiry: 3600,
+          });
+        }),
+      );
+      const wallet = new Wallet(mint, { unit: 'sat' });
+      await wallet.loadMint();
+
+      await expect(
+        wallet.createMeltQuoteOnchain('bc1qrecipient', 10, { verifyAddress: {} }),
+      ).rejects.toThrow('Invalid Bitcoin address');
+      await expect(
+        wallet.createMeltQuoteOnchain(address, 10, { verifyAddress: { network: 'regtest' } }),
+      ).rejects.toThrow('Bitcoin address is for mainnet, expected regtest');
+      expect(requested).toHaveLength(0);
+
+      const quote = await wallet.createMeltQuoteOnchain(address, 10, {
+        verifyAddress: { network: 'mainnet', scriptTypes: ['p2wpkh'] },
+      });
+      expect(quote.request).toBe(address.toLowerCase());
+
+      echoed = 'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0';
+      await expect(
+        wallet.createMeltQuoteOnchain(address, 10, { verifyAddress: {} }),
+      ).rejects.toThrow('Melt quote request does not match the address');
+    });
   });
 
   describe('wallet.meltProofs', () => {
@@ -0,0 +1,298 @@
+import { HttpResponse, http } from 'msw';
+import { describe, expect, test } from 'vitest';
+
+import {
+  Amount,
+  MeltQuoteState,
+  ProofStateConflictError,
+  Wallet,
+  createMemoryProofStore,
+  type MeltQuoteBolt11Response,
+  type Proof,
+  type ProofStore,
+  sumProofs,
+} from '../../src';
+
+import { useTestServer, mint, mintUrl, unit, token3sat } from './_setup';
+
+const server = useTestServer();
+
+const C_ = '021179b095a67380ab3285424b563b7aab9818bd38068e1930641b3dceb364d422';
+const C = '034268c0bd30b945adf578aca2dc0d1e26ef089869aaf9a08ba3a6da40fda1d8be';
+
+function proof(secret: string, amount: number): Proof {
+  return { id: '00bd033559de27d0', amount: Amount.from(amount), secret, C };
+}
+
+function echoSwap() {
+  server.use(
+    http.post(mintUrl + '/v1/swap', async ({ request }) => {
+      const { outputs } = (await request.json()) as {
+        outputs: Array<{ id: string; amount: number }>;
+      };
+      return HttpResponse.json({
+        signatures: outputs.map((o) => ({ id: o.id, amount: o.amount, C_ })),
+      });
+    }),
+  );
+}
+
+async function storeWallet(store: ProofStore = createMemoryProofStore()) {
+  const wallet = new Wallet(mint, { unit, proofStore: store });
+  await wallet.loadMint();
+  return { wallet, store };
+}
+
+async function states(store: ProofStore) {
+  return Object.fromEntries((await store.list()).map((e) => [e.proof.secret, e.state]));
+}
+
+describe('Wallet with a ProofStore', () => {
+  test('exposes the store', async () => {
+    const store = createMemoryProofStore();
+    const { wallet } = await storeWallet(store);
+    expect(wallet.proofStore).toBe(store);
+    expect(wallet.withKeyset(wallet.keysetId).proofStore).toBe(store);
+  });
+
+  test('balance and getStoredProofs throw without a store', async () => {
+    const wallet = new Wallet(mint, { unit });
+    await wallet.loadMint();
+    await expect(wallet.balance()).rejects.toThrow('Wallet has no proofStore configured');
+    await expect(wallet.getStoredProofs()).rejects.toThrow('Wallet has no proofStore configured');
+  });
+
+  test('receive stores the new proofs as unspent', async () => {
+    echoSwap();
+    const { wallet, store } = await storeWallet();
+    const received = await wallet.receive(token3sat);
+    const stored = await wallet.getStoredProofs();
+    expect(stored.map((p) => p.secret).sort()).toEqual(received.map((p) => p.secret).sort());
+    const balance = await wallet.balance();
+    expect(balance.unit).toBe('sat');
+    expect(balance.total).toEqual(Amount.from(3));
+    expect(balance.byKeyset).toEqual({ '00bd033559de27d0': Amount.from(3) });
+    expect(balance.pending).toEqual(Amount.zero());
+    // Foreign inputs are not adopted
+    expect(await store.list({ states: ['spent'] })).toHaveLength(0);
+  });
+
+  test('send via swap marks inputs spent, keep unspent and send pending', async () => {
+    echoSwap();
+    const { wallet, store } = await storeWallet();
+    const inputs = [proof('in-4', 4), proof('in-1', 1)];
+    const { keep, send } = await wallet.send(3, inputs);
+    expect(sumProofs(send).toNumber()).toBe(3);
+
+    const s = await states(store);
+    const spentInputs = inputs.filter((p) => s[p.secret] === 'spent');
+    expect(spentInputs.length).toBeGreaterThan(0);
+    for (const p of send) expect(s[p.secret]).toBe('pending');
+    for (const p of keep) expect(s[p.secret]).toBe('unspent');
+
+    const balance = await wallet.balance();
+    expect(balance.total).toEqual(Amount.from(sumProofs(keep).toNumber()));
+    expect(balance.pending).toEqual(Amount.from(3));
+  });
+
+  test('offline exact send adopts inputs and marks the sent proofs pending', async () => {
+    const { wallet, store } = await storeWallet();
+    const inputs = [proof('a', 1), proof('b', 2)];
+    const { send } = await wallet.send(2, inputs);
+    expect(send.map((p) => p.secret)).toEqual(['b']);
+    expect(await states(store)).toEqual({ a: 'unspent', b: 'pending' });
+  });
+
+  test('builder offline send records the sent proofs', async () => {
+    const { wallet, store } = await storeWallet();
+    await wallet.ops
+      .send(2, [proof('a', 1), proof('b', 2)])
+      .offlineExactOnly()
+      .run();
+    expect(await states(store)).toEqual({ a: 'unspent', b: 'pending' });
+  });
+
+  test('prepareSwapToSend reserves the selected inputs; releaseProofs frees them', async () => {
+    const { wallet, store } = await storeWallet();
+    const inputs = [proof('a', 4), proof('b', 8)];
+    const preview = await wallet.prepareSwapToSend(3, inputs);
+    const s = await states(store);
+    for (const p of preview.inputs) expect(s[p.secret]).toBe('reserved');
+    for (const p of preview.unselectedProofs ?? []) expect(s[p.secret]).toBe('unspent');
+    expect((await wallet.balance()).reserved).toEqual(
+      Amount.from(sumProofs(preview.inputs).toNumber()),
+    );
+
+    // A second operation cannot take the same inputs
+    await expect(wallet.prepareSwapToSend(3, preview.inputs)).rejects.toBeInstanceOf(
+      ProofStateConflictError,
+    );
+
+    await wallet.releaseProofs(preview.inputs);
+    expect(Object.values(await states(store))).toEqual(['unspent', 'unspent']);
+  });
+
+  test('a spent rejection (11001) marks inputs spent', async () => {
+    server.use(
+      http.post(mintUrl + '/v1/swap', () =>
+        HttpResponse.json({ code: 11001, detail: 'Token already spent.' }, { status: 400 }),
+      ),
+    );
+    const { wallet, store } = await storeWallet();
+    const preview = await wallet.prepareSwapToSend(3, [proof('a', 4)]);
+    await expect(wallet.completeSwap(preview)).rejects.toThrow('Token already spent.');
+    expect(await states(store)).toEqual({ a: 'spent' });
+  });
+
+  test('a refusal (11002) returns inputs to unspent', async () => {
+    server.use(
+      http.post(mintUrl + '/v1/swap', () =>
+        HttpResponse.json({ code: 11002, detail: 'Transaction is not balanced.' }, { status: 400 }),
+      ),
+    );
+    const { wallet, store } = await storeWallet();
+    const preview = await wallet.prepareSwapToSend(3, [proof('a', 4)]);
+    await expect(wallet.completeSwap(preview)).rejects.toThrow('Transaction is not balanced.');
+    expect(await states(store)).toEqual({ a: 'unspent' });
+  });
+
+  test.each([
+    [20005, 'Quote is pending.'],
+    [19999, 'Internal error.'],
+  ])('an error with an unknown outcome (%i) leaves inputs pending', async (code, detail) => {
+    server.use(
+      http.post(mintUrl + '/v1/swap', () => HttpResponse.json({ code, detail }, { status: 400 })),
+    );
+    const { wallet, store } = await storeWallet();
+    const preview = await wallet.prepareSwapToSend(3, [proof('a', 4)]);
+    await expect(wallet.completeSwap(preview)).rejects.toThrow(detail);
+    expect(await states(store)).toEqual({ a: 'pending' });
+  });
+
+  test('network failures leave inputs pending', async () => {
+    server.use(http.post(mintUrl + '/v1/swap', () => HttpResponse.error()));
+    const { wallet, store } = await storeWallet();
+    const preview = await wallet.prepareSwapToSend(3, [proof('a', 4)]);
+    await expect(wallet.completeSwap(preview)).rejects.toThrow();
+    expect(await states(store)).toEqual({ a: 'pending' });
+  });
+
+  test('spent proofs cannot be swapped again', async () => {
+    const { wallet, store } = await storeWallet();
+    await store.put([{ proof: proof('a', 4), state: 'spent', mintUrl, unit }]);
+    await expect(wallet.prepareSwapToSend(3, [proof('a', 4)])).rejects.toBeInstanceOf(
+      ProofStateConflictError,
+    );
+  });
+
+  test('store failures after the mint signed are logged, not thrown', async () => {
+    echoSwap();
+    const base = createMemoryProofStore();
+    let broken = false;
+    const store: ProofStore = {
+      put: (e) => (broken ? Promise.reject(new Error('store down')) : base.put(e)),
+      list: (f) => base.list(f),
+      transition: (s, to, from) => base.transition(s, to, from),
+      delete: (s) => base.delete(s),
+    };
+    const { wallet } = await storeWallet(store);
+    const preview = await wallet.prepareSwapToReceive(token3sat);
+    broken = true;
+    const { keep } = await wallet.completeSwap(preview);
+    expect(sumProofs(keep).toNumber()).toBe(3);
+  });
+
+  describe('melt', () => {
+    const meltQuote: MeltQuoteBolt11Response = {
+      quote: 'test_melt_quote',
+      amount: Amount.from(10),
+      fee_reserve: Amount.from(3),
+      request: 'bolt11request',
+      state: MeltQuoteState.UNPAID,
+      expiry: 1234567890,
+      payment_preimage: null,
+      unit: 'sat',
+      method: 'bolt11',
+    };
+    const inputs = () => [proof('m1', 8), proof('m2', 5)];
+
+    function meltResponds(state: MeltQuoteState, change: unknown[] = []) {
+      server.use(
+        http.post(mintUrl + '/v1/melt/bolt11', () =>
+          HttpResponse.json({
+            quote: 'test_melt_quote',
+            amount: 10,
+            unit: 'sat',
+            fee_reserve: 3,
+            state,
+            expiry: 1234567890,
+            payment_preimage: state === MeltQuoteState.PAID ? 'preimage' : null,
+            request: 'bolt11request',
+            change,
+          }),
+        ),
+      );
+    }
+
+    test('paid melt marks inputs spent and stores change', async () => {
+      meltResponds(MeltQuoteState.PAID, [{ id: '00bd033559de27d0', amount: 2, C_ }]);
+      const { wallet, store } = await storeWallet();
+      const { change } = await wallet.meltProofsBolt11(meltQuote, inputs());
+      const s = await states(store);
+      expect(s.m1).toBe('spent');
+      expect(s.m2).toBe('spent');
+      expect(s[change[0].secret]).toBe('unspent');
+      expect((await wallet.balance()).total).toEqual(Amount.from(2));
+    });
+
+    test('pending melt leaves inputs pending', async () => {
+      meltResponds(MeltQuoteState.PENDING);
+      const { wallet, store } = await storeWallet();
+      await wallet.meltProofsBolt11(meltQuote, inputs());
+      expect(await states(store)).toEqual({ m1: 'pending', m2: 'pending' });
+      expect((await wallet.balance()).pending).toEqual(Amount.from(13));
+    });
+
+    test('unpaid melt returns inputs to unspent', async () => {
+      meltResponds(MeltQuoteState.UNPAID);
+      const { wallet, store } = await storeWallet();
+      await wallet.meltProofsBolt11(meltQuote, inputs());
+      expect(await states(store)).toEqual({ m1: 'unspent', m2: 'unspent' });
+    });
+
+    test('prepareMelt reserves inputs', async () => {
+      const { wallet, store } = await storeWallet();
+      await wallet.prepareMelt('bolt11', meltQuote, inputs());
+      expect(await states(store)).toEqual({ m1: 'reserved', m2: 'reserved' });
+    });
+  });
+
+  test('minted proofs are stored as unspent', async () => {
+    server.use(
+      http.post(mintUrl + '/v1/mint/bolt11', async ({ request }) => {
+        const { outputs } = (await request.json()) as {
+          outputs: Array<{ id: string; amount: number }>;
+        };
+        return HttpResponse.json({
+          signatures: outputs.map((o) => ({ id: o.id, amount: o.amount, C_ })),
+        });
+      }),
+    );
+    const { wallet } = await storeWallet();
+    const proofs = await wallet.mintProofsBolt11(5, 'quote-id');
+    expect((await wallet.getStoredProofs()).map((p) => p.secret)).toEqual(
+      proofs.map((p) => p.secret),
+    );
+    expect((await wallet.balance()).total).toEqual(Amount.from(5));
+  });
+
+  test('balance only counts this mint and unit', async () => {
+    const { wallet, store } = await storeWallet();
+    await store.put([
+      { proof: proof('a', 1), state: 'unspent', mintUrl, unit },
+      { proof: proof('b', 2), state: 'unspent', mintUrl, unit: 'usd' },
+      { proof: proof('c', 4), state: 'unspent', mintUrl: 'http://other', unit },
+    ]);
+    expect((await wallet.balance()).total).toEqual(Amount.from(1));
+  });
+});
@@ -0,0 +1,108 @@
+import { schnorr } from '@noble/curves/secp256k1.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import { describe, expect, test } from 'vitest';
+
+import { Wallet, createMemoryProofStore, getEncodedToken, sumProofs } from '../../src';
+import { TestMint } from '../../src/testing';
+
+function keyPair(fill: number) {
+  const bytes = new Uint8Array(32).fill(fill);
+  return { privkey: bytesToHex(bytes), pubkey: '02' + bytesToHex(schnorr.getPublicKey(bytes)) };
+}
+const sender = keyPair(7);
+const recipient = keyPair(9);
+
+async function setup() {
+  const mint = new TestMint('http://mint.test');
+  const wallet = new Wallet(mint.url, {
+    requestFetch: mint.fetch,
+    proofStore: createMemoryProofStore(),
+  });
+  await wallet.loadMint();
+  const receiver = new Wallet(mint.url, { requestFetch: mint.fetch });
+  await receiver.loadMint();
+  const quote = await wallet.createMintQuoteBolt11(64);
+  mint.lightning.pay(quote.request);
+  const proofs = await wallet.mintProofsBolt11(64, quote);
+  return { wallet, receiver, proofs };
+}
+
+describe('wallet.reclaim', () => {
+  test('swaps an unclaimed token back', async () => {
+    const { wallet, proofs } = await setup();
+    const { send } = await wallet.send(10, proofs);
+    const token = getEncodedToken({ mint: wallet.mint.mintUrl, unit: 'sat', proofs: send });
+
+    const result = await wallet.reclaim(token);
+    expect(result.reclaimed.map((p) => p.secret)).toEqual(send.map((p) => p.secret));
+    expect(sumProofs(result.proofs).toNumber()).toBe(10);
+    expect(result.spent).toEqual([]);
+    const balance = await wallet.balance();
+    expect(balance.total.toNumber()).toBe(64);
+    expect(balance.pending.toNumber()).toBe(0);
+  });
+
+  test('leaves claimed proofs and marks them spent', async () => {
+    const { wallet, receiver, proofs } = await setup();
+    const { send } = await wallet.send(10, proofs);
+    await receiver.receive(send);
+
+    const result = await wallet.reclaim(send);
+    expect(result.proofs).toEqual([]);
+    expect(result.reclaimed).toEqual([]);
+    expect(sumProofs(result.spent).toNumber()).toBe(10);
+    expect(await wallet.getStoredProofs('pending')).toEqual([]);
+    expect((await wallet.balance()).total.toNumber()).toBe(54);
+  });
+
+  test('uses the refund path of a locked token once locktime passes', async () => {
+    const { wallet, receiver, proofs } = await setup();
+    const now = Math.floor(Date.now() / 1000);
+    const lock = (locktime: number) => ({
+      kind: 'P2PK' as const,
+      data: recipient.pubkey,
+      locktime,
+      refundKeys: [sender.pubkey],
+    });
+    const { send: expired, keep } = await wallet.ops
+      .send(8, proofs)
+      .asP2PK(lock(now - 60))
+      .run();
+    const { send: active } = await wallet.ops
+      .send(4, keep)
+      .asP2PK(lock(now + 3600))
+      .run();
+
+    const locked = await wallet.reclaim(active, { privkey: sender.privkey });
+    expect(locked.locked).toHaveLength(active.length);
+    expect(locked.unlocksAt).toBe(now + 3600);
+    expect(locked.proofs).toEqual([]);
+
+    const withoutKey = await wallet.reclaim(expired);
+    expect(withoutKey.locked).toHaveLength(expired.length);
+    expect(withoutKey.unlocksAt).toBeUndefined();
+
+    const refunded = await wallet.reclaim(expired, { privkey: sender.privkey });
+    expect(sumProofs(refunded.proofs).toNumber()).toBe(8);
+    expect(refunded.locked).toEqual([]);
+    await expect(receiver.receive(expired, { privkey: recipient.privkey })).rejects.toThrow();
+  });
+
+  test('waits for afterMs and can be called off', async () => {
+    const { wallet, receiver, proofs } = await setup();
+    const { send, keep } = await wallet.send(10, proofs);
+    const started = Date.now();
+    const pending = wallet.reclaim(send, { afterMs: 50 });
+    await receiver.receive(send);
+    const result = await pending;
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+    expect(sumProofs(result.spent).toNumber()).toBe(10);
+
+    const { send: other } = await wallet.send(5, keep);
+    const ac = new AbortController();
+    const cancelled = wallet.reclaim(other, { afterMs: 60_000, signal: ac.signal });
+    ac.abort();
+    await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+    expect(sumProofs(await wallet.getStoredProofs('pending')).toNumber()).toBe(5);
+  });
+});
@@ -73,11 +73,20 @@ export default defineConfig(({ command }) => {
       target: 'es2020',
       emptyOutDir: true,
       lib: {
-        entry: { 'cashu-ts': resolve(__dirname, 'src/index.ts') },
+        // The IIFE bundle takes a single entry; the test mint ships with the ES build only.
+        entry:
+          format === 'iife'
+            ? { 'cashu-ts': resolve(__dirname, 'src/index.ts') }
+            : {
+                index: resolve(__dirname, 'src/index.ts'),
+                testing: resolve(__dirname, 'src/testing/index.ts'),
+              },
         name: 'cashuts',
         formats: [format],
-        fileName: (outFormat) =>
-          format === 'iife' ? `cashu-ts.${outFormat}.js` : `cashu-ts.es.js`,
+        fileName: (outFormat, entryName) =>
+          format === 'iife'
+            ? `cashu-ts.${outFormat}.js`
+            : `${entryName === 'index' ? 'cashu-ts' : entryName}.es.js`,
       },
       rollupOptions: {
         external: makeExternal(format),